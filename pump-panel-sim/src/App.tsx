@@ -7,6 +7,7 @@
 
 import React from 'react';
 import Panel from './ui/Panel';
+import { SimulationProvider } from './sim/SimulationContext';
 import './App.css';
 
 class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasError: boolean}> {
@@ -41,7 +42,9 @@ export default function App() {
   console.log('App rendering');
   return (
     <ErrorBoundary>
-      <Panel />
+      <SimulationProvider>
+        <Panel />
+      </SimulationProvider>
     </ErrorBoundary>
   );
 }
\ No newline at end of file
@@ -68,4 +68,93 @@ export function getHydrantFlowGuidance(
   } else {
     return `GOOD SUPPLY: Low pressure drop (${dropPercent.toFixed(0)}%). Hydrant can provide additional flow if needed.`;
   }
-}
\ No newline at end of file
+}
+/** Exponent relating flow to pressure drop in water mains (Q ∝ ΔP^0.54) */
+const MAIN_FLOW_EXPONENT = 1.85;
+
+/**
+ * Hydrant residual pressure at a flow, from its flow test
+ * The main loses pressure with flow to the 1.85 power:
+ * P = Ps - (Ps - Pr) * (Q / Qt)^1.85
+ *
+ * @param staticPSI Static pressure (no flow)
+ * @param residualPSI Residual pressure during test flow
+ * @param testFlowGPM Flow rate during pressure test
+ * @param flowGPM Flow drawn from the hydrant
+ * @returns Residual pressure at that flow (negative once the main is overdrawn)
+ */
+export function hydrantResidualAtFlow(
+  staticPSI: number,
+  residualPSI: number,
+  testFlowGPM: number,
+  flowGPM: number
+): number {
+  const drop = Math.max(0, staticPSI - residualPSI);
+  return staticPSI - drop * Math.pow(Math.max(0, flowGPM) / testFlowGPM, MAIN_FLOW_EXPONENT);
+}
+
+/**
+ * Flow a hydrant delivers at a residual pressure, from its flow test
+ * Q = Qt * ((Ps - P) / (Ps - Pr))^0.54
+ *
+ * @param staticPSI Static pressure (no flow)
+ * @param residualPSI Residual pressure during test flow
+ * @param testFlowGPM Flow rate during pressure test
+ * @param targetResidualPSI Residual pressure to hold (20 PSI is the usual floor)
+ * @returns Available flow in GPM (Infinity for a main with no measured drop)
+ */
+export function hydrantFlowAtResidual(
+  staticPSI: number,
+  residualPSI: number,
+  testFlowGPM: number,
+  targetResidualPSI: number = 20
+): number {
+  if (targetResidualPSI >= staticPSI) return 0;
+  const drop = staticPSI - residualPSI;
+  if (drop <= 0) return Infinity;
+  return testFlowGPM * Math.pow((staticPSI - targetResidualPSI) / drop, 1 / MAIN_FLOW_EXPONENT);
+}
+
+/**
+ * Live hydrant guidance for the operator
+ */
+export interface HydrantSupplyGuidance {
+  /** Drop from static to the current residual as a percentage of static */
+  dropPercent: number;
+  /** More lines the size of those flowing the hydrant can supply (percentage method) */
+  additionalLines: number;
+  /** Flow available with 20 PSI left at the intake */
+  availableAt20PSI: number;
+  message: string;
+}
+
+/**
+ * Percentage method: compare the intake residual with the hydrant's static
+ * pressure while flowing. A drop of up to 10% leaves room for three more
+ * lines of the same flow, up to 15% two more, up to 25% one more; past 25%
+ * there may be a little more water but not another equal line.
+ *
+ * @param staticPSI Static pressure read before flowing
+ * @param residualPSI Intake pressure now
+ * @param flowGPM Flow the pump is taking now
+ */
+export function getHydrantSupplyGuidance(
+  staticPSI: number,
+  residualPSI: number,
+  flowGPM: number
+): HydrantSupplyGuidance {
+  const dropPercent = staticPSI > 0 ? Math.max(0, ((staticPSI - residualPSI) / staticPSI) * 100) : 100;
+  const additionalLines = dropPercent <= 10 ? 3 : dropPercent <= 15 ? 2 : dropPercent <= 25 ? 1 : 0;
+  const availableAt20PSI = flowGPM > 0 ? hydrantFlowAtResidual(staticPSI, residualPSI, flowGPM) : 0;
+
+  let message: string;
+  if (flowGPM <= 0) {
+    message = `Static ${staticPSI.toFixed(0)} PSI: flow water to gauge the hydrant`;
+  } else if (additionalLines > 0) {
+    const lineWord = additionalLines === 1 ? 'line' : 'lines';
+    message = `${dropPercent.toFixed(0)}% drop: ${additionalLines} more ${lineWord} of ${flowGPM.toFixed(0)} GPM available`;
+  } else {
+    message = `${dropPercent.toFixed(0)}% drop: no more equal lines, consider another supply`;
+  }
+  return { dropPercent, additionalLines, availableAt20PSI, message };
+}
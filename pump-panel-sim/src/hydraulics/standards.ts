@@ -45,4 +45,35 @@ export const HOSE_C = {
   LDH_4: 140,
   /** Large diameter hose 5 inch (C = 140) */
   LDH_5: 140,
-} as const;
\ No newline at end of file
+  /** Rubber hard suction hose (C = 130) */
+  HARD_SUCTION: 130,
+} as const;
+
+/**
+ * Standard appliance friction losses in PSI
+ * 
+ * Fireground rule-of-thumb values used when an appliance has no
+ * measured loss of its own.
+ * 
+ * - Wyes, gated wyes, siameses and manifolds: 10 PSI
+ * - Standpipe systems: 25 PSI regardless of flow
+ */
+export const APPLIANCE_LOSS_PSI = {
+  /** Plain wye (10 PSI) */
+  WYE: 10,
+  /** Gated wye (10 PSI) */
+  GATED_WYE: 10,
+  /** Siamese (10 PSI) */
+  SIAMESE: 10,
+  /** Standpipe system (25 PSI) */
+  STANDPIPE: 25,
+  /** Portable manifold (10 PSI) */
+  MANIFOLD: 10,
+} as const;
+
+/**
+ * Height of one building floor in feet
+ * 
+ * At 0.434 PSI/ft this gives the familiar ~5 PSI per floor above grade.
+ */
+export const FLOOR_HEIGHT_FT = 10;
@@ -4,6 +4,7 @@
 import { useEffect, useState } from 'react';
 import { connect, disconnect, onMessage, broadcast, type InstructorMessage } from './ws';
 import type { Action } from '@/sim/actions';
+import { DEFAULT_FOAM_LEAK_GPM, DEFAULT_TANK_LEAK_GPM } from '@/sim/leaks';
 
 export function useInstructor(
   room: string,
@@ -34,15 +35,37 @@ export function useInstructor(
             break;
           case 'INTAKE_FAILURE':
             if (msg.intakeId) {
-              dispatch({ type: 'SCENARIO_INTAKE_FAILURE', intakeId: msg.intakeId });
+              dispatch({ type: 'SCENARIO_INTAKE_FAILURE', intakeId: msg.intakeId, residualPsi: msg.value ?? 0 });
             }
             break;
           case 'TANK_LEAK':
-            dispatch({ type: 'SCENARIO_TANK_LEAK' });
+            dispatch({ type: 'SCENARIO_TANK_LEAK', rateGpm: msg.value ?? DEFAULT_TANK_LEAK_GPM });
+            break;
+          case 'FOAM_LEAK':
+            dispatch({ type: 'SCENARIO_FOAM_LEAK', rateGpm: msg.value ?? DEFAULT_FOAM_LEAK_GPM });
+            break;
+          case 'CLEAR_TANK_LEAK':
+            dispatch({ type: 'SCENARIO_CLEAR_TANK_LEAK' });
+            break;
+          case 'CLEAR_FOAM_LEAK':
+            dispatch({ type: 'SCENARIO_CLEAR_FOAM_LEAK' });
             break;
           case 'GOVERNOR_FAILURE':
             dispatch({ type: 'SCENARIO_GOVERNOR_FAILURE' });
             break;
+          case 'FAULT_START':
+            if (msg.fault) {
+              dispatch({ type: 'FAULT_START', fault: msg.fault, id: msg.faultId });
+            }
+            break;
+          case 'FAULT_CLEAR':
+            if (msg.faultId) {
+              dispatch({ type: 'FAULT_CLEAR', id: msg.faultId });
+            }
+            break;
+          case 'FAULT_CLEAR_ALL':
+            dispatch({ type: 'FAULT_CLEAR_ALL' });
+            break;
         }
       } else if (msg.type === 'SET_PARAMETER' && msg.parameter) {
         switch (msg.parameter) {
@@ -51,6 +74,21 @@ export function useInstructor(
               dispatch({ type: 'SET_INTAKE_PRESSURE', intakeId: msg.intakeId, psi: msg.value });
             }
             break;
+          case 'governorTuning':
+            if (msg.tuning) {
+              dispatch({ type: 'GOVERNOR_TUNING_SET', tuning: msg.tuning });
+            }
+            break;
+          case 'draftSite':
+            if (msg.draftSite) {
+              dispatch({ type: 'DRAFT_SITE_SET', site: msg.draftSite });
+            }
+            break;
+          case 'hydrant':
+            if (msg.hydrant) {
+              dispatch({ type: 'HYDRANT_SET', hydrant: msg.hydrant });
+            }
+            break;
           // Additional parameters can be handled here
         }
       }
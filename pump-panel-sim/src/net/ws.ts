@@ -3,15 +3,32 @@
  * Connects to Cloudflare Durable Objects Worker for real-time collaboration
  */
 
+import type { DraftSite, FaultSpec, GovernorTuning, HydrantSupply } from '@/sim/model';
+
 export interface InstructorMessage {
   type: 'control_change' | 'state_sync' | 'reset' | 'scenario_load' | 'SCENARIO_EVENT' | 'SET_PARAMETER';
   data?: any;
   // Instructor command fields
-  event?: 'HOSE_BURST' | 'INTAKE_FAILURE' | 'TANK_LEAK' | 'GOVERNOR_FAILURE';
-  parameter?: 'hydrantPressure' | 'tankLevel';
-  value?: number;
+  event?:
+    | 'HOSE_BURST'
+    | 'INTAKE_FAILURE'
+    | 'TANK_LEAK'
+    | 'FOAM_LEAK'
+    | 'CLEAR_TANK_LEAK'
+    | 'CLEAR_FOAM_LEAK'
+    | 'GOVERNOR_FAILURE'
+    | 'FAULT_START'
+    | 'FAULT_CLEAR'
+    | 'FAULT_CLEAR_ALL';
+  parameter?: 'hydrantPressure' | 'tankLevel' | 'governorTuning' | 'draftSite' | 'hydrant';
+  value?: number; // Parameter value, residual intake PSI for INTAKE_FAILURE, or leak GPM
   lineId?: string; // For HOSE_BURST events
   intakeId?: string; // For intake-related events
+  fault?: FaultSpec; // For FAULT_START events
+  faultId?: string; // Registry id for FAULT_START and FAULT_CLEAR events
+  tuning?: GovernorTuning; // For governorTuning parameter changes
+  draftSite?: Partial<DraftSite>; // For draftSite parameter changes
+  hydrant?: Partial<HydrantSupply>; // For hydrant parameter changes
 }
 
 let ws: WebSocket | null = null;
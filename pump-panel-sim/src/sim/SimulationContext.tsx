@@ -1,47 +1,70 @@
 /**
  * React Context for simulation state management
- * Provides state, solver results, and dispatch to all components
+ * Provides PumpState, step diagnostics, dispatch, session recording/replay, trend history and a seeded RNG to all components
  */
 
-import React, { createContext, useContext, useReducer, useEffect, useRef, useMemo } from 'react';
-import { createInitialState } from './state';
-import type { SimState } from './state';
-import { reducer } from './actions';
+import React, { createContext, useContext, useReducer, useEffect, useRef, useMemo, useState } from 'react';
+import type { PumpState } from './model';
+import type { SimulationDiagnostics } from './engine';
+import { simulationReducer, createInitialSnapshot } from './actions';
 import type { Action } from './actions';
-import { solveHydraulics } from './solver';
-import type { SolverResult } from './solver';
+import { FIXED_DT_SEC, consumeFixedSteps, systemClock } from './runner';
+import { APPARATUS_STORAGE_KEY, getApparatusProfile } from './apparatus';
+import type { ScenarioRun } from '../training/scenario-runtime';
+import { useSessionRecording } from './useSessionRecording';
+import type { SessionControls } from './useSessionRecording';
+import { TrendHistory } from './history';
+import { createSeededRng } from './random';
+import type { Rng } from './random';
+
+/**
+ * Initial snapshot for the apparatus last selected in Settings
+ */
+function createStartupSnapshot() {
+  return createInitialSnapshot(getApparatusProfile(localStorage.getItem(APPARATUS_STORAGE_KEY)));
+}
 
 interface SimulationContextValue {
-  state: SimState;
-  result: SolverResult;
+  state: PumpState;
+  diagnostics: SimulationDiagnostics;
+  scenario: ScenarioRun | null;
   dispatch: React.Dispatch<Action>;
+  session: SessionControls;
+  /** Trend history of the live simulation (not the replay) */
+  history: TrendHistory;
+  /** Random number source for instructor events */
+  rng: Rng;
 }
 
 const SimulationContext = createContext<SimulationContextValue | null>(null);
 
 export function SimulationProvider({ children }: { children: React.ReactNode }) {
-  const [state, dispatch] = useReducer(reducer, createInitialState());
-  const [result, setResult] = React.useState<SolverResult>(() => solveHydraulics(state));
+  const [live, liveDispatch] = useReducer(simulationReducer, undefined, createStartupSnapshot);
+  // Everything dispatched goes through the recorder; a replay replaces the displayed snapshot
+  const { snapshot, dispatch, session } = useSessionRecording(live, liveDispatch);
   const animationFrameRef = useRef<number>();
+  const [history] = useState(() => new TrendHistory());
+  const [rng] = useState(() => createSeededRng(systemClock.now()));
 
-  // Run solver on every state change
   useEffect(() => {
-    const newResult = solveHydraulics(state);
-    setResult(newResult);
-  }, [state]);
+    history.record(live);
+  }, [history, live]);
 
-  // Animation loop for continuous updates (RPM changes, foam depletion, etc.)
+  // Animation loop: advance the engine in fixed timesteps (RPM changes, foam depletion, etc.)
+  // Real elapsed time is accumulated so each step matches SimulationRunner's fixed dt
   useEffect(() => {
-    let lastTickTime = Date.now();
+    let lastFrameTime = systemClock.now();
+    let accumulatorSec = 0;
     
     const animate = () => {
-      const now = Date.now();
-      const deltaTime = (now - lastTickTime) / 1000; // Convert to seconds
+      const now = systemClock.now();
+      accumulatorSec += (now - lastFrameTime) / 1000; // Convert to seconds
+      lastFrameTime = now;
       
-      // Dispatch TICK action every 100ms (10 times per second)
-      if (deltaTime >= 0.1) {
-        dispatch({ type: 'TICK', deltaTime });
-        lastTickTime = now;
+      const { steps, remainderSec } = consumeFixedSteps(accumulatorSec, FIXED_DT_SEC);
+      accumulatorSec = remainderSec;
+      for (let i = 0; i < steps; i++) {
+        dispatch({ type: 'TICK', deltaTime: FIXED_DT_SEC });
       }
       
       animationFrameRef.current = requestAnimationFrame(animate);
@@ -58,8 +81,8 @@ export function SimulationProvider({ children }: { children: React.ReactNode })
 
   // PERFORMANCE: Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo(
-    () => ({ state, result, dispatch }),
-    [state, result, dispatch]
+    () => ({ state: snapshot.state, diagnostics: snapshot.diagnostics, scenario: snapshot.scenario, dispatch, session, history, rng }),
+    [snapshot, dispatch, session, history, rng]
   );
 
   return (
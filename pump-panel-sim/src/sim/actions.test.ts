@@ -0,0 +1,191 @@
+/**
+ * Tests for the PumpState reducer and simulation snapshot reducer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { reducer, simulationReducer, createInitialSnapshot } from './actions';
+import type { Action } from './actions';
+import type { PumpState } from './model';
+import { createInitialPumpState } from './pierce-puc';
+import { PRIMER_DUTY_SEC } from './priming';
+import { createWyedLayout } from './hose-layout';
+import { PiercePUC_Startup } from '../training/quiz';
+import { PIERCE_PUC_STARTUP } from '../training/startup-checklist';
+
+function applyAll(state: PumpState, actions: Action[]): PumpState {
+  return actions.reduce(reducer, state);
+}
+
+describe('reducer', () => {
+  it('ignores discharge changes while the pump is disengaged', () => {
+    const state = createInitialPumpState();
+    const next = reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 });
+
+    expect(next).toBe(state);
+    expect(next.dischargeValvePct.xlay1).toBe(0);
+  });
+
+  it('converts valve position to percent open', () => {
+    const state = applyAll(createInitialPumpState(), [
+      { type: 'PUMP_ENGAGE', engaged: true },
+      { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 0.5 },
+    ]);
+
+    expect(state.dischargeValvePct.xlay1).toBe(50);
+  });
+
+  it('accepts legacy discharge identifiers', () => {
+    const state = applyAll(createInitialPumpState(), [
+      { type: 'PUMP_ENGAGE', engaged: true },
+      { type: 'DISCHARGE_OPEN', id: 'crosslay2', open: 1 },
+    ]);
+
+    expect(state.dischargeValvePct.xlay2).toBe(100);
+  });
+
+  it('only enables foam on an open line', () => {
+    let state = reducer(createInitialPumpState(), { type: 'PUMP_ENGAGE', engaged: true });
+    expect(reducer(state, { type: 'FOAM_PCT', id: 'xlay1', pct: 0.6 })).toBe(state);
+
+    state = applyAll(state, [
+      { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 },
+      { type: 'FOAM_PCT', id: 'xlay1', pct: 0.6 },
+    ]);
+    expect(state.foam.enabledLines.has('xlay1')).toBe(true);
+    expect(state.foam.percent).toBe(0.6);
+  });
+
+  it('only starts the primer when drafting', () => {
+    const state = createInitialPumpState();
+    expect(reducer(state, { type: 'PRIMER_ACTIVATE' })).toBe(state);
+
+    const priming = applyAll(state, [
+      { type: 'WATER_SOURCE', source: 'draft' },
+      { type: 'PRIMER_ACTIVATE' },
+    ]);
+    expect(priming.primerActive).toBe(true);
+    expect(priming.primerTimeRemaining).toBe(PRIMER_DUTY_SEC);
+    expect(priming.interlocks.primed).toBe(false);
+    expect(reducer(priming, { type: 'PRIMER_RELEASE' }).primerActive).toBe(false);
+  });
+
+  it('works wye gates only on branches that exist', () => {
+    const base = createInitialPumpState();
+    const state: PumpState = {
+      ...base,
+      lineConfigs: { ...base.lineConfigs, d2_5_a: createWyedLayout(base.lineConfigs.d2_5_a) },
+    };
+
+    const gated = reducer(state, { type: 'BRANCH_GATE', id: 'd2_5_a', branchId: 'left', open: 0.3 });
+    expect(gated.lineConfigs.d2_5_a.branches!.map(branch => branch.gatePct)).toEqual([30, 100]);
+    expect(reducer(state, { type: 'BRANCH_GATE', id: 'd2_5_a', branchId: 'middle', open: 0 })).toBe(state);
+    expect(reducer(state, { type: 'BRANCH_GATE', id: 'xlay1', branchId: 'left', open: 0 })).toBe(state);
+  });
+
+  it('retunes the pressure governor only with sensible gains', () => {
+    const state = createInitialPumpState();
+    const tuning = { kp: 1, ki: 0.2, kd: 0, integralLimit: 500 };
+    expect(reducer(state, { type: 'GOVERNOR_TUNING_SET', tuning }).pump.governorTuning).toEqual(tuning);
+    expect(reducer(state, { type: 'GOVERNOR_TUNING_SET', tuning: { ...tuning, kp: -1 } })).toBe(state);
+    expect(reducer(state, { type: 'GOVERNOR_TUNING_SET', tuning: { ...tuning, integralLimit: 0 } })).toBe(state);
+  });
+
+  it('advances PumpState through simulateStep on TICK', () => {
+    let state = applyAll(createInitialPumpState(), [
+      { type: 'PUMP_ENGAGE', engaged: true },
+      { type: 'TANK_TO_PUMP', open: true },
+    ]);
+    for (let i = 0; i < 20; i++) {
+      state = reducer(state, { type: 'TICK', deltaTime: 0.1 });
+    }
+
+    // Governor brings the engine off zero once the pump is engaged
+    expect(state.runtime.rpm).toBeGreaterThan(0);
+    expect(state.dischargePsi).toBeGreaterThan(0);
+  });
+});
+
+describe('simulationReducer', () => {
+  it('drives gauges and line diagnostics from simulateStep on TICK', () => {
+    let snapshot = createInitialSnapshot();
+    snapshot = simulationReducer(snapshot, { type: 'PUMP_ENGAGE', engaged: true });
+    snapshot = simulationReducer(snapshot, { type: 'TANK_TO_PUMP', open: true });
+    snapshot = simulationReducer(snapshot, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 });
+
+    for (let i = 0; i < 50; i++) {
+      snapshot = simulationReducer(snapshot, { type: 'TICK', deltaTime: 0.1 });
+    }
+
+    const xlay1 = snapshot.diagnostics.lineHydraulics.get('xlay1');
+    expect(xlay1).toBeDefined();
+    // Fog nozzle flows in proportion to √NP around its 150 GPM @ 100 PSI rating
+    expect(xlay1!.flow).toBeCloseTo(150 * Math.sqrt(xlay1!.nozzlePressure / 100), 5);
+    expect(xlay1!.frictionLoss).toBeGreaterThan(0);
+    expect(snapshot.state.dischargePsi).toBeGreaterThan(100);
+    expect(snapshot.state.totalFlowGpm).toBe(snapshot.diagnostics.totalWaterGpm);
+  });
+
+  it('reports per-branch hydraulics for a wyed line', () => {
+    let snapshot = createInitialSnapshot();
+    const { state } = snapshot;
+    snapshot = {
+      ...snapshot,
+      state: {
+        ...state,
+        lineConfigs: { ...state.lineConfigs, d2_5_a: createWyedLayout(state.lineConfigs.xlay1) },
+      },
+    };
+    snapshot = simulationReducer(snapshot, { type: 'PUMP_ENGAGE', engaged: true });
+    snapshot = simulationReducer(snapshot, { type: 'TANK_TO_PUMP', open: true });
+    snapshot = simulationReducer(snapshot, { type: 'DISCHARGE_OPEN', id: 'd2_5_a', open: 1 });
+    for (let i = 0; i < 50; i++) {
+      snapshot = simulationReducer(snapshot, { type: 'TICK', deltaTime: 0.1 });
+    }
+
+    const line = snapshot.diagnostics.lineHydraulics.get('d2_5_a')!;
+    const [left, right] = line.branches!;
+    expect(left.flow).toBeGreaterThan(100);
+    expect(left.flow).toBeCloseTo(right.flow, 5);
+    expect(line.flow).toBeCloseTo(left.flow + right.flow, 10);
+  });
+
+  it('keeps the same snapshot when an action is rejected', () => {
+    const snapshot = createInitialSnapshot();
+    expect(simulationReducer(snapshot, { type: 'SETPOINT', value: 50 })).toBe(snapshot);
+  });
+});
+
+describe('Training checks on reducer-driven state', () => {
+  // Quiz and checklist read PumpState, so they must pass on state produced
+  // by the same reducer and step function the panel uses
+  it('completes the startup quiz', () => {
+    let snapshot = createInitialSnapshot();
+    const actions: Action[] = [
+      { type: 'PUMP_ENGAGE', engaged: true },
+      { type: 'TANK_TO_PUMP', open: true },
+      { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 },
+    ];
+    snapshot = actions.reduce(simulationReducer, snapshot);
+    for (let i = 0; i < 50; i++) {
+      snapshot = simulationReducer(snapshot, { type: 'TICK', deltaTime: 0.1 });
+    }
+
+    for (const step of PiercePUC_Startup) {
+      expect(step.check(snapshot.state), step.id).toBe(true);
+    }
+  });
+
+  it('completes the opening checklist steps', () => {
+    const initial = createInitialPumpState();
+    const [closed, engage, tankToPump] = PIERCE_PUC_STARTUP;
+    expect(closed.check(initial)).toBe(true);
+
+    const state = applyAll(initial, [
+      { type: 'PUMP_ENGAGE', engaged: true },
+      { type: 'TANK_TO_PUMP', open: true },
+      { type: 'TICK', deltaTime: 0.1 },
+    ]);
+    expect(engage.check(state)).toBe(true);
+    expect(tankToPump.check(state)).toBe(true);
+  });
+});
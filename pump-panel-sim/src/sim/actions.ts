@@ -1,22 +1,41 @@
 /**
  * Action types and reducer for simulation state management
  * Implements action dispatch pattern with interlock validation
+ *
+ * PumpState is the single canonical state: control actions update it here,
+ * and TICK advances it through simulateStep.
  */
 
-import type { SimState } from './state';
+import type { ApparatusProfile, DraftSite, FaultSpec, GovernorTuning, HydrantSupply, IntakeState, PumpState } from './model';
 import { canAdjustThrottle, canOpenDischarge, canChangeFoam, canSwitchGovernor } from './interlocks';
-import { updateTimeBasedState } from './engine';
+import { simulateStep, createEmptyDiagnostics } from './engine';
+import type { SimulationDiagnostics } from './engine';
+import { createInitialPumpState } from './pierce-puc';
+import { fittedDischargeId, isIntakeId } from './ids';
+import { canPrime, clearFault, findFaults, holdFaultedValves, startFault } from './faults';
+import { createStateFromSetup } from './setup-file';
+import { clampDraftSite } from './drafting';
+import { clampHydrantSupply, withStaticPsi } from './hydrant';
+import { clampIntake, connectSupply, intakePsiOnConnect, isIntakeSupply } from './intakes';
+import { PRIMER_DUTY_SEC, primerOverheated } from './priming';
+import type { SetupFile } from './setup-file';
+import { applyScenarioSetup, getFiredActions, startScenario, updateScenario } from '../training/scenario-runtime';
+import type { ScenarioRun } from '../training/scenario-runtime';
+import type { TrainingScenario } from '../training/definitions';
 
 export type Action =
   | { type: 'PUMP_ENGAGE'; engaged: boolean }
   | { type: 'GOVERNOR_MODE'; mode: 'RPM' | 'PRESSURE' }
   | { type: 'SETPOINT'; value: number }
   | { type: 'DISCHARGE_OPEN'; id: string; open: number }
+  | { type: 'BRANCH_GATE'; id: string; branchId: string; open: number }
   | { type: 'FOAM_PCT'; id: string; pct: number }
   | { type: 'FOAM_SYSTEM_ENABLE'; enabled: boolean }
-  | { type: 'WATER_SOURCE'; source: 'tank' | 'hydrant' | 'draft' | 'relay' }
+  | { type: 'WATER_SOURCE'; source: 'tank' | 'hydrant' | 'draft' | 'relay'; intakeId?: string }
+  | { type: 'INTAKE_SET'; intakeId: string; intake: Partial<IntakeState> }
   | { type: 'TANK_TO_PUMP'; open: boolean }
   | { type: 'PRIMER_ACTIVATE' }
+  | { type: 'PRIMER_RELEASE' }
   | { type: 'PRIMER_COMPLETE' }
   | { type: 'PRIMER_PROGRESS'; progress: number }
   | { type: 'ELEVATION'; ft: number }
@@ -24,98 +43,187 @@ export type Action =
   | { type: 'DRV_SETPOINT_SET'; psi: number }
   | { type: 'TANK_FILL_RECIRC_SET'; pct: number }
   | { type: 'TICK'; deltaTime: number }
+  | { type: 'LOAD_APPARATUS'; profile: ApparatusProfile }
+  | { type: 'LOAD_SETUP'; setup: SetupFile }
+  | { type: 'SCENARIO_START'; scenario: TrainingScenario }
+  | { type: 'SCENARIO_STOP' }
   // Instructor control actions
   | { type: 'SET_INTAKE_PRESSURE'; intakeId: string; psi: number }
   | { type: 'SCENARIO_HOSE_BURST'; lineId: string }
-  | { type: 'SCENARIO_INTAKE_FAILURE'; intakeId: string }
-  | { type: 'SCENARIO_TANK_LEAK' }
-  | { type: 'SCENARIO_GOVERNOR_FAILURE' };
+  | { type: 'SCENARIO_INTAKE_FAILURE'; intakeId: string; residualPsi: number }
+  | { type: 'SCENARIO_TANK_LEAK'; rateGpm: number }
+  | { type: 'SCENARIO_FOAM_LEAK'; rateGpm: number }
+  | { type: 'SCENARIO_CLEAR_TANK_LEAK' }
+  | { type: 'SCENARIO_CLEAR_FOAM_LEAK' }
+  | { type: 'SCENARIO_GOVERNOR_FAILURE' }
+  | { type: 'GOVERNOR_TUNING_SET'; tuning: GovernorTuning }
+  | { type: 'DRAFT_SITE_SET'; site: Partial<DraftSite> }
+  | { type: 'HYDRANT_SET'; hydrant: Partial<HydrantSupply> }
+  | { type: 'FAULT_START'; fault: FaultSpec; id?: string }
+  | { type: 'FAULT_CLEAR'; id: string }
+  | { type: 'FAULT_CLEAR_ALL' };
 
-export function reducer(state: SimState, action: Action): SimState {
+/**
+ * State held by the simulation provider: the pump state, the
+ * diagnostics produced by the most recent simulation step, and the
+ * training scenario being run (if any)
+ */
+export interface SimulationSnapshot {
+  state: PumpState;
+  diagnostics: SimulationDiagnostics;
+  scenario: ScenarioRun | null;
+  /** Simulated time since the simulation started in seconds */
+  elapsedSec: number;
+}
+
+/**
+ * Create initial snapshot for an apparatus (the Pierce PUC by default)
+ */
+export function createInitialSnapshot(profile?: ApparatusProfile): SimulationSnapshot {
+  return {
+    state: createInitialPumpState(profile),
+    diagnostics: createEmptyDiagnostics(),
+    scenario: null,
+    elapsedSec: 0,
+  };
+}
+
+export function reducer(state: PumpState, action: Action): PumpState {
   switch (action.type) {
     case 'PUMP_ENGAGE':
-      return { ...state, pump: { ...state.pump, engaged: action.engaged } };
+      return { ...state, interlocks: { ...state.interlocks, engaged: action.engaged } };
 
     case 'GOVERNOR_MODE':
-      if (!canSwitchGovernor(state)) {
+      if (action.mode !== state.runtime.governor && !canSwitchGovernor(state)) {
         console.warn('Cannot switch governor mode in current conditions');
         return state;
       }
-      return { ...state, pump: { ...state.pump, governor: action.mode } };
+      return { ...state, runtime: { ...state.runtime, governor: action.mode } };
 
     case 'SETPOINT':
+      // Setpoint drives the 0-100% throttle
       if (!canAdjustThrottle(state)) {
         console.warn('Pump must be engaged to adjust setpoint');
         return state;
       }
-      return { ...state, pump: { ...state.pump, setpoint: action.value } };
+      return { ...state, throttle: Math.max(0, Math.min(100, action.value)) };
 
-    case 'DISCHARGE_OPEN':
+    case 'DISCHARGE_OPEN': {
       if (!canOpenDischarge(state)) {
         console.warn('Pump must be engaged to open discharges');
         return state;
       }
+      const id = fittedDischargeId(state, action.id);
+      if (!id) return state;
+      if (findFaults(state, 'stuck_valve').some(fault => fault.spec.dischargeId === id)) {
+        console.warn(`Discharge ${id} valve is stuck`);
+        return state;
+      }
+      // Action carries valve position as 0-1, PumpState stores 0-100%
+      const pct = Math.max(0, Math.min(100, action.open * 100));
+      return { ...state, dischargeValvePct: { ...state.dischargeValvePct, [id]: pct } };
+    }
+
+    case 'BRANCH_GATE': {
+      const id = fittedDischargeId(state, action.id);
+      if (!id) return state;
+      const config = state.lineConfigs[id];
+      if (!config.branches?.some(branch => branch.id === action.branchId)) return state;
+      // Wye gates are worked at the wye, not the panel, so no pump interlock applies
+      const gatePct = Math.max(0, Math.min(100, action.open * 100));
+      const branches = config.branches.map(branch =>
+        branch.id === action.branchId ? { ...branch, gatePct } : branch
+      );
       return {
         ...state,
-        discharges: {
-          ...state.discharges,
-          [action.id]: { ...state.discharges[action.id], open: action.open },
-        },
+        lineConfigs: { ...state.lineConfigs, [id]: { ...config, branches } },
       };
+    }
 
-    case 'FOAM_PCT':
-      if (!canChangeFoam(state, action.id)) {
+    case 'FOAM_PCT': {
+      const id = fittedDischargeId(state, action.id);
+      if (!id || !canChangeFoam(state, id)) {
         console.warn('Pump must be engaged and discharge open to adjust foam');
         return state;
       }
+      const enabledLines = new Set(state.foam.enabledLines);
+      if (action.pct > 0) {
+        enabledLines.add(id);
+      } else {
+        enabledLines.delete(id);
+      }
       return {
         ...state,
-        discharges: {
-          ...state.discharges,
-          [action.id]: { ...state.discharges[action.id], foamPct: action.pct },
+        foam: {
+          ...state.foam,
+          enabledLines,
+          percent: action.pct > 0 ? action.pct : state.foam.percent,
         },
       };
+    }
+
+    case 'FOAM_SYSTEM_ENABLE':
+      return { ...state, foam: { ...state.foam, enabled: action.enabled } };
 
     case 'WATER_SOURCE': {
-      // Update all intakes to the new source
-      const newIntakes = { ...state.intakes };
-      Object.keys(newIntakes).forEach(id => {
-        newIntakes[id] = { ...newIntakes[id], source: action.source };
-      });
-      return { ...state, intakes: newIntakes };
+      // The tank feeds the pump directly; any other source is connected to one intake
+      // (the first unless named) and the other intakes keep what is on them
+      if (action.source === 'tank') return { ...state, waterSource: 'tank' };
+      const intakeId = action.intakeId ?? Object.keys(state.intakes)[0];
+      if (!intakeId || !isIntakeId(intakeId)) return state;
+      return connectSupply(state, action.source, intakeId);
+    }
+
+    case 'INTAKE_SET': {
+      // Connect or cap a supply, gate the valve or set the relief valve on one intake
+      if (!isIntakeId(action.intakeId) || !state.intakes[action.intakeId]) return state;
+      const { supply } = action.intake;
+      if (supply !== undefined && supply !== null && !isIntakeSupply(supply)) {
+        console.warn(`Unknown intake supply: ${String(supply)}`);
+        return state;
+      }
+      const intake = clampIntake({ ...state.intakes[action.intakeId], ...action.intake });
+      return {
+        ...state,
+        intakes: { ...state.intakes, [action.intakeId]: intake },
+        intakePsi: intakePsiOnConnect(state, action.intakeId, intake.supply),
+      };
     }
 
     case 'TANK_TO_PUMP':
       return { ...state, tankToPumpOpen: action.open };
 
     case 'PRIMER_ACTIVATE':
-      // Start priming cycle - only if water source is draft
-      if (state.intakes[Object.keys(state.intakes)[0]]?.source === 'draft') {
-        return {
-          ...state,
-          primerActive: true,
-          isActivePriming: true,
-          primingProgress: 0,
-          primed: false,
-        };
+      // Start the primer - only if water source is draft
+      // The engine evacuates the air, sets primed once the vacuum lifts water to the pump, and trips an overheated motor
+      if (state.waterSource !== 'draft') return state;
+      if (!state.primerActive && primerOverheated(state)) {
+        console.warn('Primer motor overheated; let it cool before priming again');
+        return state;
       }
-      return state;
+      return {
+        ...state,
+        primerActive: true,
+        interlocks: { ...state.interlocks, primed: false },
+      };
+
+    case 'PRIMER_RELEASE':
+      return { ...state, primerActive: false };
 
     case 'PRIMER_COMPLETE':
-      // Complete priming cycle
+      // Prime at once; a faulted primer stops without priming
       return {
         ...state,
         primerActive: false,
-        isActivePriming: false,
-        primed: true,
-        primingProgress: 15,
+        primingVacuumPsi: 0,
+        interlocks: { ...state.interlocks, primed: canPrime(state) },
       };
 
     case 'PRIMER_PROGRESS':
-      // Update priming progress during countdown
+      // Progress is seconds the primer has run from cold
       return {
         ...state,
-        primingProgress: action.progress,
+        primerTimeRemaining: Math.max(0, PRIMER_DUTY_SEC - action.progress),
       };
 
     case 'ELEVATION':
@@ -123,12 +231,12 @@ export function reducer(state: SimState, action: Action): SimState {
 
     case 'DRV_TOGGLE':
       // Toggle DRV enabled/disabled state
-      return { ...state, pump: { ...state.pump, drv: { ...state.pump.drv, enabled: action.enabled } } };
+      return { ...state, drv: { ...state.drv, enabled: action.enabled } };
 
     case 'DRV_SETPOINT_SET': {
       // Set DRV relief pressure setpoint (clamped to 75-300 PSI range)
       const clampedPsi = Math.max(75, Math.min(300, action.psi));
-      return { ...state, pump: { ...state.pump, drv: { ...state.pump.drv, setpointPsi: clampedPsi } } };
+      return { ...state, drv: { ...state.drv, setpointPsi: clampedPsi } };
     }
 
     case 'TANK_FILL_RECIRC_SET': {
@@ -137,59 +245,155 @@ export function reducer(state: SimState, action: Action): SimState {
       return { ...state, tankFillRecircPct: clampedPct };
     }
 
-    case 'TICK': {
-      // Perform time-based updates (foam consumption, temperature, tank water, etc.)
+    case 'TICK':
+      // Advance the simulation one step (hydraulics, governor, tank, foam, temperatures)
       // This action is dispatched every 100ms by the animation loop
-      const timeBasedUpdates = updateTimeBasedState(state, action.deltaTime);
-      // Merge time-based updates without overriding user inputs
-      return { ...state, ...timeBasedUpdates };
-    }
+      return simulateStep(state, action.deltaTime).state;
+
+    case 'LOAD_APPARATUS':
+      // Switching rigs starts over from that apparatus's initial state
+      return createInitialPumpState(action.profile);
+
+    case 'LOAD_SETUP':
+      // Imported setups replace the whole state, apparatus included
+      return createStateFromSetup(action.setup);
+
+    case 'SCENARIO_START':
+      // Scenario starting conditions; the run itself lives on the snapshot
+      return applyScenarioSetup(state, action.scenario.setup);
 
     // Instructor control actions
     case 'SET_INTAKE_PRESSURE':
-      // Directly set intake pressure (instructor override)
+      // Directly set intake pressure (instructor override); an intake on the hydrant moves the main's static pressure
+      if (!isIntakeId(action.intakeId)) return state;
       return {
         ...state,
-        intakes: {
-          ...state.intakes,
-          [action.intakeId]: { ...state.intakes[action.intakeId], psi: action.psi },
-        },
+        intakePsi: { ...state.intakePsi, [action.intakeId]: action.psi },
+        intakePressurePsi: action.psi,
+        hydrant: state.intakes[action.intakeId]?.supply === 'hydrant'
+          ? withStaticPsi(state.hydrant, action.psi)
+          : state.hydrant,
       };
 
-    case 'SCENARIO_HOSE_BURST':
-      // Force a discharge line to burst by closing it completely
+    case 'SCENARIO_HOSE_BURST': {
+      // Shorthand for the hose burst fault: the line is shut down until cleared
       // In a real scenario, this would trigger visual/audio feedback
-      return {
-        ...state,
-        discharges: {
-          ...state.discharges,
-          [action.lineId]: { ...state.discharges[action.lineId], open: 0 },
-        },
-      };
+      const id = fittedDischargeId(state, action.lineId);
+      if (!id) return state;
+      return holdFaultedValves(startFault(state, { kind: 'hose_burst', dischargeId: id }));
+    }
 
-    case 'SCENARIO_INTAKE_FAILURE':
+    case 'SCENARIO_INTAKE_FAILURE': {
       // Simulate hydrant failure by dropping intake pressure to near zero
+      // The residual pressure is chosen by the sender so the reducer stays deterministic
+      if (!isIntakeId(action.intakeId)) return state;
+      if (state.intakes[action.intakeId]?.supply === 'draft') {
+        // A draft has no supply pressure to drop: the hard suction draws air and the prime is lost
+        return { ...state, interlocks: { ...state.interlocks, primed: false }, primingVacuumPsi: 0 };
+      }
+      const psi = Math.max(0, action.residualPsi);
       return {
         ...state,
-        intakes: {
-          ...state.intakes,
-          [action.intakeId]: { ...state.intakes[action.intakeId], psi: Math.random() * 10 },
-        },
+        intakePsi: { ...state.intakePsi, [action.intakeId]: psi },
+        intakePressurePsi: psi,
+        // Only a hydrant failure takes the main down; a relay or draft intake leaves it alone
+        hydrant: state.intakes[action.intakeId]?.supply === 'hydrant' ? withStaticPsi(state.hydrant, psi) : state.hydrant,
       };
+    }
 
     case 'SCENARIO_TANK_LEAK':
-      // Accelerate tank water depletion (handled in engine.ts time-based updates)
-      // We'll add a flag to the state to indicate this scenario is active
-      return { ...state };
+      // Shorthand for the tank leak fault; the engine drains the tank until it is cleared
+      if (!(action.rateGpm > 0)) return state;
+      return startFault(state, { kind: 'tank_leak', rateGpm: action.rateGpm });
+
+    case 'SCENARIO_FOAM_LEAK':
+      if (!(action.rateGpm > 0)) return state;
+      return startFault(state, { kind: 'foam_leak', rateGpm: action.rateGpm });
+
+    case 'SCENARIO_CLEAR_TANK_LEAK':
+      return clearFault(state, 'tank_leak');
+
+    case 'SCENARIO_CLEAR_FOAM_LEAK':
+      return clearFault(state, 'foam_leak');
 
     case 'SCENARIO_GOVERNOR_FAILURE':
-      // Disable governor by switching to manual RPM mode with no automatic control
-      return {
-        ...state,
-        pump: { ...state.pump, governor: 'RPM' },
-      };
+      // Shorthand for the governor failure fault: engine speed freezes until cleared
+      return startFault(state, { kind: 'governor_failure' });
+
+    case 'GOVERNOR_TUNING_SET': {
+      // Retune the pressure governor (instructor tuning view); the integrator carries on
+      const { kp, ki, kd, integralLimit } = action.tuning;
+      if (![kp, ki, kd].every(gain => Number.isFinite(gain) && gain >= 0) || !(integralLimit > 0)) {
+        console.warn('Governor gains must be non-negative and the integral limit positive');
+        return state;
+      }
+      return { ...state, pump: { ...state.pump, governorTuning: { ...action.tuning } } };
+    }
+
+    case 'DRAFT_SITE_SET':
+      // Set up the static source (instructor); settings are clamped to what a rig can draft from
+      return { ...state, draft: clampDraftSite({ ...state.draft, ...action.site }) };
+
+    case 'HYDRANT_SET':
+      // Set up the hydrant and supply line (instructor); a residual above static is held at static
+      return { ...state, hydrant: clampHydrantSupply({ ...state.hydrant, ...action.hydrant }) };
+
+    case 'FAULT_START':
+      // Persistent fault; the engine applies it every step until it is cleared
+      // A stuck valve or burst line takes hold at once so the panel shows it straight away
+      if (
+        (action.fault.kind === 'stuck_valve' || action.fault.kind === 'hose_burst') &&
+        !fittedDischargeId(state, action.fault.dischargeId)
+      ) {
+        console.warn(`Discharge ${action.fault.dischargeId} is not fitted`);
+        return state;
+      }
+      return holdFaultedValves(startFault(state, action.fault, action.id));
+
+    case 'FAULT_CLEAR':
+      return clearFault(state, action.id);
+
+    case 'FAULT_CLEAR_ALL':
+      return state.activeFaults.length > 0 ? { ...state, activeFaults: [] } : state;
 
     default:
       return state;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Apply an action to the simulation snapshot
+ *
+ * TICK runs one simulation step and keeps its diagnostics so gauges and
+ * line readouts always come from the engine, then scores the running
+ * scenario against the new state and applies any scripted events it
+ * fires. Loading an apparatus or setup clears the previous diagnostics
+ * and ends any scenario. Every other action goes through the PumpState
+ * reducer.
+ */
+export function simulationReducer(snapshot: SimulationSnapshot, action: Action): SimulationSnapshot {
+  if (action.type === 'TICK') {
+    const { state, diagnostics } = simulateStep(snapshot.state, action.deltaTime);
+    const elapsedSec = snapshot.elapsedSec + action.deltaTime;
+    if (!snapshot.scenario) {
+      return { state, diagnostics, scenario: null, elapsedSec };
+    }
+    // Scripted instructor events land after scoring, so the next step sees them
+    const scenario = updateScenario(snapshot.scenario, state, action.deltaTime);
+    const scripted = getFiredActions(snapshot.scenario, scenario).reduce(reducer, state);
+    return { state: scripted, diagnostics, scenario, elapsedSec };
+  }
+  if (action.type === 'LOAD_APPARATUS' || action.type === 'LOAD_SETUP') {
+    return { ...snapshot, state: reducer(snapshot.state, action), diagnostics: createEmptyDiagnostics(), scenario: null };
+  }
+  if (action.type === 'SCENARIO_START') {
+    const state = reducer(snapshot.state, action);
+    return { ...snapshot, state, scenario: startScenario(action.scenario, state) };
+  }
+  if (action.type === 'SCENARIO_STOP') {
+    return snapshot.scenario ? { ...snapshot, scenario: null } : snapshot;
+  }
+
+  const state = reducer(snapshot.state, action);
+  return state === snapshot.state ? snapshot : { ...snapshot, state };
+}
@@ -0,0 +1,145 @@
+/**
+ * Tests for apparatus profiles: JSON validation and profile-driven state
+ */
+
+import { describe, it, expect } from 'vitest';
+import { APPARATUS_PROFILES, getApparatusProfile, parseApparatusProfile } from './apparatus';
+import { PIERCE_PUC_PROFILE, createInitialPumpState } from './pierce-puc';
+import { calculateMaxPDP, checkRunoutCondition } from './pump-curves';
+import { reducer, simulationReducer, createInitialSnapshot } from './actions';
+import { simulateStep } from './engine';
+import { applyActions, stepFor } from './test-helpers';
+import engine2000 from './apparatus/engine-2000.json';
+
+describe('parseApparatusProfile', () => {
+  it('loads the bundled rigs after the Pierce PUC', () => {
+    expect(APPARATUS_PROFILES[0]).toBe(PIERCE_PUC_PROFILE);
+    expect(APPARATUS_PROFILES.map(profile => profile.id)).toEqual(
+      expect.arrayContaining(['engine-1250', 'engine-2000', 'quint-1500'])
+    );
+  });
+
+  it('round-trips a profile through JSON', () => {
+    const json = JSON.parse(JSON.stringify(PIERCE_PUC_PROFILE));
+    expect(parseApparatusProfile(json)).toEqual(PIERCE_PUC_PROFILE);
+  });
+
+  it('names the first invalid field', () => {
+    const bad = { ...engine2000, pump: { ...engine2000.pump, ratedGpm: -1 } };
+    expect(() => parseApparatusProfile(bad)).toThrow('pump.ratedGpm must be a positive number');
+  });
+
+  it('rejects unknown discharges and curves that do not increase in flow', () => {
+    const unknownLine = { ...engine2000, discharges: [{ ...engine2000.discharges[0], id: 'bumper' }] };
+    expect(() => parseApparatusProfile(unknownLine)).toThrow('discharges[0].id');
+
+    const curve = [...engine2000.pump.curve].reverse();
+    expect(() => parseApparatusProfile({ ...engine2000, pump: { ...engine2000.pump, curve } }))
+      .toThrow('pump.curve[1].flowGpm must increase');
+  });
+
+  it('reads optional governor tuning and rejects negative gains', () => {
+    const governorTuning = { kp: 0.8, ki: 0.1, kd: 0, integralLimit: 500 };
+    const tuned = { ...engine2000, pump: { ...engine2000.pump, governorTuning } };
+    expect(parseApparatusProfile(tuned).pump.governorTuning).toEqual(governorTuning);
+    expect(parseApparatusProfile(engine2000).pump.governorTuning).toBeUndefined();
+
+    const negative = { ...engine2000, pump: { ...engine2000.pump, governorTuning: { ...governorTuning, ki: -1 } } };
+    expect(() => parseApparatusProfile(negative)).toThrow('pump.governorTuning.ki');
+  });
+
+  it('falls back to the Pierce PUC for an unknown selection', () => {
+    expect(getApparatusProfile('engine-2000').name).toBe('2000 GPM Engine');
+    expect(getApparatusProfile(null)).toBe(PIERCE_PUC_PROFILE);
+  });
+});
+
+describe('createInitialPumpState from a profile', () => {
+  const profile = getApparatusProfile('quint-1500');
+  const state = createInitialPumpState(profile);
+
+  it('sizes tanks and the DRV from the profile', () => {
+    expect(state.apparatusId).toBe('quint-1500');
+    expect(state.tankGallons).toBe(300);
+    expect(state.tankCapacityGallons).toBe(300);
+    expect(state.foam.tankCapacityGallons).toBe(profile.foamTankGallons);
+    expect(state.drv.setpointPsi).toBe(profile.drvSetpointPsi);
+  });
+
+  it('fits only the listed intakes and discharges', () => {
+    expect(Object.keys(state.intakePsi)).toEqual(['ldh_driver', 'ldh_officer']);
+    expect(Object.keys(state.lineConfigs)).toEqual(['xlay1', 'xlay2', 'd2_5_a', 'deck']);
+    expect(Object.keys(state.dischargeValvePct)).toEqual(['xlay1', 'xlay2', 'd2_5_a', 'deck']);
+    expect(state.lineConfigs.deck.hose.diameterIn).toBe(4.0);
+  });
+
+  it('refuses to open or burst a discharge the rig does not have', () => {
+    const engaged = reducer(state, { type: 'PUMP_ENGAGE', engaged: true });
+    expect(reducer(engaged, { type: 'DISCHARGE_OPEN', id: 'd2_5_c', open: 1 })).toBe(engaged);
+    expect(reducer(state, { type: 'SCENARIO_HOSE_BURST', lineId: 'xlay3' })).toBe(state);
+  });
+
+  it('replaces the state when another apparatus is loaded', () => {
+    const next = simulationReducer(createInitialSnapshot(), { type: 'LOAD_APPARATUS', profile });
+    expect(next.state.apparatusId).toBe('quint-1500');
+    expect(next.state.tankGallons).toBe(300);
+  });
+});
+
+describe('wyed line on the 1250 GPM pumper', () => {
+  const pumping = applyActions(
+    createInitialPumpState(getApparatusProfile('engine-1250')),
+    { type: 'PUMP_ENGAGE', engaged: true },
+    { type: 'TANK_TO_PUMP', open: true },
+    { type: 'GOVERNOR_MODE', mode: 'PRESSURE' },
+    { type: 'DISCHARGE_OPEN', id: 'd2_5_b', open: 1 }
+  );
+
+  it('flows both branches off the gated wye', () => {
+    expect(pumping.lineConfigs.d2_5_b.branches!.map(branch => branch.id)).toEqual(['left', 'right']);
+    const line = stepFor(pumping, 10).diagnostics.lineHydraulics.get('d2_5_b')!;
+    const [left, right] = line.branches!;
+    expect(left.flow).toBeGreaterThan(0);
+    expect(right.flow).toBeCloseTo(left.flow, 5);
+    expect(line.flow).toBeCloseTo(left.flow + right.flow, 5);
+  });
+
+  it('shuts a branch at its wye gate', () => {
+    const gated = applyActions(pumping, { type: 'BRANCH_GATE', id: 'd2_5_b', branchId: 'left', open: 0 });
+    const line = stepFor(gated, 10).diagnostics.lineHydraulics.get('d2_5_b')!;
+    const [left, right] = line.branches!;
+    expect(left.flow).toBe(0);
+    expect(right.flow).toBeGreaterThan(0);
+    expect(line.flow).toBeCloseTo(right.flow, 5);
+  });
+});
+
+describe('pump performance by apparatus', () => {
+  const large = getApparatusProfile('engine-2000');
+
+  it('rates the curve at the profile pump size', () => {
+    expect(calculateMaxPDP(2000, large.pump.ratedRpm, 0, large.pump)).toBeCloseTo(150, 10);
+    expect(calculateMaxPDP(2000, 2200, 0)).toBeLessThan(150);
+    expect(checkRunoutCondition(2000, large.pump)).toBeNull();
+    expect(checkRunoutCondition(2000)).not.toBeNull();
+  });
+
+  it('spans idle to max governed RPM across the throttle', () => {
+    const base = createInitialPumpState(large);
+    const state = {
+      ...base,
+      interlocks: { ...base.interlocks, engaged: true },
+      runtime: { ...base.runtime, governor: 'RPM' as const },
+      throttle: 100,
+    };
+    let next = simulateStep(state, 0.1).state;
+    expect(next.engine.commandedRpm).toBe(large.pump.governor.maxRpm);
+    // The engine takes a few seconds to spool up to it
+    expect(next.runtime.rpm).toBeLessThan(large.pump.governor.maxRpm);
+    for (let i = 0; i < 100; i++) {
+      // Hold RPM mode against the low-pressure switch to PSI mode
+      next = simulateStep({ ...next, runtime: { ...next.runtime, governor: 'RPM' } }, 0.1).state;
+    }
+    expect(next.runtime.rpm).toBe(large.pump.governor.maxRpm);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Apparatus profiles
+ * Parses JSON profiles describing a rig's pump rating and curve, tank sizes,
+ * discharges and intakes, and governor limits, and lists the profiles
+ * available for selection in Settings.
+ *
+ * Profiles are loaded at startup from src/sim/apparatus/*.json; drop a new
+ * file in that directory to add a rig, or import one from Settings.
+ */
+
+import type {
+  Appliance,
+  ApplianceType,
+  ApparatusProfile,
+  EngineSpec,
+  GovernorTuning,
+  HoseSegment,
+  IntakeId,
+  LineBranch,
+  LineConfig,
+  NozzleSpec,
+  NozzleType,
+  PumpSpec,
+  PumpState,
+  SiameseConfig,
+} from './model';
+import type { PumpCapacity } from './pump-curves';
+import { PIERCE_PUC_PROFILE } from './pierce-puc';
+import { isIntakeId, normalizeDischargeId } from './ids';
+import {
+  invalid,
+  parseJson,
+  readArray,
+  readBoolean,
+  readEnum,
+  readNonNegative,
+  readNumber,
+  readObject,
+  readOptional,
+  readPercent,
+  readPositive,
+  readString,
+} from './json-validation';
+
+/** localStorage key holding the selected apparatus profile id */
+export const APPARATUS_STORAGE_KEY = 'apparatusProfile';
+
+const NOZZLE_TYPES: readonly NozzleType[] = ['smooth', 'fog', 'master_smooth', 'master_fog'];
+
+const APPLIANCE_TYPES: readonly ApplianceType[] = ['wye', 'gated_wye', 'siamese', 'standpipe', 'manifold'];
+
+function parseCurve(value: unknown, path: string): PumpCapacity[] {
+  const points = readArray(value, path).map((item, i) => {
+    const point = readObject(item, `${path}[${i}]`);
+    return {
+      flowGpm: readNonNegative(point.flowGpm, `${path}[${i}].flowGpm`),
+      pressurePsi: readPositive(point.pressurePsi, `${path}[${i}].pressurePsi`),
+      percentCapacity: readNonNegative(point.percentCapacity, `${path}[${i}].percentCapacity`),
+    };
+  });
+  if (points.length < 2) invalid(path, 'needs at least two points');
+  points.forEach((point, i) => {
+    if (i > 0 && point.flowGpm <= points[i - 1].flowGpm) {
+      invalid(`${path}[${i}].flowGpm`, 'must increase along the curve');
+    }
+  });
+  return points;
+}
+
+function parseEngine(value: unknown, path: string): EngineSpec {
+  const engine = readObject(value, path);
+  const torqueCurve = readArray(engine.torqueCurve, `${path}.torqueCurve`).map((item, i) => {
+    const point = readObject(item, `${path}.torqueCurve[${i}]`);
+    return {
+      rpm: readPositive(point.rpm, `${path}.torqueCurve[${i}].rpm`),
+      torqueLbFt: readPositive(point.torqueLbFt, `${path}.torqueCurve[${i}].torqueLbFt`),
+    };
+  });
+  if (torqueCurve.length < 2) invalid(`${path}.torqueCurve`, 'needs at least two points');
+  torqueCurve.forEach((point, i) => {
+    if (i > 0 && point.rpm <= torqueCurve[i - 1].rpm) {
+      invalid(`${path}.torqueCurve[${i}].rpm`, 'must increase along the curve');
+    }
+  });
+  return {
+    torqueCurve,
+    inertiaLbFt2: readPositive(engine.inertiaLbFt2, `${path}.inertiaLbFt2`),
+    turboLagSec: readPositive(engine.turboLagSec, `${path}.turboLagSec`),
+  };
+}
+
+function parseGovernorTuning(value: unknown, path: string): GovernorTuning {
+  const tuning = readObject(value, path);
+  return {
+    kp: readNonNegative(tuning.kp, `${path}.kp`),
+    ki: readNonNegative(tuning.ki, `${path}.ki`),
+    kd: readNonNegative(tuning.kd, `${path}.kd`),
+    integralLimit: readPositive(tuning.integralLimit, `${path}.integralLimit`),
+  };
+}
+
+function parsePump(value: unknown, path: string): PumpSpec {
+  const pump = readObject(value, path);
+  const governor = readObject(pump.governor, `${path}.governor`);
+  const idleRpm = readPositive(governor.idleRpm, `${path}.governor.idleRpm`);
+  const maxRpm = readPositive(governor.maxRpm, `${path}.governor.maxRpm`);
+  if (maxRpm <= idleRpm) invalid(`${path}.governor.maxRpm`, 'must be above idleRpm');
+
+  const parsed: PumpSpec = {
+    ratedGpm: readPositive(pump.ratedGpm, `${path}.ratedGpm`),
+    ratedRpm: readPositive(pump.ratedRpm, `${path}.ratedRpm`),
+    curve: parseCurve(pump.curve, `${path}.curve`),
+    governor: { idleRpm, maxRpm },
+  };
+  const engine = readOptional(pump.engine, `${path}.engine`, parseEngine);
+  if (engine) parsed.engine = engine;
+  const governorTuning = readOptional(pump.governorTuning, `${path}.governorTuning`, parseGovernorTuning);
+  if (governorTuning) parsed.governorTuning = governorTuning;
+  return parsed;
+}
+
+function parseNozzle(value: unknown, path: string): NozzleSpec {
+  const nozzle = readObject(value, path);
+  const type = readEnum(nozzle.type, NOZZLE_TYPES, `${path}.type`);
+
+  if (type === 'smooth' || type === 'master_smooth') {
+    return { type, tipIn: readPositive(nozzle.tipIn, `${path}.tipIn`) };
+  }
+  return { type, targetGpm: readPositive(nozzle.targetGpm, `${path}.targetGpm`) };
+}
+
+function parseHoseSegment(value: unknown, path: string): HoseSegment {
+  const hose = readObject(value, path);
+  return {
+    diameterIn: readPositive(hose.diameterIn, `${path}.diameterIn`),
+    lengthFt: readPositive(hose.lengthFt, `${path}.lengthFt`),
+    C: readPositive(hose.C, `${path}.C`),
+  };
+}
+
+function parseSegments(value: unknown, path: string): HoseSegment[] {
+  return readArray(value, path).map((segment, i) => parseHoseSegment(segment, `${path}[${i}]`));
+}
+
+function parseAppliance(value: unknown, path: string): Appliance {
+  const appliance = readObject(value, path);
+  const type = readEnum(appliance.type, APPLIANCE_TYPES, `${path}.type`);
+  const lossPsi = readOptional(appliance.lossPsi, `${path}.lossPsi`, readNonNegative);
+  return lossPsi === undefined ? { type } : { type, lossPsi };
+}
+
+function parseBranch(value: unknown, path: string): LineBranch {
+  const branch = readObject(value, path);
+  const parsed: LineBranch = {
+    id: readString(branch.id, `${path}.id`),
+    segments: parseSegments(branch.segments, `${path}.segments`),
+    nozzle: parseNozzle(branch.nozzle, `${path}.nozzle`),
+    gatePct: readPercent(branch.gatePct, `${path}.gatePct`),
+  };
+  const elevationFt = readOptional(branch.elevationFt, `${path}.elevationFt`, readNumber);
+  const floors = readOptional(branch.floors, `${path}.floors`, readNonNegative);
+  if (elevationFt !== undefined) parsed.elevationFt = elevationFt;
+  if (floors !== undefined) parsed.floors = floors;
+  return parsed;
+}
+
+function parseSiamese(value: unknown, path: string): SiameseConfig {
+  const siamese = readObject(value, path);
+  const inlets = readArray(siamese.inlets, `${path}.inlets`).map((inlet, i) => {
+    const id = normalizeDischargeId(readString(inlet, `${path}.inlets[${i}]`));
+    if (!id) invalid(`${path}.inlets[${i}]`, `"${String(inlet)}" is not a known discharge`);
+    return id;
+  });
+  const outlet = readOptional(siamese.outlet, `${path}.outlet`, parseSegments);
+  return outlet === undefined ? { inlets } : { inlets, outlet };
+}
+
+/**
+ * Validate a discharge line configuration, including optional layouts
+ * (hose segments, appliances, elevation, wye branches and siamese inlets)
+ *
+ * @param value - Parsed JSON for one line
+ * @param path - Location of the line, used in error messages
+ * @returns Typed line configuration
+ * @throws Error naming the first invalid field
+ */
+export function parseLineConfig(value: unknown, path: string): LineConfig {
+  const line = readObject(value, path);
+  const id = normalizeDischargeId(readString(line.id, `${path}.id`));
+  if (!id) invalid(`${path}.id`, `"${String(line.id)}" is not a known discharge`);
+
+  const config: LineConfig = {
+    id,
+    hose: parseHoseSegment(line.hose, `${path}.hose`),
+    nozzle: parseNozzle(line.nozzle, `${path}.nozzle`),
+    foamCapable: readBoolean(line.foamCapable, `${path}.foamCapable`),
+  };
+
+  const segments = readOptional(line.segments, `${path}.segments`, parseSegments);
+  const appliances = readOptional(line.appliances, `${path}.appliances`, (items, itemsPath) =>
+    readArray(items, itemsPath).map((item, i) => parseAppliance(item, `${itemsPath}[${i}]`))
+  );
+  const elevationFt = readOptional(line.elevationFt, `${path}.elevationFt`, readNumber);
+  const floors = readOptional(line.floors, `${path}.floors`, readNonNegative);
+  const branches = readOptional(line.branches, `${path}.branches`, (items, itemsPath) =>
+    readArray(items, itemsPath).map((item, i) => parseBranch(item, `${itemsPath}[${i}]`))
+  );
+  const siamese = readOptional(line.siamese, `${path}.siamese`, parseSiamese);
+
+  if (segments !== undefined) config.segments = segments;
+  if (appliances !== undefined) config.appliances = appliances;
+  if (elevationFt !== undefined) config.elevationFt = elevationFt;
+  if (floors !== undefined) config.floors = floors;
+  if (branches !== undefined) config.branches = branches;
+  if (siamese !== undefined) config.siamese = siamese;
+  return config;
+}
+
+/**
+ * Validate a list of line configurations, rejecting repeated discharges
+ * and siamese inlets that are not in the list
+ */
+export function parseLineConfigs(value: unknown, path: string): LineConfig[] {
+  const lines = readArray(value, path).map((line, i) => parseLineConfig(line, `${path}[${i}]`));
+  const seen = new Set<string>();
+  lines.forEach((line, i) => {
+    if (seen.has(line.id)) invalid(`${path}[${i}].id`, `"${line.id}" is listed twice`);
+    seen.add(line.id);
+  });
+  const listed = new Set(lines.map(line => line.id));
+  lines.forEach((line, i) => {
+    line.siamese?.inlets.forEach((inlet, j) => {
+      if (!listed.has(inlet)) invalid(`${path}[${i}].siamese.inlets[${j}]`, `"${inlet}" is not a listed discharge`);
+    });
+  });
+  return lines;
+}
+
+function parseIntake(value: unknown, path: string): IntakeId {
+  const id = readString(value, path);
+  if (!isIntakeId(id)) invalid(path, `"${id}" is not a known intake`);
+  return id;
+}
+
+/**
+ * Validate a JSON apparatus profile
+ *
+ * @param data - Parsed JSON
+ * @param path - Name of the profile in error messages (nested profiles pass their location)
+ * @returns Typed profile
+ * @throws Error naming the first invalid field
+ */
+export function parseApparatusProfile(data: unknown, path: string = 'profile'): ApparatusProfile {
+  const profile = readObject(data, path);
+  return {
+    id: readString(profile.id, `${path}.id`),
+    name: readString(profile.name, `${path}.name`),
+    pump: parsePump(profile.pump, `${path}.pump`),
+    tankGallons: readNonNegative(profile.tankGallons, `${path}.tankGallons`),
+    foamTankGallons: readNonNegative(profile.foamTankGallons, `${path}.foamTankGallons`),
+    drvSetpointPsi: readPositive(profile.drvSetpointPsi, `${path}.drvSetpointPsi`),
+    intakes: readArray(profile.intakes, `${path}.intakes`)
+      .map((id, i) => parseIntake(id, `${path}.intakes[${i}]`)),
+    discharges: parseLineConfigs(profile.discharges, `${path}.discharges`),
+  };
+}
+
+/**
+ * Parse and validate apparatus profile file text
+ *
+ * @param text - File contents
+ * @returns Typed profile
+ * @throws Error describing the problem
+ */
+export function readApparatusProfile(text: string): ApparatusProfile {
+  return parseApparatusProfile(parseJson(text, 'profile'));
+}
+
+/**
+ * Parse the bundled profile files, skipping any that fail validation
+ */
+function loadProfileFiles(files: Record<string, unknown>): ApparatusProfile[] {
+  const profiles: ApparatusProfile[] = [];
+  for (const [file, data] of Object.entries(files)) {
+    try {
+      profiles.push(parseApparatusProfile(data));
+    } catch (error) {
+      console.warn(`Skipping apparatus profile ${file}:`, error);
+    }
+  }
+  return profiles;
+}
+
+/**
+ * Apparatus available for selection, starting with the built-in Pierce PUC
+ */
+export const APPARATUS_PROFILES: ApparatusProfile[] = [
+  PIERCE_PUC_PROFILE,
+  ...loadProfileFiles(import.meta.glob('./apparatus/*.json', { eager: true, import: 'default' })),
+];
+
+/**
+ * Look up an apparatus profile by id
+ *
+ * @param id - Profile id (e.g. a stored selection)
+ * @returns Matching profile, or the Pierce PUC when unknown
+ */
+export function getApparatusProfile(id: string | null | undefined): ApparatusProfile {
+  return APPARATUS_PROFILES.find(profile => profile.id === id) ?? PIERCE_PUC_PROFILE;
+}
+
+/**
+ * Apparatus profile a state is running on
+ * Built from the state so governor tuning and the DRV setpoint as set now are
+ * kept; a bundled rig keeps its name.
+ *
+ * @param state - Pump state
+ * @returns Profile suitable for export
+ */
+export function apparatusFromState(state: PumpState): ApparatusProfile {
+  const bundled = APPARATUS_PROFILES.find(profile => profile.id === state.apparatusId);
+  return {
+    id: state.apparatusId,
+    name: bundled?.name ?? state.apparatusId,
+    pump: state.pump,
+    tankGallons: state.tankCapacityGallons,
+    foamTankGallons: state.foam.tankCapacityGallons,
+    drvSetpointPsi: state.drv.setpointPsi,
+    intakes: Object.keys(state.intakePsi) as IntakeId[],
+    discharges: Object.values(state.lineConfigs),
+  };
+}
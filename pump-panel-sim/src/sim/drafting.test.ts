@@ -0,0 +1,142 @@
+/**
+ * Tests for drafting lift, suction losses and NPSH
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_LIFT_WARNING,
+  atmosphericPsi,
+  clampDraftSite,
+  createDraftSite,
+  draftIntakePsi,
+  maxDraftFlowGpm,
+  maxLiftFt,
+  vaporPressurePsi,
+} from './drafting';
+import { reducer } from './actions';
+import type { Action } from './actions';
+import { draftSiteWithFaults } from './faults';
+import { applyActions, runFor } from './test-helpers';
+import { simulateStep } from './engine';
+import { createInitialPumpState } from './pierce-puc';
+import { PIERCE_PUC_PUMP } from './pump-curves';
+import type { DraftSite, PumpState } from './model';
+
+const site = createDraftSite(PIERCE_PUC_PUMP);
+
+function maxFlow(changes: Partial<DraftSite>): number {
+  return maxDraftFlowGpm({ ...site, ...changes }, PIERCE_PUC_PUMP);
+}
+
+/** Pump primed on draft and throttled up steadily to 60% with both crosslays open */
+function drafting(liftFt: number, seconds: number, ...actions: Action[]): PumpState {
+  let state = applyActions(createInitialPumpState(), { type: 'PUMP_ENGAGE', engaged: true }, ...actions);
+  state = reducer(state, { type: 'DRAFT_SITE_SET', site: { liftFt } });
+  state = {
+    ...state,
+    waterSource: 'draft',
+    interlocks: { ...state.interlocks, primed: true },
+    runtime: { ...state.runtime, governor: 'RPM' },
+  };
+  state = reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 });
+  state = reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay2', open: 1 });
+  for (let i = 0; i < Math.round(seconds / 0.1); i++) {
+    // Hold RPM mode against the low-pressure switch to PSI mode
+    const throttle = Math.min(60, i);
+    state = simulateStep({ ...state, throttle, runtime: { ...state.runtime, governor: 'RPM' } }, 0.1).state;
+  }
+  return state;
+}
+
+describe('atmosphere and vapor pressure', () => {
+  it('thins with altitude', () => {
+    expect(atmosphericPsi(0)).toBeCloseTo(14.7, 1);
+    expect(atmosphericPsi(5000)).toBeCloseTo(12.2, 1);
+  });
+
+  it('interpolates vapor pressure with water temperature', () => {
+    expect(vaporPressurePsi(60)).toBeCloseTo(0.256);
+    expect(vaporPressurePsi(110)).toBeCloseTo((0.95 + 1.693) / 2);
+    expect(vaporPressurePsi(212)).toBeCloseTo(14.696);
+  });
+});
+
+describe('maxDraftFlowGpm', () => {
+  it('delivers rated capacity at the 10 ft rating lift and less as lift rises', () => {
+    expect(maxFlow({})).toBeGreaterThan(PIERCE_PUC_PUMP.ratedGpm);
+    expect(maxFlow({ liftFt: 20 })).toBeLessThan(maxFlow({ liftFt: 10 }));
+    expect(maxFlow({ liftFt: 25 })).toBeLessThan(maxFlow({ liftFt: 20 }));
+  });
+
+  it('falls with altitude, warm water, a fouled strainer and smaller or longer hard suction', () => {
+    const base = maxFlow({});
+    expect(maxFlow({ altitudeFt: 5000 })).toBeLessThan(base);
+    expect(maxFlow({ waterTempF: 120 })).toBeLessThan(base);
+    expect(maxFlow({ strainerBlockagePct: 50 })).toBeLessThan(base);
+    expect(maxFlow({ hardSuctionDiameterIn: 5 })).toBeLessThan(base);
+    expect(maxFlow({ hardSuctionLengthFt: 40 })).toBeLessThan(base);
+  });
+
+  it('cannot draft above the maximum lift', () => {
+    const liftFt = maxLiftFt(site, PIERCE_PUC_PUMP);
+    expect(liftFt).toBeGreaterThan(28);
+    expect(liftFt).toBeLessThan(32);
+    expect(maxLiftFt({ ...site, altitudeFt: 5000 }, PIERCE_PUC_PUMP)).toBeLessThan(liftFt - 4);
+    expect(maxFlow({ liftFt: liftFt + 0.5 })).toBe(0);
+  });
+});
+
+describe('draftIntakePsi', () => {
+  it('reads the lift at rest and more vacuum as flow rises', () => {
+    expect(draftIntakePsi(site, 0)).toBeCloseTo(-10 * 0.434);
+    expect(draftIntakePsi(site, 1000)).toBeLessThan(draftIntakePsi(site, 0) - 1);
+  });
+});
+
+describe('clampDraftSite', () => {
+  it('keeps each setting in range', () => {
+    expect(clampDraftSite({ ...site, liftFt: 50, hardSuctionDiameterIn: 2 })).toMatchObject({ liftFt: 35, hardSuctionDiameterIn: 4 });
+  });
+});
+
+describe('drafting in the simulation', () => {
+  it('flows normally from a 10 ft lift', () => {
+    const state = drafting(10, 10);
+    expect(state.totalFlowGpm).toBeGreaterThan(250);
+    expect(state.intakeVacuumInHg).toBeGreaterThan(9);
+    expect(state.warnings.has(MAX_LIFT_WARNING)).toBe(false);
+  });
+
+  it('does not cavitate at high RPM while the draft has suction head to spare', () => {
+    // Throttle up to full with only one crosslay flowing
+    const start = reducer(drafting(10, 10), { type: 'DISCHARGE_OPEN', id: 'xlay2', open: 0 });
+    const state = runFor(start, 5, current => ({ ...current, throttle: 100, runtime: { ...current.runtime, governor: 'RPM' } }));
+    expect(state.runtime.rpm).toBeGreaterThan(2000);
+    expect(state.intakeVacuumInHg).toBeGreaterThan(0);
+    expect(state.totalFlowGpm).toBeLessThan(maxFlow({ liftFt: 10 }));
+    expect(state.isCavitating).toBe(false);
+    expect(state.warnings.has('⚠️ CAVITATION DETECTED: Pump starved')).toBe(false);
+  });
+
+  it('starves the pump when the lift leaves too little suction head for the flow', () => {
+    const liftFt = 30;
+    const limitGpm = maxFlow({ liftFt });
+    const state = drafting(liftFt, 10);
+    expect(state.totalFlowGpm).toBeLessThan(limitGpm + 0.1 * PIERCE_PUC_PUMP.ratedGpm);
+    expect(state.totalFlowGpm).toBeLessThan(drafting(10, 10).totalFlowGpm);
+    expect(state.warnings.has(MAX_LIFT_WARNING)).toBe(true);
+    expect(state.isCavitating).toBe(true);
+  });
+
+  it('loses suction head to a clogged strainer fault', () => {
+    const clogged: Action = { type: 'FAULT_START', fault: { kind: 'clogged_strainer', blockagePct: 80 } };
+    const faulted = draftSiteWithFaults(applyActions(createInitialPumpState(), clogged));
+    expect(faulted.strainerBlockagePct).toBe(80);
+    expect(maxDraftFlowGpm(faulted, PIERCE_PUC_PUMP)).toBeLessThan(maxFlow({}));
+
+    const state = drafting(20, 10, clogged);
+    expect(drafting(20, 10).warnings.has(MAX_LIFT_WARNING)).toBe(false);
+    expect(state.warnings.has(MAX_LIFT_WARNING)).toBe(true);
+    expect(state.totalFlowGpm).toBeLessThan(drafting(20, 10).totalFlowGpm);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Drafting
+ * Atmospheric pressure pushes water up the hard suction into the pump. What
+ * is left at the impeller eye after lifting the water, friction in the hard
+ * suction and the loss through the strainer, less the water's vapor
+ * pressure, is the net positive suction head available (NPSHa). The pump
+ * needs more head (NPSHr) the more it flows; past the flow where the two
+ * meet it cavitates and delivers no more. Higher lift, a longer or smaller
+ * hard suction, a fouled strainer, warm water and altitude all cut that
+ * flow, until at the maximum lift the pump cannot draft at all.
+ */
+
+import type { DraftSite, PumpSpec, PumpState } from './model';
+import { hazenWilliamsFLpsiPer100ft } from '../hydraulics/formulas';
+import { HOSE_C } from '../hydraulics/standards';
+import { ELEVATION_PSI_PER_FT } from './network-solver';
+import { calculateMaxPDP } from './pump-curves';
+
+/** Standard atmosphere at sea level in PSI */
+export const SEA_LEVEL_ATMOSPHERE_PSI = 14.696;
+
+/** Suction head the pump needs at rated flow in feet */
+export const NPSHR_AT_RATED_FT = 12;
+
+/** Suction head the pump needs at no flow in feet */
+export const NPSHR_AT_SHUTOFF_FT = 3;
+
+/** Strainer and hard suction entrance loss in velocity heads, when the strainer is clean */
+export const STRAINER_ENTRANCE_K = 1;
+
+/** Flow past the draft limit, as a share of rated, over which the pump's output collapses */
+export const CAVITATION_COLLAPSE_FRACTION = 0.1;
+
+/** Warning raised when the pump can't get enough suction head for its flow */
+export const MAX_LIFT_WARNING = 'MAX LIFT EXCEEDED: Reduce height or increase water level';
+
+/** Gravitational acceleration in ft/s² */
+const G_FT_PER_SEC2 = 32.174;
+
+/** Cubic feet per second per GPM */
+const CFS_PER_GPM = 0.002228;
+
+/** Density of air over water: an impeller full of air makes its head in feet of air */
+const AIR_WATER_DENSITY_RATIO = 1 / 800;
+
+/** Highest strainer blockage modelled; a fully blocked strainer would pass nothing */
+const MAX_BLOCKAGE_FRACTION = 0.95;
+
+/** Vapor pressure of water (°F, PSIA) */
+const VAPOR_PRESSURE_PSI: [number, number][] = [
+  [32, 0.089],
+  [40, 0.122],
+  [50, 0.178],
+  [60, 0.256],
+  [70, 0.363],
+  [80, 0.507],
+  [90, 0.698],
+  [100, 0.95],
+  [120, 1.693],
+  [140, 2.889],
+  [160, 4.741],
+  [180, 7.511],
+  [212, 14.696],
+];
+
+/**
+ * Range of each draft site setting the simulator accepts
+ */
+export const DRAFT_SITE_LIMITS: Record<keyof DraftSite, { min: number; max: number }> = {
+  liftFt: { min: 0, max: 35 },
+  hardSuctionDiameterIn: { min: 4, max: 6 },
+  hardSuctionLengthFt: { min: 10, max: 50 },
+  strainerBlockagePct: { min: 0, max: 100 },
+  waterTempF: { min: 33, max: 212 },
+  altitudeFt: { min: 0, max: 14000 },
+};
+
+/**
+ * Typical draft: 10 ft lift through 20 ft of hard suction sized for the pump,
+ * clean strainer, 60°F water at sea level (the NFPA pump rating conditions)
+ */
+export function createDraftSite(pump: PumpSpec): DraftSite {
+  return {
+    liftFt: 10,
+    hardSuctionDiameterIn: pump.ratedGpm > 1000 ? 6 : pump.ratedGpm > 750 ? 5 : 4.5,
+    hardSuctionLengthFt: 20,
+    strainerBlockagePct: 0,
+    waterTempF: 60,
+    altitudeFt: 0,
+  };
+}
+
+/**
+ * Draft site with every setting clamped to DRAFT_SITE_LIMITS
+ */
+export function clampDraftSite(site: DraftSite): DraftSite {
+  const clamped = { ...site };
+  for (const key of Object.keys(DRAFT_SITE_LIMITS) as (keyof DraftSite)[]) {
+    const { min, max } = DRAFT_SITE_LIMITS[key];
+    clamped[key] = Math.max(min, Math.min(max, site[key]));
+  }
+  return clamped;
+}
+
+/**
+ * Atmospheric pressure at an altitude (standard atmosphere) in PSI
+ */
+export function atmosphericPsi(altitudeFt: number): number {
+  return SEA_LEVEL_ATMOSPHERE_PSI * Math.pow(1 - 6.8754e-6 * altitudeFt, 5.2559);
+}
+
+/**
+ * Vapor pressure of water at a temperature in PSIA, interpolated from steam tables
+ */
+export function vaporPressurePsi(tempF: number): number {
+  const table = VAPOR_PRESSURE_PSI;
+  if (tempF <= table[0][0]) return table[0][1];
+  for (let i = 1; i < table.length; i++) {
+    const [t2, p2] = table[i];
+    if (tempF <= t2) {
+      const [t1, p1] = table[i - 1];
+      return p1 + ((tempF - t1) / (t2 - t1)) * (p2 - p1);
+    }
+  }
+  return table[table.length - 1][1];
+}
+
+/**
+ * Velocity head of a flow through a pipe in feet
+ */
+function velocityHeadFt(diameterIn: number, flowGpm: number): number {
+  const areaFt2 = Math.PI * (diameterIn / 12 / 2) ** 2;
+  const velocityFtPerSec = (flowGpm * CFS_PER_GPM) / areaFt2;
+  return velocityFtPerSec ** 2 / (2 * G_FT_PER_SEC2);
+}
+
+/**
+ * Head lost through the strainer and entrance into a pipe in feet
+ * The loss grows as debris blocks the strainer's open area.
+ *
+ * @param diameterIn - Pipe the strainer feeds
+ * @param flowGpm - Flow through the strainer
+ * @param blockagePct - Share of the open area blocked
+ * @returns Strainer and entrance loss
+ */
+export function strainerLossFt(diameterIn: number, flowGpm: number, blockagePct: number): number {
+  if (flowGpm <= 0) return 0;
+  const openFraction = 1 - Math.min(MAX_BLOCKAGE_FRACTION, blockagePct / 100);
+  return (STRAINER_ENTRANCE_K / openFraction ** 2) * velocityHeadFt(diameterIn, flowGpm);
+}
+
+/**
+ * Head lost between the water and the pump in feet
+ * Hard suction friction plus the strainer and entrance loss.
+ */
+export function suctionLossFt(site: DraftSite, flowGpm: number): number {
+  if (flowGpm <= 0) return 0;
+  const frictionPsi = hazenWilliamsFLpsiPer100ft(flowGpm, site.hardSuctionDiameterIn, HOSE_C.HARD_SUCTION)
+    * (site.hardSuctionLengthFt / 100);
+  return frictionPsi / ELEVATION_PSI_PER_FT + strainerLossFt(site.hardSuctionDiameterIn, flowGpm, site.strainerBlockagePct);
+}
+
+/**
+ * Net positive suction head available at the pump in feet
+ */
+export function npshAvailableFt(site: DraftSite, flowGpm: number): number {
+  const absoluteHeadFt = (atmosphericPsi(site.altitudeFt) - vaporPressurePsi(site.waterTempF)) / ELEVATION_PSI_PER_FT;
+  return absoluteHeadFt - site.liftFt - suctionLossFt(site, flowGpm);
+}
+
+/**
+ * Net positive suction head the pump needs in feet, rising with the square of flow
+ */
+export function npshRequiredFt(pump: PumpSpec, flowGpm: number): number {
+  const flowRatio = Math.max(0, flowGpm) / pump.ratedGpm;
+  return NPSHR_AT_SHUTOFF_FT + (NPSHR_AT_RATED_FT - NPSHR_AT_SHUTOFF_FT) * flowRatio * flowRatio;
+}
+
+/**
+ * Most the pump can flow from this draft before it cavitates, in GPM
+ *
+ * @param site - Draft site and hard suction
+ * @param pump - Pump drafting
+ * @returns Flow where NPSH available meets NPSH required (0 when the lift is too high to draft)
+ */
+export function maxDraftFlowGpm(site: DraftSite, pump: PumpSpec): number {
+  const margin = (flowGpm: number) => npshAvailableFt(site, flowGpm) - npshRequiredFt(pump, flowGpm);
+  if (margin(0) <= 0) return 0;
+  let low = 0;
+  let high = 3 * pump.ratedGpm;
+  if (margin(high) > 0) return high;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (margin(mid) > 0) low = mid;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Highest lift the pump can draft from at this site in feet (at no flow)
+ */
+export function maxLiftFt(site: DraftSite, pump: PumpSpec): number {
+  return Math.max(0, site.liftFt + npshAvailableFt(site, 0) - npshRequiredFt(pump, 0));
+}
+
+/**
+ * Intake gauge pressure while drafting (negative: vacuum) in PSI
+ * The gauge reads the lift, the suction losses and the velocity head of the
+ * water entering the pump.
+ */
+export function draftIntakePsi(site: DraftSite, flowGpm: number): number {
+  const headFt = site.liftFt + suctionLossFt(site, flowGpm) + velocityHeadFt(site.hardSuctionDiameterIn, Math.max(0, flowGpm));
+  return -headFt * ELEVATION_PSI_PER_FT;
+}
+
+/**
+ * Intake gauge pressure of an unprimed pump in PSI
+ * The impeller spins in air and pulls only a whisker of vacuum until the
+ * primer evacuates it.
+ */
+export function unprimedIntakePsi(state: PumpState): number {
+  const rpm = Math.max(state.runtime.rpm, state.pump.governor.idleRpm);
+  return -calculateMaxPDP(0, rpm, 0, state.pump) * AIR_WATER_DENSITY_RATIO;
+}
+
+/**
+ * Share of pump output left at a flow once the draft runs out of suction head (0-1)
+ * Full output up to the draft limit, collapsing to nothing just past it.
+ */
+export function draftOutputFactor(flowGpm: number, maxFlowGpm: number, pump: PumpSpec): number {
+  if (flowGpm <= maxFlowGpm) return 1;
+  return Math.max(0, 1 - (flowGpm - maxFlowGpm) / (CAVITATION_COLLAPSE_FRACTION * pump.ratedGpm));
+}
+
+/**
+ * Warnings for a primed draft that can't supply the flow
+ *
+ * @param state - Pump state
+ * @param flowGpm - Flow the pump is delivering
+ * @param maxFlowGpm - Draft limit for the site
+ */
+export function getDraftWarnings(state: PumpState, flowGpm: number, maxFlowGpm: number): string[] {
+  if (state.waterSource !== 'draft' || !state.interlocks.primed) return [];
+  if (maxFlowGpm > 0 && flowGpm <= maxFlowGpm) return [];
+  return [MAX_LIFT_WARNING];
+}
@@ -4,6 +4,7 @@
  */
 
 import type { PumpState } from './model';
+import { hasFault } from './faults';
 
 /**
  * Result of DRV calculation
@@ -30,8 +31,8 @@ export function applyDRV(
   state: PumpState,
   currentPDP: number
 ): DRVResult {
-  // DRV only operates when enabled and pump is engaged
-  if (!state.drv.enabled || !state.interlocks.engaged) {
+  // DRV only operates when enabled and pump is engaged, and never when stuck closed
+  if (!state.drv.enabled || !state.interlocks.engaged || hasFault(state, 'drv_failure')) {
     return { adjustedPDP: currentPDP, bypassGpm: 0 };
   }
   
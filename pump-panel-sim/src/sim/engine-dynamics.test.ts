@@ -0,0 +1,92 @@
+/**
+ * Tests for engine spool-up, torque and load
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ENGINE, createEngineState, fullLoadTorqueLbFt, loadTorqueLbFt, stepEngine } from './engine-dynamics';
+import { reducer } from './actions';
+import { simulateStep } from './engine';
+import { createInitialPumpState } from './pierce-puc';
+import type { PumpState } from './model';
+
+/** Engaged pump at an engine speed, with the engine settled there */
+function running(rpm: number): PumpState {
+  const state = reducer(createInitialPumpState(), { type: 'PUMP_ENGAGE', engaged: true });
+  return { ...state, runtime: { ...state.runtime, rpm }, engine: createEngineState(rpm) };
+}
+
+/** Step the engine alone toward a commanded speed, returning the speed each step */
+function spool(state: PumpState, commandedRpm: number, seconds: number): number[] {
+  let next = state;
+  const speeds: number[] = [];
+  for (let i = 0; i < Math.round(seconds / 0.1); i++) {
+    const step = stepEngine(next, commandedRpm, 0.1);
+    next = { ...next, runtime: { ...next.runtime, rpm: step.rpm }, engine: step.engine };
+    speeds.push(step.rpm);
+  }
+  return speeds;
+}
+
+describe('fullLoadTorqueLbFt', () => {
+  it('interpolates the torque curve and holds its end points', () => {
+    expect(fullLoadTorqueLbFt(DEFAULT_ENGINE, 1400)).toBe(1550);
+    expect(fullLoadTorqueLbFt(DEFAULT_ENGINE, 950)).toBe(1250);
+    expect(fullLoadTorqueLbFt(DEFAULT_ENGINE, 500)).toBe(950);
+    expect(fullLoadTorqueLbFt(DEFAULT_ENGINE, 2500)).toBe(1190);
+  });
+});
+
+describe('loadTorqueLbFt', () => {
+  it('rises with the water power the pump delivers', () => {
+    const churning = running(1500);
+    const flowing = { ...churning, totalFlowGpm: 500, dischargePsi: 150 };
+    expect(loadTorqueLbFt(flowing, 1500)).toBeGreaterThan(loadTorqueLbFt(churning, 1500) + 200);
+  });
+});
+
+describe('stepEngine', () => {
+  it('takes time to spool from idle to max', () => {
+    const speeds = spool(running(700), 2200, 10);
+    expect(speeds[0]).toBeGreaterThan(700);
+    expect(speeds[4]).toBeLessThan(1500);
+    expect(speeds[speeds.length - 1]).toBe(2200);
+  });
+
+  it('accelerates harder once the turbo has boost', () => {
+    const cold = running(1200);
+    const boosted = { ...cold, engine: { ...cold.engine, boost: 1 } };
+    expect(spool(boosted, 2200, 0.5)[4]).toBeGreaterThan(spool(cold, 2200, 0.5)[4] + 100);
+  });
+
+  it('coasts down under load when the throttle is pulled back', () => {
+    const speeds = spool({ ...running(2000), totalFlowGpm: 500, dischargePsi: 150 }, 700, 10);
+    expect(speeds[0]).toBeLessThan(2000);
+    expect(speeds[0]).toBeGreaterThan(1800);
+    expect(speeds[speeds.length - 1]).toBe(700);
+  });
+
+  it('never drops a running engine below idle', () => {
+    const { rpm } = stepEngine(running(0), 0, 0.1);
+    expect(rpm).toBe(700);
+  });
+});
+
+describe('pressure governor with engine lag', () => {
+  it('brings pressure up over seconds and settles on it', () => {
+    let state = reducer(createInitialPumpState(), { type: 'PUMP_ENGAGE', engaged: true });
+    state = reducer(state, { type: 'TANK_TO_PUMP', open: true });
+    state = reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 });
+
+    const pressures: number[] = [];
+    for (let i = 0; i < 150; i++) {
+      state = simulateStep(state, 0.1).state;
+      pressures.push(state.dischargePsi);
+    }
+    const settled = pressures[pressures.length - 1];
+    // Not there on the first step, most of the way in 3 s
+    expect(pressures[0]).toBeLessThan(settled * 0.6);
+    expect(pressures[29]).toBeGreaterThan(settled * 0.9);
+    // Steady at the end
+    expect(Math.abs(settled - pressures[pressures.length - 20])).toBeLessThan(3);
+  });
+});
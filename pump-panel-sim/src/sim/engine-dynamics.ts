@@ -0,0 +1,147 @@
+/**
+ * Engine dynamics
+ * The governor sets a commanded speed; the engine gets there only as fast
+ * as its torque allows. Available torque comes from the full-load curve
+ * and builds with turbo boost, the pump and engine friction absorb torque,
+ * and the rotating inertia turns the difference into acceleration. That
+ * lag is what makes a pressure governor overshoot and settle.
+ */
+
+import type { EngineSpec, EngineState, PumpSpec, PumpState } from './model';
+
+/**
+ * Default engine: 500 HP turbo diesel, peak torque 1550 lb·ft at 1200-1600 RPM
+ */
+export const DEFAULT_ENGINE: EngineSpec = {
+  torqueCurve: [
+    { rpm: 700, torqueLbFt: 950 },
+    { rpm: 1200, torqueLbFt: 1550 },
+    { rpm: 1600, torqueLbFt: 1550 },
+    { rpm: 2200, torqueLbFt: 1190 },
+  ],
+  inertiaLbFt2: 120,
+  turboLagSec: 1.2,
+};
+
+/** Share of full-load torque available before the turbo builds boost */
+export const UNBOOSTED_TORQUE_FRACTION = 0.4;
+
+/** Seconds the engine controller aims to close a speed error in, torque permitting */
+export const SPEED_CONTROL_RESPONSE_SEC = 0.3;
+
+/** Speed error in RPM within which the governor holds the commanded speed exactly */
+export const SPEED_HOLD_RPM = 2;
+
+/** Pump efficiency turning shaft power into water power */
+export const PUMP_EFFICIENCY = 0.7;
+
+/** Power the pump churns away at rated speed with no flow (heating the water) */
+export const CHURN_HP_AT_RATED = 30;
+
+/** Engine friction torque per 1000 RPM in lb·ft */
+export const FRICTION_LBFT_PER_KRPM = 40;
+
+/** Gravitational constant converting WR² (lb·ft²) to moment of inertia (slug·ft²) */
+const G_FT_PER_SEC2 = 32.174;
+
+/** Horsepower to lb·ft at an RPM: T = HP × 5252 / RPM */
+const HP_TORQUE_CONSTANT = 5252;
+
+/** Water horsepower: GPM × PSI / 1714 */
+const WATER_HP_CONSTANT = 1714;
+
+/**
+ * Engine at rest
+ */
+export function createEngineState(rpm: number = 0): EngineState {
+  return { commandedRpm: rpm, boost: 0, torqueLbFt: 0, loadTorqueLbFt: 0 };
+}
+
+/**
+ * Engine fitted to a pump, or the default engine
+ */
+export function getEngineSpec(pump: PumpSpec): EngineSpec {
+  return pump.engine ?? DEFAULT_ENGINE;
+}
+
+/**
+ * Full-load torque at an engine speed, interpolated along the curve
+ * Speeds off either end of the curve use the end points.
+ */
+export function fullLoadTorqueLbFt(engine: EngineSpec, rpm: number): number {
+  const curve = engine.torqueCurve;
+  if (rpm <= curve[0].rpm) return curve[0].torqueLbFt;
+  for (let i = 1; i < curve.length; i++) {
+    if (rpm <= curve[i].rpm) {
+      const p1 = curve[i - 1];
+      const p2 = curve[i];
+      return p1.torqueLbFt + ((rpm - p1.rpm) / (p2.rpm - p1.rpm)) * (p2.torqueLbFt - p1.torqueLbFt);
+    }
+  }
+  return curve[curve.length - 1].torqueLbFt;
+}
+
+/**
+ * Torque absorbed at an engine speed by the pump and engine friction
+ *
+ * The pump takes the water power it delivers (at the last step's flow and
+ * net pressure) over its efficiency, plus churning losses that rise with
+ * the cube of speed.
+ *
+ * @param state - Pump state with the last step's flow and pressures
+ * @param rpm - Engine speed
+ * @returns Load torque in lb·ft
+ */
+export function loadTorqueLbFt(state: PumpState, rpm: number): number {
+  if (rpm <= 0) return 0;
+  const netPsi = Math.max(0, state.dischargePsi - state.intakePressurePsi);
+  const waterHp = (state.totalFlowGpm * netPsi) / WATER_HP_CONSTANT;
+  const churnHp = CHURN_HP_AT_RATED * (rpm / state.pump.ratedRpm) ** 3;
+  const pumpHp = waterHp / PUMP_EFFICIENCY + churnHp;
+  return (pumpHp * HP_TORQUE_CONSTANT) / rpm + FRICTION_LBFT_PER_KRPM * (rpm / 1000);
+}
+
+/**
+ * Advance engine speed toward the commanded speed
+ *
+ * The engine controller fuels for the torque that would close the speed
+ * error over SPEED_CONTROL_RESPONSE_SEC, limited to what the engine has at
+ * its current boost. With the fuel cut, the load alone slows the engine.
+ *
+ * @param state - Pump state at the start of the step (runtime.rpm is the engine speed)
+ * @param commandedRpm - Speed the governor wants
+ * @param deltaTimeSeconds - Time step in seconds
+ * @returns New engine speed and engine state
+ */
+export function stepEngine(
+  state: PumpState,
+  commandedRpm: number,
+  deltaTimeSeconds: number
+): { rpm: number; engine: EngineState } {
+  const spec = getEngineSpec(state.pump);
+  const { idleRpm, maxRpm } = state.pump.governor;
+  // A running engine never sits below idle
+  const rpm = Math.max(state.runtime.rpm, idleRpm);
+  const inertiaSlugFt2 = spec.inertiaLbFt2 / G_FT_PER_SEC2;
+  const rpmPerSecPerLbFt = (60 / (2 * Math.PI)) / inertiaSlugFt2;
+
+  const loadLbFt = loadTorqueLbFt(state, rpm);
+  const boost = state.engine.boost;
+  const availableLbFt = fullLoadTorqueLbFt(spec, rpm) * (UNBOOSTED_TORQUE_FRACTION + (1 - UNBOOSTED_TORQUE_FRACTION) * boost);
+
+  const response = Math.max(SPEED_CONTROL_RESPONSE_SEC, deltaTimeSeconds);
+  const wantedLbFt = loadLbFt + (commandedRpm - rpm) / response / rpmPerSecPerLbFt;
+  const torqueLbFt = Math.max(0, Math.min(availableLbFt, wantedLbFt));
+
+  let nextRpm = rpm + (torqueLbFt - loadLbFt) * rpmPerSecPerLbFt * deltaTimeSeconds;
+  if (Math.abs(commandedRpm - nextRpm) < SPEED_HOLD_RPM) nextRpm = commandedRpm;
+
+  // Boost follows how hard the engine is working
+  const demand = availableLbFt > 0 ? torqueLbFt / fullLoadTorqueLbFt(spec, rpm) : 0;
+  const nextBoost = boost + (Math.min(1, demand) - boost) * Math.min(1, deltaTimeSeconds / spec.turboLagSec);
+
+  return {
+    rpm: Math.max(idleRpm, Math.min(maxRpm, nextRpm)),
+    engine: { commandedRpm, boost: nextBoost, torqueLbFt, loadTorqueLbFt: loadLbFt },
+  };
+}
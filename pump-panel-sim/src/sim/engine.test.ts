@@ -379,6 +379,47 @@ describe('simulateStep', () => {
     expect(newState.waterSource).toBe('hydrant');
     expect(newState.engineRpm).toBe(2000);
   });
+  
+  it('should carry governor PID state in the pump state', () => {
+    const state = createInitialPumpState();
+    state.interlocks.engaged = true;
+    state.tankToPumpOpen = true;
+    state.dischargeValvePct.xlay1 = 100;
+    
+    const { state: newState } = simulateStep(state, 0.1);
+    
+    // PID terms advance on the returned state; the input is left untouched
+    expect(newState.governorState.pidState.ePrev).not.toBe(0);
+    expect(state.governorState.pidState).toEqual({ ePrev: 0, integral: 0 });
+  });
+  
+  it('should step independent pumps without sharing governor state', () => {
+    const createPump = (valvePct: number) => {
+      const state = createInitialPumpState();
+      state.interlocks.engaged = true;
+      state.tankToPumpOpen = true;
+      state.dischargeValvePct.xlay1 = valvePct;
+      return state;
+    };
+    
+    // Run pump A alone
+    let solo = createPump(100);
+    for (let i = 0; i < 20; i++) {
+      solo = simulateStep(solo, 0.1).state;
+    }
+    
+    // Run pump A interleaved with pump B at a different operating point
+    let pumpA = createPump(100);
+    let pumpB = createPump(0);
+    for (let i = 0; i < 20; i++) {
+      pumpA = simulateStep(pumpA, 0.1).state;
+      pumpB = simulateStep(pumpB, 0.1).state;
+    }
+    
+    expect(pumpA.runtime.rpm).toBe(solo.runtime.rpm);
+    expect(pumpA.dischargePsi).toBe(solo.dischargePsi);
+    expect(pumpA.governorState).toEqual(solo.governorState);
+  });
 });
 
 describe('Nozzle-Back PDP Calculation', () => {
@@ -3,11 +3,12 @@
  * Handles hydraulic calculations, foam consumption, and system state updates
  */
 
-import type { SimState } from './state';
-import type { DischargeId, LineConfig, FoamSystem, PumpState } from './model';
-import { frictionLossPsi, pumpDischargePressure } from '../hydraulics/formulas';
+import type { DischargeId, FaultSpec, IntakeId, LineConfig, FoamSystem, PumpState } from './model';
+import { pumpDischargePressure } from '../hydraulics/formulas';
 import { NOZZLE_PSI } from '../hydraulics/standards';
 import { applyDRV } from './drv';
+import { createEngineState, stepEngine } from './engine-dynamics';
+import { getWaterHammerWarnings, recordLineFlows, updateWaterHammer } from './water-hammer';
 import { intakeGauge, dischargeGauge } from './gauges';
 import {
   updatePressureGovernor,
@@ -16,12 +17,29 @@ import {
   shouldAutoSwitchMode,
   switchGovernorMode,
   setTargetRPM,
-  setTargetPDP,
-  createGovernor,
-  type GovernorState
+  setTargetPDP
 } from './governor';
 import { calculateMaxPDP, checkRunoutCondition } from './pump-curves';
+import { ratedRequiredPressure, solveNetwork, solveLinesAtPressure } from './network-solver';
+import type { NetworkLine } from './network-solver';
+import { layoutApplianceLossPsi, layoutElevationFt, layoutFrictionLossPsi } from './hose-layout';
 import { updateTemperatures, getTemperatureWarnings } from './overheating';
+import { drainLeak, getLeakWarnings, leakRateGpm } from './leaks';
+import {
+  advanceFaults,
+  airLeakOutputFactor,
+  applyGovernorFaults,
+  draftSiteWithFaults,
+  getFaultId,
+  holdFaultedValves,
+  startFault,
+  strainerLossPsi,
+} from './faults';
+import { validateChangeoverSequence } from './interlocks';
+import { draftOutputFactor, getDraftWarnings, maxDraftFlowGpm, unprimedIntakePsi } from './drafting';
+import { getPrimerWarnings, stepPriming } from './priming';
+import { combineIntakes } from './intakes';
+import { getIntakeReliefWarnings } from './intake-relief';
 
 /**
  * Result of nozzle flow calculation
@@ -33,6 +51,20 @@ export interface NozzleFlowResult {
   pressurePsi: number;
 }
 
+/**
+ * Hydraulics for one branch of a wyed line
+ */
+export interface BranchHydraulicsResult {
+  /** Branch identifier from LineBranch */
+  id: string;
+  /** Flow through the branch in GPM */
+  flow: number;
+  /** Friction loss in the branch hose in PSI */
+  frictionLoss: number;
+  /** Pressure at the branch nozzle in PSI */
+  nozzlePressure: number;
+}
+
 /**
  * Result of line hydraulics calculation
  */
@@ -41,10 +73,12 @@ export interface LineHydraulicsResult {
   flow: number;
   /** Friction loss in the hose in PSI */
   frictionLoss: number;
-  /** Pressure at the nozzle in PSI */
+  /** Pressure at the nozzle in PSI (at the wye for wyed lines) */
   nozzlePressure: number;
   /** Required pump discharge pressure in PSI */
   requiredPDP: number;
+  /** Per-branch hydraulics for wyed lines */
+  branches?: BranchHydraulicsResult[];
 }
 
 /**
@@ -59,6 +93,22 @@ export interface SimulationDiagnostics {
   foamConcentrateGpm: number;
   /** Hydraulics for each active discharge line */
   lineHydraulics: Map<DischargeId, LineHydraulicsResult>;
+  /** Water dumped by each open intake relief valve in GPM */
+  intakeDumpGpm: Map<IntakeId, number>;
+}
+
+/**
+ * Create empty diagnostics (no flow on any line)
+ * Used before the first simulation step has run
+ */
+export function createEmptyDiagnostics(): SimulationDiagnostics {
+  return {
+    totalWaterGpm: 0,
+    totalFoamGpm: 0,
+    foamConcentrateGpm: 0,
+    lineHydraulics: new Map(),
+    intakeDumpGpm: new Map(),
+  };
 }
 
 /**
@@ -131,6 +181,8 @@ export function calculateNozzleFlow(
  * - Pump discharge pressure
  * - Whether foam is enabled on this line
  * 
+ * Wyed lines are solved branch by branch in network-solver (solveNetwork).
+ * 
  * @param lineConfig - Configuration for the discharge line
  * @param valvePct - Valve position (0-100% open)
  * @param pumpPressure - Pump discharge pressure in PSI
@@ -163,16 +215,8 @@ export function calculateLineHydraulics(
   // In reality, valve position affects pressure/flow relationship non-linearly
   const actualFlow = nozzleFlow.gpm * (valvePct / 100);
   
-  // Calculate friction loss through the hose
-  const frictionLoss = frictionLossPsi(
-    {
-      id: lineConfig.id,
-      diameterIn: lineConfig.hose.diameterIn,
-      lengthFt: lineConfig.hose.lengthFt,
-      C: lineConfig.hose.C,
-    },
-    actualFlow
-  );
+  // Calculate friction loss through every hose segment
+  const frictionLoss = layoutFrictionLossPsi(lineConfig, actualFlow);
   
   // Calculate nozzle pressure (pump pressure minus friction loss)
   const nozzlePressure = Math.max(0, pumpPressure - frictionLoss);
@@ -181,8 +225,8 @@ export function calculateLineHydraulics(
   const requiredPDP = pumpDischargePressure({
     nozzlePressurePsi: nozzleFlow.pressurePsi, // Required nozzle pressure
     hoseLossPsi: frictionLoss,                  // Friction loss in hose
-    applianceLossPsi: 0,                        // No appliance loss (simplified)
-    elevationFt: 0                              // No elevation change (simplified)
+    applianceLossPsi: layoutApplianceLossPsi(lineConfig), // Wyes, standpipe, manifold
+    elevationFt: layoutElevationFt(lineConfig)            // Line rise/floors
   });
   
   return {
@@ -232,30 +276,6 @@ export function calculateLineHydraulics(
    };
  }
 
-/**
-* Get nozzle pressure requirement for nozzle type
-*/
-function getNozzlePressureForType(nozzleType: string): number {
-  switch (nozzleType) {
-    case 'smooth': return NOZZLE_PSI.HANDLINE_SMOOTH;  // 50 PSI
-    case 'fog': return NOZZLE_PSI.HANDLINE_FOG;        // 100 PSI
-    case 'master_smooth': return NOZZLE_PSI.MASTER_SMOOTH; // 80 PSI
-    case 'master_fog': return NOZZLE_PSI.MASTER_FOG;   // 100 PSI
-    default: return 100;
-  }
-}
-
-/**
- * Calculate smooth bore flow using rule of thumb: GPM ≈ 29.7 × d² × √NP
- * Where d is tip diameter in inches, NP is nozzle pressure
- */
-function calculateSmoothBoreFlow(tipDiameterIn: number, nozzlePsi: number): number {
-  return 29.7 * Math.pow(tipDiameterIn, 2) * Math.sqrt(nozzlePsi);
-}
-
-// Global governor state (will be moved to PumpState in future refactor)
-let globalGovernorState: GovernorState | null = null;
-
 /**
  * Perform a simulation step for the pump panel system
  *
@@ -276,15 +296,15 @@ export function simulateStep(
   currentState: PumpState,
   deltaTimeSeconds: number
 ): { state: PumpState; diagnostics: SimulationDiagnostics } {
-  // Initialize governor state if needed
-  if (!globalGovernorState) {
-    globalGovernorState = createGovernor();
-    globalGovernorState.mode = currentState.runtime.governor;
-  }
+  // Stuck valves stay put and burst lines stay shut whatever the crew did since the last step
+  currentState = holdFaultedValves(currentState);
+  
+  // Governor state travels with the pump so independent pumps never share a PID integrator
+  let governorState = currentState.governorState;
   
   // Sync governor mode with state
-  if (globalGovernorState.mode !== currentState.runtime.governor) {
-    globalGovernorState = switchGovernorMode(globalGovernorState, currentState.runtime.governor);
+  if (governorState.mode !== currentState.runtime.governor) {
+    governorState = switchGovernorMode(governorState, currentState.runtime.governor);
   }
   // Check interlocks - if pump not engaged or emergency stop active, zero all flows
   if (!currentState.interlocks.engaged || currentState.interlocks.emergencyStop) {
@@ -293,14 +313,29 @@ export function simulateStep(
     // Return state with zero flows and idle engine
     const updatedState: PumpState = {
       ...currentState,
+      governorState,
       runtime: {
         ...currentState.runtime,
         rpm: currentState.interlocks.emergencyStop ? 0 : 800, // E-stop kills engine
       },
+      engine: createEngineState(currentState.interlocks.emergencyStop ? 0 : 800),
       drv: {
         ...currentState.drv,
         bypassGpm: 0,
       },
+      // Leaks drain the tanks with the pump off too
+      tankGallons: drainLeak(currentState.tankGallons, leakRateGpm(currentState, 'tank_leak'), deltaTimeSeconds),
+      foam: {
+        ...currentState.foam,
+        tankGallons: drainLeak(currentState.foam.tankGallons, leakRateGpm(currentState, 'foam_leak'), deltaTimeSeconds),
+      },
+      activeFaults: advanceFaults(currentState.activeFaults, deltaTimeSeconds),
+      // Nothing flows, so closing valves now can't cause a surge
+      waterHammer: recordLineFlows(
+        { ...currentState.waterHammer, surgePsi: 0 },
+        currentState.dischargeValvePct,
+        []
+      ),
     };
     
     const diagnostics: SimulationDiagnostics = {
@@ -308,55 +343,61 @@ export function simulateStep(
       totalFoamGpm: 0,
       foamConcentrateGpm: 0,
       lineHydraulics,
+      // A charged supply still lifts the intake relief with the pump off
+      intakeDumpGpm: combineIntakes(currentState, 0).dumpGpm,
     };
     
     return { state: updatedState, diagnostics };
   }
   
   // STEP 1: Calculate required PDP from all open discharge lines (nozzle-back)
+  // The highest rated-flow requirement is the governor's target; actual line
+  // flows are solved against the pump once its speed is known (STEP 3.6)
   let requiredPDP = 0;
-  const openLines: Array<{ id: DischargeId; flowGpm: number; requiredPDP: number }> = [];
+  const networkLines: NetworkLine[] = [];
+  const requiredPDPByLine = new Map<DischargeId, number>();
+  
+  // Discharges siamesed into another line are solved as part of that line
+  const siameseInletIds = new Set(
+    Object.values(currentState.lineConfigs).flatMap(config => config.siamese?.inlets ?? [])
+  );
   
   for (const lineId of Object.keys(currentState.dischargeValvePct) as DischargeId[]) {
+    if (siameseInletIds.has(lineId)) continue;
+    
     const valvePct = currentState.dischargeValvePct[lineId];
+    const lineConfig = currentState.lineConfigs[lineId];
+    const inletIds = lineConfig.siamese?.inlets ?? [];
+    const flowing = valvePct > 0 || inletIds.some(id => currentState.dischargeValvePct[id] > 0);
     
-    if (valvePct > 0 && currentState.interlocks.engaged) {
-      const lineConfig = currentState.lineConfigs[lineId];
-      
-      // Get nozzle pressure requirement
-      const nozzlePressure = getNozzlePressureForType(lineConfig.nozzle.type);
-      
-      // Calculate flow for this line based on nozzle and pressure
-      const expectedFlow = lineConfig.nozzle.targetGpm ||
-                           calculateSmoothBoreFlow(lineConfig.nozzle.tipIn || 1.0, nozzlePressure);
+    if (flowing && currentState.interlocks.engaged) {
+      // Relay supply lines: the downstream pumper is the load, not a nozzle
+      const relayLoad = currentState.relayLoads[lineId];
       
-      // Calculate friction loss for this hose
-      const frictionLoss = frictionLossPsi(lineConfig.hose, expectedFlow * (valvePct / 100));
+      // Scene elevation plus this line's own rise/floors (0.434 PSI/ft)
+      const elevationFt = relayLoad ? 0 : layoutElevationFt(lineConfig, currentState.elevationFt || 0);
       
-      // TODO: Add appliance loss if applicable (10-25 PSI for wyes, etc.)
-      const applianceLoss = 0;
-      
-      // TODO: Add elevation loss if applicable (0.434 PSI/ft)
-      const elevationLoss = 0;
+      const line: NetworkLine = { id: lineId, config: lineConfig, valvePct, elevationFt, relayLoad };
+      if (inletIds.length > 0) {
+        line.siameseInlets = inletIds.map(id => ({
+          id,
+          config: currentState.lineConfigs[id],
+          valvePct: currentState.dischargeValvePct[id],
+          elevationFt: 0,
+        }));
+      }
       
-      // Required PDP for this line
-      const linePDP = nozzlePressure + frictionLoss + applianceLoss + elevationLoss;
+      // Nozzle pressure + friction per hose segment + appliances + elevation at rated flow
+      const linePDP = ratedRequiredPressure(line);
       
-      // Track line info
-      openLines.push({
-        id: lineId,
-        flowGpm: expectedFlow * (valvePct / 100),
-        requiredPDP: linePDP
-      });
+      networkLines.push(line);
+      requiredPDPByLine.set(lineId, linePDP);
       
       // Highest line requirement becomes overall required PDP
       requiredPDP = Math.max(requiredPDP, linePDP);
     }
   }
   
-  // Total flow is sum of all open lines
-  const totalFlowGpm = openLines.reduce((sum, line) => sum + line.flowGpm, 0);
-  
   // STEP 2: Determine intake pressure based on water source
   let intakePsi = 0;
   
@@ -372,92 +413,139 @@ export function simulateStep(
       break;
       
     case 'hydrant':
-      // Use hydrant residual pressure (from state or default 50 PSI)
-      intakePsi = currentState.intakePressurePsi || 50;
-      break;
-      case 'draft':
-        // Drafting shows vacuum (negative pressure)
-        // If primed, pump can pull against vacuum; if not, can't pump
-        if (currentState.interlocks.primed) {
-          intakePsi = -12;  // Typical vacuum when primed and flowing (~5 inHg)
-        } else {
-          intakePsi = -22;  // High vacuum when not primed (~10 inHg, can't pump)
-        }
-        break;
-      break;
-      
     case 'relay':
-      // Upstream pump provides positive pressure
-      intakePsi = currentState.intakePressurePsi || 20;
+      // Every open intake with a supply feeds the pump, balanced at the last step's flow
+      intakePsi = combineIntakes(currentState, currentState.totalFlowGpm).psi;
+      break;
+    case 'draft':
+      // Primed: the atmosphere lifts water to the pump, and the gauge reads the lift and
+      // hard suction losses at the last step's flow. Unprimed: the pump holds air
+      intakePsi = currentState.interlocks.primed
+        ? combineIntakes(currentState, currentState.totalFlowGpm).psi
+        : unprimedIntakePsi(currentState);
       break;
   }
   
-  // STEP 3: Determine actual RPM and achievable PDP based on governor mode with PID control
-  let actualRpm = currentState.runtime.rpm;
-  let achievedPDP = 0;
+  // A clogged strainer costs intake pressure as flow rises
+  intakePsi -= strainerLossPsi(currentState, currentState.totalFlowGpm);
+  
+  // Through the intakes the inlet sags as the pump draws harder on its supplies; the solver balances the two
+  const feedsFromIntakes = currentState.waterSource !== 'tank' &&
+    (currentState.waterSource !== 'draft' || currentState.interlocks.primed);
+  const intakeAtFlow = (flowGpm: number) => feedsFromIntakes
+    ? combineIntakes(currentState, flowGpm).psi - strainerLossPsi(currentState, flowGpm)
+    : intakePsi;
+  
+  // STEP 3: Determine the commanded RPM based on governor mode with PID control
+  let commandedRpm = currentState.engine.commandedRpm;
   
-  if (currentState.runtime.governor === 'PRESSURE') {
+  if (currentState.runtime.governor === 'PRESSURE' && currentState.waterSource === 'draft' && !currentState.interlocks.primed) {
+    // PRESSURE MODE with no water at the pump: the governor holds idle instead of chasing
+    // pressure it can't make, which would rev the engine against the prime
+    governorState = setTargetPDP(governorState, Math.min(requiredPDP, 400));
+    governorState = { ...governorState, pidState: { ePrev: 0, integral: 0 } };
+    commandedRpm = currentState.pump.governor.idleRpm;
+  } else if (currentState.runtime.governor === 'PRESSURE') {
     // PRESSURE MODE: Governor adjusts RPM using PID control to meet target PDP
     const targetPDP = Math.min(requiredPDP, 400);  // 400 PSI safety clamp
     
     // Update governor target
-    globalGovernorState = setTargetPDP(globalGovernorState, targetPDP);
+    governorState = setTargetPDP(governorState, targetPDP);
     
     // Use PID controller to gradually adjust RPM
-    actualRpm = updatePressureGovernor(
+    const pidResult = updatePressureGovernor(
       {
         ...currentState,
         dischargePsi: currentState.dischargePsi || 0
       },
-      globalGovernorState,
+      governorState,
       deltaTimeSeconds
     );
-    
-    // Calculate what PDP is actually achieved at this RPM
-    achievedPDP = calculateMaxPDP(totalFlowGpm, actualRpm, intakePsi);
-    achievedPDP = Math.min(achievedPDP, 400);  // Safety clamp
-    
+    commandedRpm = pidResult.rpm;
+    governorState = pidResult.governor;
   } else {
     // RPM MODE: Operator controls RPM directly via throttle, governor maintains it
-    const targetRpm = 700 + (currentState.throttle / 100) * 1500; // 700-2200 RPM range
+    // Throttle spans the apparatus range from idle to max governed RPM
+    const { idleRpm, maxRpm } = currentState.pump.governor;
+    const targetRpm = idleRpm + (currentState.throttle / 100) * (maxRpm - idleRpm);
     
     // Update governor target
-    globalGovernorState = setTargetRPM(globalGovernorState, targetRpm);
+    governorState = setTargetRPM(governorState, targetRpm, currentState.pump.governor);
     
     // In RPM mode, governor simply maintains the set RPM
-    actualRpm = updateRPMGovernor(currentState, globalGovernorState);
-    
-    // Calculate achieved PDP at this fixed RPM
-    achievedPDP = calculateMaxPDP(totalFlowGpm, actualRpm, intakePsi);
-    achievedPDP = Math.min(achievedPDP, 400);  // Still clamp at 400 PSI
+    commandedRpm = updateRPMGovernor(currentState, governorState);
   }
   
-  // STEP 3.5: Detect cavitation and apply performance degradation
-  // Cavitation occurs when intake pressure is too low (<5 PSI) with high RPM (>2000)
-  const isCavitating = (intakePsi < 5) && (actualRpm > 2000);
+  // Instructor governor faults override what the governor commanded
+  commandedRpm = applyGovernorFaults(commandedRpm, currentState);
   
-  // Apply 20% performance degradation during cavitation
-  if (isCavitating) {
-    achievedPDP *= 0.8;  // 20% reduction in pump discharge pressure
-  }
+  // STEP 3.1: The engine spools toward the commanded speed as its torque and inertia allow
+  const engineStep = stepEngine(currentState, commandedRpm, deltaTimeSeconds);
+  const actualRpm = engineStep.rpm;
+  
+  // STEP 3.5: Detect cavitation and apply performance degradation
+  // A pressurized supply cavitates when intake pressure is too low (<5 PSI) with high RPM (>2000).
+  // A draft always reads below zero, so it cavitates only where the pump settles past the
+  // suction head the draft can give
+  const drafting = currentState.waterSource === 'draft';
+  const maxDraftGpm = drafting ? maxDraftFlowGpm(draftSiteWithFaults(currentState), currentState.pump) : Infinity;
+  const supplyCavitating = !drafting && (intakePsi < 5) && (actualRpm > 2000);
+  
+  // STEP 3.6: Balance the pump curve at this RPM against the open lines
+  // Air drawn in through an intake leak costs output on top of cavitation
+  const outputFactor = airLeakOutputFactor(currentState);
+  const network = solveNetwork(networkLines, (flowGpm) => {
+    const pdp = Math.min(calculateMaxPDP(flowGpm, actualRpm, intakeAtFlow(flowGpm), currentState.pump), 400);  // 400 PSI safety clamp
+    // Apply 20% performance degradation during cavitation
+    // Past the draft limit the pump runs out of suction head and output collapses
+    const draftFactor = drafting ? draftOutputFactor(flowGpm, maxDraftGpm, currentState.pump) : 1;
+    return (supplyCavitating ? pdp * 0.8 : pdp) * outputFactor * draftFactor;
+  });
+  const isCavitating = drafting
+    ? currentState.interlocks.primed && draftOutputFactor(network.totalFlowGpm, maxDraftGpm, currentState.pump) < 1
+    : supplyCavitating;
+  let achievedPDP = network.pdp;
+  let lineSolutions = network.lines;
   
   // STEP 4: Block flow if drafting and not primed
-  let actualTotalFlowGpm = totalFlowGpm;
   if (currentState.waterSource === 'draft' && !currentState.interlocks.primed) {
     // Can't pump air - zero all flows
-    openLines.forEach(line => line.flowGpm = 0);
-    actualTotalFlowGpm = 0;
+    lineSolutions = lineSolutions.map(line => ({ ...line, flowGpm: 0, nozzlePressurePsi: 0 }));
     achievedPDP = 0;
     // Show vacuum building on compound gauge (handled in gauges.ts)
   }
   
-  // STEP 5: Apply DRV (discharge relief valve)
-  const { adjustedPDP, bypassGpm } = applyDRV(currentState, achievedPDP);
-  let pumpPressure = adjustedPDP;
+  // STEP 4.5: Water hammer from discharge valves closed on flowing lines since the last step
+  let waterHammer = updateWaterHammer(currentState, deltaTimeSeconds);
+  
+  // STEP 5: Apply DRV (discharge relief valve), which also relieves any surge
+  const { adjustedPDP, bypassGpm } = applyDRV(currentState, achievedPDP + waterHammer.surgePsi);
+  
+  // Relieved pressure is what the lines actually see; re-solve their flows at it
+  if (adjustedPDP < achievedPDP) {
+    lineSolutions = solveLinesAtPressure(networkLines, adjustedPDP).lines;
+  }
+  
+  // Surge the DRV doesn't dump reaches the discharge manifold
+  const unrelievedSurgePsi = Math.max(0, adjustedPDP - achievedPDP);
+  achievedPDP += unrelievedSurgePsi;
+  waterHammer = { ...waterHammer, surgePsi: Math.min(waterHammer.surgePsi, unrelievedSurgePsi) };
+  const actualTotalFlowGpm = lineSolutions.reduce((sum, line) => sum + line.flowGpm, 0);
+  
+  // The intake gauge reads the supplies at the flow the pump settled on, split across the intakes
+  const intakeFlowGpm = Object.fromEntries(
+    Object.keys(currentState.intakes).map(id => [id, 0])
+  ) as Record<IntakeId, number>;
+  let intakeDumpGpm = new Map<IntakeId, number>();
+  if (feedsFromIntakes) {
+    const intakes = combineIntakes(currentState, actualTotalFlowGpm);
+    intakePsi = intakes.psi - strainerLossPsi(currentState, actualTotalFlowGpm);
+    Object.assign(intakeFlowGpm, intakes.flowGpm);
+    intakeDumpGpm = intakes.dumpGpm;
+  }
   
   // STEP 5.5: Track overpressure and handle hose burst (Phase 2.3)
   let overpressureDuration = currentState.overpressureDurationSec || 0;
-  const burstLines = new Set(currentState.burstLines || []);
   let overpressureWarning: string | null = null;
   
   // Track overpressure duration when discharge pressure exceeds 400 PSI
@@ -471,25 +559,19 @@ export function simulateStep(
     }
     
     // Trigger hose burst after 5 seconds of sustained overpressure
-    if (overpressureDuration >= 5 && openLines.length > 0) {
+    if (overpressureDuration >= 5 && lineSolutions.length > 0) {
       // Find the line with highest flow rate (most stressed)
-      const highestFlowLine = openLines.reduce((max, line) =>
+      const highestFlowLine = lineSolutions.reduce((max, line) =>
         line.flowGpm > max.flowGpm ? line : max
       );
       
       // Only burst if not already burst
-      if (!burstLines.has(highestFlowLine.id)) {
-        burstLines.add(highestFlowLine.id);
+      const burst: FaultSpec = { kind: 'hose_burst', dischargeId: highestFlowLine.id };
+      if (!currentState.activeFaults.some(fault => fault.id === getFaultId(burst))) {
         overpressureWarning = `⚠️ HOSE ${highestFlowLine.id.toUpperCase()} BURST - Replace before continuing`;
         
-        // Close the burst line valve immediately
-        currentState = {
-          ...currentState,
-          dischargeValvePct: {
-            ...currentState.dischargeValvePct,
-            [highestFlowLine.id]: 0
-          }
-        };
+        // The burst line shuts down at once and stays down until the instructor clears the fault
+        currentState = holdFaultedValves(startFault(currentState, burst));
         
         // Reset overpressure duration after burst
         overpressureDuration = 0;
@@ -528,12 +610,14 @@ export function simulateStep(
       tankFillRateGpm = (currentState.tankFillRecircPct / 100) * 100;
       
       // Fill tank (convert GPM to gallons per frame)
-      const tankCapacityGallons = 500; // Standard tank capacity
       const gallonsAdded = tankFillRateGpm * (deltaTimeSeconds / 60);
-      updatedTankGallons = Math.min(tankCapacityGallons, updatedTankGallons + gallonsAdded);
+      updatedTankGallons = Math.min(currentState.tankCapacityGallons, updatedTankGallons + gallonsAdded);
     }
   }
   
+  // Instructor tank leak drains on top of discharge use
+  updatedTankGallons = drainLeak(updatedTankGallons, leakRateGpm(currentState, 'tank_leak'), deltaTimeSeconds);
+  
   // Add recirculation flow to total for cooling purposes (doesn't affect discharge pressure)
   const totalFlowWithRecirc = actualTotalFlowGpm + recircFlowGpm;
 
@@ -572,51 +656,46 @@ export function simulateStep(
   // STEP 10: Apply cavitation degradation if overheating while drafting
   if (temps.pumpOverheating && currentState.waterSource === 'draft') {
     achievedPDP *= 0.85;  // 15% performance loss from cavitation
-    pumpPressure *= 0.85;
   }
   
-  // STEP 11: Update primer countdown and vacuum simulation
-  let primerTimeRemaining = currentState.primerTimeRemaining;
-  let primerVacuumInHg = 0;
-  
-  if (currentState.primerActive && primerTimeRemaining > 0) {
-    primerTimeRemaining = Math.max(0, primerTimeRemaining - deltaTimeSeconds);
-    
-    // Simulate vacuum building during priming (0 to -25 inHg over 15 seconds)
-    const primingProgress = 1 - (primerTimeRemaining / 15);
-    primerVacuumInHg = -25 * primingProgress; // Gradually increase vacuum
-    
-    // If primer cycle completes, set primed flag
-    if (primerTimeRemaining === 0 && !currentState.interlocks.primed) {
-      currentState = {
-        ...currentState,
-        interlocks: { ...currentState.interlocks, primed: true }
-      };
-    }
-  }
+  // STEP 11: Primer evacuates air toward a prime; air leaks and throttle slams lose it
+  const priming = stepPriming(currentState, (actualRpm - currentState.runtime.rpm) / deltaTimeSeconds, deltaTimeSeconds);
+  currentState = {
+    ...currentState,
+    primerActive: priming.primerActive,
+    primerTimeRemaining: priming.primerTimeRemaining,
+    primingVacuumPsi: priming.primingVacuumPsi,
+    interlocks: { ...currentState.interlocks, primed: priming.primed }
+  };
   
-  // Apply primer vacuum to intake gauge when drafting and priming
-  if (currentState.waterSource === 'draft' && currentState.primerActive) {
-    intakePsi = primerVacuumInHg / 2.036; // Convert inHg to PSI for display
+  // Compound gauge shows the vacuum the primer has pulled while the pump holds air
+  if (currentState.waterSource === 'draft' && !priming.primed) {
+    intakePsi = Math.min(intakePsi, -priming.primingVacuumPsi);
   }
   
   // Track foam flow
   let totalFoamGpm = 0;
   const lineHydraulics = new Map<DischargeId, LineHydraulicsResult>();
   
-  for (const line of openLines) {
+  for (const line of lineSolutions) {
     const lineConfig = currentState.lineConfigs[line.id];
     const foamEnabled = currentState.foam.enabledLines.has(line.id);
     
-    // Calculate line hydraulics for diagnostics
-    const frictionLoss = frictionLossPsi(lineConfig.hose, line.flowGpm);
-    const nozzlePressure = Math.max(0, pumpPressure - frictionLoss);
-    
+    // Solved line hydraulics for diagnostics
+    // Relay lines report supply line loss; "nozzle" pressure is the downstream intake
     lineHydraulics.set(line.id, {
       flow: line.flowGpm,
-      frictionLoss,
-      nozzlePressure,
-      requiredPDP: line.requiredPDP,
+      frictionLoss: line.frictionLossPsi,
+      nozzlePressure: line.nozzlePressurePsi,
+      requiredPDP: requiredPDPByLine.get(line.id) ?? 0,
+      ...(line.branches && {
+        branches: line.branches.map(branch => ({
+          id: branch.id,
+          flow: branch.flowGpm,
+          frictionLoss: branch.frictionLossPsi,
+          nozzlePressure: branch.nozzlePressurePsi,
+        })),
+      }),
     });
     
     // Track foam flow if enabled on this line
@@ -629,12 +708,17 @@ export function simulateStep(
   const hasEnabledFoamLines = currentState.foam.enabledLines.size > 0;
   const foamSystemEnabled = (currentState.foam.enabled || hasEnabledFoamLines) && currentState.interlocks.engaged && totalFoamGpm > 0;
   
-  const updatedFoam = updateFoamConsumption(
+  const proportionedFoam = updateFoamConsumption(
     currentState.foam,
     totalFoamGpm,
     deltaTimeSeconds,
     foamSystemEnabled
   );
+  // Instructor foam cell leak drains on top of proportioning
+  const updatedFoam: FoamSystem = {
+    ...proportionedFoam,
+    tankGallons: drainLeak(proportionedFoam.tankGallons, leakRateGpm(currentState, 'foam_leak'), deltaTimeSeconds),
+  };
   
   // Calculate foam concentrate consumption rate
   const foamConcentrateGpm = currentState.foam.enabled ? (updatedFoam.percent / 100) * totalFoamGpm : 0;
@@ -659,22 +743,47 @@ export function simulateStep(
   if (!currentState.tankToPumpOpen && currentState.interlocks.engaged) {
     allWarnings.add('Open Tank-to-Pump valve');
   }
-  // Add warning if trying to draft without priming
+  // Add warning if trying to draft without priming (an unprimed pump flows nothing, so look at the valves)
   if (currentState.waterSource === 'draft' &&
       !currentState.interlocks.primed &&
       !currentState.primerActive &&
       currentState.interlocks.engaged &&
-      actualTotalFlowGpm > 0) {
+      Object.values(currentState.dischargeValvePct).some(pct => pct > 0)) {
     allWarnings.add('Prime pump to flow from draft');
   }
   
+  // Add primer motor warnings
+  for (const warning of getPrimerWarnings(currentState)) {
+    allWarnings.add(warning);
+  }
+  
+  // Add changeover sequence faults (tank/intake valve procedure)
+  for (const fault of validateChangeoverSequence(currentState).faults) {
+    allWarnings.add(fault);
+  }
+  
+  // Add instructor leak warnings
+  for (const warning of getLeakWarnings(currentState)) {
+    allWarnings.add(warning);
+  }
+  
+  // Add draft warnings (lift too high for the flow)
+  for (const warning of getDraftWarnings(currentState, actualTotalFlowGpm, maxDraftGpm)) {
+    allWarnings.add(warning);
+  }
+  
+  // Add intake relief warnings (supply over the setpoint)
+  for (const warning of getIntakeReliefWarnings(intakeDumpGpm)) {
+    allWarnings.add(warning);
+  }
+  
   // Add cavitation warning
   if (isCavitating) {
     allWarnings.add('⚠️ CAVITATION DETECTED: Pump starved');
   }
   
   // Add runout warning (Phase 6.1)
-  const runoutWarning = checkRunoutCondition(actualTotalFlowGpm);
+  const runoutWarning = checkRunoutCondition(actualTotalFlowGpm, currentState.pump);
   if (runoutWarning) {
     allWarnings.add(runoutWarning);
   }
@@ -684,6 +793,11 @@ export function simulateStep(
     allWarnings.add(overpressureWarning);
   }
   
+  // Flag valves slammed shut on flowing lines
+  for (const warning of getWaterHammerWarnings(waterHammer)) {
+    allWarnings.add(warning);
+  }
+  
   // Add tank water level warnings (Phase 2.5)
   if (currentState.waterSource === 'tank') {
     if (updatedTankGallons <= 0) {
@@ -715,12 +829,14 @@ export function simulateStep(
   // Create updated state
   const updatedState: PumpState = {
     ...currentState,
+    governorState,
     foam: updatedFoam,
     runtime: {
       ...currentState.runtime,
       rpm: actualRpm,
       governor: updatedGovernorMode,
     },
+    engine: engineStep.engine,
     drv: {
       ...currentState.drv,
       bypassGpm,
@@ -729,14 +845,15 @@ export function simulateStep(
     intakePressurePsi: intakeGaugeData.psi || 0,
     intakeVacuumInHg: intakeGaugeData.vacuumInHg || 0,
     totalFlowGpm: actualTotalFlowGpm,
+    intakeFlowGpm,
     tankGallons: updatedTankGallons,
     pumpTempF: temps.pumpTempF,
     engineTempF: temps.engineTempF,
     warnings: allWarnings,
-    primerTimeRemaining,
     isCavitating,
     overpressureDurationSec: overpressureDuration,
-    burstLines,
+    activeFaults: advanceFaults(currentState.activeFaults, deltaTimeSeconds),
+    waterHammer: recordLineFlows(waterHammer, currentState.dischargeValvePct, lineSolutions),
   };
   
   // Create diagnostics
@@ -745,200 +862,8 @@ export function simulateStep(
     totalFoamGpm,
     foamConcentrateGpm,
     lineHydraulics,
+    intakeDumpGpm,
   };
   
   return { state: updatedState, diagnostics };
 }
-
-/**
- * Calculate RPM needed to achieve target pressure (simplified governor model)
- * Uses centrifugal pump law: P ∝ RPM^2, so RPM ∝ sqrt(P)
- */
-function calculateRPMForPressure(targetPDP: number, setpoint: number): number {
-  // Simplified: RPM scales with square root of pressure (centrifugal pump law)
-  // P ∝ RPM^2, so RPM ∝ sqrt(P)
-  const baseRPM = 2000; // idle
-  const maxRPM = 3000;
-  const rpm = baseRPM + Math.sqrt(targetPDP / 150) * (maxRPM - baseRPM);
-  return Math.min(maxRPM, rpm);
-}
-
-/**
- * Stub for temperature updates (Phase 2.4)
- * Will update pump and engine temperatures based on flow and RPM
- *
- * @param state Current simulation state
- * @param deltaTime Time elapsed since last update in seconds
- * @returns Temperature-related state updates
- */
-function updateTemperaturesStub(state: SimState, deltaTime: number): Partial<SimState> {
-  // TODO: Implement in Phase 2.4
-  // Will track pumpTempF and engineTempF based on:
-  // - Flow rate (cooling effect)
-  // - RPM (heat generation)
-  // - Time running
-  return {};
-}
-
-/**
- * Update tank water level based on usage (Phase 2.5)
- * Depletes tank water when using tank as water source
- *
- * @param state Current simulation state
- * @param deltaTime Time elapsed since last update in seconds
- * @returns Tank-related state updates
- */
-function updateTankWater(state: SimState, deltaTime: number): Partial<SimState> {
-  // Only deplete tank water if all conditions are met:
-  // 1. Water source is 'tank'
-  // 2. Pump is engaged
-  // 3. Tank has water remaining
-  // 4. There is actual flow
-  
-  // Check if we need to calculate tank depletion at all
-  if (!state.pump.engaged) {
-    return {};
-  }
-  
-  // We need to estimate total flow from discharge valves
-  // This is a simplified calculation for time-based updates
-  let estimatedTotalFlow = 0;
-  
-  Object.values(state.discharges).forEach(discharge => {
-    if (discharge.open > 0) {
-      // Rough estimate: 100 GPM per 100% valve opening for typical lines
-      // This will be refined by the full hydraulics solver
-      const baseFlow = discharge.diameterIn <= 2.5 ? 100 : 250; // Smaller vs larger lines
-      estimatedTotalFlow += discharge.open * baseFlow;
-    }
-  });
-  
-  // No flow means no tank depletion
-  if (estimatedTotalFlow === 0) {
-    return {};
-  }
-  
-  // Now we can check water source (after we know there's flow)
-  // The water source check needs to be done on the pump's intake configuration
-  // For now, we'll return empty - the main simulateStep will handle tank depletion
-  return {};
-}
-
-/**
- * Update time-based state properties
- * Called by TICK action every 100ms to update foam consumption, temperature, tank water, etc.
- * Only returns properties that have changed due to time-based updates.
- *
- * @param state Current simulation state
- * @param deltaTime Time elapsed since last update in seconds
- * @returns Partial state with time-based updates only
- */
-export function updateTimeBasedState(state: SimState, deltaTime: number): Partial<SimState> {
-  const updates: Partial<SimState> = {};
-  
-  // Only perform updates if pump is engaged
-  if (!state.pump.engaged) {
-    return updates;
-  }
-  
-  // Calculate foam consumption if foam system is enabled
-  if (state.pump.foamSystemEnabled) {
-    // Calculate total foam flow (water flowing through foam-enabled lines)
-    let totalFoamGpm = 0;
-    
-    Object.values(state.discharges).forEach(discharge => {
-      if (discharge.foamPct > 0 && discharge.open > 0) {
-        // Estimate flow based on valve position and hose size
-        // This is a simplified calculation; full hydraulics are in solver
-        const estimatedFlow = discharge.open * 100; // Simplified GPM estimate
-        totalFoamGpm += estimatedFlow;
-      }
-    });
-    
-    if (totalFoamGpm > 0 && state.pump.foamTankGallons > 0) {
-      // Calculate foam concentrate consumption
-      // Average foam percentage across all foam lines (simplified)
-      let avgFoamPct = 0;
-      let foamLineCount = 0;
-      
-      Object.values(state.discharges).forEach(discharge => {
-        if (discharge.foamPct > 0 && discharge.open > 0) {
-          avgFoamPct += discharge.foamPct;
-          foamLineCount++;
-        }
-      });
-      
-      if (foamLineCount > 0) {
-        avgFoamPct = avgFoamPct / foamLineCount;
-        
-        // Formula: concentrate (gal) = (percent/100) * water_flow (GPM) * time (min)
-        const concentrateGPM = (avgFoamPct / 100) * totalFoamGpm;
-        const concentrateUsed = concentrateGPM * (deltaTime / 60);
-        
-        // Update tank level (don't allow negative)
-        const newTankGallons = Math.max(0, state.pump.foamTankGallons - concentrateUsed);
-        
-        updates.pump = {
-          ...state.pump,
-          foamTankGallons: newTankGallons,
-        };
-      }
-    }
-  }
-  
-  // Call stub functions for future features
-  // These will be implemented in later phases
-  const tempUpdates = updateTemperaturesStub(state, deltaTime);
-  const tankUpdates = updateTankWater(state, deltaTime);
-  
-  // Merge all updates
-  return { ...updates, ...tempUpdates, ...tankUpdates };
-}
-
-/**
- * NEW ARCHITECTURE: Update simulation using the simplified state and solver
- * This is the new data flow:
- * User input → dispatch(action) → state reducer → hydraulics solver → updated state → render
- *
- * @param state Current simulation state (simplified structure)
- * @param deltaTime Time elapsed since last update in seconds
- * @returns Updated state
- */
-export function updateSimulation(state: any, deltaTime: number): any {
-  // Import at function level to avoid circular dependencies during transition
-  const { solveHydraulics } = require('./solver');
-  
-  // Run hydraulics solver
-  const result = solveHydraulics(state);
-  
-  // Update pump state with computed values
-  const newState = {
-    ...state,
-    pump: {
-      ...state.pump,
-      pdp: result.requiredPDP,
-      intakePsi: result.intakePsi,
-      // RPM updates based on governor mode
-      rpm: state.pump.governor === 'RPM'
-        ? state.pump.setpoint
-        : calculateRPMForPressure(result.requiredPDP, state.pump.setpoint),
-    },
-  };
-
-  // Deplete foam tank if foam is flowing and foam system is enabled
-  let foamUsed = 0;
-  if (newState.pump.foamSystemEnabled && newState.pump.engaged && newState.pump.foamTankGallons > 0) {
-    Object.entries(result.dischargeFlows).forEach(([id, flow]) => {
-      const discharge = newState.discharges[id];
-      if (discharge && discharge.foamPct > 0) {
-        foamUsed += (flow * discharge.foamPct / 100) * (deltaTime / 60); // gallons per frame
-      }
-    });
-    
-    if (foamUsed > 0) {
-      newState.pump.foamTankGallons = Math.max(0, newState.pump.foamTankGallons - foamUsed);
-    }
-  }
-
-  return newState;
-}
\ No newline at end of file
@@ -0,0 +1,189 @@
+/**
+ * Tests for the instructor fault registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getGaugeDriftPsi, parseFaultSpec } from './faults';
+import { reducer } from './actions';
+import { createInitialPumpState } from './pierce-puc';
+import { exportSetup, createStateFromSetup, parseSetupFile } from './setup-file';
+import type { PumpState } from './model';
+import { applyActions, runFor } from './test-helpers';
+
+/** Engaged on a 50 PSI hydrant with one crosslay flowing */
+function flowingOnHydrant(): PumpState {
+  return applyActions(
+    createInitialPumpState(),
+    { type: 'PUMP_ENGAGE', engaged: true },
+    { type: 'WATER_SOURCE', source: 'hydrant' },
+    { type: 'SET_INTAKE_PRESSURE', intakeId: 'ldh_driver', psi: 50 },
+    { type: 'SETPOINT', value: 50 },
+    { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 }
+  );
+}
+
+describe('fault registry', () => {
+  it('keys faults by kind and target, replacing a fault started twice', () => {
+    let state = applyActions(
+      createInitialPumpState(),
+      { type: 'FAULT_START', fault: { kind: 'clogged_strainer', blockagePct: 40 } },
+      { type: 'FAULT_START', fault: { kind: 'gauge_drift', gauge: 'intake', driftPsiPerMin: 5 } }
+    );
+    state = runFor(state, 1);
+    state = reducer(state, { type: 'FAULT_START', fault: { kind: 'clogged_strainer', blockagePct: 80 } });
+
+    expect(state.activeFaults.map(fault => fault.id)).toEqual(['gauge_drift:intake', 'clogged_strainer']);
+    expect(state.activeFaults[0].activeSec).toBeCloseTo(1);
+    expect(state.activeFaults[1]).toEqual({ id: 'clogged_strainer', spec: { kind: 'clogged_strainer', blockagePct: 80 }, activeSec: 0 });
+
+    state = reducer(state, { type: 'FAULT_CLEAR', id: 'clogged_strainer' });
+    expect(state.activeFaults.map(fault => fault.id)).toEqual(['gauge_drift:intake']);
+    expect(reducer(state, { type: 'FAULT_CLEAR_ALL' }).activeFaults).toEqual([]);
+  });
+
+  it('seizes a stuck valve where it is until cleared', () => {
+    let state = reducer(flowingOnHydrant(), { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 0.5 });
+    state = reducer(state, {
+      type: 'FAULT_START',
+      fault: { kind: 'stuck_valve', dischargeId: 'xlay1', positionPct: 50 },
+    });
+    expect(reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 0 })).toBe(state);
+
+    // Whatever else moved it, the step puts it back
+    state = runFor({ ...state, dischargeValvePct: { ...state.dischargeValvePct, xlay1: 100 } }, 0.1);
+    expect(state.dischargeValvePct.xlay1).toBe(50);
+
+    state = applyActions(state, { type: 'FAULT_CLEAR', id: 'stuck_valve:xlay1' }, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 0 });
+    expect(state.dischargeValvePct.xlay1).toBe(0);
+  });
+
+  it('keeps a burst line shut until the hose is replaced', () => {
+    let state = runFor(flowingOnHydrant(), 1);
+    state = reducer(state, { type: 'SCENARIO_HOSE_BURST', lineId: 'xlay1' });
+    expect(state.activeFaults.map(fault => fault.id)).toEqual(['hose_burst:xlay1']);
+
+    // Reopening the line flows nothing while the burst stands
+    state = runFor(reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 }), 1);
+    expect(state.dischargeValvePct.xlay1).toBe(0);
+    expect(state.totalFlowGpm).toBe(0);
+
+    state = runFor(applyActions(state, { type: 'FAULT_CLEAR', id: 'hose_burst:xlay1' }, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 }), 1);
+    expect(state.totalFlowGpm).toBeGreaterThan(0);
+  });
+
+  it('freezes engine speed on governor failure', () => {
+    let state = runFor(flowingOnHydrant(), 1);
+    const heldRpm = state.runtime.rpm;
+    state = applyActions(state, { type: 'SCENARIO_GOVERNOR_FAILURE' }, { type: 'SETPOINT', value: 90 });
+    state = runFor(state, 2);
+    expect(state.runtime.rpm).toBe(heldRpm);
+
+    state = runFor(reducer(state, { type: 'FAULT_CLEAR', id: 'governor_failure' }), 0.1);
+    expect(state.runtime.rpm).toBeGreaterThan(heldRpm);
+  });
+
+  it('makes a hunting pressure governor swing around its setpoint', () => {
+    const steady = runFor(reducer(flowingOnHydrant(), { type: 'GOVERNOR_MODE', mode: 'PRESSURE' }), 20);
+    let hunting = reducer(steady, {
+      type: 'FAULT_START',
+      fault: { kind: 'governor_hunting', amplitudeRpm: 200, periodSec: 4 },
+    });
+    const speeds: number[] = [];
+    for (let i = 0; i < 40; i++) {
+      hunting = runFor(hunting, 0.1);
+      speeds.push(hunting.runtime.rpm);
+    }
+    expect(Math.max(...speeds) - Math.min(...speeds)).toBeGreaterThan(200);
+  });
+
+  it('drifts only the displayed gauge reading', () => {
+    const clean = runFor(flowingOnHydrant(), 10);
+    const drifting = runFor(reducer(clean, {
+      type: 'FAULT_START',
+      fault: { kind: 'gauge_drift', gauge: 'discharge', driftPsiPerMin: 12 },
+    }), 30);
+    expect(getGaugeDriftPsi(drifting, 'discharge')).toBeCloseTo(6);
+    expect(getGaugeDriftPsi(drifting, 'intake')).toBe(0);
+    expect(drifting.dischargePsi).toBeCloseTo(runFor(clean, 30).dischargePsi);
+  });
+
+  it('loses intake pressure across a clogged strainer as flow rises', () => {
+    const clean = runFor(flowingOnHydrant(), 5);
+    const clogged = runFor(reducer(clean, {
+      type: 'FAULT_START',
+      fault: { kind: 'clogged_strainer', blockagePct: 100 },
+    }), 5);
+    expect(clogged.intakePressurePsi).toBeLessThan(clean.intakePressurePsi);
+    expect(clogged.totalFlowGpm).toBeLessThan(clean.totalFlowGpm);
+  });
+
+  it('keeps a failed primer from priming', () => {
+    const atDraft = applyActions(
+      createInitialPumpState(),
+      { type: 'PUMP_ENGAGE', engaged: true },
+      { type: 'WATER_SOURCE', source: 'draft' },
+      { type: 'FAULT_START', fault: { kind: 'primer_failure' } },
+      { type: 'PRIMER_ACTIVATE' }
+    );
+    const failed = runFor(atDraft, 16);
+    expect(failed.primerActive).toBe(true);
+    expect(failed.interlocks.primed).toBe(false);
+    expect(reducer(failed, { type: 'PRIMER_COMPLETE' }).interlocks.primed).toBe(false);
+
+    const restored = runFor(applyActions(failed, { type: 'FAULT_CLEAR', id: 'primer_failure' }, { type: 'PRIMER_ACTIVATE' }), 16);
+    expect(restored.interlocks.primed).toBe(true);
+  });
+
+  it('breaks a primed draft with a severe intake air leak', () => {
+    let state = applyActions(
+      createInitialPumpState(),
+      { type: 'PUMP_ENGAGE', engaged: true },
+      { type: 'WATER_SOURCE', source: 'draft' },
+      { type: 'PRIMER_COMPLETE' }
+    );
+    state = runFor(reducer(state, { type: 'FAULT_START', fault: { kind: 'intake_air_leak', severityPct: 75 } }), 14.5);
+    expect(state.interlocks.primed).toBe(true);
+    state = runFor(state, 1);
+    expect(state.interlocks.primed).toBe(false);
+  });
+
+  it('costs pump output with an intake air leak', () => {
+    const clean = runFor(flowingOnHydrant(), 5);
+    const leaking = runFor(reducer(clean, { type: 'FAULT_START', fault: { kind: 'intake_air_leak', severityPct: 40 } }), 5);
+    expect(leaking.dischargePsi).toBeLessThan(clean.dischargePsi);
+  });
+
+  it('stops a failed DRV from relieving', () => {
+    const relieving = applyActions(
+      flowingOnHydrant(),
+      { type: 'DRV_TOGGLE', enabled: true },
+      { type: 'DRV_SETPOINT_SET', psi: 60 }
+    );
+    expect(runFor(relieving, 1).drv.bypassGpm).toBeGreaterThan(0);
+    const failed = runFor(reducer(relieving, { type: 'FAULT_START', fault: { kind: 'drv_failure' } }), 1);
+    expect(failed.drv.bypassGpm).toBe(0);
+    // Without relief the line sees full pump pressure
+    expect(failed.totalFlowGpm).toBeGreaterThan(runFor(relieving, 1).totalFlowGpm);
+  });
+
+  it('are saved with setup files and restart on load', () => {
+    const faulted = runFor(reducer(createInitialPumpState(), {
+      type: 'FAULT_START',
+      fault: { kind: 'stuck_valve', dischargeId: 'deck', positionPct: 30 },
+    }), 1);
+    const setup = parseSetupFile(JSON.parse(JSON.stringify(exportSetup(faulted))));
+    expect(createStateFromSetup(setup).activeFaults).toEqual([
+      { id: 'stuck_valve:deck', spec: { kind: 'stuck_valve', dischargeId: 'deck', positionPct: 30 }, activeSec: 0 },
+    ]);
+  });
+});
+
+describe('parseFaultSpec', () => {
+  it('validates the parameters of each kind', () => {
+    expect(parseFaultSpec({ kind: 'stuck_valve', dischargeId: 'crosslay1', positionPct: 20 }, 'fault'))
+      .toEqual({ kind: 'stuck_valve', dischargeId: 'xlay1', positionPct: 20 });
+    expect(() => parseFaultSpec({ kind: 'bad_pump' }, 'fault')).toThrow('fault.kind');
+    expect(() => parseFaultSpec({ kind: 'clogged_strainer', blockagePct: 140 }, 'fault'))
+      .toThrow('fault.blockagePct');
+  });
+});
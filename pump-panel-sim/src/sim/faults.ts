@@ -0,0 +1,326 @@
+/**
+ * Instructor fault registry
+ * Equipment faults (stuck valves, governor and gauge failures, intake and
+ * primer problems, a failed DRV), burst hose and tank or foam cell leaks
+ * that the engine applies every step until the instructor clears them.
+ * Equipment faults don't announce themselves; the crew has to diagnose
+ * them from the panel.
+ */
+
+import type { ActiveFault, DischargeId, DraftSite, FaultKind, FaultSpec, PumpState } from './model';
+import { normalizeDischargeId } from './ids';
+import { DEFAULT_FOAM_LEAK_GPM, DEFAULT_TANK_LEAK_GPM } from './leaks';
+import { strainerLossFt } from './drafting';
+import { ELEVATION_PSI_PER_FT } from './network-solver';
+import { invalid, readEnum, readNumber, readObject, readPercent, readPositive, readString } from './json-validation';
+
+/** Every fault kind, in the order the instructor panel lists them */
+export const FAULT_KINDS: readonly FaultKind[] = [
+  'stuck_valve',
+  'governor_failure',
+  'governor_hunting',
+  'gauge_drift',
+  'clogged_strainer',
+  'primer_failure',
+  'drv_failure',
+  'intake_air_leak',
+  'hose_burst',
+  'tank_leak',
+  'foam_leak',
+];
+
+/** Instructor-facing fault names */
+export const FAULT_LABELS: Record<FaultKind, string> = {
+  stuck_valve: 'Stuck discharge valve',
+  governor_failure: 'Governor failure',
+  governor_hunting: 'Governor hunting',
+  gauge_drift: 'Gauge drift',
+  clogged_strainer: 'Clogged intake strainer',
+  primer_failure: 'Primer failure',
+  drv_failure: 'DRV stuck closed',
+  intake_air_leak: 'Intake air leak',
+  hose_burst: 'Burst hose',
+  tank_leak: 'Booster tank leak',
+  foam_leak: 'Foam cell leak',
+};
+
+/** Fraction of pump output lost to a 100% intake air leak */
+export const AIR_LEAK_MAX_OUTPUT_LOSS = 0.3;
+
+/** Air leaks at or above this severity defeat the primer and lose prime at draft */
+export const AIR_LEAK_PRIME_SEVERITY_PCT = 50;
+
+/** Seconds a 50% air leak holds prime at draft; worse leaks lose it sooner */
+export const AIR_LEAK_PRIME_HOLD_SEC = 30;
+
+/** Share of normal primer vacuum a failed primer still pulls */
+export const PRIMER_FAILURE_VACUUM_FRACTION = 0.3;
+
+/**
+ * Fault of a kind with the instructor panel's default parameters
+ * A stuck valve seizes the chosen discharge where it is now.
+ *
+ * @param kind - Fault to inject
+ * @param state - Current pump state
+ * @param dischargeId - Discharge for valve and hose faults
+ * @returns Fault ready for FAULT_START
+ */
+export function createDefaultFault(kind: FaultKind, state: PumpState, dischargeId: DischargeId): FaultSpec {
+  switch (kind) {
+    case 'stuck_valve':
+      return { kind, dischargeId, positionPct: state.dischargeValvePct[dischargeId] };
+    case 'governor_hunting':
+      return { kind, amplitudeRpm: 150, periodSec: 4 };
+    case 'gauge_drift':
+      return { kind, gauge: 'discharge', driftPsiPerMin: 10 };
+    case 'clogged_strainer':
+      return { kind, blockagePct: 60 };
+    case 'intake_air_leak':
+      return { kind, severityPct: 60 };
+    case 'hose_burst':
+      return { kind, dischargeId };
+    case 'tank_leak':
+      return { kind, rateGpm: DEFAULT_TANK_LEAK_GPM };
+    case 'foam_leak':
+      return { kind, rateGpm: DEFAULT_FOAM_LEAK_GPM };
+    case 'governor_failure':
+    case 'primer_failure':
+    case 'drv_failure':
+      return { kind };
+  }
+}
+
+type FaultOfKind<K extends FaultKind> = ActiveFault & { spec: Extract<FaultSpec, { kind: K }> };
+
+/**
+ * Registry id for a fault: its kind, qualified by the valve, line or gauge it affects
+ */
+export function getFaultId(spec: FaultSpec): string {
+  switch (spec.kind) {
+    case 'stuck_valve':
+    case 'hose_burst':
+      return `${spec.kind}:${spec.dischargeId}`;
+    case 'gauge_drift':
+      return `${spec.kind}:${spec.gauge}`;
+    default:
+      return spec.kind;
+  }
+}
+
+/**
+ * Start a fault, replacing any active fault with the same id
+ *
+ * @param state - Current pump state
+ * @param spec - Fault and its parameters
+ * @param id - Registry id (defaults to getFaultId)
+ * @returns State with the fault active from zero seconds
+ */
+export function startFault(state: PumpState, spec: FaultSpec, id: string = getFaultId(spec)): PumpState {
+  const others = state.activeFaults.filter(fault => fault.id !== id);
+  return { ...state, activeFaults: [...others, { id, spec, activeSec: 0 }] };
+}
+
+/**
+ * Clear a fault; the equipment behaves normally again from the next step
+ */
+export function clearFault(state: PumpState, id: string): PumpState {
+  if (!state.activeFaults.some(fault => fault.id === id)) return state;
+  return { ...state, activeFaults: state.activeFaults.filter(fault => fault.id !== id) };
+}
+
+/**
+ * Active faults of one kind
+ */
+export function findFaults<K extends FaultKind>(state: PumpState, kind: K): FaultOfKind<K>[] {
+  return state.activeFaults.filter((fault): fault is FaultOfKind<K> => fault.spec.kind === kind);
+}
+
+/**
+ * Whether a fault of this kind is active
+ */
+export function hasFault(state: PumpState, kind: FaultKind): boolean {
+  return state.activeFaults.some(fault => fault.spec.kind === kind);
+}
+
+/**
+ * Advance every fault's active time by one step
+ */
+export function advanceFaults(faults: ActiveFault[], deltaTimeSeconds: number): ActiveFault[] {
+  if (faults.length === 0) return faults;
+  return faults.map(fault => ({ ...fault, activeSec: fault.activeSec + deltaTimeSeconds }));
+}
+
+/**
+ * Pin stuck discharge valves at their seized positions and burst lines shut
+ * A burst line flows nothing however far the crew reopens it.
+ */
+export function holdFaultedValves(state: PumpState): PumpState {
+  const held = new Map<DischargeId, number>();
+  for (const { spec } of findFaults(state, 'stuck_valve')) {
+    held.set(spec.dischargeId, spec.positionPct);
+  }
+  for (const { spec } of findFaults(state, 'hose_burst')) {
+    held.set(spec.dischargeId, 0);
+  }
+  if ([...held].every(([id, pct]) => state.dischargeValvePct[id] === pct)) {
+    return state;
+  }
+  const dischargeValvePct = { ...state.dischargeValvePct };
+  for (const [id, pct] of held) {
+    dischargeValvePct[id] = pct;
+  }
+  return { ...state, dischargeValvePct };
+}
+
+/**
+ * Engine speed after governor faults
+ * A failed governor holds the previous speed whatever the mode or throttle;
+ * a hunting pressure governor swings around the speed its PID asked for.
+ *
+ * @param rpm - Speed commanded by the governor this step
+ * @param state - Pump state at the start of the step
+ * @returns Engine speed the pump actually runs at
+ */
+export function applyGovernorFaults(rpm: number, state: PumpState): number {
+  if (hasFault(state, 'governor_failure')) return state.runtime.rpm;
+  if (state.runtime.governor !== 'PRESSURE') return rpm;
+
+  const { idleRpm, maxRpm } = state.pump.governor;
+  let huntingRpm = rpm;
+  for (const { spec, activeSec } of findFaults(state, 'governor_hunting')) {
+    huntingRpm += spec.amplitudeRpm * Math.sin((2 * Math.PI * activeSec) / spec.periodSec);
+  }
+  return Math.max(idleRpm, Math.min(maxRpm, huntingRpm));
+}
+
+/**
+ * Share of the intake strainer's open area blocked by clogged strainer faults (%)
+ * Blockages compound: each closes part of what the others left open.
+ */
+export function faultStrainerBlockagePct(state: PumpState): number {
+  const openFraction = findFaults(state, 'clogged_strainer').reduce(
+    (open, { spec }) => open * (1 - spec.blockagePct / 100),
+    1
+  );
+  return (1 - openFraction) * 100;
+}
+
+/**
+ * Draft site as the pump sees it
+ * A clogged strainer fault blocks the strainer on top of the debris the site
+ * starts with, so it cuts NPSH available and the draft limit like any other
+ * blockage.
+ */
+export function draftSiteWithFaults(state: PumpState): DraftSite {
+  const faultOpen = 1 - faultStrainerBlockagePct(state) / 100;
+  if (faultOpen === 1) return state.draft;
+  const siteOpen = 1 - state.draft.strainerBlockagePct / 100;
+  return { ...state.draft, strainerBlockagePct: (1 - siteOpen * faultOpen) * 100 };
+}
+
+/**
+ * Intake pressure lost across a clogged strainer on a pressurized supply
+ * The same strainer model as at draft, in a pump inlet sized like the hard
+ * suction: what the blockage adds over a clean strainer. At draft the strainer
+ * is already in the suction losses (draftSiteWithFaults).
+ *
+ * @param state - Current pump state
+ * @param flowGpm - Flow through the strainer
+ * @returns Extra intake loss in PSI
+ */
+export function strainerLossPsi(state: PumpState, flowGpm: number): number {
+  const blockagePct = faultStrainerBlockagePct(state);
+  if (state.waterSource === 'draft' || blockagePct === 0) return 0;
+  const { hardSuctionDiameterIn } = state.draft;
+  const lossFt = strainerLossFt(hardSuctionDiameterIn, flowGpm, blockagePct) -
+    strainerLossFt(hardSuctionDiameterIn, flowGpm, 0);
+  return lossFt * ELEVATION_PSI_PER_FT;
+}
+
+/**
+ * Share of normal pump output left after intake air leaks (0-1)
+ */
+export function airLeakOutputFactor(state: PumpState): number {
+  const severityPct = Math.max(0, ...findFaults(state, 'intake_air_leak').map(fault => fault.spec.severityPct));
+  return 1 - (severityPct / 100) * AIR_LEAK_MAX_OUTPUT_LOSS;
+}
+
+/**
+ * Whether the primer can finish priming (a failed primer or a bad air leak stops it)
+ */
+export function canPrime(state: PumpState): boolean {
+  if (hasFault(state, 'primer_failure')) return false;
+  return findFaults(state, 'intake_air_leak').every(
+    fault => fault.spec.severityPct < AIR_LEAK_PRIME_SEVERITY_PCT
+  );
+}
+
+/**
+ * Whether an intake air leak has broken a primed draft
+ */
+export function losesPrime(state: PumpState): boolean {
+  if (state.waterSource !== 'draft' || !state.interlocks.primed) return false;
+  return findFaults(state, 'intake_air_leak').some(({ spec, activeSec }) => {
+    if (spec.severityPct < AIR_LEAK_PRIME_SEVERITY_PCT) return false;
+    const holdSec = AIR_LEAK_PRIME_HOLD_SEC * (100 - spec.severityPct) / (100 - AIR_LEAK_PRIME_SEVERITY_PCT);
+    return activeSec >= holdSec;
+  });
+}
+
+/**
+ * Error a drifting master gauge adds to its reading in PSI
+ * The governor has its own transducer, so only the displayed reading drifts.
+ */
+export function getGaugeDriftPsi(state: PumpState, gauge: 'discharge' | 'intake'): number {
+  return findFaults(state, 'gauge_drift')
+    .filter(fault => fault.spec.gauge === gauge)
+    .reduce((drift, { spec, activeSec }) => drift + spec.driftPsiPerMin * (activeSec / 60), 0);
+}
+
+/**
+ * Validate a fault from a setup or scenario script file
+ *
+ * @param value - Parsed JSON
+ * @param path - Location in error messages
+ * @returns Typed fault
+ * @throws Error naming the first invalid field
+ */
+export function parseFaultSpec(value: unknown, path: string): FaultSpec {
+  const fault = readObject(value, path);
+  const kind = readEnum(fault.kind, FAULT_KINDS, `${path}.kind`);
+  const readDischargeId = () => {
+    const name = readString(fault.dischargeId, `${path}.dischargeId`);
+    const dischargeId = normalizeDischargeId(name);
+    if (!dischargeId) invalid(`${path}.dischargeId`, `"${name}" is not a known discharge`);
+    return dischargeId;
+  };
+  switch (kind) {
+    case 'stuck_valve':
+      return { kind, dischargeId: readDischargeId(), positionPct: readPercent(fault.positionPct, `${path}.positionPct`) };
+    case 'hose_burst':
+      return { kind, dischargeId: readDischargeId() };
+    case 'tank_leak':
+    case 'foam_leak':
+      return { kind, rateGpm: readPositive(fault.rateGpm, `${path}.rateGpm`) };
+    case 'governor_hunting':
+      return {
+        kind,
+        amplitudeRpm: readPositive(fault.amplitudeRpm, `${path}.amplitudeRpm`),
+        periodSec: readPositive(fault.periodSec, `${path}.periodSec`),
+      };
+    case 'gauge_drift':
+      return {
+        kind,
+        gauge: readEnum(fault.gauge, ['discharge', 'intake'] as const, `${path}.gauge`),
+        driftPsiPerMin: readNumber(fault.driftPsiPerMin, `${path}.driftPsiPerMin`),
+      };
+    case 'clogged_strainer':
+      return { kind, blockagePct: readPercent(fault.blockagePct, `${path}.blockagePct`) };
+    case 'intake_air_leak':
+      return { kind, severityPct: readPercent(fault.severityPct, `${path}.severityPct`) };
+    case 'governor_failure':
+    case 'primer_failure':
+    case 'drv_failure':
+      return { kind };
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { intakeGauge, dischargeGauge, getPumpStatus } from './gauges';
+import { intakeGauge, dischargeGauge, getPumpStatus, stepNeedle, NEEDLE_DAMPING } from './gauges';
+import type { NeedleState } from './gauges';
 
 describe('Intake Gauge', () => {
   it('shows 40-50 PSI baseline when Tank-to-Pump open at idle', () => {
@@ -119,4 +120,28 @@ describe('Pump Status', () => {
     
     expect(status.warnings.length).toBeGreaterThan(2);
   });
-});
\ No newline at end of file
+});
+
+describe('Needle Damping', () => {
+  /** Needle positions every 0.1 s after the reading steps from 0 to 100 */
+  function stepResponse(damping: { naturalFreqHz: number; dampingRatio: number }, seconds: number): number[] {
+    let needle: NeedleState = { position: 0, velocity: 0 };
+    const positions: number[] = [];
+    for (let i = 0; i < Math.round(seconds / 0.1); i++) {
+      needle = stepNeedle(needle, 100, damping, 0.1);
+      positions.push(needle.position);
+    }
+    return positions;
+  }
+
+  it('lags a step in the reading and settles on it', () => {
+    const positions = stepResponse(NEEDLE_DAMPING.discharge, 5);
+    expect(positions[0]).toBeLessThan(50);
+    expect(positions[positions.length - 1]).toBeCloseTo(100, 1);
+  });
+
+  it('overshoots on a lightly damped line gauge but not a well damped one', () => {
+    expect(Math.max(...stepResponse(NEEDLE_DAMPING.line, 3))).toBeGreaterThan(110);
+    expect(Math.max(...stepResponse({ naturalFreqHz: 1.2, dampingRatio: 1 }, 5))).toBeLessThanOrEqual(100);
+  });
+});
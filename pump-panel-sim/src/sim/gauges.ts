@@ -5,50 +5,41 @@
  * Blueprint ref: Lines 12, 15, 19, 152, 159-160, 236, 238
  */
 
-import type { SimState } from './state';
 import type { PumpState } from './model';
 
 /**
  * Pierce PUC: Compute master intake gauge reading based on water source
  * Automatically switches between PSI (pressurized) and inHg (draft) display
  * 
- * @param state Current simulation state
+ * @param state Current pump state
  * @returns Gauge reading in appropriate units (negative for vacuum)
  */
-export function computeMasterIntake(state: SimState): number {
-  const primaryIntake = Object.values(state.intakes)[0];
-  const source = primaryIntake?.source || 'hydrant';
-  
-  if (source === 'draft') {
+export function computeMasterIntake(state: PumpState): number {
+  if (state.waterSource === 'draft') {
     // Draft mode: show vacuum in inHg (negative pressure)
-    // Convert PSI to inHg: 1 PSI ≈ 2.036 inHg
-    const vacuum = Math.abs(state.pump.intakePsi) * 2.036;
-    return -vacuum; // Negative for vacuum display
+    return -state.intakeVacuumInHg; // Negative for vacuum display
   }
   
   // Hydrant/Tank/Relay mode: show positive PSI
-  return state.pump.intakePsi;
+  return state.intakePressurePsi;
 }
 
 /**
  * Pierce PUC: Get master intake warnings based on water source
  * 
- * @param state Current simulation state
+ * @param state Current pump state
  * @returns Array of warning messages
  */
-export function getMasterIntakeWarnings(state: SimState): string[] {
+export function getMasterIntakeWarnings(state: PumpState): string[] {
   const warnings: string[] = [];
-  const primaryIntake = Object.values(state.intakes)[0];
-  const source = primaryIntake?.source || 'hydrant';
   
-  if (source === 'draft') {
-    const vacuum = Math.abs(state.pump.intakePsi) * 2.036;
-    if (vacuum > 20) {
+  if (state.waterSource === 'draft') {
+    if (state.intakeVacuumInHg > 20) {
       warnings.push('HIGH VACUUM: Risk of cavitation');
     }
   } else {
     // Pressurized source (hydrant, tank, relay)
-    if (state.pump.intakePsi < 20 && state.pump.engaged) {
+    if (state.intakePressurePsi < 20 && state.interlocks.engaged) {
       warnings.push('LOW INTAKE PRESSURE: < 20 PSI');
     }
   }
@@ -229,6 +220,66 @@ export function getPumpStatus(state: PumpState): PumpStatus {
   };
 }
 
+/**
+ * Gauge needle damping
+ * A Bourdon-tube needle is a damped spring: it swings toward the pressure
+ * and, if lightly damped, past it before settling.
+ */
+export interface NeedleDamping {
+  naturalFreqHz: number;  // How fast the needle swings
+  dampingRatio: number;   // Below 1 overshoots, 1 and above creeps in
+}
+
+/**
+ * Needle damping per gauge
+ * Master gauges are liquid-filled and well damped; line gauges are dry and
+ * bounce. The tachometer is electronic and only lightly filtered.
+ */
+export const NEEDLE_DAMPING = {
+  discharge: { naturalFreqHz: 1.2, dampingRatio: 0.7 },
+  intake: { naturalFreqHz: 1.2, dampingRatio: 0.7 },
+  rpm: { naturalFreqHz: 3, dampingRatio: 0.9 },
+  line: { naturalFreqHz: 2.5, dampingRatio: 0.4 },
+} satisfies Record<string, NeedleDamping>;
+
+/**
+ * Needle position (in gauge units) and velocity (units per second)
+ */
+export interface NeedleState {
+  position: number;
+  velocity: number;
+}
+
+/** Longest integration substep for the needle in seconds */
+const NEEDLE_MAX_SUBSTEP_SEC = 1 / 120;
+
+/**
+ * Advance a gauge needle toward the reading
+ *
+ * @param needle - Needle at the start of the step
+ * @param target - Pressure or speed the gauge is reading
+ * @param damping - Needle dynamics
+ * @param deltaTimeSeconds - Time step in seconds
+ * @returns Needle after the step
+ */
+export function stepNeedle(
+  needle: NeedleState,
+  target: number,
+  damping: NeedleDamping,
+  deltaTimeSeconds: number
+): NeedleState {
+  const omega = 2 * Math.PI * damping.naturalFreqHz;
+  const substeps = Math.max(1, Math.ceil(deltaTimeSeconds / NEEDLE_MAX_SUBSTEP_SEC));
+  const dt = deltaTimeSeconds / substeps;
+  let { position, velocity } = needle;
+  for (let i = 0; i < substeps; i++) {
+    const acceleration = omega * omega * (target - position) - 2 * damping.dampingRatio * omega * velocity;
+    velocity += acceleration * dt;
+    position += velocity * dt;
+  }
+  return { position, velocity };
+}
+
 // Legacy compatibility functions (can be deprecated later)
 
 /**
@@ -3,7 +3,7 @@
  * Implements RPM and PRESSURE modes with PID control
  */
 
-import type { PumpState } from './model';
+import type { GovernorLimits, GovernorTuning, PumpSpec, PumpState } from './model';
 
 export type GovernorMode = 'RPM' | 'PRESSURE';
 
@@ -29,6 +29,24 @@ export interface GovernorState {
   };
 }
 
+/**
+ * Pierce PUC pressure governor tuning, used when a profile gives none
+ * Tuned for smooth, stable pressure regulation.
+ */
+export const DEFAULT_GOVERNOR_TUNING: GovernorTuning = {
+  kp: 0.6,
+  ki: 0.08,
+  kd: 0.02,
+  integralLimit: 1000,
+};
+
+/**
+ * Pressure governor tuning of a pump, or the default tuning
+ */
+export function getGovernorTuning(pump: PumpSpec): GovernorTuning {
+  return pump.governorTuning ?? DEFAULT_GOVERNOR_TUNING;
+}
+
 /**
  * Create initial governor state
  * 
@@ -47,52 +65,53 @@ export function createGovernor(): GovernorState {
  * PID controller for PRESSURE mode
  * Automatically adjusts engine RPM to maintain target discharge pressure
  * 
+ * Pure function: the updated PID state is returned rather than mutated,
+ * so each pump carries its own integrator in PumpState.
+ * 
  * @param state - Current pump state
  * @param governor - Governor state
  * @param dt - Time step in seconds
- * @returns New engine RPM
+ * @returns New commanded engine RPM and governor state with updated PID terms
  */
 export function updatePressureGovernor(
   state: PumpState,
   governor: GovernorState,
   dt: number
-): number {
-  if (governor.mode !== 'PRESSURE') return state.runtime.rpm;
+): { rpm: number; governor: GovernorState } {
+  if (governor.mode !== 'PRESSURE') return { rpm: state.engine.commandedRpm, governor };
   
-  // PID tuning parameters for pressure control
-  // These are tuned for smooth, stable pressure regulation
-  const Kp = 0.6;   // Proportional gain
-  const Ki = 0.08;  // Integral gain
-  const Kd = 0.02;  // Derivative gain
+  // PID tuning parameters for pressure control, from the apparatus profile
+  const { kp, ki, kd, integralLimit } = getGovernorTuning(state.pump);
   
   // Calculate error (target - actual)
   const error = governor.targetPDP - (state.dischargePsi || 0);
   
   // Integral term with anti-windup
-  governor.pidState.integral += error * dt;
   // Clamp integral to prevent windup
-  governor.pidState.integral = Math.max(-1000, Math.min(1000, governor.pidState.integral));
+  const integral = Math.max(-integralLimit, Math.min(integralLimit, governor.pidState.integral + error * dt));
   
   // Derivative term
   const derivative = (error - governor.pidState.ePrev) / dt;
-  governor.pidState.ePrev = error;
   
   // PID output: change in RPM
-  const deltaRPM = Kp * error + Ki * governor.pidState.integral + Kd * derivative;
+  const deltaRPM = kp * error + ki * integral + kd * derivative;
   
-  // Apply change to current RPM
-  const newRPM = state.runtime.rpm + deltaRPM;
+  // Apply change to the speed already commanded; the engine follows with its own lag
+  const newRPM = state.engine.commandedRpm + deltaRPM;
   
-  // Clamp RPM to realistic engine limits
-  // Idle: 700 RPM, Max governed: 2200 RPM
-  return Math.max(700, Math.min(2200, newRPM));
+  // Clamp RPM to the apparatus engine limits (idle to max governed)
+  const { idleRpm, maxRpm } = state.pump.governor;
+  return {
+    rpm: Math.max(idleRpm, Math.min(maxRpm, newRPM)),
+    governor: { ...governor, pidState: { ePrev: error, integral } },
+  };
 }
 
 /**
  * RPM mode simply maintains set RPM
  * Operator manually controls engine speed
  * 
- * @param state - Current pump state (unused, for consistency)
+ * @param state - Current pump state
  * @param governor - Governor state
  * @returns Target RPM
  */
@@ -100,8 +119,7 @@ export function updateRPMGovernor(
   state: PumpState,
   governor: GovernorState
 ): number {
-  void state; // Unused parameter
-  if (governor.mode !== 'RPM') return state.runtime.rpm;
+  if (governor.mode !== 'RPM') return state.engine.commandedRpm;
   return governor.targetRPM;
 }
 
@@ -127,15 +145,17 @@ export function switchGovernorMode(
  * Set target RPM for RPM mode
  * 
  * @param governor - Current governor state
- * @param targetRPM - New target RPM (700-2200)
+ * @param targetRPM - New target RPM
+ * @param limits - Apparatus idle and max governed RPM
  * @returns Updated governor state
  */
 export function setTargetRPM(
   governor: GovernorState,
-  targetRPM: number
+  targetRPM: number,
+  limits: GovernorLimits
 ): GovernorState {
   // Clamp to valid range
-  const clampedRPM = Math.max(700, Math.min(2200, targetRPM));
+  const clampedRPM = Math.max(limits.idleRpm, Math.min(limits.maxRpm, targetRPM));
   
   return {
     ...governor,
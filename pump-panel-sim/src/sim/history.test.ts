@@ -0,0 +1,88 @@
+/**
+ * Tests for trend history
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TrendHistory, sampleSnapshot } from './history';
+import { createInitialSnapshot, simulationReducer } from './actions';
+import type { Action, SimulationSnapshot } from './actions';
+
+const tick: Action = { type: 'TICK', deltaTime: 0.1 };
+
+/** Run ticks, offering every snapshot to the history */
+function run(history: TrendHistory, snapshot: SimulationSnapshot, ticks: number): SimulationSnapshot {
+  let current = snapshot;
+  for (let i = 0; i < ticks; i++) {
+    current = simulationReducer(current, tick);
+    history.record(current);
+  }
+  return current;
+}
+
+describe('TrendHistory', () => {
+  it('keeps one sample per interval', () => {
+    const history = new TrendHistory(60, 0.5);
+    run(history, createInitialSnapshot(), 50);
+    expect(history.size).toBe(10);
+    expect(history.getSamples().map(sample => sample.timeSec)).toEqual(
+      [0.1, 0.6, 1.1, 1.6, 2.1, 2.6, 3.1, 3.6, 4.1, 4.6].map(t => expect.closeTo(t))
+    );
+  });
+
+  it('drops samples older than the window', () => {
+    const history = new TrendHistory(10, 1);
+    run(history, createInitialSnapshot(), 300);
+    const samples = history.getSamples();
+    expect(samples).toHaveLength(11);
+    expect(samples[0].timeSec).toBeCloseTo(19.1);
+    expect(history.latest?.timeSec).toBeCloseTo(29.1);
+  });
+
+  it('returns the most recent span on request', () => {
+    const history = new TrendHistory(60, 1);
+    run(history, createInitialSnapshot(), 300);
+    expect(history.getSamples(5).map(sample => sample.timeSec)).toEqual(
+      [24.1, 25.1, 26.1, 27.1, 28.1, 29.1].map(t => expect.closeTo(t))
+    );
+  });
+
+  it('starts over when simulated time runs backwards', () => {
+    const history = new TrendHistory(60, 1);
+    run(history, createInitialSnapshot(), 50);
+    run(history, createInitialSnapshot(), 15);
+    expect(history.getSamples().map(sample => sample.timeSec)).toEqual([0.1, 1.1].map(t => expect.closeTo(t)));
+  });
+
+  it('rejects an interval longer than the window', () => {
+    expect(() => new TrendHistory(1, 2)).toThrow();
+  });
+});
+
+describe('sampleSnapshot', () => {
+  it('reads gauges and per-line flow from the snapshot', () => {
+    let snapshot = createInitialSnapshot();
+    for (const action of [
+      { type: 'PUMP_ENGAGE', engaged: true },
+      { type: 'TANK_TO_PUMP', open: true },
+      { type: 'SETPOINT', value: 60 },
+      { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 },
+    ] satisfies Action[]) {
+      snapshot = simulationReducer(snapshot, action);
+    }
+    for (let i = 0; i < 50; i++) snapshot = simulationReducer(snapshot, tick);
+
+    const sample = sampleSnapshot(snapshot);
+    expect(sample.timeSec).toBeCloseTo(5);
+    expect(sample.pdpPsi).toBe(snapshot.state.dischargePsi);
+    expect(sample.rpm).toBe(snapshot.state.runtime.rpm);
+    expect(sample.tankGallons).toBe(snapshot.state.tankGallons);
+    expect(sample.lineFlowGpm.xlay1).toBeGreaterThan(0);
+    expect(sample.lineFlowGpm.xlay2).toBe(0);
+  });
+
+  it('shows drafting vacuum as negative intake pressure', () => {
+    const snapshot = createInitialSnapshot();
+    const drafting = { ...snapshot, state: { ...snapshot.state, waterSource: 'draft' as const, intakeVacuumInHg: 10.18 } };
+    expect(sampleSnapshot(drafting).intakePsi).toBeCloseTo(-5);
+  });
+});
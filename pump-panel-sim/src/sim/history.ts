@@ -0,0 +1,140 @@
+/**
+ * Trend history
+ * Rolling buffer of gauge readings sampled from the simulation, so students
+ * can look back at governor hunting, pressure drops during a water supply
+ * changeover and temperature creep rather than only the current value.
+ */
+
+import type { SimulationSnapshot } from './actions';
+import type { DischargeId } from './model';
+
+/** Simulated seconds of history kept */
+export const HISTORY_WINDOW_SEC = 300;
+
+/** Simulated seconds between samples */
+export const HISTORY_SAMPLE_INTERVAL_SEC = 0.25;
+
+/** PSI per inHg of vacuum on the compound intake gauge */
+const PSI_PER_INHG = 1 / 2.036;
+
+/** Tolerance when comparing summed tick times */
+const TIME_EPSILON_SEC = 1e-6;
+
+/**
+ * Gauge readings at one point in time
+ */
+export interface TrendSample {
+  /** Simulated time of the sample in seconds */
+  timeSec: number;
+  /** Pump discharge pressure in PSI */
+  pdpPsi: number;
+  /** Intake pressure in PSI; vacuum while drafting reads negative */
+  intakePsi: number;
+  rpm: number;
+  pumpTempF: number;
+  engineTempF: number;
+  tankGallons: number;
+  /** Flow on each discharge in GPM */
+  lineFlowGpm: Record<DischargeId, number>;
+}
+
+/**
+ * Read the trended gauges from a simulation snapshot
+ */
+export function sampleSnapshot(snapshot: SimulationSnapshot): TrendSample {
+  const { state, diagnostics, elapsedSec } = snapshot;
+  const lineFlowGpm = {} as Record<DischargeId, number>;
+  for (const id of Object.keys(state.dischargeValvePct) as DischargeId[]) {
+    lineFlowGpm[id] = diagnostics.lineHydraulics.get(id)?.flow ?? 0;
+  }
+  return {
+    timeSec: elapsedSec,
+    pdpPsi: state.dischargePsi,
+    intakePsi: state.waterSource === 'draft'
+      ? -state.intakeVacuumInHg * PSI_PER_INHG
+      : state.intakePressurePsi,
+    rpm: state.runtime.rpm,
+    pumpTempF: state.pumpTempF,
+    engineTempF: state.engineTempF,
+    tankGallons: state.tankGallons,
+    lineFlowGpm,
+  };
+}
+
+/**
+ * Fixed-size ring buffer of trend samples covering the last window of simulated time
+ *
+ * Snapshots can be offered every step; one is kept per sample interval.
+ */
+export class TrendHistory {
+  readonly windowSec: number;
+  readonly sampleIntervalSec: number;
+  private readonly samples: (TrendSample | undefined)[];
+  /** Index the next sample is written to */
+  private next = 0;
+  private count = 0;
+
+  constructor(windowSec: number = HISTORY_WINDOW_SEC, sampleIntervalSec: number = HISTORY_SAMPLE_INTERVAL_SEC) {
+    if (!(sampleIntervalSec > 0) || !(windowSec >= sampleIntervalSec)) {
+      throw new Error(`TrendHistory needs a positive sample interval within the window, got ${sampleIntervalSec} s in ${windowSec} s`);
+    }
+    this.windowSec = windowSec;
+    this.sampleIntervalSec = sampleIntervalSec;
+    this.samples = new Array<TrendSample | undefined>(Math.ceil(windowSec / sampleIntervalSec) + 1);
+  }
+
+  /** Number of samples held */
+  get size(): number {
+    return this.count;
+  }
+
+  /** Most recent sample, if any */
+  get latest(): TrendSample | undefined {
+    return this.count > 0 ? this.samples[(this.next - 1 + this.samples.length) % this.samples.length] : undefined;
+  }
+
+  /**
+   * Sample a snapshot if a sample interval has passed since the last one
+   *
+   * Time running backwards means the simulation was restarted, so the
+   * history starts over.
+   *
+   * @returns Whether a sample was taken
+   */
+  record(snapshot: SimulationSnapshot): boolean {
+    const latest = this.latest;
+    if (latest) {
+      if (snapshot.elapsedSec < latest.timeSec - TIME_EPSILON_SEC) {
+        this.clear();
+      } else if (snapshot.elapsedSec - latest.timeSec < this.sampleIntervalSec - TIME_EPSILON_SEC) {
+        return false;
+      }
+    }
+    this.samples[this.next] = sampleSnapshot(snapshot);
+    this.next = (this.next + 1) % this.samples.length;
+    this.count = Math.min(this.count + 1, this.samples.length);
+    return true;
+  }
+
+  /**
+   * Samples in time order, oldest first
+   *
+   * @param lastSec - Only the samples within this many seconds of the latest
+   */
+  getSamples(lastSec: number = this.windowSec): TrendSample[] {
+    const capacity = this.samples.length;
+    const ordered: TrendSample[] = [];
+    for (let i = 0; i < this.count; i++) {
+      const sample = this.samples[(this.next - this.count + i + capacity) % capacity];
+      if (sample) ordered.push(sample);
+    }
+    const latest = ordered[ordered.length - 1];
+    return latest ? ordered.filter(sample => latest.timeSec - sample.timeSec <= lastSec + TIME_EPSILON_SEC) : ordered;
+  }
+
+  clear(): void {
+    this.samples.fill(undefined);
+    this.next = 0;
+    this.count = 0;
+  }
+}
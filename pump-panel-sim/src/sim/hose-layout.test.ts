@@ -0,0 +1,91 @@
+/**
+ * Tests for hose layouts: segments, appliances and elevation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getHoseSegments,
+  layoutLengthFt,
+  layoutFrictionLossPsi,
+  layoutApplianceLossPsi,
+  layoutElevationFt,
+  createWyedLayout,
+  createStandpipeLayout,
+} from './hose-layout';
+import { frictionLossPsi } from '../hydraulics/formulas';
+import { APPLIANCE_LOSS_PSI } from '../hydraulics/standards';
+import { defaultLines, createInitialPumpState } from './pierce-puc';
+import { simulateStep } from './engine';
+import type { LineConfig, PumpState } from './model';
+
+const CROSSLAY = defaultLines.xlay1;
+
+describe('layout segments', () => {
+  it('treats a line without segments as its single hose', () => {
+    expect(getHoseSegments(CROSSLAY)).toEqual([CROSSLAY.hose]);
+    expect(layoutFrictionLossPsi(CROSSLAY, 150))
+      .toBeCloseTo(frictionLossPsi({ id: 'xlay1', ...CROSSLAY.hose }, 150), 10);
+  });
+
+  it('sums friction over mixed 2.5" and 1.75" segments', () => {
+    const config: LineConfig = {
+      ...CROSSLAY,
+      segments: [
+        { diameterIn: 2.5, lengthFt: 200, C: 150 },
+        { diameterIn: 1.75, lengthFt: 150, C: 150 },
+      ],
+    };
+    const supply = frictionLossPsi({ id: 'a', diameterIn: 2.5, lengthFt: 200, C: 150 }, 150);
+    const attack = frictionLossPsi({ id: 'b', diameterIn: 1.75, lengthFt: 150, C: 150 }, 150);
+
+    expect(layoutLengthFt(config)).toBe(350);
+    expect(layoutFrictionLossPsi(config, 150)).toBeCloseTo(supply + attack, 10);
+  });
+
+  it('lays a wyed line as 2.5" to a gated wye with two 1.75" branches', () => {
+    const wyed = createWyedLayout(CROSSLAY, 200, 150);
+
+    expect(layoutLengthFt(wyed)).toBe(200);
+    expect(wyed.appliances).toEqual([{ type: 'gated_wye' }]);
+    expect(wyed.branches!.map(branch => branch.id)).toEqual(['left', 'right']);
+    expect(wyed.branches![0].segments).toEqual([{ diameterIn: 1.75, lengthFt: 150, C: 150 }]);
+  });
+});
+
+describe('appliances and elevation', () => {
+  it('uses standard appliance losses unless overridden', () => {
+    const config: LineConfig = {
+      ...CROSSLAY,
+      appliances: [{ type: 'gated_wye' }, { type: 'manifold', lossPsi: 15 }],
+    };
+    expect(layoutApplianceLossPsi(config)).toBe(APPLIANCE_LOSS_PSI.GATED_WYE + 15);
+    expect(layoutApplianceLossPsi(CROSSLAY)).toBe(0);
+  });
+
+  it('adds line rise and floors to the scene elevation', () => {
+    expect(layoutElevationFt({ ...CROSSLAY, elevationFt: 5, floors: 3 }, -10)).toBe(25);
+  });
+});
+
+describe('simulateStep with layouts', () => {
+  function requiredPDP(config: LineConfig): number {
+    const base = createInitialPumpState();
+    const state: PumpState = {
+      ...base,
+      interlocks: { ...base.interlocks, engaged: true },
+      tankToPumpOpen: true,
+      dischargeValvePct: { ...base.dischargeValvePct, d2_5_a: 100 },
+      lineConfigs: { ...base.lineConfigs, d2_5_a: config },
+    };
+    return simulateStep(state, 0.1).diagnostics.lineHydraulics.get('d2_5_a')!.requiredPDP;
+  }
+
+  it('raises required PDP for standpipe loss and each floor of elevation', () => {
+    const line = defaultLines.d2_5_a;
+    const ground = requiredPDP(createStandpipeLayout(line, 0));
+    const tenthFloor = requiredPDP(createStandpipeLayout(line, 9));
+
+    expect(ground).toBeGreaterThan(requiredPDP(line) + APPLIANCE_LOSS_PSI.STANDPIPE);
+    expect(tenthFloor - ground).toBeCloseTo(9 * 10 * 0.434, 5);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Hose layout calculations
+ * Per-segment friction, appliance and elevation losses for a discharge lay,
+ * plus preset layouts for wyed, siamesed and standpipe operations
+ */
+
+import type { Appliance, DischargeId, HoseSegment, LineBranch, LineConfig } from './model';
+import { frictionLossPsi } from '../hydraulics/formulas';
+import { APPLIANCE_LOSS_PSI, FLOOR_HEIGHT_FT, HOSE_C } from '../hydraulics/standards';
+
+/**
+ * Hose sections of a line from pump to nozzle
+ *
+ * @param config - Line configuration
+ * @returns Layout segments, or the single hose when no segments are set
+ */
+export function getHoseSegments(config: LineConfig): HoseSegment[] {
+  return config.segments && config.segments.length > 0 ? config.segments : [config.hose];
+}
+
+/**
+ * Total hose length of a line in feet
+ */
+export function layoutLengthFt(config: LineConfig): number {
+  return getHoseSegments(config).reduce((sum, segment) => sum + segment.lengthFt, 0);
+}
+
+/**
+ * Friction loss summed over every hose segment at a given flow
+ *
+ * @param config - Line configuration
+ * @param flowGpm - Flow through the line in GPM
+ * @returns Total hose friction loss in PSI
+ */
+export function layoutFrictionLossPsi(config: LineConfig, flowGpm: number): number {
+  return segmentsFrictionLossPsi(getHoseSegments(config), flowGpm, config.id);
+}
+
+/**
+ * Friction loss summed over a list of hose segments
+ *
+ * @param segments - Hose sections carrying the same flow
+ * @param flowGpm - Flow in GPM
+ * @param idPrefix - Prefix for the hose ids passed to frictionLossPsi
+ * @returns Total friction loss in PSI
+ */
+export function segmentsFrictionLossPsi(segments: HoseSegment[], flowGpm: number, idPrefix: string): number {
+  return segments.reduce(
+    (sum, segment, i) => sum + frictionLossPsi({ id: `${idPrefix}_${i}`, ...segment }, flowGpm),
+    0
+  );
+}
+
+/**
+ * Nozzle elevation of a wye branch relative to the wye
+ */
+export function branchElevationFt(branch: LineBranch): number {
+  return (branch.elevationFt ?? 0) + (branch.floors ?? 0) * FLOOR_HEIGHT_FT;
+}
+
+/**
+ * Loss through one appliance
+ */
+export function applianceLossPsi(appliance: Appliance): number {
+  if (appliance.lossPsi !== undefined) return appliance.lossPsi;
+  switch (appliance.type) {
+    case 'wye': return APPLIANCE_LOSS_PSI.WYE;
+    case 'gated_wye': return APPLIANCE_LOSS_PSI.GATED_WYE;
+    case 'siamese': return APPLIANCE_LOSS_PSI.SIAMESE;
+    case 'standpipe': return APPLIANCE_LOSS_PSI.STANDPIPE;
+    case 'manifold': return APPLIANCE_LOSS_PSI.MANIFOLD;
+  }
+}
+
+/**
+ * Total appliance loss for a line in PSI
+ */
+export function layoutApplianceLossPsi(config: LineConfig): number {
+  return (config.appliances ?? []).reduce((sum, appliance) => sum + applianceLossPsi(appliance), 0);
+}
+
+/**
+ * Nozzle elevation of a line relative to the pump
+ *
+ * @param config - Line configuration
+ * @param sceneElevationFt - Scene-wide elevation from PumpState
+ * @returns Elevation in feet (negative below the pump)
+ */
+export function layoutElevationFt(config: LineConfig, sceneElevationFt: number = 0): number {
+  return sceneElevationFt + (config.elevationFt ?? 0) + (config.floors ?? 0) * FLOOR_HEIGHT_FT;
+}
+
+/**
+ * 2.5" supply line to a gated wye splitting into two 1.75" attack lines
+ * Both branches carry the base line's nozzle with their gates open
+ *
+ * @param base - Line to re-lay (keeps id, nozzle and foam capability)
+ * @param supplyFt - Length of 2.5" from the pump to the wye
+ * @param attackFt - Length of each 1.75" branch past the wye
+ */
+export function createWyedLayout(base: LineConfig, supplyFt: number = 200, attackFt: number = 150): LineConfig {
+  const supply: HoseSegment = { diameterIn: 2.5, lengthFt: supplyFt, C: HOSE_C.DOUBLE_JACKET_2_5 };
+  const branch = (id: string): LineBranch => ({
+    id,
+    segments: [{ diameterIn: 1.75, lengthFt: attackFt, C: HOSE_C.DOUBLE_JACKET_1_75 }],
+    nozzle: { ...base.nozzle },
+    gatePct: 100,
+  });
+  return {
+    ...base,
+    hose: supply,
+    segments: [supply],
+    appliances: [{ type: 'gated_wye' }],
+    branches: [branch('left'), branch('right')],
+  };
+}
+
+/**
+ * Siamese other discharges' lays into this line's master stream
+ *
+ * @param base - Line carrying the shared nozzle (keeps its own lay as one inlet)
+ * @param inlets - Other discharges whose lays feed the siamese
+ * @param outlet - Hose from the siamese to the nozzle (none for a mounted device)
+ */
+export function createSiameseLayout(
+  base: LineConfig,
+  inlets: DischargeId[],
+  outlet: HoseSegment[] = []
+): LineConfig {
+  return {
+    ...base,
+    appliances: [{ type: 'siamese' }],
+    siamese: { inlets, outlet },
+  };
+}
+
+/**
+ * Standpipe operation: supply to the FDC, the standpipe, and a high-rise pack
+ * from the outlet to the nozzle
+ *
+ * @param base - Line to re-lay (keeps id, nozzle and foam capability)
+ * @param floors - Floors above grade of the outlet in use
+ * @param supplyFt - Length of 2.5" from the pump to the FDC
+ * @param packFt - Length of the high-rise pack hose
+ */
+export function createStandpipeLayout(
+  base: LineConfig,
+  floors: number,
+  supplyFt: number = 100,
+  packFt: number = 150
+): LineConfig {
+  const segments: HoseSegment[] = [
+    { diameterIn: 2.5, lengthFt: supplyFt, C: HOSE_C.DOUBLE_JACKET_2_5 },
+    { diameterIn: 2.5, lengthFt: packFt, C: HOSE_C.DOUBLE_JACKET_2_5 },
+  ];
+  return {
+    ...base,
+    hose: segments[0],
+    segments,
+    appliances: [{ type: 'standpipe' }],
+    floors,
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Tests for the hydrant supply: flow test curve, supply line and intake
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clampHydrantSupply,
+  createHydrantSupply,
+  hydrantIntakePsi,
+  supplyLineLossPsi,
+  withStaticPsi,
+} from './hydrant';
+import { getHydrantSupplyGuidance, hydrantFlowAtResidual, hydrantResidualAtFlow } from '../hydraulics/hydrant-flow';
+import { reducer } from './actions';
+import type { Action } from './actions';
+import { simulateStep } from './engine';
+import { createInitialPumpState } from './pierce-puc';
+import type { HydrantSupply, PumpState } from './model';
+
+/** Engaged pump on a hydrant in PRESSURE mode with the given lines open, run for 15 s */
+function onHydrant(hydrant: Partial<HydrantSupply>, ...lines: string[]): PumpState {
+  let state = [
+    { type: 'PUMP_ENGAGE', engaged: true },
+    { type: 'WATER_SOURCE', source: 'hydrant' },
+    { type: 'HYDRANT_SET', hydrant },
+    { type: 'GOVERNOR_MODE', mode: 'PRESSURE' },
+    ...lines.map(id => ({ type: 'DISCHARGE_OPEN', id, open: 1 })),
+  ].reduce((s, action) => reducer(s, action as Action), createInitialPumpState());
+  for (let i = 0; i < 150; i++) {
+    state = simulateStep(state, 0.1).state;
+  }
+  return state;
+}
+
+describe('hydrant flow test curve', () => {
+  it('passes through static at no flow and the residual at the test flow', () => {
+    expect(hydrantResidualAtFlow(70, 50, 1000, 0)).toBe(70);
+    expect(hydrantResidualAtFlow(70, 50, 1000, 1000)).toBeCloseTo(50);
+    expect(hydrantResidualAtFlow(70, 50, 1000, 1500)).toBeLessThan(50);
+  });
+
+  it('finds the flow available at 20 PSI', () => {
+    const available = hydrantFlowAtResidual(70, 50, 1000);
+    expect(available).toBeGreaterThan(1000);
+    expect(hydrantResidualAtFlow(70, 50, 1000, available)).toBeCloseTo(20);
+    expect(hydrantFlowAtResidual(70, 70, 1000)).toBe(Infinity);
+  });
+
+  it('offers more equal lines by the percentage method', () => {
+    expect(getHydrantSupplyGuidance(80, 76, 250).additionalLines).toBe(3);
+    expect(getHydrantSupplyGuidance(80, 70, 250).additionalLines).toBe(2);
+    expect(getHydrantSupplyGuidance(80, 64, 250).additionalLines).toBe(1);
+    expect(getHydrantSupplyGuidance(80, 50, 250).additionalLines).toBe(0);
+    expect(getHydrantSupplyGuidance(80, 80, 0).message).toMatch(/flow water/);
+  });
+});
+
+describe('hydrant supply', () => {
+  it('loses more in a longer or smaller supply line', () => {
+    const hydrant = createHydrantSupply();
+    const base = supplyLineLossPsi(hydrant, 1000);
+    expect(supplyLineLossPsi({ ...hydrant, supplyLengthFt: 500 }, 1000)).toBeCloseTo(base * 5);
+    expect(supplyLineLossPsi({ ...hydrant, supplyDiameterIn: 3 }, 1000)).toBeGreaterThan(base * 10);
+  });
+
+  it('drops the intake with flow and bottoms out near a vacuum', () => {
+    const hydrant = createHydrantSupply();
+    expect(hydrantIntakePsi(hydrant, 0)).toBe(70);
+    expect(hydrantIntakePsi(hydrant, 500)).toBeLessThan(70);
+    expect(hydrantIntakePsi(hydrant, 1000)).toBeLessThan(50);
+    expect(hydrantIntakePsi(hydrant, 5000)).toBe(-12);
+  });
+
+  it('keeps the residual at or below static', () => {
+    const clamped = clampHydrantSupply({ ...createHydrantSupply(), staticPsi: 40, residualPsi: 60, supplyLengthFt: 0 });
+    expect(clamped.residualPsi).toBe(40);
+    expect(clamped.supplyLengthFt).toBe(10);
+
+    const lowered = withStaticPsi(createHydrantSupply(), 35);
+    expect(lowered.staticPsi).toBe(35);
+    expect(lowered.residualPsi).toBeCloseTo(25);
+  });
+
+  it('moves the main only for intakes on the hydrant', () => {
+    let state = reducer(createInitialPumpState(), { type: 'WATER_SOURCE', source: 'hydrant', intakeId: 'ldh_driver' });
+    state = reducer(state, { type: 'WATER_SOURCE', source: 'relay', intakeId: 'ldh_officer' });
+    const main = state.hydrant;
+
+    expect(reducer(state, { type: 'SET_INTAKE_PRESSURE', intakeId: 'ldh_officer', psi: 150 }).hydrant).toBe(main);
+    expect(reducer(state, { type: 'SCENARIO_INTAKE_FAILURE', intakeId: 'ldh_officer', residualPsi: 5 }).hydrant).toBe(main);
+    expect(reducer(state, { type: 'SET_INTAKE_PRESSURE', intakeId: 'ldh_driver', psi: 90 }).hydrant.staticPsi).toBe(90);
+    expect(reducer(state, { type: 'SCENARIO_INTAKE_FAILURE', intakeId: 'ldh_driver', residualPsi: 5 }).hydrant.staticPsi).toBe(5);
+  });
+
+  it('feeds the intake gauge from the curve as lines are opened', () => {
+    const shut = onHydrant({});
+    const one = onHydrant({}, 'xlay1');
+    const more = onHydrant({}, 'deck', 'xlay1', 'xlay2');
+    expect(shut.intakePressurePsi).toBeCloseTo(70);
+    expect(one.intakePressurePsi).toBeLessThan(shut.intakePressurePsi);
+    expect(more.intakePressurePsi).toBeLessThan(one.intakePressurePsi - 20);
+  });
+
+  it('starves the pump from a weak hydrant on a long small line', () => {
+    const weak = { staticPsi: 50, residualPsi: 20, testFlowGpm: 500, supplyDiameterIn: 3, supplyLengthFt: 500 };
+    const state = onHydrant(weak, 'deck');
+    expect(state.intakePressurePsi).toBeLessThan(0);
+    expect(state.warnings.has('LOW RESIDUAL: Check water supply')).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Hydrant supply
+ * A hydrant is known by its flow test: static pressure, and the residual
+ * left while a test flow was drawn. The main loses pressure with the flow
+ * the pump takes, the supply line loses more to friction, and what is left
+ * reaches the intake. Draw too hard and the intake falls toward a vacuum.
+ */
+
+import type { HydrantSupply } from './model';
+import { hazenWilliamsFLpsiPer100ft } from '../hydraulics/formulas';
+import { getHydrantSupplyGuidance, hydrantResidualAtFlow } from '../hydraulics/hydrant-flow';
+import type { HydrantSupplyGuidance } from '../hydraulics/hydrant-flow';
+import { HOSE_C } from '../hydraulics/standards';
+import type { Rng } from './random';
+
+/** Lowest pressure the pump can pull an intake down to in PSI (a near vacuum) */
+export const MIN_INTAKE_PSI = -12;
+
+/** Highest residual an intake is left with after a supply failure in PSI */
+export const SUPPLY_FAILURE_MAX_RESIDUAL_PSI = 10;
+
+/**
+ * Range of each hydrant supply setting the simulator accepts
+ */
+export const HYDRANT_SUPPLY_LIMITS: Record<keyof HydrantSupply, { min: number; max: number }> = {
+  staticPsi: { min: 0, max: 200 },
+  residualPsi: { min: 0, max: 200 },
+  testFlowGpm: { min: 100, max: 5000 },
+  supplyDiameterIn: { min: 2.5, max: 6 },
+  supplyLengthFt: { min: 10, max: 2000 },
+};
+
+/**
+ * Typical hydrant: 70 PSI static, 50 PSI residual at a 1000 GPM test,
+ * 100 ft of 5" supply line
+ */
+export function createHydrantSupply(): HydrantSupply {
+  return {
+    staticPsi: 70,
+    residualPsi: 50,
+    testFlowGpm: 1000,
+    supplyDiameterIn: 5,
+    supplyLengthFt: 100,
+  };
+}
+
+/**
+ * Hydrant supply with every setting clamped to HYDRANT_SUPPLY_LIMITS
+ * and the residual no higher than static
+ */
+export function clampHydrantSupply(hydrant: HydrantSupply): HydrantSupply {
+  const clamped = { ...hydrant };
+  for (const key of Object.keys(HYDRANT_SUPPLY_LIMITS) as (keyof HydrantSupply)[]) {
+    const { min, max } = HYDRANT_SUPPLY_LIMITS[key];
+    clamped[key] = Math.max(min, Math.min(max, hydrant[key]));
+  }
+  clamped.residualPsi = Math.min(clamped.residualPsi, clamped.staticPsi);
+  return clamped;
+}
+
+/**
+ * Hydrant at a new static pressure, its residual scaled to match
+ * Instructor hydrant pressure and supply failure events move the whole main.
+ */
+export function withStaticPsi(hydrant: HydrantSupply, staticPsi: number): HydrantSupply {
+  const residualShare = hydrant.staticPsi > 0 ? hydrant.residualPsi / hydrant.staticPsi : 1;
+  const next = Math.max(0, staticPsi);
+  return clampHydrantSupply({ ...hydrant, staticPsi: next, residualPsi: next * residualShare });
+}
+
+/**
+ * Residual pressure for a supply failure, drawn from a random number source
+ * The sender picks it once, so every panel and a seeded replay see the same failure.
+ */
+export function supplyFailureResidualPsi(rng: Rng): number {
+  return rng() * SUPPLY_FAILURE_MAX_RESIDUAL_PSI;
+}
+
+/**
+ * Friction loss in the supply line from hydrant to intake in PSI
+ */
+export function supplyLineLossPsi(hydrant: HydrantSupply, flowGpm: number): number {
+  const C = hydrant.supplyDiameterIn >= 4 ? HOSE_C.LDH_5 : HOSE_C.DOUBLE_JACKET_2_5;
+  return hazenWilliamsFLpsiPer100ft(flowGpm, hydrant.supplyDiameterIn, C) * (hydrant.supplyLengthFt / 100);
+}
+
+/**
+ * Pressure reaching the intake while the pump draws a flow from the hydrant in PSI
+ */
+export function hydrantIntakePsi(hydrant: HydrantSupply, flowGpm: number): number {
+  const mainPsi = hydrantResidualAtFlow(hydrant.staticPsi, hydrant.residualPsi, hydrant.testFlowGpm, flowGpm);
+  return Math.max(MIN_INTAKE_PSI, mainPsi - supplyLineLossPsi(hydrant, flowGpm));
+}
+
+/**
+ * Live percentage-method guidance from the hydrant's static pressure and the intake now
+ *
+ * @param hydrant - Hydrant supplying the pump
+ * @param intakePsi - Intake gauge reading
+ * @param flowGpm - Flow the pump is taking
+ */
+export function getHydrantGuidance(hydrant: HydrantSupply, intakePsi: number, flowGpm: number): HydrantSupplyGuidance {
+  return getHydrantSupplyGuidance(hydrant.staticPsi, intakePsi, flowGpm);
+}
@@ -0,0 +1,58 @@
+/**
+ * Discharge and intake identifiers
+ * Canonical ids, the legacy discharge names older data still uses, and
+ * lookups against what an apparatus has fitted.
+ */
+
+import type { DischargeId, IntakeId, PumpState } from './model';
+
+/**
+ * Legacy discharge identifiers used by older UI components and instructor tools
+ */
+export const LEGACY_DISCHARGE_ALIASES: Record<string, DischargeId> = {
+  crosslay1: 'xlay1',
+  crosslay2: 'xlay2',
+  crosslay3: 'xlay3',
+  frontTrashline: 'trash',
+  twoPointFiveA: 'd2_5_a',
+};
+
+const DISCHARGE_IDS: readonly DischargeId[] = [
+  'xlay1', 'xlay2', 'xlay3', 'trash',
+  'd2_5_a', 'd2_5_b', 'd2_5_c', 'd2_5_d',
+  'deck', 'rear_ldh',
+];
+
+const INTAKE_IDS: readonly IntakeId[] = ['ldh_driver', 'ldh_officer', 'rear_ldh'];
+
+/**
+ * Resolve a discharge identifier, accepting legacy aliases
+ *
+ * @param id - Canonical or legacy discharge identifier
+ * @returns Canonical DischargeId, or null if unknown
+ */
+export function normalizeDischargeId(id: string): DischargeId | null {
+  if ((DISCHARGE_IDS as readonly string[]).includes(id)) {
+    return id as DischargeId;
+  }
+  return LEGACY_DISCHARGE_ALIASES[id] ?? null;
+}
+
+/**
+ * Resolve a discharge identifier to one the apparatus has fitted
+ *
+ * @param state - Current pump state
+ * @param id - Canonical or legacy discharge identifier
+ * @returns Canonical DischargeId, or null if unknown or not fitted
+ */
+export function fittedDischargeId(state: PumpState, id: string): DischargeId | null {
+  const canonical = normalizeDischargeId(id);
+  return canonical && state.lineConfigs[canonical] ? canonical : null;
+}
+
+/**
+ * Check whether a string is a known intake identifier
+ */
+export function isIntakeId(id: string): id is IntakeId {
+  return (INTAKE_IDS as readonly string[]).includes(id);
+}
@@ -0,0 +1,79 @@
+/**
+ * Tests for the intake relief valves: dump flow, pressure held at the setpoint and warnings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { INTAKE_RELIEF_GPM_PER_PSI, INTAKE_RELIEF_MAX_GPM } from './intake-relief';
+import type { Action } from './actions';
+import { combineIntakes } from './intakes';
+import { createInitialPumpState } from './pierce-puc';
+import type { PumpState } from './model';
+import { applyActions, stepFor } from './test-helpers';
+
+/** Relief valve dumps with the pump taking a flow */
+function dumps(state: PumpState, flowGpm = 0): Map<string, number> {
+  return combineIntakes(state, flowGpm).dumpGpm;
+}
+
+/** Engaged pump with a relay pumper on the driver's intake at a pressure */
+function onRelay(supplyPsi: number, ...actions: Action[]): PumpState {
+  return applyActions(
+    createInitialPumpState(),
+    { type: 'PUMP_ENGAGE', engaged: true },
+    { type: 'WATER_SOURCE', source: 'relay', intakeId: 'ldh_driver' },
+    { type: 'SET_INTAKE_PRESSURE', intakeId: 'ldh_driver', psi: supplyPsi },
+    ...actions
+  );
+}
+
+describe('intake relief valve', () => {
+  it('dumps in proportion to the supply over its setpoint', () => {
+    expect(dumps(onRelay(150))).toEqual(new Map([['ldh_driver', 25 * INTAKE_RELIEF_GPM_PER_PSI]]));
+    expect(dumps(onRelay(400)).get('ldh_driver')).toBe(INTAKE_RELIEF_MAX_GPM);
+    expect(dumps(onRelay(100)).size).toBe(0);
+  });
+
+  it('closes when the setpoint is raised past the supply', () => {
+    const raised = onRelay(150, { type: 'INTAKE_SET', intakeId: 'ldh_driver', intake: { reliefPsi: 175 } });
+    expect(dumps(raised).size).toBe(0);
+  });
+
+  it('dumps from a strong hydrant until the pump draws it below the setpoint', () => {
+    const state = applyActions(
+      createInitialPumpState(),
+      { type: 'WATER_SOURCE', source: 'hydrant' },
+      { type: 'HYDRANT_SET', hydrant: { staticPsi: 150, residualPsi: 120 } }
+    );
+    // The main sags under the dump, so the valve opens less than the static pressure alone says
+    const atRest = dumps(state).get('ldh_driver')!;
+    expect(atRest).toBeGreaterThan(0);
+    expect(atRest).toBeLessThan(25 * INTAKE_RELIEF_GPM_PER_PSI);
+    expect(dumps(state, 500).get('ldh_driver')!).toBeLessThan(atRest);
+    expect(dumps(state, 2000).size).toBe(0);
+  });
+
+  it('holds the intake at the setpoint and reports the dump while pumping', () => {
+    const { state, diagnostics } = stepFor(
+      onRelay(
+        150,
+        { type: 'GOVERNOR_MODE', mode: 'PRESSURE' },
+        { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 }
+      ),
+      5
+    );
+    expect(state.intakePressurePsi).toBeLessThanOrEqual(125);
+    expect(diagnostics.intakeDumpGpm.get('ldh_driver')).toBe(250);
+    expect([...state.warnings].some(warning => warning.startsWith('INTAKE RELIEF OPEN: LDH DRIVER'))).toBe(true);
+  });
+
+  it('stays shut on a normal hydrant and at draft', () => {
+    const hydrant = stepFor(
+      applyActions(createInitialPumpState(), { type: 'PUMP_ENGAGE', engaged: true }, { type: 'WATER_SOURCE', source: 'hydrant' }),
+      1
+    );
+    expect(hydrant.diagnostics.intakeDumpGpm.size).toBe(0);
+
+    const draft = applyActions(createInitialPumpState(), { type: 'WATER_SOURCE', source: 'draft' });
+    expect(dumps(draft).size).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Intake relief valves
+ * Each intake has a relief valve that protects the pump from its supply.
+ * When a relay pumper or a strong hydrant pushes the intake past the
+ * setpoint, the valve opens and dumps water to the ground, the more the
+ * further the supply is over. The pump side stays at the setpoint. The dump
+ * comes through the same supply as the pump's water, so it draws the hydrant
+ * main and a relay supply line down with it.
+ */
+
+import type { IntakeId } from './model';
+import { getIntakeLabel } from './utils';
+
+/** Dump flow per PSI over the setpoint in GPM */
+export const INTAKE_RELIEF_GPM_PER_PSI = 10;
+
+/** Most a relief valve can dump in GPM */
+export const INTAKE_RELIEF_MAX_GPM = 1000;
+
+/**
+ * Water a relief valve dumps with its supply over the setpoint, in GPM
+ * The supply has to carry the dump as well; combineIntakes balances the two.
+ *
+ * @param overPsi - Supply pressure over the setpoint (none dumps at or below it)
+ * @returns Dump flow, up to the valve's capacity
+ */
+export function reliefValveGpm(overPsi: number): number {
+  return overPsi > 0 ? Math.min(INTAKE_RELIEF_MAX_GPM, overPsi * INTAKE_RELIEF_GPM_PER_PSI) : 0;
+}
+
+/**
+ * Warnings for intake relief valves that are dumping
+ */
+export function getIntakeReliefWarnings(dumps: Map<IntakeId, number>): string[] {
+  return [...dumps].map(([id, gpm]) =>
+    `INTAKE RELIEF OPEN: ${getIntakeLabel(id)} dumping ${Math.round(gpm)} GPM, reduce supply pressure`
+  );
+}
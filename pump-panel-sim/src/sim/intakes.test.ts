@@ -0,0 +1,123 @@
+/**
+ * Tests for the intakes: supplies, gate valves, relief valves and the flow split
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RELAY_DEFAULT_PSI, combineIntakes, connectSupply, feedingIntakes, intakeSupplyPsi } from './intakes';
+import { reducer } from './actions';
+import type { Action } from './actions';
+import { createInitialPumpState } from './pierce-puc';
+import type { IntakeState, PumpState } from './model';
+import { applyActions, runFor } from './test-helpers';
+
+/** Pump on the hydrant through the driver's intake, plus any further intake settings */
+function onHydrant(...actions: Action[]): PumpState {
+  return applyActions(
+    createInitialPumpState(),
+    { type: 'PUMP_ENGAGE', engaged: true },
+    { type: 'WATER_SOURCE', source: 'hydrant', intakeId: 'ldh_driver' },
+    ...actions
+  );
+}
+
+const officer = (intake: Partial<IntakeState>): Action =>
+  ({ type: 'INTAKE_SET', intakeId: 'ldh_officer', intake });
+
+describe('intake supplies', () => {
+  it('connects a supply only to the named intake', () => {
+    const state = onHydrant({ type: 'WATER_SOURCE', source: 'hydrant', intakeId: 'rear_ldh' });
+    expect(state.intakes.ldh_driver.supply).toBe('hydrant');
+    expect(state.intakes.ldh_officer.supply).toBeNull();
+    expect(state.intakes.rear_ldh.supply).toBe('hydrant');
+    expect(feedingIntakes(state).map(feed => feed.id)).toEqual(['ldh_driver', 'rear_ldh']);
+  });
+
+  it('feeds the first intake until a supply is connected to any', () => {
+    const state = { ...createInitialPumpState(), waterSource: 'hydrant' as const };
+    expect(feedingIntakes(state)).toEqual([{ id: 'ldh_driver', supply: 'hydrant' }]);
+    expect(connectSupply(state, 'relay').intakes.ldh_driver.supply).toBe('relay');
+  });
+
+  it('clamps intake settings and refuses an unknown supply', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const state = onHydrant(officer({ valvePct: 150, reliefPsi: 10 }));
+    expect(state.intakes.ldh_officer).toEqual({ supply: null, valvePct: 100, reliefPsi: 50 });
+
+    expect(reducer(state, officer({ supply: 'tank' as never }))).toBe(state);
+    expect(reducer(state, { type: 'INTAKE_SET', intakeId: 'front_ldh', intake: {} })).toBe(state);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('intake supply failures', () => {
+  it('charges a relay line to the default pressure and fails it to 0 PSI', () => {
+    const relay = onHydrant({ type: 'WATER_SOURCE', source: 'relay', intakeId: 'ldh_officer' });
+    expect(relay.intakePsi.ldh_officer).toBe(RELAY_DEFAULT_PSI);
+
+    const failed = reducer(relay, { type: 'SCENARIO_INTAKE_FAILURE', intakeId: 'ldh_officer', residualPsi: 0 });
+    expect(failed.intakePsi.ldh_officer).toBe(0);
+    expect(intakeSupplyPsi(failed, { id: 'ldh_officer', supply: 'relay' }, 0)).toBe(0);
+    // Reconnecting the same supply leaves the failure in place
+    expect(reducer(failed, officer({ supply: 'relay' })).intakePsi.ldh_officer).toBe(0);
+  });
+
+  it('loses the prime on a draft', () => {
+    const drafting = applyActions(createInitialPumpState(), { type: 'WATER_SOURCE', source: 'draft' });
+    const primed = { ...drafting, interlocks: { ...drafting.interlocks, primed: true } };
+    const failed = reducer(primed, { type: 'SCENARIO_INTAKE_FAILURE', intakeId: 'ldh_driver', residualPsi: 5 });
+    expect(failed.interlocks.primed).toBe(false);
+    expect(failed.intakePsi).toBe(primed.intakePsi);
+    expect(failed.hydrant).toBe(primed.hydrant);
+  });
+});
+
+describe('combining intakes', () => {
+  it('splits the flow between equal lines and raises the intake pressure', () => {
+    const single = combineIntakes(onHydrant(), 1000);
+    const dual = combineIntakes(onHydrant(officer({ supply: 'hydrant' })), 1000);
+    expect(dual.flowGpm.ldh_driver).toBeCloseTo(500, 0);
+    expect(dual.flowGpm.ldh_officer).toBeCloseTo(500, 0);
+    expect(dual.psi).toBeGreaterThan(single.psi + 3);
+  });
+
+  it('shifts flow away from a gated intake', () => {
+    const gated = combineIntakes(onHydrant(officer({ supply: 'hydrant', valvePct: 15 })), 1000);
+    expect(gated.flowGpm.ldh_officer!).toBeLessThan(gated.flowGpm.ldh_driver!);
+    expect(gated.flowGpm.ldh_driver! + gated.flowGpm.ldh_officer!).toBeCloseTo(1000, 0);
+  });
+
+  it('holds a hard relay supply to the relief setpoint', () => {
+    const state = applyActions(
+      onHydrant(),
+      { type: 'WATER_SOURCE', source: 'relay', intakeId: 'ldh_driver' },
+      { type: 'INTAKE_SET', intakeId: 'ldh_driver', intake: { reliefPsi: 125 } }
+    );
+    const relayed = { ...state, intakePsi: { ...state.intakePsi, ldh_driver: 150 } };
+    expect(combineIntakes(relayed, 0).psi).toBeCloseTo(125);
+  });
+
+  it('starves the pump with its only intake gated shut', () => {
+    const state = runFor(onHydrant(
+      { type: 'INTAKE_SET', intakeId: 'ldh_driver', intake: { valvePct: 0 } },
+      { type: 'GOVERNOR_MODE', mode: 'PRESSURE' },
+      { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 }
+    ), 10);
+    expect(state.intakePressurePsi).toBeLessThan(0);
+    expect(state.intakeFlowGpm.ldh_driver).toBe(0);
+  });
+
+  it('reports the flow through each intake while pumping', () => {
+    const state = runFor(onHydrant(
+      officer({ supply: 'hydrant' }),
+      { type: 'GOVERNOR_MODE', mode: 'PRESSURE' },
+      { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 },
+      { type: 'DISCHARGE_OPEN', id: 'xlay2', open: 1 }
+    ), 15);
+    const { ldh_driver, ldh_officer, rear_ldh } = state.intakeFlowGpm;
+    expect(ldh_driver).toBeGreaterThan(0);
+    expect(ldh_officer).toBeCloseTo(ldh_driver, 0);
+    expect(rear_ldh).toBe(0);
+    expect(ldh_driver + ldh_officer).toBeCloseTo(state.totalFlowGpm, 0);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Intakes
+ * Each intake has its own supply (hydrant, relay or draft), gate valve and
+ * relief valve. The pump draws through every open intake with a supply at
+ * once: water comes in through each until the pressure reaching the pump is
+ * the same from all of them, so a stronger supply or a wider valve carries
+ * more of the flow, and gating one intake down shifts flow to the others.
+ * Intakes on the hydrant each have their own supply line but share the main.
+ */
+
+import type { IntakeId, IntakeState, IntakeSupply, PumpState } from './model';
+import { atmosphericPsi, draftIntakePsi } from './drafting';
+import { MIN_INTAKE_PSI, supplyLineLossPsi } from './hydrant';
+import { draftSiteWithFaults } from './faults';
+import { INTAKE_RELIEF_MAX_GPM, reliefValveGpm } from './intake-relief';
+import { valveLossPsi } from './network-solver';
+import { hydrantFlowAtResidual, hydrantResidualAtFlow } from '../hydraulics/hydrant-flow';
+
+/** Size of the LDH intake gate valves in inches */
+export const INTAKE_VALVE_DIAMETER_IN = 5;
+
+/** Usual intake relief valve setpoint in PSI */
+export const DEFAULT_INTAKE_RELIEF_PSI = 125;
+
+/** Range of intake relief valve setpoints in PSI */
+export const INTAKE_RELIEF_LIMITS = { min: 50, max: 250 };
+
+/** Supplies that can be connected to an intake */
+export const INTAKE_SUPPLIES: readonly IntakeSupply[] = ['hydrant', 'relay', 'draft'];
+
+/** Pressure a relay line comes in at when it is connected, until one is set, in PSI */
+export const RELAY_DEFAULT_PSI = 20;
+
+/** Most flow one intake can pass in GPM */
+const MAX_INTAKE_FLOW_GPM = 5000;
+
+/** Convergence tolerances for balancing the intakes */
+const PRESSURE_TOLERANCE_PSI = 0.001;
+const FLOW_TOLERANCE_GPM = 0.1;
+const MAX_ITERATIONS = 60;
+
+/**
+ * An intake feeding the pump and the supply on it
+ */
+export interface IntakeFeed {
+  id: IntakeId;
+  supply: IntakeSupply;
+}
+
+/**
+ * Flow through the intakes with the pump taking a given total
+ */
+export interface IntakeFlows {
+  /** Pressure where the intakes meet at the pump in PSI */
+  psi: number;
+  /** Flow through each intake feeding the pump in GPM */
+  flowGpm: Partial<Record<IntakeId, number>>;
+  /** Water each open intake relief valve dumps in GPM, drawn through the same supply */
+  dumpGpm: Map<IntakeId, number>;
+}
+
+/**
+ * Capped intakes with their valves open and relief valves at the usual setpoint
+ */
+export function createIntakes(ids: IntakeId[]): Record<IntakeId, IntakeState> {
+  const intakes = {} as Record<IntakeId, IntakeState>;
+  for (const id of ids) {
+    intakes[id] = { supply: null, valvePct: 100, reliefPsi: DEFAULT_INTAKE_RELIEF_PSI };
+  }
+  return intakes;
+}
+
+/**
+ * Intake with its valve position and relief setpoint held to their ranges
+ */
+export function clampIntake(intake: IntakeState): IntakeState {
+  const { min, max } = INTAKE_RELIEF_LIMITS;
+  return {
+    ...intake,
+    valvePct: Math.max(0, Math.min(100, intake.valvePct)),
+    reliefPsi: Math.max(min, Math.min(max, intake.reliefPsi)),
+  };
+}
+
+/**
+ * Whether a value names a supply an intake can take
+ */
+export function isIntakeSupply(value: unknown): value is IntakeSupply {
+  return INTAKE_SUPPLIES.includes(value as IntakeSupply);
+}
+
+/**
+ * Connect a supply to an intake and make it the pump's water source
+ * Other intakes keep whatever is connected to them.
+ *
+ * @param state - Current pump state
+ * @param supply - Supply to connect
+ * @param intakeId - Intake to connect it to (the apparatus's first intake when omitted)
+ * @returns Updated state, or the same state when the apparatus has no such intake
+ */
+export function connectSupply(state: PumpState, supply: IntakeSupply, intakeId?: IntakeId): PumpState {
+  const id = intakeId ?? (Object.keys(state.intakes)[0] as IntakeId | undefined);
+  if (!id || !state.intakes[id]) return state;
+  return {
+    ...state,
+    waterSource: supply,
+    intakes: { ...state.intakes, [id]: { ...state.intakes[id], supply } },
+    intakePsi: intakePsiOnConnect(state, id, supply),
+  };
+}
+
+/**
+ * Intake pressures after a supply is connected to an intake
+ * A relay line newly connected comes in at the default relay pressure; an
+ * intake already on a relay keeps its pressure, 0 PSI from a failure included.
+ */
+export function intakePsiOnConnect(state: PumpState, intakeId: IntakeId, supply: IntakeSupply | null): Record<IntakeId, number> {
+  return supply === 'relay' && state.intakes[intakeId]?.supply !== 'relay'
+    ? { ...state.intakePsi, [intakeId]: RELAY_DEFAULT_PSI }
+    : state.intakePsi;
+}
+
+/**
+ * Intakes feeding the pump: open, with a supply connected
+ *
+ * Nothing feeds the pump on tank, and draft intakes feed only while the pump
+ * works from draft. Until a supply is connected to any intake, the water
+ * source feeds the first intake (or the one a relay supply line comes in on).
+ */
+export function feedingIntakes(state: PumpState): IntakeFeed[] {
+  const source = state.waterSource;
+  if (source === 'tank') return [];
+
+  const ids = Object.keys(state.intakes) as IntakeId[];
+  const connected = ids.filter(id => state.intakes[id].supply !== null);
+  if (connected.length === 0) {
+    const relayId = source === 'relay' ? state.relayIntake?.intakeId : undefined;
+    const id = relayId && state.intakes[relayId] ? relayId : ids[0];
+    return id && state.intakes[id].valvePct > 0 ? [{ id, supply: source }] : [];
+  }
+
+  return connected
+    .map(id => ({ id, supply: state.intakes[id].supply as IntakeSupply }))
+    .filter(({ id, supply }) => state.intakes[id].valvePct > 0 && (supply !== 'draft' || source === 'draft'));
+}
+
+/**
+ * Pressure a supply delivers to an intake at a flow through it, ahead of the
+ * relief and gate valves, in PSI
+ *
+ * @param state - Current pump state
+ * @param feed - Intake and the supply on it
+ * @param flowGpm - Flow the supply carries (to the pump and out the relief valve)
+ * @param mainPsi - Hydrant main pressure (taken from this supply's flow alone when omitted)
+ */
+export function intakeSupplyPsi(state: PumpState, feed: IntakeFeed, flowGpm: number, mainPsi?: number): number {
+  let psi: number;
+  switch (feed.supply) {
+    case 'hydrant': {
+      const { staticPsi, residualPsi, testFlowGpm } = state.hydrant;
+      const main = mainPsi ?? hydrantResidualAtFlow(staticPsi, residualPsi, testFlowGpm, flowGpm);
+      psi = main - supplyLineLossPsi(state.hydrant, flowGpm);
+      break;
+    }
+    case 'relay':
+      psi = state.relayIntake?.intakeId === feed.id
+        ? state.relayIntake.supplyPsi
+        : state.intakePsi[feed.id] ?? RELAY_DEFAULT_PSI;
+      break;
+    case 'draft':
+      psi = draftIntakePsi(draftSiteWithFaults(state), flowGpm);
+      break;
+  }
+  return psi;
+}
+
+/**
+ * Where a continuous decreasing function crosses zero between two bounds, by
+ * the Illinois (modified regula falsi) method; the bound itself when the
+ * function is already past zero there
+ */
+function decreasingRoot(fn: (x: number) => number, low: number, high: number, tolerance: number): number {
+  let fLow = fn(low);
+  if (fLow <= 0) return low;
+  let fHigh = fn(high);
+  if (fHigh >= 0) return high;
+
+  // Halve the value kept at a bound that holds twice running, so both bounds close in
+  let kept = 0;
+  for (let i = 0; i < MAX_ITERATIONS && high - low > tolerance; i++) {
+    const x = (low * fHigh - high * fLow) / (fHigh - fLow);
+    const fx = fn(x);
+    if (fx > 0) {
+      low = x;
+      fLow = fx;
+      if (kept > 0) fHigh /= 2;
+      kept = 1;
+    } else if (fx < 0) {
+      high = x;
+      fHigh = fx;
+      if (kept < 0) fLow /= 2;
+      kept = -1;
+    } else {
+      return x;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/** Pressure reaching the pump through an intake at a flow, held to the relief setpoint */
+function pumpSidePsi(state: PumpState, feed: IntakeFeed, flowGpm: number, mainPsi?: number): number {
+  const { reliefPsi, valvePct } = state.intakes[feed.id];
+  const relievedPsi = Math.min(reliefPsi, intakeSupplyPsi(state, feed, flowGpm, mainPsi));
+  return relievedPsi - valveLossPsi(INTAKE_VALVE_DIAMETER_IN, valvePct, flowGpm);
+}
+
+/** Flow an intake passes with the pump inlet at a pressure */
+function flowAtPsi(state: PumpState, feed: IntakeFeed, psi: number, mainPsi?: number): number {
+  return decreasingRoot(q => pumpSidePsi(state, feed, q, mainPsi) - psi, 0, MAX_INTAKE_FLOW_GPM, FLOW_TOLERANCE_GPM);
+}
+
+/**
+ * Water an intake's relief valve dumps with the pump drawing a flow through it
+ * The supply carries the dump as well as the pump's flow, so the valve opens
+ * only as far as the supply can hold the pressure over the setpoint. The
+ * pump side stays at the setpoint either way.
+ */
+function reliefDumpGpm(state: PumpState, feed: IntakeFeed, flowGpm: number, mainPsi?: number): number {
+  const { reliefPsi } = state.intakes[feed.id];
+  const dumpAt = (dumpGpm: number) =>
+    reliefValveGpm(intakeSupplyPsi(state, feed, flowGpm + dumpGpm, mainPsi) - reliefPsi);
+  if (dumpAt(0) <= 0) return 0;
+  return decreasingRoot(dumpGpm => dumpAt(dumpGpm) - dumpGpm, 0, INTAKE_RELIEF_MAX_GPM, FLOW_TOLERANCE_GPM);
+}
+
+/** Lowest pressure the pump can pull its inlet down to: near vacuum, or full vacuum on draft */
+function inletFloorPsi(state: PumpState): number {
+  return state.waterSource === 'draft' ? -atmosphericPsi(state.draft.altitudeFt) : MIN_INTAKE_PSI;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Pressure in the hydrant main with supply lines off it feeding the pump inlet at a pressure
+ * The main settles where the lines draw what it gives, dumps included.
+ */
+function sharedMainPsi(state: PumpState, hydrantFeeds: IntakeFeed[], psi: number): number {
+  const { staticPsi, residualPsi, testFlowGpm } = state.hydrant;
+  if (residualPsi >= staticPsi) return staticPsi;
+  return decreasingRoot(
+    main => hydrantFlowAtResidual(staticPsi, residualPsi, testFlowGpm, main) -
+      sum(hydrantFeeds.map(feed => {
+        const flowGpm = flowAtPsi(state, feed, psi, main);
+        return flowGpm + reliefDumpGpm(state, feed, flowGpm, main);
+      })),
+    Math.min(psi, staticPsi),
+    staticPsi,
+    PRESSURE_TOLERANCE_PSI
+  );
+}
+
+/**
+ * Flow through each feeding intake with the pump inlet at a pressure
+ * With no main pressure given, intakes on the hydrant are balanced against the main.
+ */
+function flowsAtPsi(
+  state: PumpState,
+  feeds: IntakeFeed[],
+  psi: number,
+  mainPsi?: number
+): Partial<Record<IntakeId, number>> {
+  const hydrantFeeds = feeds.filter(feed => feed.supply === 'hydrant');
+  if (mainPsi === undefined && hydrantFeeds.length > 1) {
+    mainPsi = sharedMainPsi(state, hydrantFeeds, psi);
+  }
+
+  const flowGpm: Partial<Record<IntakeId, number>> = {};
+  for (const feed of feeds) {
+    flowGpm[feed.id] = flowAtPsi(state, feed, psi, feed.supply === 'hydrant' ? mainPsi : undefined);
+  }
+  return flowGpm;
+}
+
+/**
+ * Relief valve dumps for the intakes passing a split of the pump's flow
+ */
+function dumpsAtFlows(
+  state: PumpState,
+  feeds: IntakeFeed[],
+  flowGpm: Partial<Record<IntakeId, number>>,
+  mainPsi?: number
+): Map<IntakeId, number> {
+  const dumps = new Map<IntakeId, number>();
+  for (const feed of feeds) {
+    const dumpGpm = reliefDumpGpm(state, feed, flowGpm[feed.id] ?? 0, feed.supply === 'hydrant' ? mainPsi : undefined);
+    if (dumpGpm > 0) dumps.set(feed.id, dumpGpm);
+  }
+  return dumps;
+}
+
+/**
+ * Balance the intakes against the flow the pump takes
+ *
+ * The pump inlet settles at the pressure where the flows the intakes pass
+ * add up to the pump's flow. A pump that wants more than its supplies give
+ * pulls its inlet down to a near vacuum. Each supply also carries whatever
+ * its intake relief valve dumps, so a dump draws the hydrant main down too.
+ *
+ * @param state - Current pump state
+ * @param flowGpm - Total flow the pump takes
+ * @returns Pump inlet pressure, the flow through each intake and the relief dumps
+ */
+export function combineIntakes(state: PumpState, flowGpm: number): IntakeFlows {
+  const feeds = feedingIntakes(state);
+  const floorPsi = inletFloorPsi(state);
+  if (feeds.length === 0) {
+    // Every intake shut: flowing pulls a vacuum on the pump
+    return { psi: flowGpm > 0 ? floorPsi : 0, flowGpm: {}, dumpGpm: new Map() };
+  }
+  if (feeds.length === 1) {
+    const [feed] = feeds;
+    const split = { [feed.id]: flowGpm };
+    return {
+      psi: Math.max(floorPsi, pumpSidePsi(state, feed, flowGpm)),
+      flowGpm: split,
+      dumpGpm: dumpsAtFlows(state, feeds, split),
+    };
+  }
+
+  // With the hydrant on every intake the main carries the whole flow, unless a relief valve
+  // dumps too; then the main is balanced against the lines
+  const { staticPsi, residualPsi, testFlowGpm } = state.hydrant;
+  const hydrantFeeds = feeds.filter(feed => feed.supply === 'hydrant');
+  let mainPsi = hydrantFeeds.length === feeds.length
+    ? hydrantResidualAtFlow(staticPsi, residualPsi, testFlowGpm, flowGpm)
+    : undefined;
+  if (mainPsi !== undefined && feeds.some(feed => reliefDumpGpm(state, feed, 0, mainPsi) > 0)) {
+    mainPsi = undefined;
+  }
+  const highestPsi = Math.max(...feeds.map(feed => pumpSidePsi(state, feed, 0, mainPsi)));
+  const psi = decreasingRoot(
+    p => sum(Object.values(flowsAtPsi(state, feeds, p, mainPsi))) - flowGpm,
+    floorPsi,
+    highestPsi,
+    PRESSURE_TOLERANCE_PSI
+  );
+  if (mainPsi === undefined && hydrantFeeds.length > 1) {
+    mainPsi = sharedMainPsi(state, hydrantFeeds, psi);
+  }
+  const split = flowsAtPsi(state, feeds, psi, mainPsi);
+  // A near-constant supply such as a relay passes a lot of flow for a sliver of pressure,
+  // so share the pump's flow in proportion rather than leave the rounding on one intake
+  const suppliedGpm = sum(Object.values(split));
+  if (psi > floorPsi && suppliedGpm > 0) {
+    for (const feed of feeds) split[feed.id] = (split[feed.id] ?? 0) * flowGpm / suppliedGpm;
+  }
+  return { psi, flowGpm: split, dumpGpm: dumpsAtFlows(state, feeds, split, mainPsi) };
+}
@@ -3,7 +3,7 @@
  * Implements safety rules and operational constraints
  */
 
-import type { SimState } from './state';
+import type { DischargeId, PumpState } from './model';
 
 /**
  * Pierce PUC: Validate proper changeover sequence from tank to external intake
@@ -14,31 +14,32 @@ import type { SimState } from './state';
  * 3. Close tank-to-pump valve
  * 4. Verify intake pressure maintained
  * 
- * @param state Current simulation state
+ * @param state Current pump state
  * @returns Validation result with any faults detected
  */
-export function validateChangeoverSequence(state: SimState): {
+export function validateChangeoverSequence(state: PumpState): {
   valid: boolean;
   faults: string[];
 } {
   const faults: string[] = [];
   
   // Check if both valves open simultaneously (forbidden)
-  const hasGatedIntake = Object.values(state.intakes).some(i => i.source === 'hydrant' || i.source === 'relay');
-  if (state.tankToPumpOpen && hasGatedIntake && state.pump.engaged) {
+  const engaged = state.interlocks.engaged;
+  const hasGatedIntake = state.waterSource === 'hydrant' || state.waterSource === 'relay';
+  if (state.tankToPumpOpen && hasGatedIntake && engaged) {
     faults.push('CHANGEOVER FAULT: Both tank and intake valves open simultaneously');
   }
   
   // Check if no water source available
-  if (!state.tankToPumpOpen && !hasGatedIntake && state.pump.engaged) {
-    const isDrafting = Object.values(state.intakes).some(i => i.source === 'draft');
+  if (!state.tankToPumpOpen && !hasGatedIntake && engaged) {
+    const isDrafting = state.waterSource === 'draft';
     if (!isDrafting) {
       faults.push('NO WATER SOURCE: All intake valves closed');
     }
   }
   
-  // Check pressure drop during changeover (inadequate intake)
-  if (state.pump.engaged && state.pump.pdp > 0 && state.pump.intakePsi < 10) {
+  // Check pressure drop during changeover (inadequate intake from the gated supply)
+  if (engaged && hasGatedIntake && state.dischargePsi > 0 && state.intakePressurePsi < 10) {
     faults.push('PRESSURE DROP: Inadequate intake during changeover');
   }
   
@@ -52,37 +53,37 @@ export function validateChangeoverSequence(state: SimState): {
  * Check if throttle adjustment is allowed
  * Throttle can only be adjusted when pump is engaged
  */
-export function canAdjustThrottle(state: SimState): boolean {
-  return state.pump.engaged;
+export function canAdjustThrottle(state: PumpState): boolean {
+  return state.interlocks.engaged;
 }
 
 /**
  * Check if discharge valves can be opened
  * Discharges can only be opened when pump is engaged
  */
-export function canOpenDischarge(state: SimState): boolean {
-  return state.pump.engaged;
+export function canOpenDischarge(state: PumpState): boolean {
+  return state.interlocks.engaged;
 }
 
 /**
  * Check if foam percentage can be changed on a discharge line
  * Foam can only be adjusted when pump is engaged and valve is open
  */
-export function canChangeFoam(state: SimState, dischargeId: string): boolean {
-  const discharge = state.discharges[dischargeId];
-  if (!discharge) return false;
-  return state.pump.engaged && discharge.open > 0;
+export function canChangeFoam(state: PumpState, dischargeId: string): boolean {
+  if (!(dischargeId in state.dischargeValvePct)) return false;
+  const valvePct = state.dischargeValvePct[dischargeId as DischargeId];
+  return state.interlocks.engaged && valvePct > 0;
 }
 
 /**
  * Check if governor mode can be switched
  * Can only switch to RPM mode when drafting or high pressure
  */
-export function canSwitchGovernor(state: SimState): boolean {
+export function canSwitchGovernor(state: PumpState): boolean {
   // Can only switch to RPM mode when drafting or high pressure
-  if (state.pump.governor === 'PRESSURE') {
-    const isDrafting = Object.values(state.intakes).some(i => i.source === 'draft');
-    const isHighPressure = state.pump.pdp > 250;
+  if (state.runtime.governor === 'PRESSURE') {
+    const isDrafting = state.waterSource === 'draft';
+    const isHighPressure = state.dischargePsi > 250;
     return isDrafting || isHighPressure;
   }
   return true; // Can always switch back to PRESSURE
@@ -92,7 +93,7 @@ export function canSwitchGovernor(state: SimState): boolean {
  * Get interlock warning message for a specific action
  * Returns null if action is allowed
  */
-export function getInterlockWarning(action: string, state: SimState): string | null {
+export function getInterlockWarning(action: string, state: PumpState): string | null {
   switch (action) {
     case 'throttle':
       if (!canAdjustThrottle(state)) {
@@ -120,31 +121,32 @@ export function getInterlockWarning(action: string, state: SimState): string | n
  * Validate state for common safety violations
  * Returns array of warning messages
  */
-export function validateState(state: SimState): string[] {
+export function validateState(state: PumpState): string[] {
   const warnings: string[] = [];
+  const engaged = state.interlocks.engaged;
   
   // Check if discharges are open but pump not engaged
-  const openDischarges = Object.values(state.discharges).filter(d => d.open > 0);
-  if (openDischarges.length > 0 && !state.pump.engaged) {
+  const openDischarges = Object.values(state.dischargeValvePct).filter(pct => pct > 0);
+  if (openDischarges.length > 0 && !engaged) {
     warnings.push('Discharge valves open but pump not engaged');
   }
   
   // Check if foam is enabled but tank is empty
-  const foamInUse = Object.values(state.discharges).some(d => d.foamPct > 0 && d.open > 0);
-  if (foamInUse && state.pump.foamTankGallons <= 0) {
+  const foamInUse = Array.from(state.foam.enabledLines).some(id => state.dischargeValvePct[id] > 0);
+  if (foamInUse && state.foam.tankGallons <= 0) {
     warnings.push('Foam concentrate depleted');
   }
   
   // Check if drafting but primer not active (and not already primed)
-  const isDrafting = Object.values(state.intakes).some(i => i.source === 'draft');
-  if (isDrafting && !state.primerActive && !state.primed && state.pump.engaged) {
+  const isDrafting = state.waterSource === 'draft';
+  if (isDrafting && !state.primerActive && !state.interlocks.primed && engaged) {
     warnings.push('Drafting without primer - pump may not flow');
   }
   
   // Check if tank-to-pump is closed and no other water source
-  const hasHydrant = Object.values(state.intakes).some(i => i.source === 'hydrant');
-  const hasRelay = Object.values(state.intakes).some(i => i.source === 'relay');
-  if (!state.tankToPumpOpen && !hasHydrant && !hasRelay && !isDrafting && state.pump.engaged) {
+  const hasHydrant = state.waterSource === 'hydrant';
+  const hasRelay = state.waterSource === 'relay';
+  if (!state.tankToPumpOpen && !hasHydrant && !hasRelay && !isDrafting && engaged) {
     warnings.push('No water source available');
   }
   
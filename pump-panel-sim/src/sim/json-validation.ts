@@ -0,0 +1,93 @@
+/**
+ * Readers for validating untyped JSON (apparatus profiles, setup files)
+ * Each reader checks one value and throws an Error naming its path,
+ * e.g. "setup.apparatus.pump.ratedGpm must be a positive number".
+ */
+
+export type JsonObject = Record<string, unknown>;
+
+/**
+ * Throw a validation error for the value at a path
+ */
+export function invalid(path: string, message: string): never {
+  throw new Error(`${path} ${message}`);
+}
+
+/**
+ * Parse file text, reporting malformed JSON the same way as bad fields
+ */
+export function parseJson(text: string, path: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return invalid(path, `is not valid JSON (${(error as Error).message})`);
+  }
+}
+
+export function readObject(value: unknown, path: string): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    invalid(path, 'must be an object');
+  }
+  return value as JsonObject;
+}
+
+export function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) invalid(path, 'must be an array');
+  return value;
+}
+
+export function readString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.trim() === '') invalid(path, 'must be a non-empty string');
+  return value;
+}
+
+export function readBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') invalid(path, 'must be true or false');
+  return value;
+}
+
+export function readNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) invalid(path, 'must be a number');
+  return value;
+}
+
+export function readPositive(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    invalid(path, 'must be a positive number');
+  }
+  return value;
+}
+
+export function readNonNegative(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    invalid(path, 'must be a number of at least 0');
+  }
+  return value;
+}
+
+export function readPercent(value: unknown, path: string): number {
+  const pct = readNumber(value, path);
+  if (pct < 0 || pct > 100) invalid(path, 'must be between 0 and 100');
+  return pct;
+}
+
+/**
+ * Read a string that must be one of a fixed set of values
+ */
+export function readEnum<T extends string>(value: unknown, allowed: readonly T[], path: string): T {
+  if (!allowed.includes(value as T)) {
+    invalid(path, `must be one of ${allowed.map(option => `"${option}"`).join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Read an optional field, returning undefined when it is absent
+ */
+export function readOptional<T>(
+  value: unknown,
+  path: string,
+  read: (value: unknown, path: string) => T
+): T | undefined {
+  return value === undefined ? undefined : read(value, path);
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for instructor tank and foam cell leaks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { drainLeak, TANK_LEAK_WARNING, FOAM_LEAK_WARNING } from './leaks';
+import { reducer } from './actions';
+import { createInitialPumpState } from './pierce-puc';
+import { exportSetup, createStateFromSetup, parseSetupFile } from './setup-file';
+import { runFor } from './test-helpers';
+
+describe('drainLeak', () => {
+  it('drains at the leak rate and stops at empty', () => {
+    expect(drainLeak(100, 30, 60)).toBeCloseTo(70);
+    expect(drainLeak(10, 30, 60)).toBe(0);
+    expect(drainLeak(100, 0, 60)).toBe(100);
+  });
+});
+
+describe('tank and foam leaks', () => {
+  const leaking = reducer(
+    reducer(createInitialPumpState(), { type: 'SCENARIO_TANK_LEAK', rateGpm: 60 }),
+    { type: 'SCENARIO_FOAM_LEAK', rateGpm: 6 }
+  );
+
+  it('drain both tanks with the pump disengaged', () => {
+    const after = runFor(leaking, 10);
+    expect(after.tankGallons).toBeCloseTo(leaking.tankGallons - 10);
+    expect(after.foam.tankGallons).toBeCloseTo(leaking.foam.tankGallons - 1);
+  });
+
+  it('drain while pumping and raise distinct warnings', () => {
+    let pumping = reducer(leaking, { type: 'PUMP_ENGAGE', engaged: true });
+    pumping = reducer(pumping, { type: 'TANK_TO_PUMP', open: true });
+    const after = runFor(pumping, 10);
+    expect(after.tankGallons).toBeCloseTo(pumping.tankGallons - 10);
+    const warnings = Array.from(after.warnings);
+    expect(warnings).toContain(`${TANK_LEAK_WARNING} (60 GPM)`);
+    expect(warnings).toContain(`${FOAM_LEAK_WARNING} (6 GPM)`);
+  });
+
+  it('stop when the instructor clears them', () => {
+    let cleared = reducer(leaking, { type: 'SCENARIO_CLEAR_TANK_LEAK' });
+    cleared = reducer(cleared, { type: 'SCENARIO_CLEAR_FOAM_LEAK' });
+    expect(cleared.activeFaults).toEqual([]);
+    const after = runFor(cleared, 10);
+    expect(after.tankGallons).toBe(cleared.tankGallons);
+    expect(after.foam.tankGallons).toBe(cleared.foam.tankGallons);
+  });
+
+  it('stop with the rest of the faults', () => {
+    const cleared = reducer(leaking, { type: 'FAULT_CLEAR_ALL' });
+    const after = runFor(cleared, 10);
+    expect(after.tankGallons).toBe(cleared.tankGallons);
+    expect(after.foam.tankGallons).toBe(cleared.foam.tankGallons);
+  });
+
+  it('ignore a leak with no rate', () => {
+    const state = createInitialPumpState();
+    expect(reducer(state, { type: 'SCENARIO_TANK_LEAK', rateGpm: 0 })).toBe(state);
+  });
+
+  it('are saved with setup files', () => {
+    const restored = createStateFromSetup(exportSetup(leaking));
+    expect(restored.activeFaults.map(fault => fault.spec)).toEqual([
+      { kind: 'tank_leak', rateGpm: 60 },
+      { kind: 'foam_leak', rateGpm: 6 },
+    ]);
+    expect(exportSetup(createInitialPumpState()).faults).toEqual({});
+  });
+
+  it('are read from older setup files that list them outside the faults', () => {
+    const setup = exportSetup(createInitialPumpState());
+    const older = { ...setup, faults: { burstLines: ['xlay2'], tankLeakGpm: 60 } };
+    const restored = createStateFromSetup(parseSetupFile(older));
+    expect(restored.activeFaults.map(fault => fault.id)).toEqual(['hose_burst:xlay2', 'tank_leak']);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Tank and foam cell leaks
+ * Instructor faults (tank_leak, foam_leak in the fault registry) that drain
+ * the booster tank or foam cell at a set rate whether or not the pump is
+ * engaged, until the instructor clears them.
+ */
+
+import type { PumpState } from './model';
+
+/** Default booster tank leak rate in GPM (a 500 gal tank empties in 20 minutes) */
+export const DEFAULT_TANK_LEAK_GPM = 25;
+
+/** Default foam cell leak rate in GPM */
+export const DEFAULT_FOAM_LEAK_GPM = 1;
+
+/** Warning raised while the booster tank is leaking */
+export const TANK_LEAK_WARNING = '💧 TANK LEAK: Booster tank losing water';
+
+/** Warning raised while the foam cell is leaking */
+export const FOAM_LEAK_WARNING = '🧴 FOAM CELL LEAK: Losing foam concentrate';
+
+/**
+ * Total rate of the active leaks of one kind in GPM (0 when the tank is sound)
+ */
+export function leakRateGpm(state: PumpState, kind: 'tank_leak' | 'foam_leak'): number {
+  return state.activeFaults.reduce(
+    (total, { spec }) => total + (spec.kind === kind ? spec.rateGpm : 0),
+    0
+  );
+}
+
+/**
+ * Drain a tank by its leak over one time step
+ *
+ * @param gallons - Tank contents before the step
+ * @param rateGpm - Leak rate (0 when the tank is sound)
+ * @param deltaTimeSeconds - Time step in seconds
+ * @returns Tank contents after the step (never negative)
+ */
+export function drainLeak(gallons: number, rateGpm: number, deltaTimeSeconds: number): number {
+  if (rateGpm <= 0) return gallons;
+  return Math.max(0, gallons - rateGpm * (deltaTimeSeconds / 60));
+}
+
+/**
+ * Warnings for active leaks; they stay up until the instructor clears the fault
+ */
+export function getLeakWarnings(state: PumpState): string[] {
+  const warnings: string[] = [];
+  const tankGpm = leakRateGpm(state, 'tank_leak');
+  if (tankGpm > 0) {
+    warnings.push(`${TANK_LEAK_WARNING} (${tankGpm} GPM)`);
+  }
+  const foamGpm = leakRateGpm(state, 'foam_leak');
+  if (foamGpm > 0) {
+    warnings.push(`${FOAM_LEAK_WARNING} (${foamGpm} GPM)`);
+  }
+  return warnings;
+}
@@ -3,6 +3,9 @@
  * Defines types and interfaces for pumps, valves, discharge lines, and foam systems
  */
 
+import type { GovernorState } from './governor';
+import type { PumpCapacity } from './pump-curves';
+
 /**
  * Union type for all discharge line identifiers
  */
@@ -44,6 +47,83 @@ export type WaterSource =
   | 'draft'    // Static water source (pond, lake, etc.)
   | 'relay';   // Relay pumping from another apparatus
 
+/**
+ * Supply that can be connected to an intake
+ */
+export type IntakeSupply = Exclude<WaterSource, 'tank'>;
+
+/**
+ * One section of hose in a discharge layout
+ */
+export interface HoseSegment {
+  /** Internal diameter in inches */
+  diameterIn: number;
+  /** Length in feet */
+  lengthFt: number;
+  /** Hazen-Williams C coefficient (roughness factor) */
+  C: number;
+}
+
+/**
+ * Union type for in-line hose appliances
+ */
+export type ApplianceType =
+  | 'wye'        // Plain wye splitting one line into two
+  | 'gated_wye'  // Wye with quarter-turn gates on each outlet
+  | 'siamese'    // Siamese combining two or more lines into one
+  | 'standpipe'  // Building standpipe system (FDC to outlet)
+  | 'manifold';  // Portable manifold / water thief
+
+/**
+ * Appliance placed in a discharge layout
+ */
+export interface Appliance {
+  /** Type of appliance */
+  type: ApplianceType;
+  /** Friction loss through the appliance in PSI (defaults by type when omitted) */
+  lossPsi?: number;
+}
+
+/**
+ * Nozzle specifications
+ */
+export interface NozzleSpec {
+  /** Type of nozzle */
+  type: NozzleType;
+  /** Tip diameter in inches (for smooth-bore nozzles) */
+  tipIn?: number;
+  /** Target flow in GPM (for fog/automatic nozzles) */
+  targetGpm?: number;
+}
+
+/**
+ * Attack line leaving a wye at the end of a discharge lay
+ */
+export interface LineBranch {
+  /** Identifier for the branch, unique within its discharge (e.g. 'left', 'right') */
+  id: string;
+  /** Hose sections from the wye outlet to the nozzle */
+  segments: HoseSegment[];
+  /** Nozzle on this branch */
+  nozzle: NozzleSpec;
+  /** Wye outlet gate position (0-100% open) */
+  gatePct: number;
+  /** Rise of this branch's nozzle above the wye in feet */
+  elevationFt?: number;
+  /** Floors above the wye this branch is stretched to */
+  floors?: number;
+}
+
+/**
+ * Siamese joining other discharges' lays into this line
+ */
+export interface SiameseConfig {
+  /** Discharges whose lays feed the siamese alongside this line */
+  inlets: DischargeId[];
+  /** Hose from the siamese to the shared nozzle (none for a device mounted on the siamese) */
+  outlet?: HoseSegment[];
+}
+
 /**
  * Configuration for a discharge line including hose and nozzle specifications
  */
@@ -51,25 +131,29 @@ export interface LineConfig {
   /** Unique identifier for this discharge line */
   id: DischargeId;
   
-  /** Hose specifications */
-  hose: {
-    /** Internal diameter in inches */
-    diameterIn: number;
-    /** Length in feet */
-    lengthFt: number;
-    /** Hazen-Williams C coefficient (roughness factor) */
-    C: number;
-  };
-  
-  /** Nozzle specifications */
-  nozzle: {
-    /** Type of nozzle */
-    type: NozzleType;
-    /** Tip diameter in inches (for smooth-bore nozzles) */
-    tipIn?: number;
-    /** Target flow in GPM (for fog/automatic nozzles) */
-    targetGpm?: number;
-  };
+  /** Hose specifications (the whole lay when segments is not set) */
+  hose: HoseSegment;
+  
+  /** Hose sections from pump to nozzle; replaces hose for mixed-size lays */
+  segments?: HoseSegment[];
+  
+  /** Appliances in the lay (wyes, siamese, standpipe, manifold) */
+  appliances?: Appliance[];
+  
+  /** Nozzle elevation above (+) or below (-) the pump in feet, added to the scene elevation */
+  elevationFt?: number;
+  
+  /** Floors above grade the nozzle is operating on (standpipe/high-rise) */
+  floors?: number;
+  
+  /** Nozzle specifications (unused when the line is wyed into branches) */
+  nozzle: NozzleSpec;
+  
+  /** Lines leaving a wye at the end of this lay */
+  branches?: LineBranch[];
+  
+  /** Other discharges siamesed into this line; this line's nozzle is the shared stream */
+  siamese?: SiameseConfig;
   
   /** Whether this line is capable of foam proportioning */
   foamCapable: boolean;
@@ -118,6 +202,28 @@ export interface PumpRuntime {
   governor: 'RPM' | 'PRESSURE';
 }
 
+/**
+ * Load placed on a discharge that supplies a downstream pumper (relay pumping)
+ */
+export interface RelayLoad {
+  /** Flow drawn by the downstream pumper in GPM */
+  demandGpm: number;
+  /** Supply line friction plus elevation loss at that flow in PSI */
+  lossPsi: number;
+  /** Residual pressure to deliver at the downstream intake in PSI */
+  residualPsi: number;
+}
+
+/**
+ * Supply arriving at this pumper's intake from an upstream pumper (relay pumping)
+ */
+export interface RelayIntake {
+  /** Intake the supply line is connected to */
+  intakeId: IntakeId;
+  /** Pressure at the intake after supply line losses in PSI */
+  supplyPsi: number;
+}
+
 /**
  * DRV (Discharge Relief Valve) state
  */
@@ -130,31 +236,269 @@ export interface DRVState {
   bypassGpm: number;
 }
 
+/**
+ * Valve closure fast enough to cause a serious water hammer surge
+ */
+export interface WaterHammerEvent {
+  /** Discharge closed */
+  dischargeId: DischargeId;
+  /** Highest surge reached in PSI */
+  peakSurgePsi: number;
+  /** Closure rate in % of valve travel per second */
+  closureRatePctPerSec: number;
+  /** Seconds since the surge peaked */
+  ageSec: number;
+}
+
+/**
+ * Discharge flows carried between steps to detect water hammer
+ */
+export interface WaterHammerState {
+  /** Discharge valve positions (0-100%) at the end of the last step */
+  lastValvePct: Record<DischargeId, number>;
+  /** Flow on each flowing discharge at the end of the last step in GPM */
+  lastFlowGpm: Partial<Record<DischargeId, number>>;
+  /** Surge on top of pump discharge pressure in PSI, dying out between closures */
+  surgePsi: number;
+  /** Most recent operator-error closure, or null if none yet */
+  lastEvent: WaterHammerEvent | null;
+  /** Operator-error closures so far */
+  eventCount: number;
+}
+
+/**
+ * Equipment fault the instructor can inject (parameters per kind)
+ * The engine applies it every step until the instructor clears it
+ */
+export type FaultSpec =
+  /** Discharge valve seized at a position; the crew can't move it */
+  | { kind: 'stuck_valve'; dischargeId: DischargeId; positionPct: number }
+  /** Governor stops responding; engine speed holds where it was */
+  | { kind: 'governor_failure' }
+  /** Pressure governor PID hunts around its setpoint */
+  | { kind: 'governor_hunting'; amplitudeRpm: number; periodSec: number }
+  /** Master gauge reading drifts away from the true pressure */
+  | { kind: 'gauge_drift'; gauge: 'discharge' | 'intake'; driftPsiPerMin: number }
+  /** Intake strainer partly blocked; loss grows with flow */
+  | { kind: 'clogged_strainer'; blockagePct: number }
+  /** Primer runs but can't pull enough vacuum to prime */
+  | { kind: 'primer_failure' }
+  /** Discharge relief valve stuck closed; never relieves */
+  | { kind: 'drv_failure' }
+  /** Air drawn in on the intake side; costs performance and, when drafting, prime */
+  | { kind: 'intake_air_leak'; severityPct: number }
+  /** Discharge hose burst; the line stays shut down until the hose is replaced */
+  | { kind: 'hose_burst'; dischargeId: DischargeId }
+  /** Booster tank leaking, whether or not the pump is engaged */
+  | { kind: 'tank_leak'; rateGpm: number }
+  /** Foam cell leaking concentrate */
+  | { kind: 'foam_leak'; rateGpm: number };
+
+export type FaultKind = FaultSpec['kind'];
+
+/**
+ * Injected fault and how long it has been active
+ */
+export interface ActiveFault {
+  /** Registry id; starting a fault with the same id replaces it */
+  id: string;
+  spec: FaultSpec;
+  /** Seconds the fault has been applied by the engine */
+  activeSec: number;
+}
+
+/**
+ * Engine speed limits enforced by the governor
+ */
+export interface GovernorLimits {
+  /** Idle RPM (bottom of throttle travel) */
+  idleRpm: number;
+  /** Maximum governed RPM */
+  maxRpm: number;
+}
+
+/**
+ * Static water source the pump drafts from
+ */
+export interface DraftSite {
+  /** Height of the pump intake above the water surface in feet */
+  liftFt: number;
+  /** Hard suction hose inside diameter in inches */
+  hardSuctionDiameterIn: number;
+  /** Hard suction hose length in feet */
+  hardSuctionLengthFt: number;
+  /** Share of the barrel strainer blocked by debris (0-100%) */
+  strainerBlockagePct: number;
+  /** Water temperature in °F */
+  waterTempF: number;
+  /** Site altitude above sea level in feet */
+  altitudeFt: number;
+}
+
+/**
+ * Hydrant and the supply line from it to the intake
+ */
+export interface HydrantSupply {
+  /** Hydrant pressure with no flow in PSI */
+  staticPsi: number;
+  /** Pressure left during the flow test in PSI */
+  residualPsi: number;
+  /** Flow drawn during the flow test in GPM */
+  testFlowGpm: number;
+  /** Supply line inside diameter in inches */
+  supplyDiameterIn: number;
+  /** Supply line length in feet */
+  supplyLengthFt: number;
+}
+
+/**
+ * What is connected to one intake, and its valves
+ */
+export interface IntakeState {
+  /** Supply connected to the intake, or null when it is capped */
+  supply: IntakeSupply | null;
+  /** Intake gate valve position (0-100% open) */
+  valvePct: number;
+  /** Intake relief valve setpoint in PSI */
+  reliefPsi: number;
+}
+
+/**
+ * PID gains of the pressure governor
+ * Each step the governor changes the commanded RPM by
+ * kp·error + ki·∫error + kd·d(error)/dt, with error in PSI.
+ */
+export interface GovernorTuning {
+  kp: number;
+  ki: number;
+  kd: number;
+  /** Clamp on the error integral in PSI·s (anti-windup) */
+  integralLimit: number;
+}
+
+/**
+ * Engine torque at one speed, from the manufacturer's full-load curve
+ */
+export interface TorquePoint {
+  rpm: number;
+  torqueLbFt: number;
+}
+
+/**
+ * Engine driving the pump: full-load torque curve and rotating inertia
+ */
+export interface EngineSpec {
+  /** Full-load torque, ordered by RPM */
+  torqueCurve: TorquePoint[];
+  /** Rotating inertia of engine, transmission and impeller (WR²) in lb·ft² */
+  inertiaLbFt2: number;
+  /** Time constant of turbo boost building in seconds */
+  turboLagSec: number;
+}
+
+/**
+ * Engine speed dynamics carried between simulation steps
+ */
+export interface EngineState {
+  /** Speed the governor is asking the engine for */
+  commandedRpm: number;
+  /** Turbo boost (0 = none, 1 = full) */
+  boost: number;
+  /** Torque the engine delivered last step in lb·ft */
+  torqueLbFt: number;
+  /** Torque the pump and engine friction absorbed last step in lb·ft */
+  loadTorqueLbFt: number;
+}
+
+/**
+ * Pump rating and performance curve of the apparatus being simulated
+ */
+export interface PumpSpec {
+  /** Rated capacity in GPM at 150 PSI net */
+  ratedGpm: number;
+  /** Engine RPM the curve was measured at */
+  ratedRpm: number;
+  /** Pressure/flow test points at rated RPM, ordered by flow */
+  curve: PumpCapacity[];
+  /** Governor engine speed limits */
+  governor: GovernorLimits;
+  /** Engine driving the pump (defaults to a 500 HP diesel) */
+  engine?: EngineSpec;
+  /** Pressure governor PID gains (defaults to the Pierce PUC tuning) */
+  governorTuning?: GovernorTuning;
+}
+
+/**
+ * Apparatus profile describing one rig's pump, tanks and plumbing
+ * Loaded from JSON so departments can simulate the rigs they run
+ */
+export interface ApparatusProfile {
+  /** Unique identifier (used to remember the selection) */
+  id: string;
+  /** Display name shown in Settings */
+  name: string;
+  /** Pump rating, curve and governor limits */
+  pump: PumpSpec;
+  /** Booster tank capacity in gallons */
+  tankGallons: number;
+  /** Foam concentrate cell capacity in gallons */
+  foamTankGallons: number;
+  /** Discharge relief valve setpoint in PSI */
+  drvSetpointPsi: number;
+  /** Intakes fitted to this apparatus */
+  intakes: IntakeId[];
+  /** Discharges with their default hose and nozzle */
+  discharges: LineConfig[];
+}
+
 /**
  * Complete state of the pump panel system
+ * This is the single canonical simulation state: the reducer in actions.ts,
+ * simulateStep in engine.ts, interlocks, quiz and checklist all operate on it.
  */
 export interface PumpState {
+  /** Apparatus profile this state was created from */
+  apparatusId: string;
+  
+  /** Pump rating and curve of the apparatus */
+  pump: PumpSpec;
+  
   /** Engine throttle percentage (0-100%) */
   throttle: number;
   
   /** Current water source */
   waterSource: WaterSource;
   
+  /** Static water source and hard suction used when drafting */
+  draft: DraftSite;
+  
+  /** Hydrant and supply line used on hydrant supply */
+  hydrant: HydrantSupply;
+  
   /** Intake pressures for each intake line (PSI) */
   intakePsi: Record<IntakeId, number>;
   
-  /** Discharge valve positions (0-100% open) */
+  /** Supply, gate valve and relief valve of each intake */
+  intakes: Record<IntakeId, IntakeState>;
+  
+  /** Flow the pump is taking through each intake in GPM */
+  intakeFlowGpm: Record<IntakeId, number>;
+  
+  /** Discharge valve positions (0-100% open), for the fitted discharges only */
   dischargeValvePct: Record<DischargeId, number>;
   
-  /** Configuration for each discharge line */
+  /** Configuration for each discharge line the apparatus has fitted */
   lineConfigs: Record<DischargeId, LineConfig>;
   
   /** Foam system state */
   foam: FoamSystem;
   
-  /** Onboard water tank capacity in gallons */
+  /** Water remaining in the onboard tank in gallons */
   tankGallons: number;
   
+  /** Onboard water tank capacity in gallons */
+  tankCapacityGallons: number;
+  
   /** Engine RPM */
   engineRpm: number;
   
@@ -164,6 +508,12 @@ export interface PumpState {
   /** Pump runtime parameters */
   runtime: PumpRuntime;
   
+  /** Engine spool-up and load, which runtime.rpm follows */
+  engine: EngineState;
+  
+  /** Governor targets and PID controller state, carried between simulation steps */
+  governorState: GovernorState;
+  
   /** DRV (Discharge Relief Valve) state */
   drv: DRVState;
   
@@ -179,6 +529,9 @@ export interface PumpState {
   /** Total flow from all discharge lines in GPM */
   totalFlowGpm: number;
   
+  /** Nozzle elevation above (+) or below (-) the pump in feet */
+  elevationFt: number;
+  
   // Tank and cooling controls
   /** Tank-to-Pump valve state */
   tankToPumpOpen: boolean;
@@ -188,8 +541,10 @@ export interface PumpState {
   // Priming system (for drafting)
   /** Primer button currently pressed */
   primerActive: boolean;
-  /** Seconds left in prime cycle (15 sec total) */
+  /** Seconds the primer motor can still run before it overheats (45 sec when cool) */
   primerTimeRemaining: number;
+  /** Vacuum the primer has pulled in the pump and hard suction in PSI */
+  primingVacuumPsi: number;
   
   // Temperature monitoring
   /** Pump casing temperature (60-300°F range) */
@@ -208,6 +563,17 @@ export interface PumpState {
   // Overpressure tracking (Phase 2.3)
   /** Duration in seconds that discharge pressure has been above 400 PSI */
   overpressureDurationSec: number;
-  /** Array of discharge line IDs that have burst due to overpressure */
-  burstLines: Set<DischargeId>;
+  
+  /** Water hammer from discharge valves closed on flowing lines */
+  waterHammer: WaterHammerState;
+  
+  // Instructor faults
+  /** Injected faults (equipment, burst hose, leaks), in the order they were started */
+  activeFaults: ActiveFault[];
+  
+  // Relay pumping
+  /** Discharges feeding a downstream pumper, keyed by line (empty when standalone) */
+  relayLoads: Partial<Record<DischargeId, RelayLoad>>;
+  /** Supply from an upstream pumper, or null when not in a relay */
+  relayIntake: RelayIntake | null;
 }
\ No newline at end of file
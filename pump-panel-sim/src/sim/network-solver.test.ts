@@ -0,0 +1,219 @@
+/**
+ * Tests for the iterative hydraulic network solver
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  nozzleCoefficient,
+  valveLossPsi,
+  lineRequiredPressure,
+  solveLineFlow,
+  solveLinesAtPressure,
+  solveNetwork,
+  ratedRequiredPressure,
+} from './network-solver';
+import type { NetworkLine } from './network-solver';
+import { calculateMaxPDP } from './pump-curves';
+import { defaultLines } from './pierce-puc';
+import { createSiameseLayout, createWyedLayout } from './hose-layout';
+import type { LineConfig } from './model';
+
+/** 200' of 1.75" with a 150 GPM @ 100 PSI fog nozzle */
+const CROSSLAY = defaultLines.xlay1;
+
+function createLine(overrides: Partial<NetworkLine> = {}): NetworkLine {
+  return { id: 'xlay1', config: CROSSLAY, valvePct: 100, elevationFt: 0, ...overrides };
+}
+
+describe('nozzleCoefficient', () => {
+  it('delivers rated flow at rated pressure for fog nozzles', () => {
+    expect(nozzleCoefficient(CROSSLAY.nozzle) * Math.sqrt(100)).toBeCloseTo(150, 10);
+  });
+
+  it('uses 29.7 d² for smooth bore tips', () => {
+    expect(nozzleCoefficient({ type: 'smooth', tipIn: 1.0 })).toBeCloseTo(29.7, 10);
+  });
+});
+
+describe('valveLossPsi', () => {
+  it('rises sharply as the valve closes', () => {
+    const open = valveLossPsi(1.75, 100, 150);
+    const half = valveLossPsi(1.75, 50, 150);
+    const quarter = valveLossPsi(1.75, 25, 150);
+
+    expect(open).toBeLessThan(1);
+    expect(half).toBeCloseTo(open * 16, 5);
+    expect(quarter).toBeCloseTo(open * 256, 5);
+  });
+
+  it('is zero without flow and infinite through a closed valve', () => {
+    expect(valveLossPsi(1.75, 0, 0)).toBe(0);
+    expect(valveLossPsi(1.75, 0, 10)).toBe(Infinity);
+  });
+});
+
+describe('solveLineFlow', () => {
+  const ratedPdp = lineRequiredPressure(createLine(), 150);
+
+  it('flows rated GPM at the rated pump pressure', () => {
+    const result = solveLineFlow(createLine(), ratedPdp);
+    expect(result.flowGpm).toBeCloseTo(150, 1);
+    expect(result.nozzlePressurePsi).toBeCloseTo(100, 1);
+  });
+
+  it('flows less with lower nozzle pressure when under-pumped', () => {
+    const result = solveLineFlow(createLine(), ratedPdp - 40);
+    expect(result.flowGpm).toBeLessThan(140);
+    expect(result.nozzlePressurePsi).toBeLessThan(100);
+  });
+
+  it('flows more with higher nozzle pressure when over-pumped', () => {
+    const result = solveLineFlow(createLine(), ratedPdp + 40);
+    expect(result.flowGpm).toBeGreaterThan(160);
+    expect(result.nozzlePressurePsi).toBeGreaterThan(100);
+  });
+
+  it('balances PDP against nozzle, friction, valve and elevation losses', () => {
+    const result = solveLineFlow(createLine({ valvePct: 40, elevationFt: 20 }), 150);
+    const total = result.nozzlePressurePsi + result.frictionLossPsi
+      + result.valveLossPsi + result.elevationPsi;
+    expect(total).toBeCloseTo(150, 3);
+    expect(result.elevationPsi).toBeCloseTo(8.68, 5);
+  });
+
+  it('throttles flow nonlinearly as the valve is gated', () => {
+    const flowAt = (valvePct: number) => solveLineFlow(createLine({ valvePct }), ratedPdp).flowGpm;
+
+    // Half open barely restricts; the last part of travel chokes the line
+    expect(flowAt(50)).toBeGreaterThan(0.9 * flowAt(100));
+    expect(flowAt(10)).toBeLessThan(0.5 * flowAt(100));
+    expect(flowAt(0)).toBe(0);
+  });
+
+  it('loses flow pumping uphill', () => {
+    const level = solveLineFlow(createLine(), ratedPdp);
+    const uphill = solveLineFlow(createLine({ elevationFt: 50 }), ratedPdp);
+    expect(uphill.flowGpm).toBeLessThan(level.flowGpm);
+  });
+
+  it('flows nothing when pump pressure cannot lift water to the nozzle', () => {
+    const result = solveLineFlow(createLine({ elevationFt: 100 }), 40);
+    expect(result.flowGpm).toBe(0);
+  });
+
+  it('carries the downstream demand on relay lines', () => {
+    const result = solveLineFlow(
+      createLine({ id: 'rear_ldh', relayLoad: { demandGpm: 500, lossPsi: 40, residualPsi: 20 } }),
+      150
+    );
+    expect(result.flowGpm).toBe(500);
+    expect(result.nozzlePressurePsi).toBeCloseTo(150 - 40 - result.valveLossPsi, 10);
+  });
+});
+
+describe('solveNetwork', () => {
+  const pumpAt = (rpm: number) => (flowGpm: number) => calculateMaxPDP(flowGpm, rpm, 45);
+
+  it('finds the point where the pump curve meets line demand', () => {
+    const lines = [createLine(), createLine({ id: 'xlay2' })];
+    const result = solveNetwork(lines, pumpAt(1500));
+
+    expect(result.totalFlowGpm).toBeGreaterThan(0);
+    expect(result.pdp).toBeCloseTo(pumpAt(1500)(result.totalFlowGpm), 1);
+    result.lines.forEach(line => {
+      expect(lineRequiredPressure(lines[0], line.flowGpm)).toBeCloseTo(result.pdp, 3);
+    });
+  });
+
+  it('opening another line draws pressure down on the first', () => {
+    const single = solveNetwork([createLine()], pumpAt(1500));
+    const both = solveNetwork(
+      [createLine(), createLine({ id: 'd2_5_a', config: defaultLines.d2_5_a })],
+      pumpAt(1500)
+    );
+
+    expect(both.pdp).toBeLessThan(single.pdp);
+    expect(both.lines[0].flowGpm).toBeLessThan(single.lines[0].flowGpm);
+  });
+
+  it('holds shutoff pressure with no open lines', () => {
+    const result = solveNetwork([], pumpAt(1500));
+    expect(result.totalFlowGpm).toBe(0);
+    expect(result.pdp).toBeCloseTo(pumpAt(1500)(0), 10);
+  });
+});
+
+describe('wyed lines', () => {
+  function createWyedLine(config: LineConfig): NetworkLine {
+    return { id: 'd2_5_a', config, valvePct: 100, elevationFt: 0 };
+  }
+
+  /** 200' of 2.5" to a gated wye, two 150' 1.75" branches with 150 GPM fog nozzles */
+  const wyed = createWyedLayout({ ...defaultLines.d2_5_a, nozzle: CROSSLAY.nozzle });
+
+  it('splits flow between branches and carries the sum back through the lay', () => {
+    const result = solveLineFlow(createWyedLine(wyed), 180);
+    const [left, right] = result.branches!;
+
+    expect(left.flowGpm).toBeCloseTo(right.flowGpm, 5);
+    expect(result.flowGpm).toBeCloseTo(left.flowGpm + right.flowGpm, 10);
+    const pumpSide = result.valveLossPsi + result.frictionLossPsi
+      + result.applianceLossPsi + result.nozzlePressurePsi;
+    expect(pumpSide).toBeCloseTo(180, 3);
+  });
+
+  it('flows rated GPM from both branches at the rated pump pressure', () => {
+    const line = createWyedLine(wyed);
+    const result = solveLineFlow(line, ratedRequiredPressure(line));
+
+    result.branches!.forEach(branch => {
+      expect(branch.flowGpm).toBeCloseTo(150, 0);
+    });
+  });
+
+  it('sends more water to the open branch when a gate is closed', () => {
+    const bothOpen = solveLineFlow(createWyedLine(wyed), 180);
+    const leftClosed = solveLineFlow(createWyedLine({
+      ...wyed,
+      branches: wyed.branches!.map(branch => branch.id === 'left' ? { ...branch, gatePct: 0 } : branch),
+    }), 180);
+
+    expect(leftClosed.branches![0].flowGpm).toBe(0);
+    expect(leftClosed.branches![1].flowGpm).toBeGreaterThan(bothOpen.branches![1].flowGpm);
+    expect(leftClosed.flowGpm).toBeLessThan(bothOpen.flowGpm);
+  });
+});
+
+describe('siamesed lines', () => {
+  const MASTER = { type: 'master_smooth' as const, tipIn: 1.5 };
+
+  function createSiamesedLine(inletValvePct: number): NetworkLine {
+    return {
+      id: 'd2_5_a',
+      config: createSiameseLayout({ ...defaultLines.d2_5_a, nozzle: MASTER }, ['d2_5_b']),
+      valvePct: 100,
+      elevationFt: 0,
+      siameseInlets: [
+        { id: 'd2_5_b', config: defaultLines.d2_5_b, valvePct: inletValvePct, elevationFt: 0 },
+      ],
+    };
+  }
+
+  it('shares the master stream flow between identical lays', () => {
+    const { lines, totalFlowGpm } = solveLinesAtPressure([createSiamesedLine(100)], 150);
+    const [lead, inlet] = lines;
+
+    expect(lines.map(line => line.id)).toEqual(['d2_5_a', 'd2_5_b']);
+    expect(lead.flowGpm).toBeCloseTo(inlet.flowGpm, 1);
+    expect(totalFlowGpm).toBeCloseTo(nozzleCoefficient(MASTER) * Math.sqrt(lead.nozzlePressurePsi), 1);
+  });
+
+  it('flows less through one lay than through two', () => {
+    const both = solveLinesAtPressure([createSiamesedLine(100)], 150);
+    const single = solveLinesAtPressure([createSiamesedLine(0)], 150);
+
+    expect(single.lines[1].flowGpm).toBe(0);
+    expect(single.totalFlowGpm).toBeLessThan(both.totalFlowGpm);
+    expect(single.lines[0].flowGpm).toBeGreaterThan(both.lines[0].flowGpm);
+  });
+});
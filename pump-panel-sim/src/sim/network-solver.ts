@@ -0,0 +1,518 @@
+/**
+ * Iterative hydraulic network solver
+ * Balances pump discharge pressure against the flow every open line actually takes
+ *
+ * Each line is modelled from the pump outward:
+ *   PDP = valve loss + hose friction + appliance loss + elevation + nozzle pressure
+ * with nozzle flow Q = K * √NP, Hazen-Williams friction summed over the
+ * hose layout and a gated-valve loss that grows sharply as the valve closes.
+ *
+ * Wyed lines split at the wye: the branches share the wye pressure and the
+ * lay back to the pump carries their combined flow. Siamesed lines join at
+ * the siamese: each discharge's lay carries its share of the shared nozzle flow.
+ */
+
+import type { DischargeId, HoseSegment, LineBranch, LineConfig, NozzleSpec, RelayLoad } from './model';
+import { NOZZLE_PSI } from '../hydraulics/standards';
+import {
+  branchElevationFt,
+  getHoseSegments,
+  layoutApplianceLossPsi,
+  layoutFrictionLossPsi,
+  segmentsFrictionLossPsi,
+} from './hose-layout';
+
+/** Elevation pressure per foot of water column (PSI/ft) */
+export const ELEVATION_PSI_PER_FT = 0.434;
+
+/** Upper bound on bisection iterations */
+const MAX_ITERATIONS = 60;
+
+/** Bisection stops once flow is bracketed this tightly (GPM) */
+const FLOW_TOLERANCE_GPM = 1e-4;
+
+/** Bisection stops once pressure is bracketed this tightly (PSI) */
+const PRESSURE_TOLERANCE_PSI = 1e-4;
+
+/** Upper flow bound for a single line when bracketing (GPM) */
+const MAX_LINE_FLOW_GPM = 5000;
+
+/**
+ * Open discharge line as seen by the solver
+ */
+export interface NetworkLine {
+  id: DischargeId;
+  config: LineConfig;
+  /** Discharge valve position 0-100% */
+  valvePct: number;
+  /** Nozzle elevation above the pump in feet (scene plus layout) */
+  elevationFt: number;
+  /** Downstream pumper load for relay supply lines (fixed flow) */
+  relayLoad?: RelayLoad;
+  /** Discharges siamesed into this line, each with its own valve and lay */
+  siameseInlets?: NetworkLine[];
+}
+
+/**
+ * Solved operating point for one wye branch
+ */
+export interface BranchSolution {
+  id: string;
+  /** Flow through the branch in GPM */
+  flowGpm: number;
+  /** Loss across the wye outlet gate in PSI */
+  valveLossPsi: number;
+  /** Branch hose friction loss in PSI */
+  frictionLossPsi: number;
+  /** Elevation loss from the wye to the nozzle in PSI */
+  elevationPsi: number;
+  /** Pressure at the branch nozzle in PSI */
+  nozzlePressurePsi: number;
+}
+
+/**
+ * Solved operating point for one line
+ */
+export interface LineSolution {
+  id: DischargeId;
+  /** Flow through the line in GPM */
+  flowGpm: number;
+  /** Loss across the partially closed discharge valve in PSI */
+  valveLossPsi: number;
+  /** Hose friction loss in PSI (supply line loss for relay lines) */
+  frictionLossPsi: number;
+  /** Loss through wyes, standpipes and other appliances in PSI */
+  applianceLossPsi: number;
+  /** Elevation loss (negative for gain) in PSI */
+  elevationPsi: number;
+  /**
+   * Pressure at the nozzle in PSI; downstream intake for relay lines,
+   * the wye for wyed lines and the siamese for siamese inlets
+   */
+  nozzlePressurePsi: number;
+  /** Per-branch results for wyed lines */
+  branches?: BranchSolution[];
+}
+
+/**
+ * Solved operating point for the whole network
+ */
+export interface NetworkSolution {
+  /** Pump discharge pressure in PSI */
+  pdp: number;
+  /** Sum of line flows in GPM */
+  totalFlowGpm: number;
+  lines: LineSolution[];
+}
+
+/**
+ * Hose run from a pressure point through an optional gate to a nozzle
+ */
+interface NozzleRun {
+  segments: HoseSegment[];
+  /** Prefix for hose ids passed to frictionLossPsi */
+  hoseId: string;
+  nozzle: NozzleSpec;
+  /** Gate at the head of the run; omitted for ungated runs */
+  valve?: { diameterIn: number; pct: number };
+  /** Appliance loss carried by this run while flowing */
+  applianceLossPsi: number;
+  elevationFt: number;
+}
+
+/**
+ * Largest x in [low, high] with fn(x) ≤ target, for non-decreasing fn,
+ * to within tolerance
+ */
+function bisect(
+  fn: (x: number) => number,
+  target: number,
+  low: number,
+  high: number,
+  tolerance: number
+): number {
+  if (fn(low) > target) return low;
+  for (let i = 0; i < MAX_ITERATIONS && high - low > tolerance; i++) {
+    const mid = (low + high) / 2;
+    if (fn(mid) > target) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Rated nozzle pressure for a nozzle type
+ */
+export function ratedNozzlePressure(nozzleType: NozzleSpec['type']): number {
+  switch (nozzleType) {
+    case 'smooth': return NOZZLE_PSI.HANDLINE_SMOOTH;
+    case 'fog': return NOZZLE_PSI.HANDLINE_FOG;
+    case 'master_smooth': return NOZZLE_PSI.MASTER_SMOOTH;
+    case 'master_fog': return NOZZLE_PSI.MASTER_FOG;
+    default: return 100;
+  }
+}
+
+/**
+ * Nozzle discharge coefficient K in Q = K * √NP
+ *
+ * Smooth bore: K = 29.7 * d². Fog nozzles are treated as fixed orifices
+ * that deliver their rated flow at rated pressure.
+ *
+ * @param nozzle - Nozzle configuration from LineConfig
+ * @returns Discharge coefficient in GPM/√PSI
+ */
+export function nozzleCoefficient(nozzle: NozzleSpec): number {
+  if (nozzle.type === 'smooth' || nozzle.type === 'master_smooth') {
+    const tipIn = nozzle.tipIn ?? 1.0;
+    return 29.7 * tipIn * tipIn;
+  }
+  const targetGpm = nozzle.targetGpm ?? 0;
+  return targetGpm / Math.sqrt(ratedNozzlePressure(nozzle.type));
+}
+
+/**
+ * Flow a nozzle delivers at its rated pressure in GPM
+ */
+export function ratedNozzleFlow(nozzle: NozzleSpec): number {
+  return nozzleCoefficient(nozzle) * Math.sqrt(ratedNozzlePressure(nozzle.type));
+}
+
+/**
+ * Pressure loss across a gated discharge valve
+ *
+ * Uses ΔP = (Q / Cv)² with a flow coefficient that falls with the square
+ * of valve opening, so a half-open valve barely restricts a handline but
+ * the last 20% of travel chokes flow hard — as on a real quarter-turn valve.
+ *
+ * @param diameterIn - Valve/hose diameter in inches
+ * @param valvePct - Valve position 0-100%
+ * @param flowGpm - Flow through the valve in GPM
+ * @returns Pressure loss in PSI (Infinity when closed with flow)
+ */
+export function valveLossPsi(diameterIn: number, valvePct: number, flowGpm: number): number {
+  if (flowGpm <= 0) return 0;
+  if (valvePct <= 0) return Infinity;
+  const cvFullOpen = 100 * diameterIn * diameterIn;
+  const cv = cvFullOpen * Math.pow(Math.min(100, valvePct) / 100, 2);
+  return Math.pow(flowGpm / cv, 2);
+}
+
+function nozzlePressureAt(nozzle: NozzleSpec, flowGpm: number): number {
+  const K = nozzleCoefficient(nozzle);
+  return K > 0 ? Math.pow(flowGpm / K, 2) : 0;
+}
+
+/**
+ * Losses and nozzle pressure along a run at a given flow
+ */
+function runLosses(run: NozzleRun, flowGpm: number) {
+  return {
+    valveLossPsi: run.valve ? valveLossPsi(run.valve.diameterIn, run.valve.pct, flowGpm) : 0,
+    frictionLossPsi: segmentsFrictionLossPsi(run.segments, flowGpm, run.hoseId),
+    applianceLossPsi: flowGpm > 0 ? run.applianceLossPsi : 0,
+    elevationPsi: ELEVATION_PSI_PER_FT * run.elevationFt,
+    nozzlePressurePsi: nozzlePressureAt(run.nozzle, flowGpm),
+  };
+}
+
+function runRequiredPressure(run: NozzleRun, flowGpm: number): number {
+  const losses = runLosses(run, flowGpm);
+  return losses.valveLossPsi + losses.frictionLossPsi + losses.applianceLossPsi
+    + losses.elevationPsi + losses.nozzlePressurePsi;
+}
+
+/**
+ * Flow a run takes with a given pressure at its head
+ */
+function solveRunFlow(run: NozzleRun, inletPsi: number): number {
+  if (run.valve && run.valve.pct <= 0) return 0;
+  // With no losses at all the nozzle would see everything above the elevation and appliance head
+  const headroomPsi = inletPsi - ELEVATION_PSI_PER_FT * run.elevationFt - run.applianceLossPsi;
+  if (headroomPsi <= 0) return 0;
+  const maxFlow = Math.min(MAX_LINE_FLOW_GPM, nozzleCoefficient(run.nozzle) * Math.sqrt(headroomPsi));
+  return bisect(flow => runRequiredPressure(run, flow), inletPsi, 0, maxFlow, FLOW_TOLERANCE_GPM);
+}
+
+/**
+ * Pump-to-nozzle run for a single (unbranched) line
+ */
+function lineRun(line: NetworkLine): NozzleRun {
+  return {
+    segments: getHoseSegments(line.config),
+    hoseId: line.id,
+    nozzle: line.config.nozzle,
+    valve: { diameterIn: line.config.hose.diameterIn, pct: line.valvePct },
+    applianceLossPsi: layoutApplianceLossPsi(line.config),
+    elevationFt: line.elevationFt,
+  };
+}
+
+/**
+ * Wye-to-nozzle run for one branch of a wyed line
+ */
+function branchRun(line: NetworkLine, branch: LineBranch): NozzleRun {
+  return {
+    segments: branch.segments,
+    hoseId: `${line.id}_${branch.id}`,
+    nozzle: branch.nozzle,
+    valve: { diameterIn: branch.segments[0]?.diameterIn ?? line.config.hose.diameterIn, pct: branch.gatePct },
+    applianceLossPsi: 0,
+    elevationFt: line.elevationFt + branchElevationFt(branch),
+  };
+}
+
+/**
+ * Siamese-to-nozzle run for a siamesed line
+ */
+function siameseOutletRun(line: NetworkLine): NozzleRun {
+  return {
+    segments: line.config.siamese?.outlet ?? [],
+    hoseId: `${line.id}_outlet`,
+    nozzle: line.config.nozzle,
+    applianceLossPsi: layoutApplianceLossPsi(line.config),
+    elevationFt: line.elevationFt,
+  };
+}
+
+/**
+ * Loss from the pump to the end of a line's own lay (valve plus hose)
+ */
+function layLossPsi(line: NetworkLine, flowGpm: number): number {
+  return valveLossPsi(line.config.hose.diameterIn, line.valvePct, flowGpm)
+    + layoutFrictionLossPsi(line.config, flowGpm);
+}
+
+/**
+ * Flow a line's own lay carries with a given pressure drop across it
+ */
+function solveLayFlow(line: NetworkLine, dropPsi: number): number {
+  if (line.valvePct <= 0 || dropPsi <= 0) return 0;
+  return bisect(flow => layLossPsi(line, flow), dropPsi, 0, MAX_LINE_FLOW_GPM, FLOW_TOLERANCE_GPM);
+}
+
+/**
+ * Pump discharge pressure needed to push a given flow through a single line
+ * (wyed and siamesed lines split their flow and are solved by solveLineFlow)
+ *
+ * @param line - Network line
+ * @param flowGpm - Flow in GPM
+ * @returns Required PDP in PSI
+ */
+export function lineRequiredPressure(line: NetworkLine, flowGpm: number): number {
+  if (line.relayLoad) {
+    return valveLossPsi(line.config.hose.diameterIn, line.valvePct, flowGpm) + line.relayLoad.lossPsi;
+  }
+  return runRequiredPressure(lineRun(line), flowGpm);
+}
+
+/**
+ * Pump discharge pressure a line needs to flow its rated nozzle flow
+ *
+ * Valve losses are left out: gating lines below the highest requirement
+ * is the operator's job, so this is the governor's target for the line.
+ *
+ * @param line - Network line
+ * @returns Required PDP in PSI
+ */
+export function ratedRequiredPressure(line: NetworkLine): number {
+  const { config } = line;
+
+  if (line.relayLoad) {
+    return line.relayLoad.residualPsi + line.relayLoad.lossPsi;
+  }
+
+  if (config.branches && config.branches.length > 0) {
+    const open = config.branches.filter(branch => branch.gatePct > 0);
+    if (open.length === 0) return 0;
+    const totalGpm = open.reduce((sum, branch) => sum + ratedNozzleFlow(branch.nozzle), 0);
+    const wyePsi = Math.max(...open.map(branch =>
+      runRequiredPressure({ ...branchRun(line, branch), valve: undefined }, ratedNozzleFlow(branch.nozzle))
+    ));
+    return wyePsi + layoutFrictionLossPsi(config, totalGpm) + layoutApplianceLossPsi(config);
+  }
+
+  const ratedGpm = ratedNozzleFlow(config.nozzle);
+
+  if (line.siameseInlets) {
+    const legs = [line, ...line.siameseInlets].filter(leg => leg.valvePct > 0);
+    if (legs.length === 0) return 0;
+    // Rated flow splits evenly across the open inlet lays
+    const legGpm = ratedGpm / legs.length;
+    const legPsi = Math.max(...legs.map(leg => layoutFrictionLossPsi(leg.config, legGpm)));
+    return legPsi + runRequiredPressure(siameseOutletRun(line), ratedGpm);
+  }
+
+  return runRequiredPressure({ ...lineRun(line), valve: undefined }, ratedGpm);
+}
+
+/**
+ * Solve a wyed line: find the wye pressure where the branches' combined
+ * flow, pushed back through the lay, needs exactly the pump pressure
+ */
+function solveWyedLine(line: NetworkLine, branches: LineBranch[], pdp: number): LineSolution {
+  const runs = branches.map(branch => branchRun(line, branch));
+  const flowAtWye = (wyePsi: number) => runs.reduce((sum, run) => sum + solveRunFlow(run, wyePsi), 0);
+  const pumpPsiFor = (wyePsi: number) => {
+    const flow = flowAtWye(wyePsi);
+    return wyePsi + layLossPsi(line, flow) + (flow > 0 ? layoutApplianceLossPsi(line.config) : 0);
+  };
+
+  // Below the lowest branch's elevation head nothing flows
+  const lowestWyePsi = Math.min(0, ...runs.map(run => ELEVATION_PSI_PER_FT * run.elevationFt));
+  const flowing = line.valvePct > 0 && pdp > lowestWyePsi;
+  const wyePsi = flowing ? bisect(pumpPsiFor, pdp, lowestWyePsi, pdp, PRESSURE_TOLERANCE_PSI) : 0;
+
+  const branchSolutions: BranchSolution[] = runs.map((run, i) => {
+    const flowGpm = flowing ? solveRunFlow(run, wyePsi) : 0;
+    const losses = runLosses(run, flowGpm);
+    return {
+      id: branches[i].id,
+      flowGpm,
+      valveLossPsi: losses.valveLossPsi,
+      frictionLossPsi: losses.frictionLossPsi,
+      elevationPsi: losses.elevationPsi,
+      nozzlePressurePsi: losses.nozzlePressurePsi,
+    };
+  });
+  const flowGpm = branchSolutions.reduce((sum, branch) => sum + branch.flowGpm, 0);
+
+  return {
+    id: line.id,
+    flowGpm,
+    valveLossPsi: valveLossPsi(line.config.hose.diameterIn, line.valvePct, flowGpm),
+    frictionLossPsi: layoutFrictionLossPsi(line.config, flowGpm),
+    applianceLossPsi: flowGpm > 0 ? layoutApplianceLossPsi(line.config) : 0,
+    elevationPsi: 0,
+    nozzlePressurePsi: Math.max(0, wyePsi),
+    branches: branchSolutions,
+  };
+}
+
+/**
+ * Solve a siamesed line: find the siamese pressure where the flow the
+ * inlet lays deliver equals the flow the shared nozzle takes
+ *
+ * @returns Solutions for this line followed by each siamese inlet
+ */
+function solveSiamesedLine(line: NetworkLine, inlets: NetworkLine[], pdp: number): LineSolution[] {
+  const legs = [line, ...inlets];
+  const outlet = siameseOutletRun(line);
+  const legFlows = (siamesePsi: number) => legs.map(leg => solveLayFlow(leg, pdp - siamesePsi));
+  const imbalance = (siamesePsi: number) =>
+    solveRunFlow(outlet, siamesePsi) - legFlows(siamesePsi).reduce((sum, flow) => sum + flow, 0);
+
+  const siamesePsi = bisect(imbalance, 0, 0, Math.max(0, pdp), PRESSURE_TOLERANCE_PSI);
+  const flows = legFlows(siamesePsi);
+  const totalGpm = flows.reduce((sum, flow) => sum + flow, 0);
+  const outletLosses = runLosses(outlet, totalGpm);
+
+  return legs.map((leg, i) => {
+    const isLead = i === 0;
+    const flowGpm = flows[i];
+    const legFriction = layoutFrictionLossPsi(leg.config, flowGpm);
+    return {
+      id: leg.id,
+      flowGpm,
+      valveLossPsi: valveLossPsi(leg.config.hose.diameterIn, leg.valvePct, flowGpm),
+      // The lead line carries the shared outlet hose, appliance and nozzle
+      frictionLossPsi: isLead ? legFriction + outletLosses.frictionLossPsi : legFriction,
+      applianceLossPsi: isLead ? outletLosses.applianceLossPsi : 0,
+      elevationPsi: isLead ? outletLosses.elevationPsi : 0,
+      nozzlePressurePsi: isLead ? outletLosses.nozzlePressurePsi : siamesePsi,
+    };
+  });
+}
+
+/**
+ * Solve a line, and any siamese inlets it carries, at a given pump pressure
+ */
+function solveLineGroup(line: NetworkLine, pdp: number): LineSolution[] {
+  if (line.relayLoad) {
+    const flowGpm = line.valvePct > 0 ? line.relayLoad.demandGpm : 0;
+    const valveLoss = valveLossPsi(line.config.hose.diameterIn, line.valvePct, flowGpm);
+    return [{
+      id: line.id,
+      flowGpm,
+      valveLossPsi: valveLoss,
+      frictionLossPsi: line.relayLoad.lossPsi,
+      applianceLossPsi: 0,
+      elevationPsi: 0,
+      nozzlePressurePsi: Math.max(0, pdp - valveLoss - line.relayLoad.lossPsi),
+    }];
+  }
+
+  const { branches } = line.config;
+  if (branches && branches.length > 0) {
+    return [solveWyedLine(line, branches, pdp)];
+  }
+
+  if (line.siameseInlets) {
+    return solveSiamesedLine(line, line.siameseInlets, pdp);
+  }
+
+  const run = lineRun(line);
+  const flowGpm = solveRunFlow(run, pdp);
+  return [{ id: line.id, flowGpm, ...runLosses(run, flowGpm) }];
+}
+
+/**
+ * Solve the flow a line takes at a given pump discharge pressure
+ *
+ * Required pressure rises monotonically with flow, so the operating point
+ * is found by bisection. Relay supply lines carry the downstream demand;
+ * wyed lines report their branches.
+ *
+ * @param line - Network line
+ * @param pdp - Pump discharge pressure in PSI
+ * @returns Line operating point
+ */
+export function solveLineFlow(line: NetworkLine, pdp: number): LineSolution {
+  return solveLineGroup(line, pdp)[0];
+}
+
+/**
+ * Solve every line at a fixed pump discharge pressure
+ * Siamese inlets are reported as lines of their own after the line they feed
+ */
+export function solveLinesAtPressure(lines: NetworkLine[], pdp: number): NetworkSolution {
+  const solved = lines.flatMap(line => solveLineGroup(line, pdp));
+  return {
+    pdp,
+    totalFlowGpm: solved.reduce((sum, line) => sum + line.flowGpm, 0),
+    lines: solved,
+  };
+}
+
+/**
+ * Balance the pump against the network
+ *
+ * Finds the PDP where the pump curve, evaluated at the total flow the
+ * lines take, equals that PDP. Line demand rises with pressure while the
+ * pump curve falls with flow, so there is a single crossing.
+ *
+ * @param lines - Open discharge lines
+ * @param pumpPressureAt - Pump discharge pressure available at a total flow
+ * @returns Balanced network operating point
+ */
+export function solveNetwork(
+  lines: NetworkLine[],
+  pumpPressureAt: (totalFlowGpm: number) => number
+): NetworkSolution {
+  const shutoffPdp = Math.max(0, pumpPressureAt(0));
+  if (lines.length === 0) {
+    return { pdp: shutoffPdp, totalFlowGpm: 0, lines: [] };
+  }
+
+  const pdp = bisect(
+    candidate => candidate - pumpPressureAt(solveLinesAtPressure(lines, candidate).totalFlowGpm),
+    0,
+    0,
+    shutoffPdp,
+    PRESSURE_TOLERANCE_PSI
+  );
+  return solveLinesAtPressure(lines, pdp);
+}
@@ -3,8 +3,15 @@
  * Defines default discharge line configurations and initial pump state
  */
 
-import type { DischargeId, IntakeId, LineConfig, PumpState } from './model';
+import type { ApparatusProfile, DischargeId, IntakeId, LineConfig, PumpState } from './model';
 import { HOSE_C } from '../hydraulics/standards';
+import { createGovernor } from './governor';
+import { PIERCE_PUC_PUMP } from './pump-curves';
+import { createWaterHammerState } from './water-hammer';
+import { createEngineState } from './engine-dynamics';
+import { createDraftSite } from './drafting';
+import { createHydrantSupply } from './hydrant';
+import { createIntakes } from './intakes';
 
 /**
  * Default discharge line configurations for Pierce PUC apparatus
@@ -153,22 +160,39 @@ export const defaultLines: Record<DischargeId, LineConfig> = {
 };
 
 /**
- * Create initial pump state with default configurations
+ * Pierce PUC 1500 GPM pumper: 500 gal tank, 30 gal foam cell, DRV at 275 PSI
+ */
+export const PIERCE_PUC_PROFILE: ApparatusProfile = {
+  id: 'pierce-puc-1500',
+  name: 'Pierce PUC 1500 GPM Pumper',
+  pump: PIERCE_PUC_PUMP,
+  tankGallons: 500,
+  foamTankGallons: 30,
+  drvSetpointPsi: 275, // 50 PSI above max operating pressure
+  intakes: ['ldh_driver', 'ldh_officer', 'rear_ldh'],
+  discharges: Object.values(defaultLines),
+};
+
+/**
+ * Create initial pump state for an apparatus
+ * Only the intakes and discharges the profile lists are fitted.
  * 
+ * @param profile - Apparatus to simulate (defaults to the Pierce PUC)
  * @returns Initial PumpState with all systems at safe starting values
  */
-export function createInitialPumpState(): PumpState {
-  const intakeIds: IntakeId[] = ['ldh_driver', 'ldh_officer', 'rear_ldh'];
-  const dischargeIds: DischargeId[] = [
-    'xlay1', 'xlay2', 'xlay3', 'trash',
-    'd2_5_a', 'd2_5_b', 'd2_5_c', 'd2_5_d',
-    'deck', 'rear_ldh'
-  ];
+export function createInitialPumpState(profile: ApparatusProfile = PIERCE_PUC_PROFILE): PumpState {
+  const lineConfigs = {} as Record<DischargeId, LineConfig>;
+  for (const line of profile.discharges) {
+    lineConfigs[line.id] = line;
+  }
+  const dischargeIds = Object.keys(lineConfigs) as DischargeId[];
   
   // Initialize all intake pressures to 0
   const intakePsi: Record<IntakeId, number> = {} as Record<IntakeId, number>;
-  for (const id of intakeIds) {
+  const intakeFlowGpm: Record<IntakeId, number> = {} as Record<IntakeId, number>;
+  for (const id of profile.intakes) {
     intakePsi[id] = 0;
+    intakeFlowGpm[id] = 0;
   }
   
   // Initialize all discharge valves to closed (0%)
@@ -178,19 +202,26 @@ export function createInitialPumpState(): PumpState {
   }
   
   return {
+    apparatusId: profile.id,
+    pump: profile.pump,
     throttle: 0,
     waterSource: 'tank',
+    draft: createDraftSite(profile.pump),
+    hydrant: createHydrantSupply(),
     intakePsi,
+    intakes: createIntakes(profile.intakes), // Capped until a supply is connected
+    intakeFlowGpm,
     dischargeValvePct,
-    lineConfigs: defaultLines,
+    lineConfigs,
     foam: {
       enabledLines: new Set<DischargeId>(),
       percent: 0.6, // 0.6% foam concentrate (Class A typical)
-      tankGallons: 30, // 30 gallons of concentrate
-      tankCapacityGallons: 30, // 30 gallon capacity
+      tankGallons: profile.foamTankGallons, // Foam cell starts full
+      tankCapacityGallons: profile.foamTankGallons,
       enabled: false, // Foam system OFF by default
     },
-    tankGallons: 500, // 500 gallon water tank (typical for Pierce pumper)
+    tankGallons: profile.tankGallons, // Booster tank starts full
+    tankCapacityGallons: profile.tankGallons,
     engineRpm: 800, // Idle RPM
     interlocks: {
       engaged: false, // Pump not engaged by default (MUST be OFF initially)
@@ -201,15 +232,18 @@ export function createInitialPumpState(): PumpState {
       rpm: 0, // Engine off initially (not engaged)
       governor: 'PRESSURE', // Default to PRESSURE mode
     },
+    engine: createEngineState(), // Engine at rest
+    governorState: createGovernor(), // PRESSURE mode, PID at rest
     drv: {
       enabled: true, // DRV enabled by default for safety
-      setpointPsi: 275, // 275 PSI relief setpoint (50 PSI above max operating pressure)
+      setpointPsi: profile.drvSetpointPsi,
       bypassGpm: 0, // No bypass flow initially
     },
     dischargePsi: 0, // No discharge pressure initially
     intakePressurePsi: 0, // No intake pressure initially
     intakeVacuumInHg: 0, // No vacuum initially
     totalFlowGpm: 0, // No flow initially
+    elevationFt: 0, // Nozzles level with the pump
     
     // NEW: Tank and cooling controls
     tankToPumpOpen: false, // Closed for startup (must be opened manually)
@@ -217,7 +251,8 @@ export function createInitialPumpState(): PumpState {
     
     // NEW: Priming system
     primerActive: false, // Not priming
-    primerTimeRemaining: 0, // No active prime cycle
+    primerTimeRemaining: 45, // Primer motor cool: its full duty limit
+    primingVacuumPsi: 0, // Pump full of air or water, not part-primed
     
     // NEW: Temperature monitoring (Phase 2.4)
     pumpTempF: 70, // Ambient temperature start (70°F)
@@ -231,6 +266,13 @@ export function createInitialPumpState(): PumpState {
     
     // NEW: Overpressure tracking (Phase 2.3)
     overpressureDurationSec: 0, // No overpressure initially
-    burstLines: new Set<DischargeId>(), // No burst lines initially
+    waterHammer: createWaterHammerState(dischargeValvePct), // Nothing flowing, no surge
+    
+    // Instructor faults
+    activeFaults: [], // No injected faults
+    
+    // Relay pumping
+    relayLoads: {}, // Not supplying another pumper
+    relayIntake: null, // Not supplied by another pumper
   };
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+/**
+ * Tests for the primer: air evacuation, motor duty and loss of prime
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PRIMER_DUTY_SEC,
+  PRIMER_OVERHEAT_WARNING,
+  PRIMER_RESTART_SEC,
+  primerVacuumLimitPsi,
+  primingVacuumNeededPsi,
+} from './priming';
+import { reducer } from './actions';
+import type { Action } from './actions';
+import { simulateStep } from './engine';
+import { createInitialPumpState } from './pierce-puc';
+import type { DraftSite, PumpState } from './model';
+import { applyActions, runFor } from './test-helpers';
+
+/** Engaged pump at draft with the primer running */
+function priming(site: Partial<DraftSite> = {}, ...actions: Action[]): PumpState {
+  return applyActions(
+    createInitialPumpState(),
+    { type: 'PUMP_ENGAGE', engaged: true },
+    { type: 'WATER_SOURCE', source: 'draft' },
+    { type: 'DRAFT_SITE_SET', site },
+    ...actions,
+    { type: 'PRIMER_ACTIVATE' }
+  );
+}
+
+/** Seconds until the pump primes, or null if the primer stops first */
+function timeToPrime(state: PumpState): number | null {
+  for (let t = 0; t < 60; t += 0.1) {
+    if (state.interlocks.primed) return t;
+    if (!state.primerActive) return null;
+    state = simulateStep(state, 0.1).state;
+  }
+  return null;
+}
+
+describe('priming', () => {
+  it('primes a 10 ft lift through 20 ft of hard suction in about 10 s and stops the primer', () => {
+    const seconds = timeToPrime(priming())!;
+    expect(seconds).toBeGreaterThan(7);
+    expect(seconds).toBeLessThan(13);
+
+    const primed = runFor(priming(), 12);
+    expect(primed.interlocks.primed).toBe(true);
+    expect(primed.primerActive).toBe(false);
+  });
+
+  it('builds vacuum on the compound gauge while the primer runs', () => {
+    const partway = runFor(priming(), 4);
+    expect(partway.interlocks.primed).toBe(false);
+    expect(partway.intakeVacuumInHg).toBeGreaterThan(3);
+    expect(partway.primingVacuumPsi).toBeLessThan(primingVacuumNeededPsi(partway));
+  });
+
+  it('takes longer for a higher lift, a longer hard suction and thinner air', () => {
+    const base = timeToPrime(priming())!;
+    expect(timeToPrime(priming({ liftFt: 20 }))!).toBeGreaterThan(base + 10);
+    expect(timeToPrime(priming({ hardSuctionLengthFt: 50 }))!).toBeGreaterThan(base + 5);
+    expect(timeToPrime(priming({ altitudeFt: 5000 }))!).toBeGreaterThan(base);
+  });
+
+  it('primes slowly against a small air leak and not at all past what the primer can hold', () => {
+    const leak = { type: 'FAULT_START', fault: { kind: 'intake_air_leak', severityPct: 40 } } as const;
+    expect(timeToPrime(priming({}, leak))!).toBeGreaterThan(timeToPrime(priming())!);
+
+    const state = priming({ liftFt: 15 }, leak);
+    expect(primerVacuumLimitPsi(state)).toBeLessThan(primingVacuumNeededPsi(state));
+    expect(timeToPrime(state)).toBeNull();
+  });
+});
+
+describe('primer motor duty', () => {
+  it('trips an overheated primer and refuses to restart until it cools', () => {
+    const tripped = runFor(priming({ liftFt: 28 }), PRIMER_DUTY_SEC + 0.5);
+    expect(tripped.primerActive).toBe(false);
+    expect(tripped.interlocks.primed).toBe(false);
+    expect(tripped.warnings.has(PRIMER_OVERHEAT_WARNING)).toBe(true);
+    expect(reducer(tripped, { type: 'PRIMER_ACTIVATE' })).toBe(tripped);
+
+    const cooled = runFor(tripped, PRIMER_RESTART_SEC * 2 + 1);
+    expect(cooled.warnings.has(PRIMER_OVERHEAT_WARNING)).toBe(false);
+    expect(reducer(cooled, { type: 'PRIMER_ACTIVATE' }).primerActive).toBe(true);
+  });
+
+  it('leaves duty for another prime after a normal one', () => {
+    const primed = runFor(priming(), 12);
+    expect(primed.primerTimeRemaining).toBeGreaterThan(PRIMER_RESTART_SEC);
+    expect(primed.warnings.has(PRIMER_OVERHEAT_WARNING)).toBe(false);
+  });
+});
+
+describe('loss of prime', () => {
+  /** Primed at idle in RPM mode, then a crosslay opened */
+  function primedAndFlowing(): PumpState {
+    const state = runFor(priming({}, { type: 'GOVERNOR_MODE', mode: 'RPM' }), 12);
+    return reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 });
+  }
+  const rpmMode = (throttle: number) => (state: PumpState): PumpState =>
+    ({ ...state, throttle, runtime: { ...state.runtime, governor: 'RPM' } });
+
+  it('holds prime when the throttle comes up steadily', () => {
+    const state = runFor(primedAndFlowing(), 8, (s, i) => rpmMode(Math.min(60, i))(s));
+    expect(state.interlocks.primed).toBe(true);
+    expect(state.totalFlowGpm).toBeGreaterThan(100);
+  });
+
+  it('holds the pressure governor at idle until primed, then keeps the prime', () => {
+    let state = priming({}, { type: 'GOVERNOR_MODE', mode: 'PRESSURE' }, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 });
+    const idleRpm = state.pump.governor.idleRpm;
+    state = runFor(state, 5);
+    expect(state.interlocks.primed).toBe(false);
+    expect(state.runtime.rpm).toBe(idleRpm);
+    expect(state.governorState.pidState.integral).toBe(0);
+
+    state = runFor(state, 15);
+    expect(state.interlocks.primed).toBe(true);
+    expect(state.runtime.governor).toBe('PRESSURE');
+    expect(state.runtime.rpm).toBeGreaterThan(idleRpm + 500);
+    expect(state.totalFlowGpm).toBeGreaterThan(100);
+  });
+
+  it('loses prime when the throttle is slammed open on a flowing draft', () => {
+    const state = runFor(primedAndFlowing(), 3, rpmMode(100));
+    expect(state.interlocks.primed).toBe(false);
+    expect(state.totalFlowGpm).toBe(0);
+    expect(state.warnings.has('Prime pump to flow from draft')).toBe(true);
+  });
+});
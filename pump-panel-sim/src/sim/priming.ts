@@ -0,0 +1,174 @@
+/**
+ * Priming
+ * The primer is a small positive displacement pump that draws the air out
+ * of the pump casing and hard suction. As the pressure inside falls, the
+ * atmosphere pushes water up the hard suction; once the vacuum can hold the
+ * water at the pump's height, the pump is primed. A bigger air space (longer
+ * or larger hard suction), a higher lift and intake air leaks all slow it or
+ * stop it. The primer motor may only run for so long before it overheats
+ * and trips, and needs a rest before it will run again. A primed draft is
+ * lost again to a bad air leak, or when the operator throttles up faster
+ * than the water in the hard suction can follow.
+ */
+
+import type { PumpState } from './model';
+import { atmosphericPsi } from './drafting';
+import { canPrime, findFaults, hasFault, losesPrime, PRIMER_FAILURE_VACUUM_FRACTION } from './faults';
+import { ELEVATION_PSI_PER_FT } from './network-solver';
+
+/** Air the primer displaces with no vacuum, in cubic feet per minute */
+export const PRIMER_CAPACITY_CFM = 15;
+
+/** Deepest vacuum the primer can pull at sea level in inHg */
+export const PRIMER_MAX_VACUUM_INHG = 25;
+
+/** Seconds the primer motor can run from cold before it overheats */
+export const PRIMER_DUTY_SEC = 45;
+
+/** Run time the motor must have back before the primer will start again */
+export const PRIMER_RESTART_SEC = 15;
+
+/** Seconds of run time the motor gets back per second of rest */
+export const PRIMER_COOLING_RATE = 0.5;
+
+/** Air in the pump casing and intake piping in cubic feet */
+export const PUMP_CASING_AIR_FT3 = 1.5;
+
+/** Air drawn past packing and closed valves on a sound pump, in CFM at full vacuum */
+export const SEAL_LEAK_CFM = 0.3;
+
+/** Air drawn in by a 100% intake air leak, in CFM at full vacuum */
+export const AIR_LEAK_MAX_CFM = 40;
+
+/** Engine acceleration on a flowing draft past which the water column breaks and prime is lost */
+export const PRIME_LOSS_RPM_PER_SEC = 800;
+
+/** Warning raised while the primer motor is too hot to run */
+export const PRIMER_OVERHEAT_WARNING = 'PRIMER OVERHEATED: Release and let the motor cool';
+
+/** PSI per inHg */
+const PSI_PER_INHG = 1 / 2.036;
+
+/**
+ * Primer state after one step
+ */
+export interface PrimingStep {
+  primed: boolean;
+  primerActive: boolean;
+  /** Seconds the primer can still run before it overheats */
+  primerTimeRemaining: number;
+  /** Vacuum held in the pump and hard suction in PSI */
+  primingVacuumPsi: number;
+}
+
+/**
+ * Air to evacuate: the pump casing and the hard suction in cubic feet
+ */
+export function primingAirVolumeFt3(state: PumpState): number {
+  const { hardSuctionDiameterIn, hardSuctionLengthFt } = state.draft;
+  return PUMP_CASING_AIR_FT3 + Math.PI * (hardSuctionDiameterIn / 12 / 2) ** 2 * hardSuctionLengthFt;
+}
+
+/**
+ * Air leaking into the pump at full vacuum in CFM
+ */
+export function airLeakCfm(state: PumpState): number {
+  const severityPct = Math.max(0, ...findFaults(state, 'intake_air_leak').map(fault => fault.spec.severityPct));
+  return SEAL_LEAK_CFM + (severityPct / 100) * AIR_LEAK_MAX_CFM;
+}
+
+/**
+ * Vacuum needed to lift water to the pump in PSI
+ */
+export function primingVacuumNeededPsi(state: PumpState): number {
+  return state.draft.liftFt * ELEVATION_PSI_PER_FT;
+}
+
+/**
+ * Deepest vacuum the primer can hold against the leaks, in PSI
+ * A failed primer pulls only part of its normal vacuum.
+ */
+export function primerVacuumLimitPsi(state: PumpState): number {
+  const atmosphere = atmosphericPsi(state.draft.altitudeFt);
+  const leakCfm = airLeakCfm(state);
+  const floorPsia = primerFloorPsia(state, atmosphere);
+  const steadyPsia = (PRIMER_CAPACITY_CFM * floorPsia + leakCfm * atmosphere) / (PRIMER_CAPACITY_CFM + leakCfm);
+  return atmosphere - steadyPsia;
+}
+
+/**
+ * Lowest absolute pressure the primer can pull in PSIA
+ * The primer compresses by a fixed ratio, so it pulls less vacuum in thin air.
+ */
+function primerFloorPsia(state: PumpState, atmosphere: number): number {
+  const maxVacuumPsi = PRIMER_MAX_VACUUM_INHG * PSI_PER_INHG * (atmosphere / atmosphericPsi(0));
+  const fraction = hasFault(state, 'primer_failure') ? PRIMER_FAILURE_VACUUM_FRACTION : 1;
+  return atmosphere - maxVacuumPsi * fraction;
+}
+
+/**
+ * Advance the primer, the vacuum it has pulled and the prime by one step
+ *
+ * The primer removes air in proportion to how far the pressure inside is
+ * above the lowest it can pull; leaks let air back in in proportion to the
+ * vacuum. The pump primes, and the primer stops, when the vacuum reaches
+ * the lift.
+ *
+ * @param state - Pump state at the start of the step
+ * @param rpmRisePerSec - Engine acceleration over the step
+ * @param dt - Time step in seconds
+ * @returns Primer state after the step
+ */
+export function stepPriming(state: PumpState, rpmRisePerSec: number, dt: number): PrimingStep {
+  let primed = state.interlocks.primed;
+  let primerActive = state.primerActive;
+  let primerTimeRemaining = state.primerTimeRemaining;
+  let vacuumPsi = state.primingVacuumPsi;
+  const drafting = state.waterSource === 'draft';
+
+  // Air back in the pump: a bad leak, or the water column torn by a throttle slam
+  if (primed && drafting && (losesPrime(state) || (rpmRisePerSec > PRIME_LOSS_RPM_PER_SEC && state.totalFlowGpm > 0))) {
+    primed = false;
+    vacuumPsi = 0;
+  }
+
+  const atmosphere = atmosphericPsi(state.draft.altitudeFt);
+  const volumeFt3 = primingAirVolumeFt3(state);
+  const leakCfm = airLeakCfm(state);
+  const insidePsia = atmosphere - vacuumPsi;
+  let dPsiPerSec = (leakCfm / 60) * vacuumPsi / volumeFt3;
+
+  if (primerActive) {
+    dPsiPerSec -= (PRIMER_CAPACITY_CFM / 60) * Math.max(0, insidePsia - primerFloorPsia(state, atmosphere)) / volumeFt3;
+    primerTimeRemaining = Math.max(0, primerTimeRemaining - dt);
+  } else {
+    primerTimeRemaining = Math.min(PRIMER_DUTY_SEC, primerTimeRemaining + PRIMER_COOLING_RATE * dt);
+  }
+  vacuumPsi = primed ? 0 : Math.max(0, Math.min(atmosphere, vacuumPsi - dPsiPerSec * dt));
+
+  if (primerActive && drafting && !primed && canPrime(state) && vacuumPsi >= primingVacuumNeededPsi(state)) {
+    // Water at the pump: it's primed and the primer can stop
+    primed = true;
+    primerActive = false;
+    vacuumPsi = 0;
+  } else if (primerActive && primerTimeRemaining === 0) {
+    // The motor's thermal cutout trips
+    primerActive = false;
+  }
+
+  return { primed, primerActive, primerTimeRemaining, primingVacuumPsi: vacuumPsi };
+}
+
+/**
+ * Whether the primer motor is too hot to start
+ */
+export function primerOverheated(state: PumpState): boolean {
+  return state.primerTimeRemaining < PRIMER_RESTART_SEC;
+}
+
+/**
+ * Warnings for the primer
+ */
+export function getPrimerWarnings(state: PumpState): string[] {
+  return !state.primerActive && primerOverheated(state) ? [PRIMER_OVERHEAT_WARNING] : [];
+}
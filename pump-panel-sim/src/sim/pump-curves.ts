@@ -9,7 +9,7 @@
  * 50% capacity: 750 GPM @ 250 PSI
  */
 
-import type { SimState } from './state';
+import type { PumpSpec, PumpState } from './model';
 
 export interface PumpCapacity {
   flowGpm: number;
@@ -30,27 +30,27 @@ export const PRESSURE_LIMITS = {
  * Pierce PUC: Detect cavitation conditions
  * Cavitation occurs when pump cannot get adequate intake water
  * 
- * @param state Current simulation state
+ * @param state Current pump state
  * @returns True if cavitation is detected
  */
-export function detectCavitation(state: SimState): boolean {
-  const primaryIntake = Object.values(state.intakes)[0];
-  const source = primaryIntake?.source || 'hydrant';
+export function detectCavitation(state: PumpState): boolean {
+  const source = state.waterSource;
+  const engaged = state.interlocks.engaged;
   
   // Cavitation condition 1: High vacuum when drafting
-  const highVacuum = source === 'draft' && 
-                     Math.abs(state.pump.intakePsi) * 2.036 > 20;
+  const highVacuum = source === 'draft' && state.intakeVacuumInHg > 20;
   
   // Cavitation condition 2: Inadequate intake pressure (pressurized sources)
   const inadequateIntake = source !== 'draft' && 
-                           state.pump.intakePsi < 10 && 
-                           state.pump.engaged;
+                           state.intakePressurePsi < 10 && 
+                           engaged;
   
   // Cavitation condition 3: Flow drop despite throttle (simplified detection)
   // This would require tracking expected vs actual flow
-  const flowDrop = state.pump.engaged && 
-                   state.pump.pdp > 0 && 
-                   state.pump.intakePsi < 5;
+  const flowDrop = source !== 'draft' &&
+                   engaged && 
+                   state.dischargePsi > 0 && 
+                   state.intakePressurePsi < 5;
   
   return highVacuum || inadequateIntake || flowDrop;
 }
@@ -99,88 +99,101 @@ export function applyPressureLimits(discharge: number): {
    { flowGpm: 1875, pressurePsi: 125, percentCapacity: 125 }, // 125% capacity
    { flowGpm: 2250, pressurePsi: 95, percentCapacity: 150 },  // 150% capacity (runout)
  ];
+
 /**
- /**
-  * Calculate maximum achievable pressure at a given flow rate
-  * Uses NFPA pump curve interpolation with runout protection
-  *
-  * @param flowGpm Current total discharge flow
-  * @param rpm Current pump RPM (affects curve scaling)
-  * @param intakePsi Intake pressure (positive helps, negative hurts)
-  * @returns Maximum PDP achievable in PSI
-  */
- export function calculateMaxPDP(
-   flowGpm: number,
-   rpm: number,
-   intakePsi: number
- ): number {
-  // Normalize RPM to rated speed (2200 RPM for this pump)
-  const ratedRpm = 2200;
-  const rpmFactor = rpm / ratedRpm;
-  
+ * Pierce PUC pump: 1500 GPM rated at 2200 RPM, governed 700-2200 RPM
+ * Default pump for curve lookups when no apparatus profile is given
+ */
+export const PIERCE_PUC_PUMP: PumpSpec = {
+  ratedGpm: 1500,
+  ratedRpm: 2200,
+  curve: NFPA_PUMP_CURVE,
+  governor: { idleRpm: 700, maxRpm: 2200 },
+};
+
+/**
+ * Interpolate pump pressure at rated RPM from a performance curve
+ * Flows below churn or beyond runout use the end points
+ *
+ * @param curve Curve points ordered by flow
+ * @param flowGpm Total discharge flow
+ * @returns Pump pressure at rated RPM in PSI
+ */
+function curvePressureAt(curve: PumpCapacity[], flowGpm: number): number {
+  const firstPoint = curve[0];
+  const lastPoint = curve[curve.length - 1];
+
+  if (flowGpm >= lastPoint.flowGpm) return lastPoint.pressurePsi;
+  if (flowGpm <= firstPoint.flowGpm) return firstPoint.pressurePsi;
+
+  for (let i = 0; i < curve.length - 1; i++) {
+    const p1 = curve[i];
+    const p2 = curve[i + 1];
+
+    if (flowGpm >= p1.flowGpm && flowGpm <= p2.flowGpm) {
+      // Linear interpolation
+      const flowRange = p2.flowGpm - p1.flowGpm;
+      const pressureRange = p2.pressurePsi - p1.pressurePsi;
+      return p1.pressurePsi + ((flowGpm - p1.flowGpm) / flowRange) * pressureRange;
+    }
+  }
+  return lastPoint.pressurePsi;
+}
+
+/**
+ * Calculate maximum achievable pressure at a given flow rate
+ * Uses the pump's curve interpolation with runout protection
+ *
+ * @param flowGpm Current total discharge flow
+ * @param rpm Current pump RPM (affects curve scaling)
+ * @param intakePsi Intake pressure (positive helps, negative hurts)
+ * @param pump Pump rating and curve (defaults to the Pierce PUC)
+ * @returns Maximum PDP achievable in PSI
+ */
+export function calculateMaxPDP(
+  flowGpm: number,
+  rpm: number,
+  intakePsi: number,
+  pump: PumpSpec = PIERCE_PUC_PUMP
+): number {
+  // Normalize RPM to the speed the curve was rated at
+  const rpmFactor = rpm / pump.ratedRpm;
+
   // Use actual flow for curve lookup (affinity law: flow ∝ RPM, not flow/RPM)
-  const effectiveFlow = flowGpm;
-  
-  // Find appropriate curve segment for interpolation
-  let maxPressure = 0;
-   const lastPoint = NFPA_PUMP_CURVE[NFPA_PUMP_CURVE.length - 1];
-   const firstPoint = NFPA_PUMP_CURVE[0];
-   
-   if (effectiveFlow >= lastPoint.flowGpm) {
-     // At or beyond runout (150% capacity) - use runout point
-     maxPressure = lastPoint.pressurePsi;
-   } else if (effectiveFlow <= firstPoint.flowGpm) {
-     // At or below churn (0 GPM) - use churn point
-     maxPressure = firstPoint.pressurePsi;
-   } else {
-     // Interpolate between curve points
-     for (let i = 0; i < NFPA_PUMP_CURVE.length - 1; i++) {
-       const p1 = NFPA_PUMP_CURVE[i];
-       const p2 = NFPA_PUMP_CURVE[i + 1];
-       
-       if (effectiveFlow >= p1.flowGpm && effectiveFlow <= p2.flowGpm) {
-         // Linear interpolation
-         const flowRange = p2.flowGpm - p1.flowGpm;
-         const pressureRange = p2.pressurePsi - p1.pressurePsi;
-         const flowOffset = effectiveFlow - p1.flowGpm;
-         
-         maxPressure = p1.pressurePsi + (flowOffset / flowRange) * pressureRange;
-         break;
-       }
-     }
-   }
-   
-   // Scale pressure by RPM factor (centrifugal pump law: P ∝ RPM²)
-   const rpmPressureFactor = Math.pow(rpmFactor, 2);
-   maxPressure *= rpmPressureFactor;
-   
-   // Intake pressure boost/penalty
-   // Positive intake (hydrant/tank) adds to achievable pressure
-   // Negative intake (vacuum) reduces achievable pressure
-   maxPressure += intakePsi;
-   
-   return Math.max(0, maxPressure);
- }
- 
- /**
-  * Check if pump is operating in runout condition
-  * Runout occurs at or above 150% rated capacity (2250 GPM for 1500 GPM pump)
-  *
-  * @param flowGpm Current total discharge flow
-  * @returns Warning message if in runout, null otherwise
-  */
- export function checkRunoutCondition(flowGpm: number): string | null {
-   const ratedCapacity = 1500; // GPM
-   const maxRecommendedFlow = ratedCapacity * 1.5; // 2250 GPM (150%)
-   
-   if (flowGpm >= maxRecommendedFlow) {
-     return `⚠️ RUNOUT: Flow ${Math.round(flowGpm)} GPM exceeds max ${maxRecommendedFlow} GPM`;
-   } else if (flowGpm > ratedCapacity * 1.25) {
-     return `High flow: ${Math.round(flowGpm)} GPM (${Math.round((flowGpm/ratedCapacity)*100)}% capacity)`;
-   }
-   
-   return null;
- }
+  let maxPressure = curvePressureAt(pump.curve, flowGpm);
+
+  // Scale pressure by RPM factor (centrifugal pump law: P ∝ RPM²)
+  maxPressure *= Math.pow(rpmFactor, 2);
+
+  // Intake pressure boost/penalty
+  // Positive intake (hydrant/tank) adds to achievable pressure
+  // Negative intake (vacuum) reduces achievable pressure
+  maxPressure += intakePsi;
+
+  return Math.max(0, maxPressure);
+}
+
+/**
+ * Check if pump is operating in runout condition
+ * Runout occurs at or above 150% rated capacity
+ *
+ * @param flowGpm Current total discharge flow
+ * @param pump Pump rating (defaults to the Pierce PUC)
+ * @returns Warning message if in runout, null otherwise
+ */
+export function checkRunoutCondition(flowGpm: number, pump: PumpSpec = PIERCE_PUC_PUMP): string | null {
+  const ratedCapacity = pump.ratedGpm;
+  const maxRecommendedFlow = ratedCapacity * 1.5; // 150% of rated
+
+  if (flowGpm >= maxRecommendedFlow) {
+    return `⚠️ RUNOUT: Flow ${Math.round(flowGpm)} GPM exceeds max ${maxRecommendedFlow} GPM`;
+  } else if (flowGpm > ratedCapacity * 1.25) {
+    return `High flow: ${Math.round(flowGpm)} GPM (${Math.round((flowGpm/ratedCapacity)*100)}% capacity)`;
+  }
+
+  return null;
+}
+
 /**
  * Calculate RPM needed to achieve target PDP at given flow
  * Inverse of calculateMaxPDP
@@ -188,48 +201,25 @@ export function applyPressureLimits(discharge: number): {
  * @param targetPDP Desired pump discharge pressure
  * @param flowGpm Current total discharge flow
  * @param intakePsi Intake pressure
+ * @param pump Pump rating and curve (defaults to the Pierce PUC)
  * @returns Required RPM to achieve target PDP
  */
 export function calculateRequiredRPM(
   targetPDP: number,
   flowGpm: number,
-  intakePsi: number
+  intakePsi: number,
+  pump: PumpSpec = PIERCE_PUC_PUMP
 ): number {
-  const ratedRpm = 2200;
-  
   // Remove intake pressure boost to get pressure needed from pump
   const pumpPressureNeeded = targetPDP - intakePsi;
-  
-  // Find base pressure at this flow from curve (at rated RPM)
-  let basePressure = 150; // Default to 100% point
-  const lastPoint = NFPA_PUMP_CURVE[NFPA_PUMP_CURVE.length - 1];
-  const firstPoint = NFPA_PUMP_CURVE[0];
-  
-  if (flowGpm >= lastPoint.flowGpm) {
-    basePressure = lastPoint.pressurePsi;
-  } else if (flowGpm <= firstPoint.flowGpm) {
-    basePressure = firstPoint.pressurePsi;
-  } else {
-    // Interpolate between curve points
-    for (let i = 0; i < NFPA_PUMP_CURVE.length - 1; i++) {
-      const p1 = NFPA_PUMP_CURVE[i];
-      const p2 = NFPA_PUMP_CURVE[i + 1];
-      
-      if (flowGpm >= p1.flowGpm && flowGpm <= p2.flowGpm) {
-        const flowRange = p2.flowGpm - p1.flowGpm;
-        const pressureRange = p2.pressurePsi - p1.pressurePsi;
-        const flowOffset = flowGpm - p1.flowGpm;
-        
-        basePressure = p1.pressurePsi + (flowOffset / flowRange) * pressureRange;
-        break;
-      }
-    }
-  }
-  
+
+  // Base pressure at this flow from curve (at rated RPM)
+  const basePressure = curvePressureAt(pump.curve, flowGpm);
+
   // Calculate required RPM factor (P ∝ RPM²)
   const rpmFactor = Math.sqrt(pumpPressureNeeded / basePressure);
-  const requiredRpm = ratedRpm * rpmFactor;
-  
+  const requiredRpm = pump.ratedRpm * rpmFactor;
+
   // Clamp to realistic range
   return Math.max(600, Math.min(3000, requiredRpm));
-}
\ No newline at end of file
+}
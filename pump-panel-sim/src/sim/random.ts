@@ -0,0 +1,27 @@
+/**
+ * Seeded random number generation for reproducible simulation runs
+ * Anything random in the simulator should draw from an Rng rather than Math.random()
+ */
+
+/**
+ * Random number source returning values in [0, 1)
+ */
+export type Rng = () => number;
+
+/**
+ * Create a deterministic random number generator (mulberry32)
+ * The same seed always produces the same sequence
+ *
+ * @param seed - Integer seed
+ * @returns Rng producing values in [0, 1)
+ */
+export function createSeededRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Tests for session recording and replay
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SessionRecorder, SessionReplay, describeAction, getActionTimeline } from './recording';
+import { createInitialSnapshot, simulationReducer } from './actions';
+import type { Action, SimulationSnapshot } from './actions';
+
+const tick: Action = { type: 'TICK', deltaTime: 0.1 };
+
+/** A short session: engage, throttle up, open the deck gun, then close it */
+function session(): Action[] {
+  return [
+    { type: 'PUMP_ENGAGE', engaged: true },
+    { type: 'TANK_TO_PUMP', open: true },
+    { type: 'SETPOINT', value: 60 },
+    ...Array<Action>(30).fill(tick),
+    { type: 'DISCHARGE_OPEN', id: 'deck', open: 1 },
+    ...Array<Action>(45).fill(tick),
+    { type: 'DISCHARGE_OPEN', id: 'deck', open: 0 },
+    ...Array<Action>(25).fill(tick),
+  ];
+}
+
+function record(actions: Action[], keyframeIntervalSec?: number) {
+  const recorder = new SessionRecorder(createInitialSnapshot(), keyframeIntervalSec);
+  let live: SimulationSnapshot = createInitialSnapshot();
+  for (const action of actions) {
+    recorder.record(action);
+    live = simulationReducer(live, action);
+  }
+  return { recording: recorder.getRecording(), live };
+}
+
+describe('SessionRecorder', () => {
+  it('collapses tick runs into a compact log', () => {
+    const { recording } = record(session());
+    expect(recording.entries.map(entry => entry.type === 'TICKS' ? entry.count : entry.action.type)).toEqual([
+      'PUMP_ENGAGE', 'TANK_TO_PUMP', 'SETPOINT', 30, 'DISCHARGE_OPEN', 45, 'DISCHARGE_OPEN', 25,
+    ]);
+    expect(recording.durationSec).toBeCloseTo(10);
+    expect(recording.keyframes.map(frame => frame.atSec)).toEqual([0, expect.closeTo(10)]);
+  });
+
+  it('stamps actions with the simulated time they were dispatched', () => {
+    const { recording } = record(session());
+    const timeline = getActionTimeline(recording);
+    expect(timeline.map(({ atSec }) => atSec)).toEqual([0, 0, 0, expect.closeTo(3), expect.closeTo(7.5)]);
+  });
+
+  it('starts a new tick run at each keyframe', () => {
+    const { recording } = record(Array<Action>(25).fill(tick), 1);
+    expect(recording.keyframes).toHaveLength(3);
+    for (const frame of recording.keyframes.slice(1)) {
+      const before = recording.entries.slice(0, frame.entryIndex);
+      const ticks = before.reduce((sum, entry) => sum + (entry.type === 'TICKS' ? entry.count : 0), 0);
+      expect(ticks * 0.1).toBeCloseTo(frame.atSec);
+    }
+  });
+});
+
+describe('SessionReplay', () => {
+  it('reproduces the live session', () => {
+    const { recording, live } = record(session());
+    const replay = new SessionReplay(recording);
+    replay.seek(recording.durationSec);
+    expect(replay.finished).toBe(true);
+    expect(replay.snapshot.state).toEqual(live.state);
+  });
+
+  it('shows an action at the moment it was taken', () => {
+    const replay = new SessionReplay(record(session()).recording);
+    replay.seek(3);
+    expect(replay.snapshot.state.dischargeValvePct.deck).toBe(100);
+    expect(replay.timeSec).toBeCloseTo(3);
+    replay.seek(2.9);
+    expect(replay.snapshot.state.dischargeValvePct.deck).toBe(0);
+  });
+
+  it('gives the same state however the position is reached', () => {
+    const { recording } = record(session(), 2);
+    const scrubbed = new SessionReplay(recording);
+    scrubbed.seek(9);
+    scrubbed.seek(4.5);
+    const played = new SessionReplay(record(session(), 100).recording);
+    for (let i = 0; i < 9; i++) played.advance(0.5);
+    expect(scrubbed.snapshot.state).toEqual(played.snapshot.state);
+    expect(played.timeSec).toBeCloseTo(4.5);
+  });
+
+  it('clamps seeks to the session', () => {
+    const replay = new SessionReplay(record(session()).recording);
+    replay.seek(60);
+    expect(replay.timeSec).toBeCloseTo(10);
+    replay.seek(-5);
+    expect(replay.timeSec).toBe(0);
+    expect(replay.snapshot.state.interlocks.engaged).toBe(true);
+  });
+});
+
+describe('describeAction', () => {
+  it('names discharges and values for the debrief timeline', () => {
+    expect(describeAction({ type: 'DISCHARGE_OPEN', id: 'deck', open: 1 })).toBe('Opened DECK GUN to 100%');
+    expect(describeAction({ type: 'SETPOINT', value: 62.4 })).toBe('Throttle to 62%');
+    expect(describeAction({ type: 'PRIMER_COMPLETE' })).toBe('PRIMER_COMPLETE');
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Session recording and replay
+ * Records every action dispatched during a session, with runs of simulation
+ * ticks collapsed and periodic snapshots for seeking, and replays the log
+ * through simulationReducer so instructors can debrief a crew step by step.
+ * The simulation is deterministic, so a replay reproduces the session exactly.
+ */
+
+import { simulationReducer } from './actions';
+import type { Action, SimulationSnapshot } from './actions';
+import { isIntakeId, normalizeDischargeId } from './ids';
+import { getDischargeLabel, getIntakeLabel } from './utils';
+
+/** Simulated seconds between keyframe snapshots */
+export const KEYFRAME_INTERVAL_SEC = 10;
+
+/** Replay speed multipliers offered to the instructor */
+export const REPLAY_SPEEDS = [1, 2, 4] as const;
+
+/** Tolerance when comparing summed tick times */
+const TIME_EPSILON_SEC = 1e-6;
+
+/**
+ * One entry in the session log
+ */
+export type RecordingEntry =
+  /** Control action, stamped with the simulated time it was dispatched at */
+  | { type: 'ACTION'; atSec: number; action: Action }
+  /** Consecutive TICK actions of the same length */
+  | { type: 'TICKS'; deltaTime: number; count: number };
+
+/**
+ * Snapshot taken during recording, used as a starting point when seeking
+ */
+export interface Keyframe {
+  /** Simulated time of the snapshot in seconds */
+  atSec: number;
+  /** Index of the first entry not yet applied to the snapshot */
+  entryIndex: number;
+  snapshot: SimulationSnapshot;
+}
+
+/**
+ * Recorded session
+ */
+export interface SessionRecording {
+  /** Log of dispatched actions in order */
+  entries: RecordingEntry[];
+  /** Snapshots in time order; the first is the session's starting point */
+  keyframes: Keyframe[];
+  /** Simulated length of the session in seconds */
+  durationSec: number;
+}
+
+/**
+ * Records a session by applying each action to its own copy of the simulation
+ *
+ * The copy stays in step with the live simulation because both start from
+ * the same snapshot and see the same actions.
+ */
+export class SessionRecorder {
+  private readonly keyframeIntervalSec: number;
+  private readonly entries: RecordingEntry[] = [];
+  private readonly keyframes: Keyframe[];
+  private snapshot: SimulationSnapshot;
+  private timeSec = 0;
+
+  constructor(initial: SimulationSnapshot, keyframeIntervalSec: number = KEYFRAME_INTERVAL_SEC) {
+    if (!(keyframeIntervalSec > 0)) {
+      throw new Error(`SessionRecorder keyframe interval must be positive, got ${keyframeIntervalSec}`);
+    }
+    this.keyframeIntervalSec = keyframeIntervalSec;
+    this.snapshot = initial;
+    this.keyframes = [{ atSec: 0, entryIndex: 0, snapshot: initial }];
+  }
+
+  /** Simulated time recorded so far in seconds */
+  get durationSec(): number {
+    return this.timeSec;
+  }
+
+  /**
+   * Log an action and apply it to the recorded simulation
+   */
+  record(action: Action): void {
+    if (action.type === 'TICK') {
+      const last = this.entries[this.entries.length - 1];
+      // A keyframe ends the current run so it can point at an entry boundary
+      const keyframedHere = this.keyframes[this.keyframes.length - 1].entryIndex === this.entries.length;
+      if (last?.type === 'TICKS' && last.deltaTime === action.deltaTime && !keyframedHere) {
+        last.count++;
+      } else {
+        this.entries.push({ type: 'TICKS', deltaTime: action.deltaTime, count: 1 });
+      }
+      this.timeSec += action.deltaTime;
+    } else {
+      this.entries.push({ type: 'ACTION', atSec: this.timeSec, action });
+    }
+    this.snapshot = simulationReducer(this.snapshot, action);
+
+    const lastKeyframe = this.keyframes[this.keyframes.length - 1];
+    if (this.timeSec - lastKeyframe.atSec >= this.keyframeIntervalSec - TIME_EPSILON_SEC) {
+      this.keyframes.push({ atSec: this.timeSec, entryIndex: this.entries.length, snapshot: this.snapshot });
+    }
+  }
+
+  /**
+   * The session so far; later recording doesn't change it
+   */
+  getRecording(): SessionRecording {
+    return {
+      entries: this.entries.map(entry => ({ ...entry })),
+      keyframes: [...this.keyframes],
+      durationSec: this.timeSec,
+    };
+  }
+}
+
+/**
+ * Plays a recorded session back through the simulation
+ *
+ * Time only moves when seek() or advance() is called; play, pause and
+ * speed are up to the caller.
+ */
+export class SessionReplay {
+  readonly recording: SessionRecording;
+  private current: SimulationSnapshot;
+  private entryIndex = 0;
+  /** Ticks of the current TICKS entry already applied */
+  private ticksApplied = 0;
+  private time = 0;
+
+  constructor(recording: SessionRecording) {
+    if (recording.keyframes.length === 0) {
+      throw new Error('Session recording has no starting snapshot');
+    }
+    this.recording = recording;
+    this.current = recording.keyframes[0].snapshot;
+    // Show the actions dispatched before the first tick
+    this.seek(0);
+  }
+
+  /** Snapshot at the replay position */
+  get snapshot(): SimulationSnapshot {
+    return this.current;
+  }
+
+  /** Replay position in simulated seconds */
+  get timeSec(): number {
+    return this.time;
+  }
+
+  /** Length of the session in simulated seconds */
+  get durationSec(): number {
+    return this.recording.durationSec;
+  }
+
+  /** Whether the replay has reached the end of the session */
+  get finished(): boolean {
+    return this.entryIndex >= this.recording.entries.length;
+  }
+
+  /**
+   * Move the replay to a time, showing every action dispatched up to it
+   *
+   * @param timeSec - Target time, clamped to the session
+   */
+  seek(timeSec: number): void {
+    const target = Math.max(0, Math.min(this.durationSec, timeSec));
+
+    // Jump to the latest keyframe at or before the target unless the current position is closer
+    const keyframe = this.recording.keyframes.reduce((best, frame) =>
+      frame.atSec <= target + TIME_EPSILON_SEC ? frame : best
+    );
+    if (target < this.time - TIME_EPSILON_SEC || keyframe.atSec > this.time + TIME_EPSILON_SEC) {
+      this.current = keyframe.snapshot;
+      this.entryIndex = keyframe.entryIndex;
+      this.ticksApplied = 0;
+      this.time = keyframe.atSec;
+    }
+
+    const { entries } = this.recording;
+    while (this.entryIndex < entries.length) {
+      const entry = entries[this.entryIndex];
+      if (entry.type === 'ACTION') {
+        this.current = simulationReducer(this.current, entry.action);
+        this.entryIndex++;
+        continue;
+      }
+      if (this.time + entry.deltaTime > target + TIME_EPSILON_SEC) break;
+      this.current = simulationReducer(this.current, { type: 'TICK', deltaTime: entry.deltaTime });
+      this.time += entry.deltaTime;
+      this.ticksApplied++;
+      if (this.ticksApplied === entry.count) {
+        this.entryIndex++;
+        this.ticksApplied = 0;
+      }
+    }
+  }
+
+  /**
+   * Play forward by a span of simulated time
+   */
+  advance(seconds: number): void {
+    this.seek(this.time + seconds);
+  }
+}
+
+/**
+ * Control actions in a recording with the time each was dispatched
+ * These are the debrief timeline; ticks are left out.
+ */
+export function getActionTimeline(recording: SessionRecording): { atSec: number; action: Action }[] {
+  return recording.entries.flatMap(entry =>
+    entry.type === 'ACTION' ? [{ atSec: entry.atSec, action: entry.action }] : []
+  );
+}
+
+/**
+ * Short description of an action for the debrief timeline
+ */
+export function describeAction(action: Action): string {
+  switch (action.type) {
+    case 'PUMP_ENGAGE':
+      return action.engaged ? 'Engaged pump' : 'Disengaged pump';
+    case 'GOVERNOR_MODE':
+      return `Governor to ${action.mode} mode`;
+    case 'SETPOINT':
+      return `Throttle to ${Math.round(action.value)}%`;
+    case 'DISCHARGE_OPEN': {
+      const id = normalizeDischargeId(action.id);
+      const label = id ? getDischargeLabel(id) : action.id;
+      return action.open > 0 ? `Opened ${label} to ${Math.round(action.open * 100)}%` : `Closed ${label}`;
+    }
+    case 'WATER_SOURCE':
+      return action.intakeId && isIntakeId(action.intakeId)
+        ? `Water source to ${action.source} on ${getIntakeLabel(action.intakeId)}`
+        : `Water source to ${action.source}`;
+    case 'INTAKE_SET': {
+      const label = isIntakeId(action.intakeId) ? getIntakeLabel(action.intakeId) : action.intakeId;
+      return `${label}: ${Object.entries(action.intake).map(([key, value]) => `${key} ${value ?? 'capped'}`).join(', ')}`;
+    }
+    case 'TANK_TO_PUMP':
+      return action.open ? 'Opened tank-to-pump' : 'Closed tank-to-pump';
+    case 'PRIMER_ACTIVATE':
+      return 'Started primer';
+    case 'PRIMER_RELEASE':
+      return 'Released primer';
+    case 'DRV_TOGGLE':
+      return action.enabled ? 'Enabled DRV' : 'Disabled DRV';
+    case 'DRV_SETPOINT_SET':
+      return `DRV setpoint to ${action.psi} PSI`;
+    case 'SET_INTAKE_PRESSURE':
+      return `Instructor: ${action.intakeId} intake to ${action.psi} PSI`;
+    case 'SCENARIO_START':
+      return `Started scenario: ${action.scenario.title}`;
+    case 'GOVERNOR_TUNING_SET':
+      return `Instructor: governor gains to Kp ${action.tuning.kp}, Ki ${action.tuning.ki}, Kd ${action.tuning.kd}`;
+    case 'DRAFT_SITE_SET':
+      return `Instructor: draft site ${Object.entries(action.site).map(([key, value]) => `${key} ${value}`).join(', ')}`;
+    case 'HYDRANT_SET':
+      return `Instructor: hydrant ${Object.entries(action.hydrant).map(([key, value]) => `${key} ${value}`).join(', ')}`;
+    case 'FAULT_START':
+      return `Instructor: started ${action.fault.kind} fault`;
+    case 'FAULT_CLEAR':
+      return `Instructor: cleared ${action.id} fault`;
+    default:
+      return action.type;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Tests for multi-apparatus relay pumping
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createRelayChain,
+  createSupplyLine,
+  stepRelayChain,
+  supplyLineLossPsi,
+  RELAY_DISCHARGE,
+} from './relay';
+import type { RelayChain } from './relay';
+import { valveLossPsi } from './network-solver';
+import { INTAKE_RELIEF_LIMITS, INTAKE_VALVE_DIAMETER_IN } from './intakes';
+import type { PumpState } from './model';
+
+/**
+ * 3-engine relay: hydrant → engine 1 → engine 2 → engine 3 flowing attack lines
+ */
+function createThreeEngineRelay(): RelayChain {
+  const chain = createRelayChain(3);
+  const last = chain.pumpers.length - 1;
+
+  chain.pumpers = chain.pumpers.map((pump, i) => ({
+    ...pump,
+    waterSource: i === 0 ? 'hydrant' : 'relay',
+    intakePressurePsi: i === 0 ? 50 : 0,
+    interlocks: { ...pump.interlocks, engaged: true },
+    dischargeValvePct: {
+      ...pump.dischargeValvePct,
+      [RELAY_DISCHARGE]: i < last ? 100 : 0,
+      xlay1: i === last ? 100 : 0,
+      xlay2: i === last ? 100 : 0,
+    },
+  }));
+  return chain;
+}
+
+function run(chain: RelayChain, seconds: number) {
+  let result = stepRelayChain(chain, 0.1);
+  for (let i = 1; i < seconds * 10; i++) {
+    result = stepRelayChain(result.chain, 0.1);
+  }
+  return result;
+}
+
+function updatePumper(chain: RelayChain, index: number, update: (pump: PumpState) => PumpState): RelayChain {
+  return {
+    ...chain,
+    pumpers: chain.pumpers.map((pump, i) => (i === index ? update(pump) : pump)),
+  };
+}
+
+describe('createRelayChain', () => {
+  it('feeds every pumper after the first from the relay', () => {
+    const chain = createRelayChain(3);
+
+    expect(chain.pumpers.map(p => p.waterSource)).toEqual(['tank', 'relay', 'relay']);
+    expect(chain.supplyLines).toHaveLength(2);
+  });
+
+  it('rejects a relay with a single pumper', () => {
+    expect(() => createRelayChain(1)).toThrow();
+  });
+});
+
+describe('supplyLineLossPsi', () => {
+  it('grows with lay length and flow', () => {
+    const short = createSupplyLine(500);
+    const long = createSupplyLine(1500);
+
+    expect(supplyLineLossPsi(long, 500)).toBeGreaterThan(supplyLineLossPsi(short, 500));
+    expect(supplyLineLossPsi(short, 1000)).toBeGreaterThan(supplyLineLossPsi(short, 500));
+  });
+
+  it('adds 0.434 PSI per foot of rise and recovers it downhill', () => {
+    const level = supplyLineLossPsi(createSupplyLine(1000, 0), 500);
+
+    expect(supplyLineLossPsi(createSupplyLine(1000, 50), 500)).toBeCloseTo(level + 21.7, 5);
+    expect(supplyLineLossPsi(createSupplyLine(1000, -50), 500)).toBeCloseTo(level - 21.7, 5);
+  });
+});
+
+describe('stepRelayChain', () => {
+  it('delivers water from the source pumper to the attack pumper', () => {
+    const previous = run(createThreeEngineRelay(), 10).chain;
+    const { chain, diagnostics } = stepRelayChain(previous, 0.1);
+    const [first, second, third] = chain.pumpers;
+
+    expect(third.totalFlowGpm).toBeGreaterThan(0);
+    expect(second.relayIntake!.supplyPsi).toBeGreaterThan(0);
+    expect(third.relayIntake!.supplyPsi).toBeGreaterThan(0);
+
+    // Upstream relay discharges carry the downstream demand from the previous step
+    const demandGpm = previous.pumpers[1].totalFlowGpm;
+    expect(diagnostics[0].lineHydraulics.get(RELAY_DISCHARGE)!.flow).toBe(demandGpm);
+    expect(diagnostics[1].lineHydraulics.get(RELAY_DISCHARGE)!.flow).toBe(previous.pumpers[2].totalFlowGpm);
+
+    // Each pump inlet sees the upstream PDP less the discharge valve, supply line and intake valve losses
+    const loss = valveLossPsi(5.0, 100, demandGpm)
+      + supplyLineLossPsi(chain.supplyLines[0], demandGpm)
+      + valveLossPsi(INTAKE_VALVE_DIAMETER_IN, 100, second.totalFlowGpm);
+    expect(second.intakePressurePsi).toBeCloseTo(first.dischargePsi - loss, 5);
+  });
+
+  it('ripples an upstream throttle change down the chain', () => {
+    const steady = run(createThreeEngineRelay(), 10).chain;
+    const before = steady.pumpers[2].relayIntake!.supplyPsi;
+
+    // Engine 1 operator goes to RPM mode at full throttle
+    const throttled = updatePumper(steady, 0, pump => ({
+      ...pump,
+      throttle: 100,
+      runtime: { ...pump.runtime, governor: 'RPM' },
+    }));
+    const after = run(throttled, 2).chain;
+
+    expect(after.pumpers[0].dischargePsi).toBeGreaterThan(steady.pumpers[0].dischargePsi);
+    expect(after.pumpers[2].relayIntake!.supplyPsi).toBeGreaterThan(before);
+  });
+
+  it('loads the upstream relay discharge with the downstream relief dump', () => {
+    const steady = run(createThreeEngineRelay(), 10).chain;
+    const intakeId = steady.supplyLines[1].intakeId;
+    const lowRelief = updatePumper(steady, 2, pump => ({
+      ...pump,
+      intakes: { ...pump.intakes, [intakeId]: { ...pump.intakes[intakeId], reliefPsi: INTAKE_RELIEF_LIMITS.min } },
+    }));
+    const previous = run(lowRelief, 5).chain;
+    const { diagnostics } = stepRelayChain(previous, 0.1);
+
+    const dumpGpm = diagnostics[2].intakeDumpGpm.get(intakeId)!;
+    expect(dumpGpm).toBeGreaterThan(0);
+    expect(diagnostics[1].lineHydraulics.get(RELAY_DISCHARGE)!.flow)
+      .toBeGreaterThan(previous.pumpers[2].totalFlowGpm);
+  });
+
+  it('starves the next intake when the upstream relay discharge closes', () => {
+    const steady = run(createThreeEngineRelay(), 10).chain;
+    const closed = updatePumper(steady, 0, pump => ({
+      ...pump,
+      dischargeValvePct: { ...pump.dischargeValvePct, [RELAY_DISCHARGE]: 0 },
+    }));
+
+    const { chain } = stepRelayChain(closed, 0.1);
+
+    expect(chain.pumpers[1].relayIntake!.supplyPsi).toBe(0);
+    // Only the intake valve's loss on the water still moving is left on the gauge
+    expect(chain.pumpers[1].intakePressurePsi).toBeCloseTo(0, 1);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Multi-apparatus relay pumping
+ * Chains pumpers through supply lines: each upstream pumper's rear LDH discharge
+ * feeds the next pumper's intake, so a throttle change upstream ripples down the chain
+ */
+
+import type { DischargeId, IntakeId, PumpState } from './model';
+import { frictionLossPsi } from '../hydraulics/formulas';
+import { HOSE_C } from '../hydraulics/standards';
+import { simulateStep } from './engine';
+import type { SimulationDiagnostics } from './engine';
+import { createInitialPumpState } from './pierce-puc';
+import { combineIntakes, connectSupply } from './intakes';
+import { ELEVATION_PSI_PER_FT, valveLossPsi } from './network-solver';
+
+/** Discharge that supplies the next pumper in a relay */
+export const RELAY_DISCHARGE: DischargeId = 'rear_ldh';
+
+/** Residual pressure an upstream operator pumps for at the next intake (PSI) */
+export const RELAY_RESIDUAL_PSI = 20;
+
+/**
+ * Supply line between two pumpers in a relay
+ */
+export interface SupplyLine {
+  /** Hose diameter in inches (5" LDH typical) */
+  diameterIn: number;
+  /** Total lay length in feet */
+  lengthFt: number;
+  /** Hazen-Williams C coefficient */
+  C: number;
+  /** Rise from upstream to downstream pumper in feet (negative for downhill) */
+  elevationFt: number;
+  /** Downstream intake the line connects to */
+  intakeId: IntakeId;
+}
+
+/**
+ * A relay of pumpers ordered from water source to fireground
+ * supplyLines[i] connects pumpers[i] to pumpers[i + 1]
+ */
+export interface RelayChain {
+  pumpers: PumpState[];
+  supplyLines: SupplyLine[];
+}
+
+/**
+ * Create a typical 5" LDH supply line
+ *
+ * @param lengthFt - Lay length in feet
+ * @param elevationFt - Rise toward the downstream pumper in feet
+ */
+export function createSupplyLine(lengthFt: number = 1000, elevationFt: number = 0): SupplyLine {
+  return {
+    diameterIn: 5.0,
+    lengthFt,
+    C: HOSE_C.LDH_5,
+    elevationFt,
+    intakeId: 'ldh_driver',
+  };
+}
+
+/**
+ * Create a relay of Pierce PUC pumpers joined by identical supply lines
+ * The first pumper keeps its own water source; the rest take water from the relay
+ *
+ * @param pumperCount - Number of pumpers in the chain (at least 2)
+ * @param supplyLine - Supply line used between each pair of pumpers
+ */
+export function createRelayChain(
+  pumperCount: number,
+  supplyLine: SupplyLine = createSupplyLine()
+): RelayChain {
+  if (pumperCount < 2) {
+    throw new Error(`A relay needs at least 2 pumpers, got ${pumperCount}`);
+  }
+
+  const pumpers = Array.from({ length: pumperCount }, (_, i) => {
+    const state = createInitialPumpState();
+    return i === 0 ? state : connectSupply(state, 'relay', supplyLine.intakeId);
+  });
+
+  return {
+    pumpers,
+    supplyLines: Array.from({ length: pumperCount - 1 }, () => ({ ...supplyLine })),
+  };
+}
+
+/**
+ * Pressure lost in a supply line at a given flow (friction plus elevation)
+ *
+ * @param line - Supply line
+ * @param flowGpm - Flow through the line in GPM
+ * @returns Loss in PSI (negative when downhill gain exceeds friction)
+ */
+export function supplyLineLossPsi(line: SupplyLine, flowGpm: number): number {
+  const friction = frictionLossPsi(
+    { id: 'supply', diameterIn: line.diameterIn, lengthFt: line.lengthFt, C: line.C },
+    flowGpm
+  );
+  return friction + ELEVATION_PSI_PER_FT * line.elevationFt;
+}
+
+/**
+ * Pressure arriving at the downstream intake from an upstream pumper
+ * Zero if the upstream pumper is not engaged or its relay discharge is closed or not fitted;
+ * a partly gated relay discharge loses pressure across the valve
+ *
+ * @param upstream - Upstream pumper after its step
+ * @param line - Supply line to the downstream pumper
+ * @param flowGpm - Flow drawn by the downstream pumper, relief dump included, in GPM
+ */
+export function relaySupplyPsi(upstream: PumpState, line: SupplyLine, flowGpm: number): number {
+  const supplying = upstream.interlocks.engaged &&
+    upstream.lineConfigs[RELAY_DISCHARGE] !== undefined &&
+    upstream.dischargeValvePct[RELAY_DISCHARGE] > 0;
+  if (!supplying) return 0;
+  const valveLoss = valveLossPsi(
+    upstream.lineConfigs[RELAY_DISCHARGE].hose.diameterIn,
+    upstream.dischargeValvePct[RELAY_DISCHARGE],
+    flowGpm
+  );
+  return Math.max(0, upstream.dischargePsi - valveLoss - supplyLineLossPsi(line, flowGpm));
+}
+
+/**
+ * Flow a pumper draws through its relay supply line in GPM
+ * What it pumps plus whatever its intake relief valve dumps, as of its last step.
+ */
+function relayDrawGpm(pumper: PumpState, intakeId: IntakeId): number {
+  return pumper.totalFlowGpm + (combineIntakes(pumper, pumper.totalFlowGpm).dumpGpm.get(intakeId) ?? 0);
+}
+
+/**
+ * Advance every pumper in a relay by one step
+ *
+ * Pumpers step from the source downstream. Each upstream pumper sees the
+ * downstream demand from the previous step, intake relief dump included, as
+ * the load on its relay discharge; each downstream pumper receives the pressure its upstream
+ * neighbour just produced, less supply line losses.
+ *
+ * @param chain - Current relay chain
+ * @param deltaTimeSeconds - Time step in seconds
+ * @returns Updated chain and per-pumper diagnostics
+ */
+export function stepRelayChain(
+  chain: RelayChain,
+  deltaTimeSeconds: number
+): { chain: RelayChain; diagnostics: SimulationDiagnostics[] } {
+  const pumpers: PumpState[] = [];
+  const diagnostics: SimulationDiagnostics[] = [];
+
+  chain.pumpers.forEach((current, i) => {
+    let state = current;
+
+    // Supplying a downstream pumper: its demand is the load on the relay discharge
+    const downLine = chain.supplyLines[i];
+    if (downLine) {
+      const demandGpm = relayDrawGpm(chain.pumpers[i + 1], downLine.intakeId);
+      state = {
+        ...state,
+        relayLoads: {
+          ...state.relayLoads,
+          [RELAY_DISCHARGE]: {
+            demandGpm,
+            lossPsi: supplyLineLossPsi(downLine, demandGpm),
+            residualPsi: RELAY_RESIDUAL_PSI,
+          },
+        },
+      };
+    }
+
+    // Supplied by an upstream pumper: intake pressure comes through the supply line
+    const upLine = chain.supplyLines[i - 1];
+    if (upLine) {
+      const supplyPsi = relaySupplyPsi(pumpers[i - 1], upLine, relayDrawGpm(current, upLine.intakeId));
+      state = {
+        ...state,
+        intakePsi: { ...state.intakePsi, [upLine.intakeId]: supplyPsi },
+        relayIntake: { intakeId: upLine.intakeId, supplyPsi },
+      };
+    }
+
+    const result = simulateStep(state, deltaTimeSeconds);
+    pumpers.push(result.state);
+    diagnostics.push(result.diagnostics);
+  });
+
+  return { chain: { ...chain, pumpers }, diagnostics };
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for the deterministic headless simulation runner
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SimulationRunner, consumeFixedSteps } from './runner';
+import type { Clock } from './runner';
+import { createSeededRng } from './random';
+import { supplyFailureResidualPsi } from './hydrant';
+
+/**
+ * Manually driven clock for advance() tests
+ */
+function createManualClock(startMs = 0): Clock & { tick(ms: number): void } {
+  let nowMs = startMs;
+  return {
+    now: () => nowMs,
+    tick: (ms: number) => {
+      nowMs += ms;
+    },
+  };
+}
+
+/**
+ * Script: engage, open xlay1 from the tank, throttle to 60%
+ */
+function runStartupScript(runner: SimulationRunner) {
+  runner.dispatch({ type: 'PUMP_ENGAGE', engaged: true });
+  runner.dispatch({ type: 'TANK_TO_PUMP', open: true });
+  runner.dispatch({ type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 });
+  runner.dispatch({ type: 'SETPOINT', value: 60 });
+
+  return runner.trace(5, (state, diagnostics) => ({
+    pdp: state.dischargePsi,
+    rpm: state.runtime.rpm,
+    flow: diagnostics.totalWaterGpm,
+  }));
+}
+
+describe('consumeFixedSteps', () => {
+  it('splits accumulated time into whole steps and a remainder', () => {
+    const { steps, remainderSec } = consumeFixedSteps(0.35, 0.1);
+    expect(steps).toBe(3);
+    expect(remainderSec).toBeCloseTo(0.05, 10);
+  });
+
+  it('counts exact multiples despite float rounding', () => {
+    expect(consumeFixedSteps(0.1 + 0.2, 0.1).steps).toBe(3);
+  });
+
+  it('caps steps and drops the backlog after a long stall', () => {
+    expect(consumeFixedSteps(60, 0.1, 50)).toEqual({ steps: 50, remainderSec: 0 });
+  });
+});
+
+describe('SimulationRunner', () => {
+  it('produces identical gauge traces for the same script', () => {
+    const first = runStartupScript(new SimulationRunner());
+    const second = runStartupScript(new SimulationRunner());
+
+    expect(first).toHaveLength(50);
+    expect(second).toEqual(first);
+
+    // Trace reflects the scripted startup: pressure builds, xlay1 flows
+    const last = first[first.length - 1];
+    expect(last.pdp).toBeGreaterThan(100);
+    expect(last.flow).toBeGreaterThan(140);
+  });
+
+  it('advances simulated time only in fixed steps', () => {
+    const runner = new SimulationRunner({ dt: 0.05 });
+    runner.step(4);
+    expect(runner.timeSec).toBeCloseTo(0.2, 10);
+
+    runner.runFor(1);
+    expect(runner.timeSec).toBeCloseTo(1.2, 10);
+  });
+
+  it('steps from the injected clock and carries leftover time', () => {
+    const clock = createManualClock(1000);
+    const runner = new SimulationRunner({ clock });
+
+    clock.tick(250);
+    expect(runner.advance()).toBe(2);
+
+    // 50ms carried over + 50ms more = one more step
+    clock.tick(50);
+    expect(runner.advance()).toBe(1);
+    expect(runner.timeSec).toBeCloseTo(0.3, 10);
+  });
+
+  it('rejects TICK actions so time stays on the fixed grid', () => {
+    const runner = new SimulationRunner();
+    expect(() => runner.dispatch({ type: 'TICK', deltaTime: 0.37 })).toThrow();
+  });
+
+  it('rejects a non-positive timestep', () => {
+    expect(() => new SimulationRunner({ dt: 0 })).toThrow();
+  });
+
+  it('reproduces random scenario events from the same seed', () => {
+    const failIntake = (seed: number) => {
+      const runner = new SimulationRunner({ seed });
+      runner.dispatch({
+        type: 'SCENARIO_INTAKE_FAILURE',
+        intakeId: 'ldh_driver',
+        residualPsi: supplyFailureResidualPsi(runner.rng),
+      });
+      return runner.state.intakePsi.ldh_driver;
+    };
+
+    expect(failIntake(42)).toBe(failIntake(42));
+    expect(failIntake(42)).not.toBe(failIntake(7));
+    expect(failIntake(42)).toBeLessThan(10);
+  });
+});
+
+describe('createSeededRng', () => {
+  it('returns the same sequence for the same seed', () => {
+    const a = createSeededRng(123);
+    const b = createSeededRng(123);
+    const seqA = Array.from({ length: 5 }, () => a());
+    const seqB = Array.from({ length: 5 }, () => b());
+
+    expect(seqA).toEqual(seqB);
+    seqA.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Deterministic headless simulation runner
+ * Advances simulateStep at a fixed timestep with an injectable clock and seeded RNG,
+ * so scripted runs produce identical gauge traces in Node/vitest without React
+ */
+
+import type { PumpState } from './model';
+import type { SimulationDiagnostics } from './engine';
+import { simulationReducer, createInitialSnapshot } from './actions';
+import type { Action, SimulationSnapshot } from './actions';
+import type { ScenarioRun } from '../training/scenario-runtime';
+import { createSeededRng } from './random';
+import type { Rng } from './random';
+
+/** Default simulation timestep in seconds (matches the 10 Hz UI tick) */
+export const FIXED_DT_SEC = 0.1;
+
+/** Upper bound on steps taken in one advance() so a stalled tab cannot spiral */
+const MAX_STEPS_PER_ADVANCE = 50;
+
+/**
+ * Time source in milliseconds
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Wall-clock time source used by the UI
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Options for creating a simulation runner
+ */
+export interface SimulationRunnerOptions {
+  /** Fixed timestep in seconds (default 0.1) */
+  dt?: number;
+  /** Seed for the default RNG (default 1) */
+  seed?: number;
+  /** Random number source; overrides seed */
+  rng?: Rng;
+  /** Time source for advance() (default system clock) */
+  clock?: Clock;
+  /** Starting pump state (default Pierce PUC initial state) */
+  initialState?: PumpState;
+}
+
+/**
+ * Split accumulated real time into whole fixed steps
+ *
+ * @param accumulatedSec - Real time not yet simulated, in seconds
+ * @param dt - Fixed timestep in seconds
+ * @param maxSteps - Maximum steps to take; excess time is dropped
+ * @returns Number of steps to run and the time left over
+ */
+export function consumeFixedSteps(
+  accumulatedSec: number,
+  dt: number,
+  maxSteps: number = MAX_STEPS_PER_ADVANCE
+): { steps: number; remainderSec: number } {
+  // Small epsilon so 0.3 / 0.1 counts as three steps despite float rounding
+  const available = Math.floor(accumulatedSec / dt + 1e-9);
+  if (available > maxSteps) {
+    return { steps: maxSteps, remainderSec: 0 };
+  }
+  return { steps: available, remainderSec: Math.max(0, accumulatedSec - available * dt) };
+}
+
+/**
+ * Headless simulation runner
+ *
+ * Holds a SimulationSnapshot and applies actions through the same
+ * simulationReducer the React provider uses. Time only moves when
+ * step(), runFor() or advance() is called.
+ */
+export class SimulationRunner {
+  readonly dt: number;
+  /** Seeded random source for scripted events, e.g. supplyFailureResidualPsi(runner.rng) */
+  readonly rng: Rng;
+  private readonly clock: Clock;
+  private snapshot: SimulationSnapshot;
+  private stepCount = 0;
+  private accumulatorSec = 0;
+  private lastClockMs: number;
+
+  constructor(options: SimulationRunnerOptions = {}) {
+    this.dt = options.dt ?? FIXED_DT_SEC;
+    if (!(this.dt > 0)) {
+      throw new Error(`SimulationRunner dt must be positive, got ${this.dt}`);
+    }
+    this.rng = options.rng ?? createSeededRng(options.seed ?? 1);
+    this.clock = options.clock ?? systemClock;
+    this.lastClockMs = this.clock.now();
+
+    const initial = createInitialSnapshot();
+    this.snapshot = options.initialState
+      ? { ...initial, state: options.initialState }
+      : initial;
+  }
+
+  /** Current pump state */
+  get state(): PumpState {
+    return this.snapshot.state;
+  }
+
+  /** Diagnostics from the most recent step */
+  get diagnostics(): SimulationDiagnostics {
+    return this.snapshot.diagnostics;
+  }
+
+  /** Training scenario being run, if any */
+  get scenario(): ScenarioRun | null {
+    return this.snapshot.scenario;
+  }
+
+  /** Simulated time in seconds */
+  get timeSec(): number {
+    return this.stepCount * this.dt;
+  }
+
+  /**
+   * Apply a control action
+   * TICK actions are rejected; time advances only in fixed steps
+   */
+  dispatch(action: Action): void {
+    if (action.type === 'TICK') {
+      throw new Error('SimulationRunner advances time with step(), runFor() or advance()');
+    }
+    this.snapshot = simulationReducer(this.snapshot, action);
+  }
+
+  /**
+   * Advance a number of fixed timesteps
+   */
+  step(count: number = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.snapshot = simulationReducer(this.snapshot, { type: 'TICK', deltaTime: this.dt });
+      this.stepCount++;
+    }
+  }
+
+  /**
+   * Advance by a duration, rounded to whole timesteps
+   */
+  runFor(seconds: number): void {
+    this.step(Math.round(seconds / this.dt));
+  }
+
+  /**
+   * Advance by however much time the clock reports since the last call,
+   * in whole fixed steps; leftover time carries into the next call
+   *
+   * @returns Number of steps taken
+   */
+  advance(): number {
+    const nowMs = this.clock.now();
+    this.accumulatorSec += (nowMs - this.lastClockMs) / 1000;
+    this.lastClockMs = nowMs;
+
+    const { steps, remainderSec } = consumeFixedSteps(this.accumulatorSec, this.dt);
+    this.accumulatorSec = remainderSec;
+    this.step(steps);
+    return steps;
+  }
+
+  /**
+   * Run for a duration and sample a value after every step
+   *
+   * @param seconds - Duration to run
+   * @param sample - Value to record from the state after each step
+   * @returns One sample per step
+   */
+  trace<T>(seconds: number, sample: (state: PumpState, diagnostics: SimulationDiagnostics) => T): T[] {
+    const samples: T[] = [];
+    const steps = Math.round(seconds / this.dt);
+    for (let i = 0; i < steps; i++) {
+      this.step();
+      samples.push(sample(this.snapshot.state, this.snapshot.diagnostics));
+    }
+    return samples;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Tests for setup file export, validation and import
+ */
+
+import { describe, it, expect } from 'vitest';
+import { exportSetup, readSetupFile, createStateFromSetup, SETUP_FILE_VERSION } from './setup-file';
+import type { SetupFile } from './setup-file';
+import { createInitialPumpState, defaultLines } from './pierce-puc';
+import { getApparatusProfile } from './apparatus';
+import { createWyedLayout } from './hose-layout';
+import { simulationReducer, createInitialSnapshot } from './actions';
+import type { PumpState } from './model';
+
+/** Quint on a hydrant through both intakes, half a tank, wyed 2.5", a burst crosslay, retuned governor and lowered DRV */
+function createConfiguredState(): PumpState {
+  const base = createInitialPumpState(getApparatusProfile('quint-1500'));
+  return {
+    ...base,
+    waterSource: 'hydrant',
+    tankGallons: 150,
+    intakePsi: { ...base.intakePsi, ldh_driver: 55 },
+    intakes: {
+      ...base.intakes,
+      ldh_driver: { ...base.intakes.ldh_driver, supply: 'hydrant' },
+      ldh_officer: { supply: 'hydrant', valvePct: 40, reliefPsi: 150 },
+    },
+    elevationFt: 12,
+    draft: { ...base.draft, liftFt: 15, altitudeFt: 5000 },
+    hydrant: { ...base.hydrant, staticPsi: 80, residualPsi: 40, supplyLengthFt: 600 },
+    lineConfigs: { ...base.lineConfigs, d2_5_a: createWyedLayout(base.lineConfigs.d2_5_a) },
+    activeFaults: [{ id: 'hose_burst:xlay2', spec: { kind: 'hose_burst', dischargeId: 'xlay2' }, activeSec: 3 }],
+    pump: { ...base.pump, governorTuning: { kp: 0.5, ki: 0.1, kd: 0.02, integralLimit: 80 } },
+    drv: { ...base.drv, setpointPsi: 240 },
+  };
+}
+
+function toText(setup: SetupFile | Record<string, unknown>): string {
+  return JSON.stringify(setup);
+}
+
+describe('setup round trip', () => {
+  const original = createConfiguredState();
+  const restored = createStateFromSetup(readSetupFile(toText(exportSetup(original))));
+
+  it('restores the apparatus, tanks and water source', () => {
+    expect(restored.apparatusId).toBe('quint-1500');
+    expect(restored.tankCapacityGallons).toBe(300);
+    expect(restored.tankGallons).toBe(150);
+    expect(restored.waterSource).toBe('hydrant');
+    expect(restored.elevationFt).toBe(12);
+    expect(restored.draft).toEqual(original.draft);
+    expect(restored.hydrant).toEqual(original.hydrant);
+  });
+
+  it('keeps governor tuning and the DRV setpoint as they were set', () => {
+    expect(restored.pump.governorTuning).toEqual(original.pump.governorTuning);
+    expect(restored.drv.setpointPsi).toBe(240);
+  });
+
+  it('restores line layouts, intakes and faults', () => {
+    expect(restored.lineConfigs).toEqual(original.lineConfigs);
+    expect(restored.intakePsi.ldh_driver).toBe(55);
+    expect(restored.intakePressurePsi).toBe(55);
+    expect(restored.intakes).toEqual(original.intakes);
+    expect(restored.activeFaults).toEqual([
+      { id: 'hose_burst:xlay2', spec: { kind: 'hose_burst', dischargeId: 'xlay2' }, activeSec: 0 },
+    ]);
+  });
+
+  it('starts the imported setup disengaged with valves closed', () => {
+    expect(restored.interlocks.engaged).toBe(false);
+    expect(Object.values(restored.dischargeValvePct).every(pct => pct === 0)).toBe(true);
+  });
+
+  it('loads through the reducer and clears old diagnostics', () => {
+    const setup = exportSetup(original);
+    const next = simulationReducer(createInitialSnapshot(), { type: 'LOAD_SETUP', setup });
+    expect(next.state.apparatusId).toBe('quint-1500');
+    expect(next.diagnostics.lineHydraulics.size).toBe(0);
+  });
+});
+
+describe('setup validation', () => {
+  const valid = exportSetup(createConfiguredState());
+
+  it('reports malformed JSON', () => {
+    expect(() => readSetupFile('{ "version": 1,')).toThrow(/^setup is not valid JSON/);
+  });
+
+  it('rejects unknown versions and water sources', () => {
+    expect(() => readSetupFile(toText({ ...valid, version: SETUP_FILE_VERSION + 1 })))
+      .toThrow('setup.version 2 is not supported (expected 1)');
+    expect(() => readSetupFile(toText({ ...valid, waterSource: 'river' })))
+      .toThrow('setup.waterSource must be one of "tank", "hydrant", "draft", "relay"');
+  });
+
+  it('names the bad field inside nested line layouts', () => {
+    const lineConfigs = valid.lineConfigs.map(line =>
+      line.id === 'd2_5_a'
+        ? { ...line, branches: [{ ...line.branches![0], gatePct: 150 }] }
+        : line
+    );
+    expect(() => readSetupFile(toText({ ...valid, lineConfigs })))
+      .toThrow('setup.lineConfigs[2].branches[0].gatePct must be between 0 and 100');
+  });
+
+  it('rejects tank levels above capacity and intakes or discharges the rig does not have', () => {
+    expect(() => readSetupFile(toText({ ...valid, tankGallons: 400 })))
+      .toThrow('setup.tankGallons exceeds the 300 gallon tank');
+    expect(() => readSetupFile(toText({ ...valid, intakePsi: { rear_ldh: 40 } })))
+      .toThrow('setup.intakePsi.rear_ldh is not an intake on this apparatus');
+    const lineConfigs = [...valid.lineConfigs, { ...valid.lineConfigs[0], id: 'xlay3' }];
+    expect(() => readSetupFile(toText({ ...valid, lineConfigs })))
+      .toThrow('setup.lineConfigs[4].id "xlay3" is not a discharge on this apparatus');
+  });
+
+  it('rejects an intake on the tank or with its relief valve out of range', () => {
+    const { ldh_officer } = valid.intakes!;
+    expect(() => readSetupFile(toText({ ...valid, intakes: { ldh_officer: { ...ldh_officer, supply: 'tank' } } })))
+      .toThrow('setup.intakes.ldh_officer.supply must be one of "hydrant", "relay", "draft"');
+    expect(() => readSetupFile(toText({ ...valid, intakes: { ldh_officer: { ...ldh_officer, reliefPsi: 20 } } })))
+      .toThrow('setup.intakes.ldh_officer.reliefPsi must be between 50 and 250');
+  });
+
+  it('defaults the draft site for older files and rejects one out of range', () => {
+    const { draft, ...older } = valid;
+    expect(createStateFromSetup(readSetupFile(toText(older))).draft.liftFt).toBe(10);
+    expect(() => readSetupFile(toText({ ...valid, draft: { ...draft, liftFt: 50 } })))
+      .toThrow('setup.draft.liftFt must be between 0 and 35');
+  });
+
+  it('takes an older file\'s intake pressure as the hydrant static and rejects a residual above static', () => {
+    const { hydrant, ...older } = valid;
+    expect(createStateFromSetup(readSetupFile(toText(older))).hydrant).toMatchObject({ staticPsi: 55, testFlowGpm: 1000 });
+    expect(() => readSetupFile(toText({ ...valid, hydrant: { ...hydrant, residualPsi: 90 } })))
+      .toThrow('setup.hydrant.residualPsi must not be above staticPsi');
+  });
+
+  it('reports errors in the embedded apparatus by path', () => {
+    const apparatus = { ...valid.apparatus, discharges: [{ ...defaultLines.xlay1, nozzle: { type: 'fog' } }] };
+    expect(() => readSetupFile(toText({ ...valid, apparatus })))
+      .toThrow('setup.apparatus.discharges[0].nozzle.targetGpm must be a positive number');
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Simulator setup files
+ * Export and import the full simulator configuration as JSON so training
+ * officers can share setups between stations: the apparatus, line layouts,
+ * water source and intakes, tank levels and instructor faults.
+ */
+
+import type {
+  ApparatusProfile,
+  DischargeId,
+  DraftSite,
+  FaultSpec,
+  HydrantSupply,
+  IntakeId,
+  IntakeState,
+  LineConfig,
+  PumpState,
+  WaterSource,
+} from './model';
+import { createInitialPumpState } from './pierce-puc';
+import { apparatusFromState, parseApparatusProfile, parseLineConfigs } from './apparatus';
+import { isIntakeId, normalizeDischargeId } from './ids';
+import { getFaultId, parseFaultSpec } from './faults';
+import { DRAFT_SITE_LIMITS } from './drafting';
+import { HYDRANT_SUPPLY_LIMITS, withStaticPsi } from './hydrant';
+import { INTAKE_RELIEF_LIMITS, INTAKE_SUPPLIES } from './intakes';
+import {
+  invalid,
+  parseJson,
+  readArray,
+  readEnum,
+  readNonNegative,
+  readNumber,
+  readObject,
+  readOptional,
+  readPercent,
+  readPositive,
+  readString,
+} from './json-validation';
+
+/** Current setup file format version */
+export const SETUP_FILE_VERSION = 1;
+
+const WATER_SOURCES: readonly WaterSource[] = ['tank', 'hydrant', 'draft', 'relay'];
+
+/**
+ * Instructor faults active when the setup was saved
+ * Older files list burst lines and leak rates separately; they are read
+ * into the fault list.
+ */
+export interface SetupFaults {
+  /** Injected faults by registry id (omitted when none); they restart on load */
+  equipment?: { id: string; fault: FaultSpec }[];
+}
+
+/**
+ * Shareable simulator configuration
+ */
+export interface SetupFile {
+  /** File format version */
+  version: number;
+  /** Apparatus the setup runs on */
+  apparatus: ApparatusProfile;
+  /** Discharge line layouts (hose, appliances, nozzles) */
+  lineConfigs: LineConfig[];
+  /** Water source feeding the pump */
+  waterSource: WaterSource;
+  /** Water in the booster tank in gallons */
+  tankGallons: number;
+  /** Foam concentrate in the foam cell in gallons */
+  foamTankGallons: number;
+  /** Intake pressures in PSI */
+  intakePsi: Partial<Record<IntakeId, number>>;
+  /** Supply and valves on each intake (omitted in older files: the water source on the first intake) */
+  intakes?: Partial<Record<IntakeId, IntakeState>>;
+  /** Scene elevation of the nozzles above the pump in feet */
+  elevationFt: number;
+  /** Static source used when drafting (omitted in older files: the apparatus default) */
+  draft?: DraftSite;
+  /** Hydrant and supply line (omitted in older files: a typical hydrant at the intake pressure) */
+  hydrant?: HydrantSupply;
+  /** Instructor faults */
+  faults: SetupFaults;
+}
+
+/**
+ * Capture the shareable configuration of a pump state
+ *
+ * @param state - Current pump state
+ * @param apparatus - Apparatus the state runs on (looked up from the state when omitted)
+ * @returns Setup file contents, ready for JSON.stringify
+ */
+export function exportSetup(state: PumpState, apparatus: ApparatusProfile = apparatusFromState(state)): SetupFile {
+  return {
+    version: SETUP_FILE_VERSION,
+    apparatus,
+    lineConfigs: Object.values(state.lineConfigs),
+    waterSource: state.waterSource,
+    tankGallons: state.tankGallons,
+    foamTankGallons: state.foam.tankGallons,
+    intakePsi: { ...state.intakePsi },
+    intakes: { ...state.intakes },
+    elevationFt: state.elevationFt,
+    draft: { ...state.draft },
+    hydrant: { ...state.hydrant },
+    faults: {
+      ...(state.activeFaults.length > 0 && {
+        equipment: state.activeFaults.map(({ id, spec }) => ({ id, fault: spec })),
+      }),
+    },
+  };
+}
+
+function parseDischargeIds(value: unknown, path: string, fitted: DischargeId[]): DischargeId[] {
+  return readArray(value, path).map((item, i) => {
+    const id = normalizeDischargeId(readString(item, `${path}[${i}]`));
+    if (!id) invalid(`${path}[${i}]`, `"${String(item)}" is not a known discharge`);
+    if (!fitted.includes(id)) invalid(`${path}[${i}]`, `"${id}" is not a discharge on this apparatus`);
+    return id;
+  });
+}
+
+function parseFaults(value: unknown, path: string, fitted: DischargeId[]): SetupFaults {
+  const faults = readObject(value, path);
+  const equipment = readOptional(faults.equipment, `${path}.equipment`, (list, listPath) =>
+    readArray(list, listPath).map((item, i) => {
+      const entry = readObject(item, `${listPath}[${i}]`);
+      return {
+        id: readString(entry.id, `${listPath}[${i}].id`),
+        fault: parseFaultSpec(entry.fault, `${listPath}[${i}].fault`),
+      };
+    })) ?? [];
+
+  // Older files: burst lines and leaks outside the fault list
+  const legacy: FaultSpec[] = [];
+  const burstLines = readOptional(faults.burstLines, `${path}.burstLines`, (list, listPath) =>
+    parseDischargeIds(list, listPath, fitted));
+  for (const dischargeId of burstLines ?? []) legacy.push({ kind: 'hose_burst', dischargeId });
+  const tankLeakGpm = readOptional(faults.tankLeakGpm, `${path}.tankLeakGpm`, readPositive);
+  if (tankLeakGpm) legacy.push({ kind: 'tank_leak', rateGpm: tankLeakGpm });
+  const foamLeakGpm = readOptional(faults.foamLeakGpm, `${path}.foamLeakGpm`, readPositive);
+  if (foamLeakGpm) legacy.push({ kind: 'foam_leak', rateGpm: foamLeakGpm });
+  equipment.push(...legacy.map(fault => ({ id: getFaultId(fault), fault })));
+
+  return equipment.length > 0 ? { equipment } : {};
+}
+
+function parseDraftSite(value: unknown, path: string): DraftSite {
+  const site = readObject(value, path);
+  const parsed = {} as DraftSite;
+  for (const key of Object.keys(DRAFT_SITE_LIMITS) as (keyof DraftSite)[]) {
+    const { min, max } = DRAFT_SITE_LIMITS[key];
+    const number = readNumber(site[key], `${path}.${key}`);
+    if (number < min || number > max) invalid(`${path}.${key}`, `must be between ${min} and ${max}`);
+    parsed[key] = number;
+  }
+  return parsed;
+}
+
+function parseHydrantSupply(value: unknown, path: string): HydrantSupply {
+  const hydrant = readObject(value, path);
+  const parsed = {} as HydrantSupply;
+  for (const key of Object.keys(HYDRANT_SUPPLY_LIMITS) as (keyof HydrantSupply)[]) {
+    const { min, max } = HYDRANT_SUPPLY_LIMITS[key];
+    const number = readNumber(hydrant[key], `${path}.${key}`);
+    if (number < min || number > max) invalid(`${path}.${key}`, `must be between ${min} and ${max}`);
+    parsed[key] = number;
+  }
+  if (parsed.residualPsi > parsed.staticPsi) invalid(`${path}.residualPsi`, 'must not be above staticPsi');
+  return parsed;
+}
+
+function parseIntakePsi(value: unknown, path: string, fitted: IntakeId[]): Partial<Record<IntakeId, number>> {
+  const intakes = readObject(value, path);
+  const intakePsi: Partial<Record<IntakeId, number>> = {};
+  for (const [id, psi] of Object.entries(intakes)) {
+    if (!isIntakeId(id) || !fitted.includes(id)) {
+      invalid(`${path}.${id}`, 'is not an intake on this apparatus');
+    }
+    intakePsi[id] = readNumber(psi, `${path}.${id}`);
+  }
+  return intakePsi;
+}
+
+function parseIntakes(value: unknown, path: string, fitted: IntakeId[]): Partial<Record<IntakeId, IntakeState>> {
+  const entries = readObject(value, path);
+  const intakes: Partial<Record<IntakeId, IntakeState>> = {};
+  for (const [id, item] of Object.entries(entries)) {
+    if (!isIntakeId(id) || !fitted.includes(id)) {
+      invalid(`${path}.${id}`, 'is not an intake on this apparatus');
+    }
+    const intake = readObject(item, `${path}.${id}`);
+    const reliefPsi = readNumber(intake.reliefPsi, `${path}.${id}.reliefPsi`);
+    const { min, max } = INTAKE_RELIEF_LIMITS;
+    if (reliefPsi < min || reliefPsi > max) invalid(`${path}.${id}.reliefPsi`, `must be between ${min} and ${max}`);
+    intakes[id] = {
+      supply: intake.supply === null ? null : readEnum(intake.supply, INTAKE_SUPPLIES, `${path}.${id}.supply`),
+      valvePct: readPercent(intake.valvePct, `${path}.${id}.valvePct`),
+      reliefPsi,
+    };
+  }
+  return intakes;
+}
+
+/**
+ * Validate a JSON setup file
+ *
+ * @param data - Parsed JSON
+ * @returns Typed setup
+ * @throws Error naming the first invalid field
+ */
+export function parseSetupFile(data: unknown): SetupFile {
+  const setup = readObject(data, 'setup');
+  const version = readNumber(setup.version, 'setup.version');
+  if (version !== SETUP_FILE_VERSION) {
+    invalid('setup.version', `${version} is not supported (expected ${SETUP_FILE_VERSION})`);
+  }
+
+  const apparatus = parseApparatusProfile(setup.apparatus, 'setup.apparatus');
+  const tankGallons = readNonNegative(setup.tankGallons, 'setup.tankGallons');
+  if (tankGallons > apparatus.tankGallons) {
+    invalid('setup.tankGallons', `exceeds the ${apparatus.tankGallons} gallon tank`);
+  }
+  const foamTankGallons = readNonNegative(setup.foamTankGallons, 'setup.foamTankGallons');
+  if (foamTankGallons > apparatus.foamTankGallons) {
+    invalid('setup.foamTankGallons', `exceeds the ${apparatus.foamTankGallons} gallon foam cell`);
+  }
+  const discharges = apparatus.discharges.map(line => line.id);
+  const lineConfigs = parseLineConfigs(setup.lineConfigs, 'setup.lineConfigs');
+  lineConfigs.forEach((line, i) => {
+    if (!discharges.includes(line.id)) {
+      invalid(`setup.lineConfigs[${i}].id`, `"${line.id}" is not a discharge on this apparatus`);
+    }
+  });
+
+  return {
+    version,
+    apparatus,
+    lineConfigs,
+    waterSource: readEnum(setup.waterSource, WATER_SOURCES, 'setup.waterSource'),
+    tankGallons,
+    foamTankGallons,
+    intakePsi: parseIntakePsi(setup.intakePsi, 'setup.intakePsi', apparatus.intakes),
+    intakes: readOptional(setup.intakes, 'setup.intakes', (value, path) => parseIntakes(value, path, apparatus.intakes)),
+    elevationFt: readNumber(setup.elevationFt, 'setup.elevationFt'),
+    draft: readOptional(setup.draft, 'setup.draft', parseDraftSite),
+    hydrant: readOptional(setup.hydrant, 'setup.hydrant', parseHydrantSupply),
+    faults: parseFaults(setup.faults, 'setup.faults', discharges),
+  };
+}
+
+/**
+ * Parse and validate setup file text
+ *
+ * @param text - File contents
+ * @returns Typed setup
+ * @throws Error describing the problem
+ */
+export function readSetupFile(text: string): SetupFile {
+  return parseSetupFile(parseJson(text, 'setup'));
+}
+
+/**
+ * Create the pump state a setup describes
+ * The pump starts disengaged with discharges closed, as on arrival.
+ *
+ * @param setup - Validated setup
+ * @returns Initial PumpState for the setup
+ */
+export function createStateFromSetup(setup: SetupFile): PumpState {
+  const base = createInitialPumpState(setup.apparatus);
+  const lineConfigs = { ...base.lineConfigs };
+  for (const line of setup.lineConfigs) {
+    lineConfigs[line.id] = line;
+  }
+
+  // Master intake gauge reads the strongest supply
+  const intakePressurePsi = Math.max(0, ...Object.values(setup.intakePsi));
+
+  return {
+    ...base,
+    lineConfigs,
+    waterSource: setup.waterSource,
+    tankGallons: setup.tankGallons,
+    foam: { ...base.foam, tankGallons: setup.foamTankGallons },
+    intakePsi: { ...base.intakePsi, ...setup.intakePsi },
+    intakes: { ...base.intakes, ...setup.intakes },
+    intakePressurePsi,
+    elevationFt: setup.elevationFt,
+    draft: setup.draft ?? base.draft,
+    hydrant: setup.hydrant ?? (intakePressurePsi > 0 ? withStaticPsi(base.hydrant, intakePressurePsi) : base.hydrant),
+    activeFaults: (setup.faults.equipment ?? []).map(({ id, fault }) => ({ id, spec: fault, activeSec: 0 })),
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Tests for the pressure governor step response
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeStepResponse, autoTuneGovernor, runGovernorStepResponse, stepResponseCost } from './step-response';
+import type { StepResponseSample } from './step-response';
+import { PIERCE_PUC_PROFILE } from './pierce-puc';
+import type { GovernorTuning } from './model';
+
+function samplesOf(values: number[]): StepResponseSample[] {
+  return values.map((pdpPsi, i) => ({ timeSec: (i + 1) * 0.5, pdpPsi }));
+}
+
+function withTuning(governorTuning: GovernorTuning) {
+  return { ...PIERCE_PUC_PROFILE, pump: { ...PIERCE_PUC_PROFILE.pump, governorTuning } };
+}
+
+describe('analyzeStepResponse', () => {
+  it('measures rise, overshoot and settling on a step from 50 to 150 PSI', () => {
+    const metrics = analyzeStepResponse(samplesOf([55, 70, 100, 130, 145, 160, 155, 151, 150, 150]), 50, 150);
+    // 10% (60) at 1.0 s, 90% (140) at 2.5 s
+    expect(metrics.riseTimeSec).toBeCloseTo(1.5);
+    expect(metrics.overshootPct).toBeCloseTo(10);
+    // Within 3 PSI from 4.0 s on
+    expect(metrics.settlingTimeSec).toBeCloseTo(4);
+    expect(metrics.steadyStateErrorPsi).toBe(0);
+  });
+
+  it('reports a response that never gets there', () => {
+    const metrics = analyzeStepResponse(samplesOf([55, 60, 80, 100, 110, 115]), 50, 150);
+    expect(metrics.riseTimeSec).toBeNull();
+    expect(metrics.overshootPct).toBe(0);
+    expect(metrics.settlingTimeSec).toBeNull();
+    expect(metrics.steadyStateErrorPsi).toBe(35);
+  });
+});
+
+describe('runGovernorStepResponse', () => {
+  it('reports the Pierce PUC governor rising in seconds with a modest overshoot', () => {
+    const { samples, metrics } = runGovernorStepResponse(PIERCE_PUC_PROFILE);
+    expect(samples).toHaveLength(200);
+    expect(metrics.targetPsi).toBeGreaterThan(metrics.initialPsi + 50);
+    expect(metrics.riseTimeSec).toBeGreaterThan(1);
+    expect(metrics.riseTimeSec).toBeLessThan(3);
+    expect(metrics.overshootPct).toBeGreaterThan(2);
+    expect(metrics.overshootPct).toBeLessThan(15);
+    expect(metrics.settlingTimeSec).toBeLessThan(15);
+  });
+
+  it('responds faster with stiffer gains and never settles with too little gain', () => {
+    const base = runGovernorStepResponse(PIERCE_PUC_PROFILE).metrics;
+    const stiff = runGovernorStepResponse(withTuning({ kp: 1.5, ki: 0.3, kd: 0.02, integralLimit: 1000 })).metrics;
+    expect(stiff.riseTimeSec!).toBeLessThan(base.riseTimeSec!);
+    expect(stiff.settlingTimeSec!).toBeLessThan(base.settlingTimeSec!);
+
+    const sluggish = runGovernorStepResponse(withTuning({ kp: 0.2, ki: 0.02, kd: 0, integralLimit: 1000 })).metrics;
+    expect(sluggish.settlingTimeSec).toBeNull();
+  });
+});
+
+describe('autoTuneGovernor', () => {
+  it('scores a response by how far each figure misses its target', () => {
+    const metrics = analyzeStepResponse(samplesOf([55, 70, 100, 130, 145, 160, 155, 151, 150, 150]), 50, 150);
+    expect(stepResponseCost(metrics, { riseTimeSec: 1.5, overshootPct: 10, settlingTimeSec: 4 })).toBeCloseTo(0);
+    expect(stepResponseCost(metrics, { riseTimeSec: 3, overshootPct: 5, settlingTimeSec: 4 })).toBeCloseTo(1.5);
+
+    const never = analyzeStepResponse(samplesOf([55, 60, 80, 100, 110, 115]), 50, 150);
+    expect(stepResponseCost(never, { riseTimeSec: 1.5, overshootPct: 10, settlingTimeSec: 4 })).toBe(Infinity);
+  });
+
+  it('finds gains that bring the step response closer to a quicker target', () => {
+    const targets = { riseTimeSec: 1, overshootPct: 5, settlingTimeSec: 5 };
+    const before = stepResponseCost(runGovernorStepResponse(PIERCE_PUC_PROFILE).metrics, targets);
+    const { tuning, metrics } = autoTuneGovernor(PIERCE_PUC_PROFILE, targets, 30);
+
+    expect(stepResponseCost(metrics, targets)).toBeLessThan(before / 2);
+    expect(metrics.settlingTimeSec!).toBeLessThan(8);
+    expect(tuning.kp).toBeGreaterThan(PIERCE_PUC_PROFILE.pump.governorTuning?.kp ?? 0.6);
+    expect(tuning.integralLimit).toBe(1000);
+  });
+});
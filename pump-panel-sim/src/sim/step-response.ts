@@ -0,0 +1,259 @@
+/**
+ * Pressure governor step response
+ * Runs the simulation through a standard step (a line opened on a pump
+ * idling on tank in PRESSURE mode) and measures how the discharge pressure
+ * chases the governor's new target: rise time, overshoot and settling time.
+ * Used to tune a profile's governor to match the feel of the real rig, by
+ * hand or with a gain search toward target figures.
+ */
+
+import type { ApparatusProfile, DischargeId, GovernorTuning, PumpState } from './model';
+import { reducer } from './actions';
+import { simulateStep } from './engine';
+import { DEFAULT_GOVERNOR_TUNING, getGovernorTuning } from './governor';
+import { createInitialPumpState } from './pierce-puc';
+import { FIXED_DT_SEC } from './runner';
+
+/** Seconds the pump idles before the step */
+const IDLE_SETTLE_SEC = 2;
+
+/** Gains the auto-tune search adjusts; the integral limit is left as it is */
+const TUNED_GAINS = ['kp', 'ki', 'kd'] as const;
+
+/** Auto-tuned gains are kept to four decimal places */
+const GAIN_ROUNDING = 10000;
+
+/** Times the auto-tune halves its gain steps before it stops */
+const TUNE_REFINEMENTS = 4;
+
+/**
+ * One discharge pressure reading during the step
+ */
+export interface StepResponseSample {
+  /** Seconds since the step */
+  timeSec: number;
+  pdpPsi: number;
+}
+
+/**
+ * Step response figures; times are null when the response never got there
+ */
+export interface StepResponseMetrics {
+  /** Discharge pressure just before the step */
+  initialPsi: number;
+  /** Governor target after the step */
+  targetPsi: number;
+  /** Time from 10% to 90% of the step */
+  riseTimeSec: number | null;
+  /** Peak past the target as a percentage of the step */
+  overshootPct: number;
+  /** Time after which pressure stays within the settling band of the target */
+  settlingTimeSec: number | null;
+  /** Target less the final pressure */
+  steadyStateErrorPsi: number;
+}
+
+/**
+ * Step response the auto-tune aims for
+ */
+export interface StepResponseTargets {
+  riseTimeSec: number;
+  overshootPct: number;
+  settlingTimeSec: number;
+}
+
+export interface StepResponseOptions {
+  /** Discharge opened for the step (default xlay1) */
+  dischargeId?: DischargeId;
+  /** Seconds recorded after the step (default 20) */
+  durationSec?: number;
+  /** Settling band as a percentage of the target (default 2) */
+  settleBandPct?: number;
+}
+
+/**
+ * Measure a recorded step response
+ *
+ * @param samples - Discharge pressure from the step on
+ * @param initialPsi - Pressure just before the step
+ * @param targetPsi - Pressure the governor was driving to
+ * @param settleBandPct - Settling band as a percentage of the target
+ */
+export function analyzeStepResponse(
+  samples: StepResponseSample[],
+  initialPsi: number,
+  targetPsi: number,
+  settleBandPct: number = 2
+): StepResponseMetrics {
+  const step = targetPsi - initialPsi;
+  const direction = Math.sign(step) || 1;
+  const progress = (psi: number) => (step === 0 ? 1 : (psi - initialPsi) / step);
+
+  const at10 = samples.find(sample => progress(sample.pdpPsi) >= 0.1);
+  const at90 = samples.find(sample => progress(sample.pdpPsi) >= 0.9);
+  const riseTimeSec = at10 && at90 ? at90.timeSec - at10.timeSec : null;
+
+  const peakPastPsi = Math.max(0, ...samples.map(sample => (sample.pdpPsi - targetPsi) * direction));
+  const overshootPct = step === 0 ? 0 : (peakPastPsi / Math.abs(step)) * 100;
+
+  // Settled from the sample after the last one outside the band
+  const bandPsi = Math.abs(targetPsi) * (settleBandPct / 100);
+  let lastOutside = -1;
+  samples.forEach((sample, i) => {
+    if (Math.abs(sample.pdpPsi - targetPsi) > bandPsi) lastOutside = i;
+  });
+  const settlingTimeSec =
+    samples.length === 0 || lastOutside === samples.length - 1
+      ? null
+      : lastOutside < 0 ? 0 : samples[lastOutside + 1].timeSec;
+
+  const finalPsi = samples.length > 0 ? samples[samples.length - 1].pdpPsi : initialPsi;
+  return {
+    initialPsi,
+    targetPsi,
+    riseTimeSec,
+    overshootPct,
+    settlingTimeSec,
+    steadyStateErrorPsi: targetPsi - finalPsi,
+  };
+}
+
+/**
+ * Run the standard governor step on an apparatus
+ *
+ * The pump is engaged on tank in PRESSURE mode and left to idle, then one
+ * discharge is opened fully; the governor's target jumps to that line's
+ * required pressure.
+ *
+ * @param profile - Apparatus to test, with the governor tuning to try
+ * @param options - Line, duration and settling band
+ * @returns Pressure after the step and its measurements
+ */
+export function runGovernorStepResponse(
+  profile: ApparatusProfile,
+  options: StepResponseOptions = {}
+): { samples: StepResponseSample[]; metrics: StepResponseMetrics } {
+  const { dischargeId = 'xlay1', durationSec = 20, settleBandPct = 2 } = options;
+
+  let state: PumpState = createInitialPumpState(profile);
+  state = reducer(state, { type: 'PUMP_ENGAGE', engaged: true });
+  state = reducer(state, { type: 'TANK_TO_PUMP', open: true });
+  state = reducer(state, { type: 'GOVERNOR_MODE', mode: 'PRESSURE' });
+  for (let t = 0; t < IDLE_SETTLE_SEC; t += FIXED_DT_SEC) {
+    state = simulateStep(state, FIXED_DT_SEC).state;
+  }
+  const initialPsi = state.dischargePsi;
+
+  state = reducer(state, { type: 'DISCHARGE_OPEN', id: dischargeId, open: 1 });
+  const samples: StepResponseSample[] = [];
+  const steps = Math.round(durationSec / FIXED_DT_SEC);
+  for (let i = 1; i <= steps; i++) {
+    state = simulateStep(state, FIXED_DT_SEC).state;
+    samples.push({ timeSec: i * FIXED_DT_SEC, pdpPsi: state.dischargePsi });
+  }
+
+  return {
+    samples,
+    metrics: analyzeStepResponse(samples, initialPsi, state.governorState.targetPDP, settleBandPct),
+  };
+}
+
+/**
+ * How far a step response is from the targets
+ * Each figure's miss is taken relative to its target (overshoot relative to at
+ * least 1%) and the three are added. A response that never rises or settles
+ * is infinitely far.
+ *
+ * @returns 0 on target, larger the further off
+ */
+export function stepResponseCost(metrics: StepResponseMetrics, targets: StepResponseTargets): number {
+  const { riseTimeSec, overshootPct, settlingTimeSec } = metrics;
+  if (riseTimeSec === null || settlingTimeSec === null) return Infinity;
+  return Math.abs(riseTimeSec - targets.riseTimeSec) / targets.riseTimeSec +
+    Math.abs(overshootPct - targets.overshootPct) / Math.max(targets.overshootPct, 1) +
+    Math.abs(settlingTimeSec - targets.settlingTimeSec) / targets.settlingTimeSec;
+}
+
+/**
+ * Gains an auto-tune settled on, with their step response
+ */
+export interface AutoTuneResult {
+  tuning: GovernorTuning;
+  samples: StepResponseSample[];
+  metrics: StepResponseMetrics;
+}
+
+/**
+ * Search for pressure governor gains that give a step response near the targets, one step test at a time
+ *
+ * A pattern search from the profile's gains: each of Kp, Ki and Kd is nudged
+ * up and down by its step in turn and the move kept when the standard step
+ * test lands closer to the targets. Once no nudge helps the steps are halved.
+ * The search stops after a few halvings or when the step test budget runs out.
+ * Each step test is a full simulation run, so the search yields the number
+ * of tests run after each one; a caller on the UI thread can spread them
+ * across frames.
+ *
+ * @param profile - Apparatus to tune, starting from its governor tuning
+ * @param targets - Rise time, overshoot and settling time to aim for
+ * @param maxRuns - Most step tests to run (default 40)
+ * @param options - Line, duration and settling band for the step test
+ * @returns Best gains found with their step response
+ */
+export function* searchGovernorTuning(
+  profile: ApparatusProfile,
+  targets: StepResponseTargets,
+  maxRuns: number = 40,
+  options: StepResponseOptions = {}
+): Generator<number, AutoTuneResult, void> {
+  const test = (tuning: GovernorTuning) => {
+    const response = runGovernorStepResponse({ ...profile, pump: { ...profile.pump, governorTuning: tuning } }, options);
+    return { tuning, ...response, cost: stepResponseCost(response.metrics, targets) };
+  };
+
+  let best = test(getGovernorTuning(profile.pump));
+  let runs = 1;
+  yield runs;
+  // Steps start at half the Pierce PUC gains so a zero gain can still move
+  const steps = Object.fromEntries(TUNED_GAINS.map(key => [key, DEFAULT_GOVERNOR_TUNING[key] / 2])) as
+    Record<(typeof TUNED_GAINS)[number], number>;
+
+  for (let refinement = 0; refinement <= TUNE_REFINEMENTS && runs < maxRuns; ) {
+    let improved = false;
+    for (const key of TUNED_GAINS) {
+      for (const direction of [1, -1]) {
+        const gain = Math.round((best.tuning[key] + direction * steps[key]) * GAIN_ROUNDING) / GAIN_ROUNDING;
+        if (gain < 0 || runs >= maxRuns) continue;
+        const candidate = test({ ...best.tuning, [key]: gain });
+        runs++;
+        yield runs;
+        if (candidate.cost < best.cost) {
+          best = candidate;
+          improved = true;
+          break;
+        }
+      }
+    }
+    if (!improved) {
+      for (const key of TUNED_GAINS) steps[key] /= 2;
+      refinement++;
+    }
+  }
+
+  return { tuning: best.tuning, samples: best.samples, metrics: best.metrics };
+}
+
+/**
+ * Run a governor gain search to the end (see searchGovernorTuning)
+ */
+export function autoTuneGovernor(
+  profile: ApparatusProfile,
+  targets: StepResponseTargets,
+  maxRuns: number = 40,
+  options: StepResponseOptions = {}
+): AutoTuneResult {
+  const search = searchGovernorTuning(profile, targets, maxRuns, options);
+  let next = search.next();
+  while (!next.done) next = search.next();
+  return next.value;
+}
@@ -0,0 +1,51 @@
+/**
+ * Shared helpers for simulation tests
+ * Apply actions through the reducer and step the engine at the UI's fixed
+ * timestep, without the snapshot bookkeeping of SimulationRunner.
+ */
+
+import { reducer } from './actions';
+import type { Action } from './actions';
+import { simulateStep } from './engine';
+import type { SimulationDiagnostics } from './engine';
+import type { PumpState } from './model';
+import { FIXED_DT_SEC } from './runner';
+
+/**
+ * Apply actions in order through the reducer
+ */
+export function applyActions(state: PumpState, ...actions: Action[]): PumpState {
+  return actions.reduce(reducer, state);
+}
+
+/**
+ * Step the engine for a time and return the last step (at least one step)
+ *
+ * @param state - State to start from
+ * @param seconds - Simulated time to run
+ * @param each - Change to make to the state before each step (step index from 0)
+ * @returns State and diagnostics after the last step
+ */
+export function stepFor(
+  state: PumpState,
+  seconds: number,
+  each: (state: PumpState, i: number) => PumpState = current => current
+): { state: PumpState; diagnostics: SimulationDiagnostics } {
+  const steps = Math.max(1, Math.round(seconds / FIXED_DT_SEC));
+  let result = simulateStep(each(state, 0), FIXED_DT_SEC);
+  for (let i = 1; i < steps; i++) {
+    result = simulateStep(each(result.state, i), FIXED_DT_SEC);
+  }
+  return result;
+}
+
+/**
+ * Step the engine for a time and return the state
+ */
+export function runFor(
+  state: PumpState,
+  seconds: number,
+  each?: (state: PumpState, i: number) => PumpState
+): PumpState {
+  return stepFor(state, seconds, each).state;
+}
@@ -0,0 +1,146 @@
+/**
+ * React hook for session recording and replay
+ * Records the actions the provider dispatches and, while a replay is open,
+ * shows the replayed snapshot in place of the live simulation.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Action, SimulationSnapshot } from './actions';
+import { SessionRecorder, SessionReplay } from './recording';
+import type { SessionRecording } from './recording';
+import { systemClock } from './runner';
+
+/**
+ * Replay position and playback settings
+ */
+export interface ReplayStatus {
+  timeSec: number;
+  durationSec: number;
+  playing: boolean;
+  /** Playback speed multiplier */
+  speed: number;
+}
+
+/**
+ * Recording and replay controls exposed to the UI
+ */
+export interface SessionControls {
+  /** Whether a recording is in progress */
+  recording: boolean;
+  /** Most recently finished recording */
+  lastRecording: SessionRecording | null;
+  /** Open replay, or null when the panel shows the live simulation */
+  replay: ReplayStatus | null;
+  startRecording(): void;
+  stopRecording(): void;
+  /** Open the last recording for replay (paused at the start) */
+  startReplay(): void;
+  /** Close the replay and return to the live simulation */
+  stopReplay(): void;
+  setPlaying(playing: boolean): void;
+  setSpeed(speed: number): void;
+  seek(timeSec: number): void;
+}
+
+/**
+ * Wrap the simulation dispatch with recording and replay
+ *
+ * The live simulation is paused and control actions are ignored while a
+ * replay is open, so a debrief can't change what happened.
+ *
+ * @param live - Live simulation snapshot
+ * @param dispatch - Simulation reducer dispatch
+ * @returns Snapshot to display, recording dispatch and session controls
+ */
+export function useSessionRecording(live: SimulationSnapshot, dispatch: React.Dispatch<Action>) {
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const replayRef = useRef<SessionReplay | null>(null);
+  const liveRef = useRef(live);
+  const [recording, setRecording] = useState(false);
+  const [lastRecording, setLastRecording] = useState<SessionRecording | null>(null);
+  const [replayed, setReplayed] = useState<SimulationSnapshot | null>(null);
+  const [replay, setReplay] = useState<ReplayStatus | null>(null);
+
+  useEffect(() => {
+    liveRef.current = live;
+  }, [live]);
+
+  const recordingDispatch = useCallback((action: Action) => {
+    if (replayRef.current) {
+      if (action.type !== 'TICK') console.warn('Close the replay to operate the panel');
+      return;
+    }
+    recorderRef.current?.record(action);
+    dispatch(action);
+  }, [dispatch]);
+
+  // Publish the replay position after it moves
+  const showReplay = useCallback((changes: Partial<ReplayStatus> = {}) => {
+    const session = replayRef.current;
+    if (!session) return;
+    setReplayed(session.snapshot);
+    setReplay(current => current && {
+      ...current,
+      ...changes,
+      timeSec: session.timeSec,
+      playing: (changes.playing ?? current.playing) && !session.finished,
+    });
+  }, []);
+
+  // Playback loop: advance by real elapsed time times the speed
+  const playing = replay?.playing ?? false;
+  const speed = replay?.speed ?? 1;
+  useEffect(() => {
+    if (!playing) return;
+    let lastFrameTime = systemClock.now();
+    let frame = 0;
+    const play = () => {
+      const now = systemClock.now();
+      replayRef.current?.advance(((now - lastFrameTime) / 1000) * speed);
+      lastFrameTime = now;
+      showReplay();
+      frame = requestAnimationFrame(play);
+    };
+    frame = requestAnimationFrame(play);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, showReplay]);
+
+  const controls = useMemo<SessionControls>(() => ({
+    recording,
+    lastRecording,
+    replay,
+    startRecording: () => {
+      recorderRef.current = new SessionRecorder(liveRef.current);
+      setRecording(true);
+    },
+    stopRecording: () => {
+      if (recorderRef.current) setLastRecording(recorderRef.current.getRecording());
+      recorderRef.current = null;
+      setRecording(false);
+    },
+    startReplay: () => {
+      if (!lastRecording) return;
+      const session = new SessionReplay(lastRecording);
+      replayRef.current = session;
+      setReplayed(session.snapshot);
+      setReplay({ timeSec: session.timeSec, durationSec: session.durationSec, playing: false, speed: 1 });
+    },
+    stopReplay: () => {
+      replayRef.current = null;
+      setReplayed(null);
+      setReplay(null);
+    },
+    setPlaying: (next) => {
+      // Playing from the end starts over
+      if (next && replayRef.current?.finished) replayRef.current.seek(0);
+      showReplay({ playing: next });
+    },
+    setSpeed: (next) => showReplay({ speed: next }),
+    seek: (timeSec) => {
+      replayRef.current?.seek(timeSec);
+      showReplay();
+    },
+  }), [recording, lastRecording, replay, showReplay]);
+
+  return { snapshot: replayed ?? live, dispatch: recordingDispatch, session: controls };
+}
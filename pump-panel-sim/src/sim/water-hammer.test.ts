@@ -0,0 +1,102 @@
+/**
+ * Tests for water hammer from discharge valve closures
+ */
+
+import { describe, it, expect } from 'vitest';
+import { joukowskySurgePsi, WATER_HAMMER_WARNING } from './water-hammer';
+import { reducer } from './actions';
+import { simulateStep } from './engine';
+import { createInitialPumpState } from './pierce-puc';
+import type { DischargeId, PumpState } from './model';
+import { runFor } from './test-helpers';
+
+/** Pump on tank flowing crosslays 1 and 2 at a steady pressure */
+function flowing(drvEnabled: boolean): PumpState {
+  let state = createInitialPumpState();
+  state = reducer(state, { type: 'PUMP_ENGAGE', engaged: true });
+  state = reducer(state, { type: 'TANK_TO_PUMP', open: true });
+  state = reducer(state, { type: 'DRV_TOGGLE', enabled: drvEnabled });
+  state = reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 });
+  state = reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay2', open: 1 });
+  return runFor(state, 15);
+}
+
+/** Close a line evenly over a number of seconds, returning the state and the highest discharge pressure */
+function close(state: PumpState, id: DischargeId, seconds: number) {
+  let next = state;
+  let peakPsi = state.dischargePsi;
+  const steps = Math.round(seconds / 0.1);
+  for (let i = 1; i <= steps; i++) {
+    next = reducer(next, { type: 'DISCHARGE_OPEN', id, open: 1 - i / steps });
+    next = simulateStep(next, 0.1).state;
+    peakPsi = Math.max(peakPsi, next.dischargePsi);
+  }
+  return { state: next, peakPsi };
+}
+
+function hammerWarnings(state: PumpState): string[] {
+  return Array.from(state.warnings).filter(warning => warning.startsWith(WATER_HAMMER_WARNING));
+}
+
+describe('joukowskySurgePsi', () => {
+  it('grows with the flow stopped', () => {
+    // 150 GPM in 1.75" hose is about 20 ft/s
+    expect(joukowskySurgePsi(150, 1.75, 200, 0.1)).toBeCloseTo(270, 0);
+    expect(joukowskySurgePsi(75, 1.75, 200, 0.1)).toBeCloseTo(joukowskySurgePsi(150, 1.75, 200, 0.1) / 2);
+    expect(joukowskySurgePsi(0, 1.75, 200, 0.1)).toBe(0);
+  });
+
+  it('is smaller in bigger hose and for closures slower than the wave round trip', () => {
+    expect(joukowskySurgePsi(150, 2.5, 200, 0.1)).toBeLessThan(joukowskySurgePsi(150, 1.75, 200, 0.1));
+    // 200 ft round trip is 0.4 s
+    expect(joukowskySurgePsi(150, 1.75, 200, 0.8)).toBeCloseTo(joukowskySurgePsi(150, 1.75, 200, 0.4) / 2);
+  });
+});
+
+describe('water hammer in the simulation', () => {
+  it('spikes discharge pressure when a flowing line is slammed shut', () => {
+    const before = flowing(false);
+    const { state, peakPsi } = close(before, 'xlay1', 0.1);
+    expect(peakPsi - before.dischargePsi).toBeGreaterThan(200);
+    expect(state.waterHammer.eventCount).toBe(1);
+    expect(hammerWarnings(state)).toEqual([expect.stringContaining('XLAY 1 closed too fast')]);
+  });
+
+  it('surges less the slower the valve closes', () => {
+    const before = flowing(false);
+    const slammed = close(before, 'xlay1', 0.1);
+    const quick = close(before, 'xlay1', 1);
+    const slow = close(before, 'xlay1', 5);
+    expect(quick.peakPsi).toBeLessThan(slammed.peakPsi);
+    expect(slow.peakPsi).toBeLessThan(quick.peakPsi);
+    expect(slow.state.waterHammer.eventCount).toBe(0);
+    expect(hammerWarnings(slow.state)).toEqual([]);
+  });
+
+  it('is relieved by the DRV', () => {
+    const withoutDrv = close(flowing(false), 'xlay1', 0.1);
+    const withDrv = close(flowing(true), 'xlay1', 0.1);
+    expect(withDrv.peakPsi).toBeLessThan(withoutDrv.peakPsi);
+    expect(withDrv.state.drv.bypassGpm).toBeGreaterThan(0);
+    // Relief doesn't excuse the operator error
+    expect(withDrv.state.waterHammer.eventCount).toBe(1);
+  });
+
+  it('dies out and clears the warning', () => {
+    const { state } = close(flowing(false), 'xlay1', 0.1);
+    const later = runFor(state, 6);
+    expect(later.waterHammer.surgePsi).toBeLessThan(1);
+    expect(hammerWarnings(later)).toEqual([]);
+    expect(later.waterHammer.eventCount).toBe(1);
+  });
+
+  it('ignores closing a line that was not flowing', () => {
+    let state = reducer(createInitialPumpState(), { type: 'PUMP_ENGAGE', engaged: true });
+    state = reducer(state, { type: 'TANK_TO_PUMP', open: true });
+    state = reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 });
+    state = reducer(state, { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 0 });
+    state = runFor(state, 1);
+    expect(state.waterHammer.surgePsi).toBe(0);
+    expect(state.waterHammer.eventCount).toBe(0);
+  });
+});
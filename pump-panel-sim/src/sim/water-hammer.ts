@@ -0,0 +1,149 @@
+/**
+ * Water hammer
+ * Closing a discharge on a flowing line stops the water column, and the
+ * momentum comes back as a pressure surge (Joukowsky: ΔP = ρ·a·Δv). The
+ * surge is proportional to the flow stopped and how fast the valve closed,
+ * adds to pump discharge pressure until it dies out, and is relieved by the
+ * DRV like any other overpressure. A closure fast enough to cause a serious
+ * surge is flagged as an operator error.
+ */
+
+import type { DischargeId, PumpState, WaterHammerState } from './model';
+import { getHoseSegments, layoutLengthFt } from './hose-layout';
+import { getDischargeLabel } from './utils';
+
+/** Pressure wave speed in rubber-lined fire hose in ft/s (well below steel pipe, as the jacket stretches) */
+export const HOSE_WAVE_SPEED_FT_PER_SEC = 1000;
+
+/** Time constant of the surge dying out in the hose in seconds */
+export const SURGE_DECAY_SEC = 0.25;
+
+/** Surge that counts as an operator error (a flowing line closed in under about 3 s) */
+export const WATER_HAMMER_ERROR_PSI = 80;
+
+/** Seconds the water hammer warning stays up after the surge peaks */
+export const WATER_HAMMER_WARNING_HOLD_SEC = 5;
+
+/** Warning raised when a valve is closed fast enough to cause water hammer */
+export const WATER_HAMMER_WARNING = '⚠️ WATER HAMMER';
+
+/** Water density in slugs per cubic foot */
+const WATER_DENSITY_SLUG_PER_FT3 = 1.94;
+
+/** Cubic feet per second per GPM */
+const CFS_PER_GPM = 0.002228;
+
+/**
+ * Water hammer state for a pump with every discharge closed
+ */
+export function createWaterHammerState(dischargeValvePct: Record<DischargeId, number>): WaterHammerState {
+  return {
+    lastValvePct: { ...dischargeValvePct },
+    lastFlowGpm: {},
+    surgePsi: 0,
+    lastEvent: null,
+    eventCount: 0,
+  };
+}
+
+/**
+ * Joukowsky surge from stopping part of a line's flow
+ *
+ * A closure slower than the wave's round trip along the hose (2L/a) is
+ * partly relieved by the reflected wave before it completes.
+ *
+ * @param stoppedGpm - Flow stopped by the closure in GPM
+ * @param diameterIn - Hose diameter at the pump in inches
+ * @param lengthFt - Hose length in feet
+ * @param closureSec - Time the closure took in seconds
+ * @returns Pressure surge in PSI
+ */
+export function joukowskySurgePsi(stoppedGpm: number, diameterIn: number, lengthFt: number, closureSec: number): number {
+  if (stoppedGpm <= 0 || diameterIn <= 0) return 0;
+  const areaFt2 = Math.PI * (diameterIn / 12 / 2) ** 2;
+  const velocityFtPerSec = (stoppedGpm * CFS_PER_GPM) / areaFt2;
+  const fullSurgePsi = (WATER_DENSITY_SLUG_PER_FT3 * HOSE_WAVE_SPEED_FT_PER_SEC * velocityFtPerSec) / 144;
+  const roundTripSec = (2 * lengthFt) / HOSE_WAVE_SPEED_FT_PER_SEC;
+  return fullSurgePsi * Math.min(1, roundTripSec / Math.max(closureSec, 1e-6));
+}
+
+/**
+ * Surge from the discharge valves closed since the last step
+ *
+ * Flow on a closing line is taken to fall in proportion to the valve
+ * position. The previous surge decays; the step's new surge adds to it.
+ *
+ * @param state - Pump state at the start of the step
+ * @param deltaTimeSeconds - Time step in seconds
+ * @returns Water hammer state with the step's surge and any new operator error
+ */
+export function updateWaterHammer(state: PumpState, deltaTimeSeconds: number): WaterHammerState {
+  const hammer = state.waterHammer;
+  let stepSurgePsi = 0;
+  let worst: { id: DischargeId; surgePsi: number; closureRatePctPerSec: number } | null = null;
+
+  for (const [id, flowGpm] of Object.entries(hammer.lastFlowGpm) as [DischargeId, number][]) {
+    const lastPct = hammer.lastValvePct[id] ?? 0;
+    const pct = state.dischargeValvePct[id] ?? 0;
+    if (flowGpm <= 0 || lastPct <= 0 || pct >= lastPct) continue;
+
+    const config = state.lineConfigs[id];
+    const stoppedGpm = flowGpm * ((lastPct - pct) / lastPct);
+    const surgePsi = joukowskySurgePsi(
+      stoppedGpm,
+      getHoseSegments(config)[0].diameterIn,
+      layoutLengthFt(config),
+      deltaTimeSeconds
+    );
+    stepSurgePsi += surgePsi;
+    if (!worst || surgePsi > worst.surgePsi) {
+      worst = { id, surgePsi, closureRatePctPerSec: (lastPct - pct) / deltaTimeSeconds };
+    }
+  }
+
+  const surgePsi = hammer.surgePsi * Math.exp(-deltaTimeSeconds / SURGE_DECAY_SEC) + stepSurgePsi;
+
+  // The event ages until the warning drops; a fresh serious surge starts a new one
+  let lastEvent = hammer.lastEvent && { ...hammer.lastEvent, ageSec: hammer.lastEvent.ageSec + deltaTimeSeconds };
+  let eventCount = hammer.eventCount;
+  if (worst && surgePsi >= WATER_HAMMER_ERROR_PSI) {
+    if (!lastEvent || lastEvent.ageSec > WATER_HAMMER_WARNING_HOLD_SEC) {
+      lastEvent = { dischargeId: worst.id, peakSurgePsi: surgePsi, closureRatePctPerSec: worst.closureRatePctPerSec, ageSec: 0 };
+      eventCount++;
+    } else if (surgePsi > lastEvent.peakSurgePsi) {
+      lastEvent = { ...lastEvent, peakSurgePsi: surgePsi, ageSec: 0 };
+    }
+  }
+
+  return { ...hammer, surgePsi, lastEvent, eventCount };
+}
+
+/**
+ * Remember valve positions and flows at the end of a step for the next one
+ *
+ * @param hammer - Water hammer state for the step
+ * @param dischargeValvePct - Valve positions after the step
+ * @param lineFlows - Flow on each line after the step
+ */
+export function recordLineFlows(
+  hammer: WaterHammerState,
+  dischargeValvePct: Record<DischargeId, number>,
+  lineFlows: { id: DischargeId; flowGpm: number }[]
+): WaterHammerState {
+  const lastFlowGpm: Partial<Record<DischargeId, number>> = {};
+  for (const { id, flowGpm } of lineFlows) {
+    if (flowGpm > 0) lastFlowGpm[id] = flowGpm;
+  }
+  return { ...hammer, lastValvePct: dischargeValvePct, lastFlowGpm };
+}
+
+/**
+ * Operator error warning while a recent water hammer event is held
+ */
+export function getWaterHammerWarnings(hammer: WaterHammerState): string[] {
+  const event = hammer.lastEvent;
+  if (!event || event.ageSec > WATER_HAMMER_WARNING_HOLD_SEC) return [];
+  return [
+    `${WATER_HAMMER_WARNING}: ${getDischargeLabel(event.dischargeId)} closed too fast (+${Math.round(event.peakSurgePsi)} PSI) - close valves slowly`,
+  ];
+}
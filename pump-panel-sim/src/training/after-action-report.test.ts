@@ -0,0 +1,118 @@
+/**
+ * Tests for after-action reports
+ */
+
+import { describe, it, expect } from 'vitest';
+import { categorizeWarning, createAfterActionReport, renderAfterActionHtml } from './after-action-report';
+import { SessionRecorder } from '../sim/recording';
+import { createInitialSnapshot } from '../sim/actions';
+import type { Action } from '../sim/actions';
+
+const tick: Action = { type: 'TICK', deltaTime: 0.1 };
+
+/** Engage on tank, run hot with nothing flowing, then flow crosslay 1 to cool the pump */
+function session(): Action[] {
+  return [
+    { type: 'PUMP_ENGAGE', engaged: true },
+    { type: 'TANK_TO_PUMP', open: true },
+    ...Array<Action>(50).fill(tick),
+    { type: 'SETPOINT', value: 100 },
+    ...Array<Action>(300).fill(tick),
+    { type: 'DISCHARGE_OPEN', id: 'xlay1', open: 1 },
+    ...Array<Action>(300).fill(tick),
+    { type: 'SETPOINT', value: 30 },
+    ...Array<Action>(300).fill(tick),
+  ];
+}
+
+function report(actions: Action[] = session()) {
+  const recorder = new SessionRecorder(createInitialSnapshot());
+  for (const action of actions) recorder.record(action);
+  return createAfterActionReport(recorder.getRecording(), { generatedAt: new Date(0) });
+}
+
+describe('createAfterActionReport', () => {
+  it('times warnings from when they were raised until they cleared', () => {
+    const { warnings } = report();
+    const temperature = warnings.filter(event => event.category === 'temperature');
+    expect(temperature.length).toBeGreaterThan(0);
+    // The pump heats up while dead-heading and cools once the crosslay flows
+    expect(temperature[0].raisedAtSec).toBeGreaterThan(5);
+    expect(temperature[0].raisedAtSec).toBeLessThan(35);
+    for (const event of warnings) {
+      expect(event.clearedAtSec).not.toBeNull();
+      expect(event.clearedAtSec!).toBeGreaterThan(event.raisedAtSec);
+    }
+    // A changing temperature reading is one warning, not one per step
+    expect(new Set(warnings.map(event => event.raisedAtSec)).size).toBeLessThan(warnings.length);
+    expect(warnings.map(event => event.raisedAtSec)).toEqual(
+      [...warnings.map(event => event.raisedAtSec)].sort((a, b) => a - b)
+    );
+  });
+
+  it('reports flow, pressure and water for each line', () => {
+    const result = report();
+    expect(result.lines).toHaveLength(1);
+    const [line] = result.lines;
+    expect(line.label).toBe('XLAY 1');
+    expect(line.flowingSec).toBeCloseTo(60, 0);
+    expect(line.outOfBandSec).toBeGreaterThan(0);
+    expect(line.outOfBandSec).toBeLessThan(line.flowingSec);
+    expect(result.waterUsedGallons).toBeCloseTo(line.gallons);
+    expect(result.foamUsedGallons).toBe(0);
+    expect(result.maxPdpPsi).toBeGreaterThan(100);
+    expect(result.durationSec).toBeCloseTo(95);
+  });
+
+  it('times checklist steps and scores what was missed', () => {
+    const result = report();
+    const times = Object.fromEntries(result.checklist.map(step => [step.id, step.completedAtSec]));
+    expect(times.engage_pump).toBeCloseTo(0.1);
+    expect(times.open_tank_to_pump).toBeCloseTo(0.1);
+    expect(times.crack_tank_fill).toBeNull();
+
+    const missed = result.checklist.filter(step => step.completedAtSec === null).length;
+    expect(result.deductions).toContainEqual({ reason: `${missed} checklist steps not completed`, points: missed * 5 });
+    // Overheating then boiling is one temperature episode
+    expect(result.deductions).toContainEqual({ reason: '1 temperature episode', points: 10 });
+    expect(result.score).toBe(100 - result.deductions.reduce((sum, deduction) => sum + deduction.points, 0));
+  });
+
+  it('gives a clean session no warnings or line deductions', () => {
+    const result = report([
+      { type: 'PUMP_ENGAGE', engaged: true },
+      { type: 'TANK_TO_PUMP', open: true },
+      ...Array<Action>(50).fill(tick),
+    ]);
+    expect(result.warnings).toEqual([]);
+    expect(result.lines).toEqual([]);
+    expect(result.title).toBe('Pump operations session');
+    expect(result.generatedAt).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('exports as JSON', () => {
+    const result = report();
+    expect(JSON.parse(JSON.stringify(result))).toEqual(result);
+  });
+});
+
+describe('categorizeWarning', () => {
+  it('sorts engine warnings into report categories', () => {
+    expect(categorizeWarning('HIGH VACUUM: Risk of cavitation')).toBe('cavitation');
+    expect(categorizeWarning('DANGER: OVERPRESSURE (400 PSI MAX)')).toBe('overpressure');
+    expect(categorizeWarning('⚠️ WATER HAMMER: XLAY 1 closed too fast (+270 PSI) - close valves slowly')).toBe('water_hammer');
+    expect(categorizeWarning('Tank water low: 120 gal remaining')).toBe('tank');
+    expect(categorizeWarning('⚠️ Pump Overheating: 201°F')).toBe('temperature');
+    expect(categorizeWarning('Increase flow or enable recirculation to cool pump')).toBe('other');
+  });
+});
+
+describe('renderAfterActionHtml', () => {
+  it('renders a printable page with the report escaped', () => {
+    const html = renderAfterActionHtml({ ...report(), title: 'Crew <B> & drill' });
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Crew &lt;B&gt; &amp; drill</title>');
+    expect(html).toContain('XLAY 1');
+    expect(html).toContain('@media print');
+  });
+});
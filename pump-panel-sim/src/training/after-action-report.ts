@@ -0,0 +1,399 @@
+/**
+ * After-action reports
+ * Replays a recorded session and summarizes what happened for training
+ * records: the warnings raised and when, time each line spent outside its
+ * pressure band, peak discharge pressure, water and foam used, startup
+ * checklist times, scenario results and a score. Reports export as JSON and
+ * as printable HTML.
+ */
+
+import { simulationReducer } from '../sim/actions';
+import type { SimulationSnapshot } from '../sim/actions';
+import type { SimulationDiagnostics } from '../sim/engine';
+import type { DischargeId, PumpState } from '../sim/model';
+import { ratedNozzlePressure } from '../sim/network-solver';
+import type { SessionRecording } from '../sim/recording';
+import { getDischargeLabel } from '../sim/utils';
+import { PIERCE_PUC_STARTUP } from './startup-checklist';
+import type { ChecklistStep } from './startup-checklist';
+import { getScenarioResult } from './scenario-runtime';
+import type { ScenarioResult } from './scenario-runtime';
+
+/** Nozzle pressure counts as on target within this many PSI of rated */
+export const PRESSURE_BAND_PSI = 10;
+
+export const WARNING_CATEGORIES = ['cavitation', 'overpressure', 'water_hammer', 'tank', 'temperature', 'other'] as const;
+export type WarningCategory = typeof WARNING_CATEGORIES[number];
+
+/** Points lost per episode of a warning category */
+export const WARNING_DEDUCTIONS: Record<WarningCategory, number> = {
+  cavitation: 10,
+  overpressure: 15,
+  water_hammer: 15,
+  tank: 5,
+  temperature: 10,
+  other: 0,
+};
+
+/** Points lost per minute a line spends outside its pressure band */
+export const OUT_OF_BAND_POINTS_PER_MIN = 5;
+
+/** Points lost per startup checklist step never completed */
+export const CHECKLIST_STEP_POINTS = 5;
+
+/** Points lost per scenario fault and per failed scenario objective */
+export const SCENARIO_POINTS = 10;
+
+/** Status messages that aren't problems and stay out of the timeline */
+const STATUS_MESSAGE = /^(TANK FILL|RECIRC):/;
+
+/**
+ * Warning raised during the session
+ */
+export interface WarningEvent {
+  /** Warning text when first raised */
+  warning: string;
+  category: WarningCategory;
+  raisedAtSec: number;
+  /** When the warning went away, or null if still up at the end */
+  clearedAtSec: number | null;
+}
+
+/**
+ * Pressure band summary for one discharge
+ */
+export interface LineReport {
+  id: DischargeId;
+  label: string;
+  /** Seconds the line was flowing */
+  flowingSec: number;
+  /** Seconds a nozzle on the line was more than PRESSURE_BAND_PSI from rated while flowing */
+  outOfBandSec: number;
+  /** Water the line delivered in gallons */
+  gallons: number;
+}
+
+/**
+ * Checklist step and when it was first satisfied
+ */
+export interface ChecklistTiming {
+  id: string;
+  description: string;
+  /** Null if the step was never completed */
+  completedAtSec: number | null;
+}
+
+/**
+ * Points lost and why
+ */
+export interface ScoreDeduction {
+  reason: string;
+  points: number;
+}
+
+/**
+ * After-action report for one recorded session
+ */
+export interface AfterActionReport {
+  title: string;
+  /** ISO timestamp the report was generated */
+  generatedAt: string;
+  durationSec: number;
+  warnings: WarningEvent[];
+  lines: LineReport[];
+  maxPdpPsi: number;
+  maxPdpAtSec: number;
+  waterUsedGallons: number;
+  foamUsedGallons: number;
+  checklist: ChecklistTiming[];
+  /** Result of the scenario running at the end of the session, if any */
+  scenario: ScenarioResult | null;
+  /** 0-100 */
+  score: number;
+  deductions: ScoreDeduction[];
+}
+
+/**
+ * Options for generating a report
+ */
+export interface AfterActionOptions {
+  /** Report title (defaults to the scenario title, or "Pump operations session") */
+  title?: string;
+  /** When the report was generated (defaults to now) */
+  generatedAt?: Date;
+  /** Checklist to time (defaults to the Pierce PUC startup checklist) */
+  checklist?: ChecklistStep[];
+}
+
+/**
+ * Sort a warning into a report category
+ */
+export function categorizeWarning(warning: string): WarningCategory {
+  if (/CAVITATION|HIGH VACUUM/i.test(warning)) return 'cavitation';
+  if (/WATER HAMMER/i.test(warning)) return 'water_hammer';
+  if (/OVERPRESSURE|BURST|High discharge pressure|400 PSI/i.test(warning)) return 'overpressure';
+  if (/TANK EMPTY|Tank critically low|Tank water low/i.test(warning)) return 'tank';
+  if (/overheating|boiling|temperature elevated/i.test(warning)) return 'temperature';
+  return 'other';
+}
+
+/**
+ * Warning text with its readings masked, so a countdown or falling tank
+ * level reads as one warning rather than a new one every step
+ */
+function warningKey(warning: string): string {
+  return warning.replace(/\d+(\.\d+)?/g, '#');
+}
+
+/**
+ * Whether every nozzle a flowing line supplies is within its pressure band
+ */
+function lineInBand(state: PumpState, id: DischargeId, diagnostics: SimulationDiagnostics): boolean {
+  const hydraulics = diagnostics.lineHydraulics.get(id);
+  if (!hydraulics) return true;
+  const relay = state.relayLoads[id];
+  if (relay) return Math.abs(hydraulics.nozzlePressure - relay.residualPsi) <= PRESSURE_BAND_PSI;
+
+  const config = state.lineConfigs[id];
+  const branches = config.branches;
+  if (hydraulics.branches && branches) {
+    return hydraulics.branches.every(branch => {
+      const nozzle = branches.find(candidate => candidate.id === branch.id)?.nozzle;
+      return branch.flow <= 0 || !nozzle ||
+        Math.abs(branch.nozzlePressure - ratedNozzlePressure(nozzle.type)) <= PRESSURE_BAND_PSI;
+    });
+  }
+  return Math.abs(hydraulics.nozzlePressure - ratedNozzlePressure(config.nozzle.type)) <= PRESSURE_BAND_PSI;
+}
+
+/**
+ * Number of separate episodes of a warning category
+ * Warnings that overlap or follow on from each other, such as a pump
+ * overheating then boiling, count as one episode.
+ */
+function countEpisodes(warnings: WarningEvent[], category: WarningCategory): number {
+  let episodes = 0;
+  let episodeEndSec: number | null = -Infinity;
+  for (const event of warnings) {
+    if (event.category !== category) continue;
+    if (episodeEndSec !== null && event.raisedAtSec > episodeEndSec) episodes++;
+    episodeEndSec = episodeEndSec === null || event.clearedAtSec === null
+      ? null
+      : Math.max(episodeEndSec, event.clearedAtSec);
+  }
+  return episodes;
+}
+
+/**
+ * Score a report from its warnings, pressure bands, checklist and scenario
+ */
+function scoreReport(report: Omit<AfterActionReport, 'score' | 'deductions'>): ScoreDeduction[] {
+  const deductions: ScoreDeduction[] = [];
+  for (const category of WARNING_CATEGORIES) {
+    const count = countEpisodes(report.warnings, category);
+    if (count > 0 && WARNING_DEDUCTIONS[category] > 0) {
+      deductions.push({ reason: `${count} ${category.replace('_', ' ')} episode${count === 1 ? '' : 's'}`, points: count * WARNING_DEDUCTIONS[category] });
+    }
+  }
+  for (const line of report.lines) {
+    const points = Math.round((line.outOfBandSec / 60) * OUT_OF_BAND_POINTS_PER_MIN);
+    if (points > 0) {
+      deductions.push({ reason: `${line.label} out of pressure band ${line.outOfBandSec.toFixed(0)} s`, points });
+    }
+  }
+  const missed = report.checklist.filter(step => step.completedAtSec === null).length;
+  if (missed > 0) {
+    deductions.push({ reason: `${missed} checklist step${missed === 1 ? '' : 's'} not completed`, points: missed * CHECKLIST_STEP_POINTS });
+  }
+  if (report.scenario) {
+    const { faults, objectives } = report.scenario;
+    if (faults.length > 0) {
+      deductions.push({ reason: `${faults.length} scenario fault${faults.length === 1 ? '' : 's'}`, points: faults.length * SCENARIO_POINTS });
+    }
+    const failed = objectives.filter(objective => objective.status === 'failed').length;
+    if (failed > 0) {
+      deductions.push({ reason: `${failed} scenario objective${failed === 1 ? '' : 's'} failed`, points: failed * SCENARIO_POINTS });
+    }
+  }
+  return deductions;
+}
+
+/**
+ * Replay a recorded session and summarize it
+ *
+ * @param recording - Recorded session
+ * @param options - Title, timestamp and checklist
+ * @returns After-action report
+ */
+export function createAfterActionReport(
+  recording: SessionRecording,
+  options: AfterActionOptions = {}
+): AfterActionReport {
+  const checklist = options.checklist ?? PIERCE_PUC_STARTUP;
+  let snapshot: SimulationSnapshot = recording.keyframes[0].snapshot;
+  let timeSec = 0;
+
+  const warnings: WarningEvent[] = [];
+  const openWarnings = new Map<string, WarningEvent>();
+  const lines = new Map<DischargeId, LineReport>();
+  const checklistTimes: ChecklistTiming[] = checklist.map(step => ({
+    id: step.id,
+    description: step.description,
+    completedAtSec: null,
+  }));
+  let maxPdpPsi = 0;
+  let maxPdpAtSec = 0;
+  let waterUsedGallons = 0;
+  let foamUsedGallons = 0;
+
+  // Sample the state after each simulation step
+  const sample = (deltaTime: number) => {
+    const { state, diagnostics } = snapshot;
+
+    const current = new Set<string>();
+    for (const warning of state.warnings) {
+      if (STATUS_MESSAGE.test(warning)) continue;
+      const key = warningKey(warning);
+      current.add(key);
+      if (!openWarnings.has(key)) {
+        const event: WarningEvent = { warning, category: categorizeWarning(warning), raisedAtSec: timeSec, clearedAtSec: null };
+        warnings.push(event);
+        openWarnings.set(key, event);
+      }
+    }
+    for (const [key, event] of openWarnings) {
+      if (!current.has(key)) {
+        event.clearedAtSec = timeSec;
+        openWarnings.delete(key);
+      }
+    }
+
+    for (const [id, hydraulics] of diagnostics.lineHydraulics) {
+      if (hydraulics.flow <= 0) continue;
+      const line = lines.get(id) ?? { id, label: getDischargeLabel(id), flowingSec: 0, outOfBandSec: 0, gallons: 0 };
+      line.flowingSec += deltaTime;
+      line.gallons += hydraulics.flow * (deltaTime / 60);
+      if (!lineInBand(state, id, diagnostics)) line.outOfBandSec += deltaTime;
+      lines.set(id, line);
+    }
+
+    if (state.dischargePsi > maxPdpPsi) {
+      maxPdpPsi = state.dischargePsi;
+      maxPdpAtSec = timeSec;
+    }
+    waterUsedGallons += diagnostics.totalWaterGpm * (deltaTime / 60);
+    foamUsedGallons += diagnostics.foamConcentrateGpm * (deltaTime / 60);
+
+    checklist.forEach((step, i) => {
+      if (checklistTimes[i].completedAtSec === null && step.check(state)) {
+        checklistTimes[i].completedAtSec = timeSec;
+      }
+    });
+  };
+
+  for (const entry of recording.entries) {
+    if (entry.type === 'ACTION') {
+      snapshot = simulationReducer(snapshot, entry.action);
+      continue;
+    }
+    for (let i = 0; i < entry.count; i++) {
+      snapshot = simulationReducer(snapshot, { type: 'TICK', deltaTime: entry.deltaTime });
+      timeSec += entry.deltaTime;
+      sample(entry.deltaTime);
+    }
+  }
+
+  const scenario = snapshot.scenario ? getScenarioResult(snapshot.scenario) : null;
+  const summary = {
+    title: options.title ?? snapshot.scenario?.scenario.title ?? 'Pump operations session',
+    generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+    durationSec: recording.durationSec,
+    warnings,
+    lines: Array.from(lines.values()),
+    maxPdpPsi,
+    maxPdpAtSec,
+    waterUsedGallons,
+    foamUsedGallons,
+    checklist: checklistTimes,
+    scenario,
+  };
+  const deductions = scoreReport(summary);
+  const score = Math.max(0, 100 - deductions.reduce((sum, deduction) => sum + deduction.points, 0));
+  return { ...summary, score, deductions };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatSec(seconds: number | null): string {
+  return seconds === null ? '—' : `${seconds.toFixed(1)} s`;
+}
+
+function table(headings: string[], rows: string[][]): string {
+  if (rows.length === 0) return '<p>None</p>';
+  const head = headings.map(heading => `<th>${escapeHtml(heading)}</th>`).join('');
+  const body = rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n');
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+/**
+ * Render a report as a standalone, printable HTML page
+ */
+export function renderAfterActionHtml(report: AfterActionReport): string {
+  const title = escapeHtml(report.title);
+  const sections = [
+    `<h1>${title}</h1>`,
+    `<p>Generated ${escapeHtml(report.generatedAt)} · Duration ${formatSec(report.durationSec)}</p>`,
+    `<h2>Score: ${report.score}/100</h2>`,
+    table(['Deduction', 'Points'], report.deductions.map(deduction => [deduction.reason, `-${deduction.points}`])),
+    '<h2>Summary</h2>',
+    table(['Measure', 'Value'], [
+      ['Max PDP', `${Math.round(report.maxPdpPsi)} PSI at ${formatSec(report.maxPdpAtSec)}`],
+      ['Water used', `${Math.round(report.waterUsedGallons)} gal`],
+      ['Foam concentrate used', `${report.foamUsedGallons.toFixed(1)} gal`],
+    ]),
+    '<h2>Warnings</h2>',
+    table(['Raised', 'Cleared', 'Category', 'Warning'], report.warnings.map(event => [
+      formatSec(event.raisedAtSec), formatSec(event.clearedAtSec), event.category, event.warning,
+    ])),
+    `<h2>Lines (target ±${PRESSURE_BAND_PSI} PSI of rated nozzle pressure)</h2>`,
+    table(['Line', 'Flowing', 'Out of band', 'Gallons'], report.lines.map(line => [
+      line.label, formatSec(line.flowingSec), formatSec(line.outOfBandSec), `${Math.round(line.gallons)}`,
+    ])),
+    '<h2>Startup Checklist</h2>',
+    table(['Step', 'Completed'], report.checklist.map(step => [step.description, formatSec(step.completedAtSec)])),
+  ];
+  if (report.scenario) {
+    sections.push(
+      `<h2>Scenario: ${report.scenario.passed ? 'PASSED' : 'NOT PASSED'}</h2>`,
+      table(['Objective', 'Status', 'At'], report.scenario.objectives.map(objective => [
+        objective.description, objective.status, formatSec(objective.atSec),
+      ])),
+      table(['Fault', 'At'], report.scenario.faults.map(fault => [fault.description, formatSec(fault.atSec)])),
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1rem; }
+th, td { border: 1px solid #999; padding: 4px 8px; text-align: left; font-size: 0.9rem; }
+th { background: #eee; }
+@media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
@@ -3,6 +3,14 @@
  * Provides detailed explanations of pump panel controls and concepts
  */
 
+import type {
+  ScenarioCondition,
+  ScenarioEvent,
+  ScenarioObjective,
+  ScenarioPredicate,
+  ScenarioSetup,
+} from './scenario-runtime';
+
 /**
  * Control definitions for educational overlay
  * Maps control IDs to their educational descriptions
@@ -87,16 +95,28 @@ export function searchDefinitions(keyword: string): string[] {
 
 /**
  * Training scenario definition
+ * Objectives and fault conditions are predicates the scenario runtime
+ * evaluates after every simulation step.
  */
 export interface TrainingScenario {
   id: string;
   title: string;
   description: string;
-  setup: Record<string, any>;
-  objectives: string[];
-  faultConditions: string[];
+  setup: ScenarioSetup;
+  objectives: ScenarioObjective[];
+  faultConditions: ScenarioCondition[];
+  /** Instructor events the simulation fires on a timeline, so every crew gets the same drill */
+  events?: ScenarioEvent[];
+  /** Seconds before the run ends with unmet objectives failed */
+  timeLimitSec?: number;
 }
 
+/** Previous step was cavitating */
+const WAS_CAVITATING: ScenarioPredicate = { previous: { metric: 'cavitating', op: '==', value: 1 } };
+
+/** Previous step was at or above the 350 PSI warning */
+const WAS_NEAR_OVERPRESSURE: ScenarioPredicate = { previous: { metric: 'dischargePsi', op: '>=', value: 350 } };
+
 /**
  * Pierce PUC-specific training scenarios
  * Educational scenarios matching the operational manual
@@ -109,17 +129,43 @@ export const PIERCE_PUC_SCENARIOS: Record<string, TrainingScenario> = {
     setup: {
       waterSource: 'draft',
       intakePressure: -15, // High vacuum
-      throttlePercent: 80,
+      draftSite: { liftFt: 23 }, // Enough suction head for the lines at 70% throttle, not at 90%
+      throttlePercent: 90,
+      openDischarges: { xlay1: 100, xlay2: 100, deck: 100 },
     },
     objectives: [
-      'Recognize cavitation symptoms',
-      'Reduce throttle to decrease flow demand',
-      'Check intake strainer for blockage',
+      {
+        id: 'recognize',
+        description: 'Recognize cavitation symptoms',
+        when: { all: [{ falling: 'throttle' }, WAS_CAVITATING] },
+        deadlineSec: 30,
+      },
+      {
+        id: 'reduceThrottle',
+        description: 'Reduce throttle to decrease flow demand',
+        when: { metric: 'cavitating', op: '==', value: 0 },
+        forSec: 5,
+      },
+      {
+        id: 'checkStrainer',
+        description: 'Throttle to idle and check intake strainer for blockage',
+        when: { metric: 'throttle', op: '==', value: 0 },
+      },
     ],
     faultConditions: [
-      'Increasing throttle when cavitating',
-      'Ignoring vacuum gauge warnings',
+      {
+        id: 'throttleUp',
+        description: 'Increasing throttle when cavitating',
+        when: { all: [{ rising: 'throttle' }, WAS_CAVITATING] },
+      },
+      {
+        id: 'ignoredVacuum',
+        description: 'Ignoring vacuum gauge warnings',
+        when: { metric: 'cavitating', op: '==', value: 1 },
+        forSec: 15,
+      },
     ],
+    timeLimitSec: 120,
   },
   
   changeover: {
@@ -130,18 +176,57 @@ export const PIERCE_PUC_SCENARIOS: Record<string, TrainingScenario> = {
       waterSource: 'tank',
       tankLevel: 500,
       dischargePressure: 150,
+      openDischarges: { xlay1: 100 },
     },
     objectives: [
-      'Open intake gate valve',
-      'Verify intake pressure stable',
-      'Close tank-to-pump valve',
-      'Maintain discharge pressure throughout',
+      {
+        id: 'openIntake',
+        description: 'Open intake gate valve',
+        when: { waterSource: 'hydrant' },
+      },
+      {
+        id: 'intakeStable',
+        description: 'Verify intake pressure stable',
+        when: { all: [{ waterSource: 'hydrant' }, { metric: 'intakePsi', op: '>=', value: 20 }] },
+        forSec: 3,
+      },
+      {
+        id: 'closeTank',
+        description: 'Close tank-to-pump valve',
+        when: { all: [{ waterSource: 'hydrant' }, { metric: 'tankToPumpOpen', op: '==', value: 0 }] },
+      },
+      {
+        id: 'holdPressure',
+        description: 'Maintain discharge pressure throughout',
+        kind: 'maintain',
+        when: { metric: 'dischargePsi', op: '>=', value: 130 },
+        forSec: 2,
+      },
     ],
     faultConditions: [
-      'Opening both valves simultaneously',
-      'Closing tank valve before intake stabilizes',
-      'Pressure drop > 20 PSI during changeover',
+      {
+        id: 'simultaneous',
+        description: 'Opening both valves simultaneously',
+        when: { all: [{ waterSource: 'hydrant' }, { previous: { not: { waterSource: 'hydrant' } } }, { falling: 'tankToPumpOpen' }] },
+      },
+      {
+        id: 'earlyTankClose',
+        description: 'Closing tank valve before intake stabilizes',
+        when: {
+          all: [
+            { falling: 'tankToPumpOpen' },
+            { previous: { any: [{ not: { waterSource: 'hydrant' } }, { metric: 'intakePsi', op: '<', value: 20 }] } },
+          ],
+        },
+      },
+      {
+        id: 'pressureDrop',
+        description: 'Pressure drop > 20 PSI during changeover',
+        when: { metric: 'dischargePsi', op: '<', value: 130 },
+        forSec: 2,
+      },
     ],
+    timeLimitSec: 180,
   },
   
   overpressure: {
@@ -149,20 +234,51 @@ export const PIERCE_PUC_SCENARIOS: Record<string, TrainingScenario> = {
     title: 'Overpressure Response',
     description: 'Prevent and respond to overpressure conditions',
     setup: {
-      throttlePercent: 90,
-      dischargePressure: 360,
+      waterSource: 'relay',
+      intakePressure: 110, // Strong relay supply
+      throttlePercent: 95,
+      dischargePressure: 380,
       allValvesClosed: true, // Dead-end scenario
+      drvEnabled: false,
     },
     objectives: [
-      'Recognize warning at 350 PSI',
-      'Reduce throttle immediately',
-      'Open a discharge line',
-      'Keep pressure < 400 PSI',
+      {
+        id: 'recognize',
+        description: 'Recognize warning at 350 PSI',
+        when: { all: [{ falling: 'throttle' }, WAS_NEAR_OVERPRESSURE] },
+        deadlineSec: 15,
+      },
+      {
+        id: 'reduceThrottle',
+        description: 'Reduce throttle immediately',
+        when: { metric: 'dischargePsi', op: '<', value: 300 },
+        deadlineSec: 20,
+      },
+      {
+        id: 'openLine',
+        description: 'Open a discharge line',
+        when: { metric: 'openDischarges', op: '>=', value: 1 },
+      },
+      {
+        id: 'under400',
+        description: 'Keep pressure < 400 PSI',
+        kind: 'maintain',
+        when: { metric: 'dischargePsi', op: '<', value: 400 },
+      },
     ],
     faultConditions: [
-      'Exceeding 400 PSI',
-      'Continuing to increase throttle',
+      {
+        id: 'over400',
+        description: 'Exceeding 400 PSI',
+        when: { metric: 'dischargePsi', op: '>=', value: 400 },
+      },
+      {
+        id: 'throttleUp',
+        description: 'Continuing to increase throttle',
+        when: { all: [{ rising: 'throttle' }, WAS_NEAR_OVERPRESSURE] },
+      },
     ],
+    timeLimitSec: 90,
   },
   
   intakeMonitoring: {
@@ -173,15 +289,99 @@ export const PIERCE_PUC_SCENARIOS: Record<string, TrainingScenario> = {
       waterSource: 'hydrant',
       intakePressure: 25,
       dischargePressure: 150,
+      openDischarges: { xlay1: 100, xlay2: 100 },
     },
     objectives: [
-      'Monitor intake pressure',
-      'Maintain intake ≥ 20 PSI',
-      'Reduce flow if intake drops',
+      {
+        id: 'monitor',
+        description: 'Monitor intake pressure',
+        when: { all: [{ metric: 'totalFlowGpm', op: '>', value: 0 }, { metric: 'intakePsi', op: '>=', value: 20 }] },
+        forSec: 60,
+      },
+      {
+        id: 'minimumIntake',
+        description: 'Maintain intake ≥ 20 PSI',
+        kind: 'maintain',
+        when: { metric: 'intakePsi', op: '>=', value: 20 },
+        forSec: 10,
+      },
+      {
+        id: 'reduceFlow',
+        description: 'Reduce flow if intake drops',
+        kind: 'maintain',
+        when: { any: [{ metric: 'intakePsi', op: '>=', value: 20 }, { metric: 'totalFlowGpm', op: '<', value: 150 }] },
+        forSec: 15,
+      },
     ],
     faultConditions: [
-      'Allowing intake < 20 PSI for > 10 seconds',
-      'Increasing flow when intake is low',
+      {
+        id: 'lowIntake',
+        description: 'Allowing intake < 20 PSI for > 10 seconds',
+        when: { metric: 'intakePsi', op: '<', value: 20 },
+        forSec: 10,
+      },
+      {
+        id: 'flowUp',
+        description: 'Increasing flow when intake is low',
+        when: { all: [{ rising: 'valveOpenPct' }, { metric: 'intakePsi', op: '<', value: 20 }] },
+      },
     ],
+    timeLimitSec: 120,
   },
-};
\ No newline at end of file
+  
+  supplyFailure: {
+    id: 'supplyFailure',
+    title: 'Hydrant Supply Failure Drill',
+    description: 'Scripted drill: the hydrant fails and a line bursts while two lines are flowing',
+    setup: {
+      waterSource: 'hydrant',
+      intakePressure: 50,
+      dischargePressure: 150,
+      openDischarges: { xlay1: 100, xlay2: 100 },
+    },
+    objectives: [
+      {
+        id: 'flowing',
+        description: 'Supply both attack lines from the hydrant',
+        when: { all: [{ waterSource: 'hydrant' }, { metric: 'openDischarges', op: '>=', value: 2 }] },
+        forSec: 20,
+      },
+      {
+        id: 'gateDown',
+        description: 'Shut down to one line within 30 seconds of the supply dropping',
+        when: { all: [{ metric: 'intakePsi', op: '<', value: 20 }, { metric: 'openDischarges', op: '<=', value: 1 }] },
+        deadlineSec: 75,
+      },
+    ],
+    faultConditions: [
+      {
+        id: 'overpressure',
+        description: 'Pressure above 250 PSI for 10 seconds',
+        when: { metric: 'dischargePsi', op: '>', value: 250 },
+        forSec: 10,
+      },
+    ],
+    events: [
+      {
+        id: 'hydrantDrop',
+        description: 'Hydrant supply drops to 15 PSI',
+        atSec: 45,
+        action: { type: 'SET_INTAKE_PRESSURE', intakeId: 'ldh_driver', psi: 15 },
+      },
+      {
+        id: 'burst',
+        description: 'Crosslay 2 bursts',
+        atSec: 90,
+        action: { type: 'SCENARIO_HOSE_BURST', lineId: 'xlay2' },
+      },
+      {
+        id: 'governorFailure',
+        description: 'Governor fails after running above 250 PSI',
+        when: { metric: 'dischargePsi', op: '>', value: 250 },
+        forSec: 10,
+        action: { type: 'SCENARIO_GOVERNOR_FAILURE' },
+      },
+    ],
+    timeLimitSec: 150,
+  },
+};
@@ -0,0 +1,270 @@
+/**
+ * Tests for the training scenario runtime
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SimulationRunner } from '../sim/runner';
+import { createInitialPumpState } from '../sim/pierce-puc';
+import { exportSetup } from '../sim/setup-file';
+import { PIERCE_PUC_SCENARIOS } from './definitions';
+import type { TrainingScenario } from './definitions';
+import { applyScenarioSetup, evaluatePredicate, getScenarioResult, startScenario, updateScenario } from './scenario-runtime';
+
+/**
+ * Runner with a scenario started
+ */
+function startRun(scenario: TrainingScenario): SimulationRunner {
+  const runner = new SimulationRunner();
+  runner.dispatch({ type: 'SCENARIO_START', scenario });
+  return runner;
+}
+
+describe('applyScenarioSetup', () => {
+  it('engages the pump and applies source, throttle and valves', () => {
+    const state = applyScenarioSetup(createInitialPumpState(), {
+      waterSource: 'hydrant',
+      intakePressure: 60,
+      throttlePercent: 40,
+      openDischarges: { xlay1: 100 },
+    });
+    expect(state.interlocks.engaged).toBe(true);
+    expect(state.waterSource).toBe('hydrant');
+    expect(state.tankToPumpOpen).toBe(false);
+    expect(state.intakePressurePsi).toBe(60);
+    expect(state.runtime.governor).toBe('RPM');
+    expect(state.throttle).toBe(40);
+    expect(state.dischargeValvePct.xlay1).toBe(100);
+  });
+
+  it('closes every discharge for dead-head scenarios', () => {
+    const open = { ...createInitialPumpState(), dischargeValvePct: { ...createInitialPumpState().dischargeValvePct, deck: 50 } };
+    const state = applyScenarioSetup(open, { allValvesClosed: true });
+    expect(Object.values(state.dischargeValvePct).every(pct => pct === 0)).toBe(true);
+  });
+});
+
+describe('evaluatePredicate', () => {
+  const before = createInitialPumpState();
+  const after = { ...before, throttle: 30, dischargePsi: 120 };
+
+  it('compares metrics and detects change during the step', () => {
+    expect(evaluatePredicate({ metric: 'dischargePsi', op: '>=', value: 120 }, after, before)).toBe(true);
+    expect(evaluatePredicate({ rising: 'throttle' }, after, before)).toBe(true);
+    expect(evaluatePredicate({ falling: 'throttle' }, after, before)).toBe(false);
+    expect(evaluatePredicate({ previous: { metric: 'throttle', op: '==', value: 0 } }, after, before)).toBe(true);
+  });
+
+  it('combines predicates', () => {
+    const rising = { rising: 'throttle' } as const;
+    const low = { metric: 'dischargePsi', op: '<', value: 100 } as const;
+    expect(evaluatePredicate({ all: [rising, low] }, after, before)).toBe(false);
+    expect(evaluatePredicate({ any: [rising, low] }, after, before)).toBe(true);
+    expect(evaluatePredicate({ not: low }, after, before)).toBe(true);
+  });
+});
+
+describe('updateScenario', () => {
+  const scenario: TrainingScenario = {
+    id: 'test',
+    title: 'Test',
+    description: 'Hold throttle',
+    setup: {},
+    objectives: [
+      { id: 'throttleUp', description: 'Throttle above 50%', when: { metric: 'throttle', op: '>', value: 50 }, forSec: 1 },
+    ],
+    faultConditions: [
+      { id: 'lowPdp', description: 'PDP < 100 PSI for 2 s', when: { metric: 'dischargePsi', op: '<', value: 100 }, forSec: 2 },
+    ],
+    timeLimitSec: 5,
+  };
+  const low = { ...createInitialPumpState(), dischargePsi: 50 };
+  const high = { ...low, throttle: 60, dischargePsi: 150 };
+
+  it('records a fault once its condition has held for the duration', () => {
+    let run = startScenario(scenario, low);
+    for (let i = 0; i < 19; i++) run = updateScenario(run, low, 0.1);
+    expect(run.faults).toHaveLength(0);
+    run = updateScenario(run, low, 0.1);
+    expect(run.faults).toMatchObject([{ id: 'lowPdp', description: 'PDP < 100 PSI for 2 s' }]);
+    expect(run.faults[0].atSec).toBeCloseTo(2);
+    run = updateScenario(run, low, 0.1);
+    expect(run.faults).toHaveLength(1);
+  });
+
+  it('passes with the time each objective was met', () => {
+    let run = startScenario(scenario, low);
+    for (let i = 0; i < 10; i++) run = updateScenario(run, high, 0.1);
+    const result = getScenarioResult(run);
+    expect(result.passed).toBe(true);
+    expect(result.durationSec).toBeCloseTo(1);
+    expect(result.objectives[0]).toMatchObject({ status: 'met' });
+    expect(result.objectives[0].atSec).toBeCloseTo(1);
+  });
+
+  it('fails unmet objectives at the time limit', () => {
+    let run = startScenario(scenario, low);
+    for (let i = 0; i < 60; i++) run = updateScenario(run, low, 0.1);
+    expect(run.status).toBe('failed');
+    expect(run.endedAtSec).toBeCloseTo(5);
+    expect(run.objectives[0].status).toBe('failed');
+  });
+
+  it('forgives a maintained objective broken for less than its grace period', () => {
+    const maintain: TrainingScenario = {
+      ...scenario,
+      objectives: [{ ...scenario.objectives[0], kind: 'maintain', forSec: 0.5 }],
+      faultConditions: [],
+    };
+    let run = startScenario(maintain, low);
+    for (let i = 0; i < 4; i++) run = updateScenario(run, low, 0.1);
+    for (let i = 0; i < 46; i++) run = updateScenario(run, high, 0.1);
+    expect(getScenarioResult(run).passed).toBe(true);
+
+    run = startScenario(maintain, low);
+    for (let i = 0; i < 6; i++) run = updateScenario(run, low, 0.1);
+    expect(run.objectives[0]).toMatchObject({ status: 'failed' });
+  });
+});
+
+describe('Pierce PUC scenarios', () => {
+  it('cavitation: backing off the throttle passes', () => {
+    const runner = startRun(PIERCE_PUC_SCENARIOS.cavitation);
+    runner.runFor(3);
+    expect(runner.state.isCavitating).toBe(true);
+    runner.dispatch({ type: 'SETPOINT', value: 70 });
+    runner.runFor(6);
+    runner.dispatch({ type: 'SETPOINT', value: 0 });
+    runner.runFor(1);
+
+    const result = getScenarioResult(runner.scenario!);
+    expect(result.passed).toBe(true);
+    expect(result.objectives.map(objective => objective.status)).toEqual(['met', 'met', 'met']);
+  });
+
+  it('cavitation: throttling up is a fault and ignoring it fails the run', () => {
+    const runner = startRun(PIERCE_PUC_SCENARIOS.cavitation);
+    runner.runFor(1);
+    runner.dispatch({ type: 'SETPOINT', value: 100 });
+    runner.runFor(119);
+
+    const result = getScenarioResult(runner.scenario!);
+    expect(result.passed).toBe(false);
+    expect(result.faults.map(fault => fault.id)).toEqual(['throttleUp', 'ignoredVacuum']);
+    expect(result.faults[0].atSec).toBeCloseTo(1.1);
+    expect(result.faults[1].atSec).toBeCloseTo(15);
+  });
+
+  it('changeover: opening the intake, then closing the tank passes', () => {
+    const runner = startRun(PIERCE_PUC_SCENARIOS.changeover);
+    runner.runFor(5);
+    runner.dispatch({ type: 'WATER_SOURCE', source: 'hydrant' });
+    runner.runFor(5);
+    runner.dispatch({ type: 'TANK_TO_PUMP', open: false });
+    runner.runFor(0.1);
+
+    const result = getScenarioResult(runner.scenario!);
+    expect(result.faults).toEqual([]);
+    expect(result.passed).toBe(true);
+  });
+
+  it('changeover: switching source and tank together is faulted', () => {
+    const runner = startRun(PIERCE_PUC_SCENARIOS.changeover);
+    runner.runFor(5);
+    runner.dispatch({ type: 'WATER_SOURCE', source: 'hydrant' });
+    runner.dispatch({ type: 'TANK_TO_PUMP', open: false });
+    runner.runFor(5);
+
+    const ids = runner.scenario!.faults.map(fault => fault.id);
+    expect(ids).toContain('simultaneous');
+    expect(ids).toContain('earlyTankClose');
+  });
+
+  it('overpressure: pushing the throttle past 400 PSI is faulted', () => {
+    const runner = startRun(PIERCE_PUC_SCENARIOS.overpressure);
+    runner.runFor(1);
+    expect(runner.state.dischargePsi).toBeGreaterThanOrEqual(350);
+    runner.dispatch({ type: 'SETPOINT', value: 100 });
+    runner.runFor(1);
+
+    const run = runner.scenario!;
+    // The throttle is faulted at once; pressure follows as the engine spools up
+    expect(run.faults.map(fault => fault.id)).toEqual(['throttleUp', 'over400']);
+    expect(run.objectives.find(objective => objective.id === 'under400')?.status).toBe('failed');
+  });
+
+  it('intakeMonitoring: a hydrant drop left unanswered is faulted', () => {
+    const runner = startRun(PIERCE_PUC_SCENARIOS.intakeMonitoring);
+    runner.runFor(5);
+    runner.dispatch({ type: 'SET_INTAKE_PRESSURE', intakeId: 'ldh_driver', psi: 12 });
+    runner.runFor(11);
+
+    const run = runner.scenario!;
+    expect(run.faults.map(fault => fault.id)).toEqual(['lowIntake']);
+    expect(run.faults[0].atSec).toBeCloseTo(15);
+  });
+
+  it('supplyFailure: the timeline drops the hydrant at 45 s and bursts xlay2 at 90 s', () => {
+    const runner = startRun(PIERCE_PUC_SCENARIOS.supplyFailure);
+    runner.runFor(44.9);
+    expect(runner.state.hydrant.staticPsi).toBe(50);
+    // The flowing lines draw the intake a little under static
+    expect(runner.state.intakePressurePsi).toBeGreaterThan(40);
+    expect(runner.state.intakePressurePsi).toBeLessThan(50);
+    runner.runFor(0.1);
+    expect(runner.state.hydrant.staticPsi).toBe(15);
+    expect(runner.state.intakePressurePsi).toBe(15);
+    runner.runFor(0.1);
+    expect(runner.state.intakePressurePsi).toBeLessThan(15);
+    runner.runFor(44.9);
+
+    const run = runner.scenario!;
+    expect(runner.state.dischargeValvePct.xlay2).toBe(0);
+    expect(run.events.map(event => event.id)).toEqual(['hydrantDrop', 'burst']);
+    expect(run.events[0].atSec).toBeCloseTo(45);
+    expect(run.events[1].atSec).toBeCloseTo(90);
+    // Nobody gated down before the deadline
+    expect(run.status).toBe('failed');
+    expect(run.objectives.map(objective => objective.status)).toEqual(['met', 'failed']);
+  });
+
+  it('supplyFailure: gating down after the drop passes once the timeline has played', () => {
+    const runner = startRun(PIERCE_PUC_SCENARIOS.supplyFailure);
+    runner.runFor(50);
+    runner.dispatch({ type: 'DISCHARGE_OPEN', id: 'xlay2', open: 0 });
+    runner.runFor(1);
+    expect(runner.scenario!.status).toBe('running');
+    runner.runFor(39);
+
+    const result = getScenarioResult(runner.scenario!);
+    expect(result.passed).toBe(true);
+    expect(result.durationSec).toBeCloseTo(90);
+    expect(result.objectives[1].atSec).toBeCloseTo(50.1);
+  });
+
+  it('fires a conditional event once its predicate has held', () => {
+    const scripted: TrainingScenario = {
+      ...PIERCE_PUC_SCENARIOS.overpressure,
+      objectives: [],
+      faultConditions: [],
+      events: [PIERCE_PUC_SCENARIOS.supplyFailure.events![2]],
+      timeLimitSec: 20,
+    };
+    const runner = startRun({ ...scripted, setup: { ...scripted.setup, throttlePercent: 90 } });
+    runner.dispatch({ type: 'GOVERNOR_MODE', mode: 'PRESSURE' });
+    expect(runner.state.runtime.governor).toBe('PRESSURE');
+    runner.runFor(12);
+
+    expect(runner.scenario!.events).toMatchObject([{ id: 'governorFailure' }]);
+    expect(runner.state.activeFaults.map(fault => fault.id)).toEqual(['governor_failure']);
+  });
+
+  it('stopping or loading a setup ends the scenario', () => {
+    const runner = startRun(PIERCE_PUC_SCENARIOS.changeover);
+    runner.dispatch({ type: 'SCENARIO_STOP' });
+    expect(runner.scenario).toBeNull();
+
+    runner.dispatch({ type: 'SCENARIO_START', scenario: PIERCE_PUC_SCENARIOS.changeover });
+    runner.dispatch({ type: 'LOAD_SETUP', setup: exportSetup(createInitialPumpState()) });
+    expect(runner.scenario).toBeNull();
+  });
+});
@@ -0,0 +1,529 @@
+/**
+ * Training scenario runtime
+ * Applies a scenario's setup to the pump state, evaluates its objectives and
+ * fault conditions after every simulation step, and reports pass/fail with
+ * the time each objective was met or fault occurred.
+ *
+ * Conditions are plain data (no functions) so scenarios can be shared as JSON.
+ */
+
+import type { DischargeId, DraftSite, IntakeId, PumpState, WaterSource } from '../sim/model';
+import { calculateRequiredRPM } from '../sim/pump-curves';
+import { createEngineState } from '../sim/engine-dynamics';
+import { clampDraftSite } from '../sim/drafting';
+import { withStaticPsi } from '../sim/hydrant';
+import { connectSupply, createIntakes } from '../sim/intakes';
+import type { Action } from '../sim/actions';
+import type { TrainingScenario } from './definitions';
+
+/**
+ * Numeric readings a condition can test; on/off states read as 1 or 0
+ */
+export const SCENARIO_METRICS = [
+  'dischargePsi',
+  'intakePsi',
+  'intakeVacuumInHg',
+  'throttle',
+  'rpm',
+  'totalFlowGpm',
+  'tankGallons',
+  'openDischarges',
+  'valveOpenPct',
+  'tankToPumpOpen',
+  'engaged',
+  'cavitating',
+  'waterHammerPsi',
+] as const;
+
+export type ScenarioMetric =
+  | 'dischargePsi'      // Master discharge gauge
+  | 'intakePsi'         // Master intake gauge (pressurized sources)
+  | 'intakeVacuumInHg'  // Compound gauge vacuum (draft)
+  | 'throttle'          // Throttle position (0-100%)
+  | 'rpm'               // Engine RPM
+  | 'totalFlowGpm'      // Total discharge flow
+  | 'tankGallons'       // Booster tank water
+  | 'openDischarges'    // Number of discharges open
+  | 'valveOpenPct'      // Sum of all discharge valve positions
+  | 'tankToPumpOpen'    // Tank-to-pump valve open (1/0)
+  | 'engaged'           // Pump engaged (1/0)
+  | 'cavitating'        // Pump cavitating (1/0)
+  | 'waterHammerPsi';   // Water hammer surge on the discharge side
+
+export const SCENARIO_COMPARISONS = ['<', '<=', '>', '>=', '=='] as const;
+
+export type ScenarioComparison = typeof SCENARIO_COMPARISONS[number];
+
+/**
+ * Predicate over the state after a step (and the state at the previous step)
+ */
+export type ScenarioPredicate =
+  | { metric: ScenarioMetric; op: ScenarioComparison; value: number }
+  | { waterSource: WaterSource }
+  | { rising: ScenarioMetric }          // Increased during the step
+  | { falling: ScenarioMetric }         // Decreased during the step
+  | { previous: ScenarioPredicate }     // Held before the step
+  | { all: ScenarioPredicate[] }
+  | { any: ScenarioPredicate[] }
+  | { not: ScenarioPredicate };
+
+/**
+ * Condition evaluated after every simulation step
+ * A fault occurs once its predicate has held for forSec.
+ */
+export interface ScenarioCondition {
+  /** Identifier, unique within the scenario */
+  id: string;
+  /** What the crew sees in the debrief */
+  description: string;
+  /** Predicate evaluated after every step */
+  when: ScenarioPredicate;
+  /** Seconds the predicate must hold without a break (default: a single step) */
+  forSec?: number;
+}
+
+/**
+ * Objective: 'achieve' is met once its predicate has held for forSec;
+ * 'maintain' fails if its predicate stops holding for longer than forSec
+ */
+export interface ScenarioObjective extends ScenarioCondition {
+  /** Defaults to 'achieve' */
+  kind?: 'achieve' | 'maintain';
+  /** Seconds from the start to achieve the objective */
+  deadlineSec?: number;
+}
+
+/**
+ * Starting conditions applied when a scenario begins
+ */
+export interface ScenarioSetup {
+  /** Water source feeding the pump */
+  waterSource?: WaterSource;
+  /** Intake pressure in PSI (negative for vacuum on draft) */
+  intakePressure?: number;
+  /** Static source to draft from (lift, hard suction, strainer, water and altitude) */
+  draftSite?: Partial<DraftSite>;
+  /** Throttle position (0-100%); runs the governor in RPM mode */
+  throttlePercent?: number;
+  /** Water in the booster tank in gallons */
+  tankLevel?: number;
+  /** Working pump discharge pressure the crew starts at in PSI */
+  dischargePressure?: number;
+  /** Close every discharge (dead-heading the pump) */
+  allValvesClosed?: boolean;
+  /** Discharges flowing at the start, by valve position (0-100%) */
+  openDischarges?: Partial<Record<DischargeId, number>>;
+  /** Discharge relief valve enabled */
+  drvEnabled?: boolean;
+}
+
+/**
+ * Instructor actions a scenario script can fire
+ */
+export type ScenarioEventAction = Extract<Action, {
+  type:
+    | 'SET_INTAKE_PRESSURE'
+    | 'SCENARIO_HOSE_BURST'
+    | 'SCENARIO_INTAKE_FAILURE'
+    | 'SCENARIO_TANK_LEAK'
+    | 'SCENARIO_FOAM_LEAK'
+    | 'SCENARIO_CLEAR_TANK_LEAK'
+    | 'SCENARIO_CLEAR_FOAM_LEAK'
+    | 'SCENARIO_GOVERNOR_FAILURE'
+    | 'FAULT_START'
+    | 'FAULT_CLEAR'
+    | 'FAULT_CLEAR_ALL';
+}>;
+
+/**
+ * Scheduled instructor event in a scenario timeline
+ * Fires once: at atSec, once when has held for forSec, or when both are
+ * satisfied ("at t=45s drop ldh_driver to 15 PSI", "if PDP > 250 for 10s
+ * then fail governor").
+ */
+export interface ScenarioEvent {
+  /** Identifier, unique within the scenario */
+  id: string;
+  /** What happens, for the debrief */
+  description: string;
+  /** Scenario time in seconds before which the event cannot fire */
+  atSec?: number;
+  /** Predicate that must hold for the event to fire */
+  when?: ScenarioPredicate;
+  /** Seconds the predicate must hold without a break */
+  forSec?: number;
+  /** Instructor action applied when the event fires */
+  action: ScenarioEventAction;
+}
+
+export type ObjectiveState = 'pending' | 'met' | 'failed';
+
+/**
+ * Progress of one objective
+ */
+export interface ObjectiveStatus {
+  id: string;
+  description: string;
+  status: ObjectiveState;
+  /** Scenario time the objective was met or failed, in seconds */
+  atSec: number | null;
+}
+
+/**
+ * One occurrence of a fault condition
+ */
+export interface FaultEvent {
+  id: string;
+  description: string;
+  /** Scenario time the fault occurred, in seconds */
+  atSec: number;
+}
+
+/**
+ * Scenario event that has fired
+ */
+export interface FiredEvent {
+  id: string;
+  description: string;
+  /** Scenario time the event fired, in seconds */
+  atSec: number;
+}
+
+/**
+ * Running scenario, carried between simulation steps
+ */
+export interface ScenarioRun {
+  scenario: TrainingScenario;
+  /** Pump state at the last scored step, so controls worked between steps count as changes */
+  lastState: PumpState;
+  /** Scenario time in seconds */
+  elapsedSec: number;
+  /** Seconds each predicate has held (or, for maintained objectives, been broken), keyed by id */
+  heldSec: Record<string, number>;
+  objectives: ObjectiveStatus[];
+  faults: FaultEvent[];
+  /** Timeline events fired so far, in order */
+  events: FiredEvent[];
+  status: 'running' | 'passed' | 'failed';
+  /** Scenario time the run ended, in seconds */
+  endedAtSec: number | null;
+}
+
+/**
+ * Debrief of a finished (or stopped) scenario
+ */
+export interface ScenarioResult {
+  scenarioId: string;
+  passed: boolean;
+  durationSec: number;
+  objectives: ObjectiveStatus[];
+  faults: FaultEvent[];
+  events: FiredEvent[];
+}
+
+/** Tolerance so 100 steps of 0.1 s count as 10 seconds despite float rounding */
+const TIME_EPSILON_SEC = 1e-6;
+
+/**
+ * Read a metric from the pump state
+ */
+export function readMetric(state: PumpState, metric: ScenarioMetric): number {
+  switch (metric) {
+    case 'dischargePsi': return state.dischargePsi;
+    case 'intakePsi': return state.intakePressurePsi;
+    case 'intakeVacuumInHg': return state.intakeVacuumInHg;
+    case 'throttle': return state.throttle;
+    case 'rpm': return state.runtime.rpm;
+    case 'totalFlowGpm': return state.totalFlowGpm;
+    case 'tankGallons': return state.tankGallons;
+    case 'openDischarges': return Object.values(state.dischargeValvePct).filter(pct => pct > 0).length;
+    case 'valveOpenPct': return Object.values(state.dischargeValvePct).reduce((sum, pct) => sum + pct, 0);
+    case 'tankToPumpOpen': return state.tankToPumpOpen ? 1 : 0;
+    case 'engaged': return state.interlocks.engaged ? 1 : 0;
+    case 'cavitating': return state.isCavitating ? 1 : 0;
+    case 'waterHammerPsi': return state.waterHammer.surgePsi;
+  }
+}
+
+function compare(actual: number, op: ScenarioComparison, value: number): boolean {
+  switch (op) {
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+    case '==': return actual === value;
+  }
+}
+
+/**
+ * Evaluate a predicate for one simulation step
+ *
+ * @param predicate - Condition to test
+ * @param state - State after the step
+ * @param previous - State before the step
+ * @returns Whether the predicate holds
+ */
+export function evaluatePredicate(
+  predicate: ScenarioPredicate,
+  state: PumpState,
+  previous: PumpState
+): boolean {
+  if ('metric' in predicate) return compare(readMetric(state, predicate.metric), predicate.op, predicate.value);
+  if ('waterSource' in predicate) return state.waterSource === predicate.waterSource;
+  if ('rising' in predicate) return readMetric(state, predicate.rising) > readMetric(previous, predicate.rising);
+  if ('falling' in predicate) return readMetric(state, predicate.falling) < readMetric(previous, predicate.falling);
+  if ('previous' in predicate) return evaluatePredicate(predicate.previous, previous, previous);
+  if ('all' in predicate) return predicate.all.every(p => evaluatePredicate(p, state, previous));
+  if ('any' in predicate) return predicate.any.some(p => evaluatePredicate(p, state, previous));
+  return !evaluatePredicate(predicate.not, state, previous);
+}
+
+/**
+ * Apply a scenario's starting conditions to the pump state
+ * The pump is engaged; everything the setup does not mention is left as is.
+ *
+ * @param state - Current pump state (keeps the apparatus and line layouts)
+ * @param setup - Scenario starting conditions
+ * @returns State at the start of the scenario
+ */
+export function applyScenarioSetup(state: PumpState, setup: ScenarioSetup): PumpState {
+  const next: PumpState = {
+    ...state,
+    interlocks: { ...state.interlocks, engaged: true },
+    dischargeValvePct: { ...state.dischargeValvePct },
+    runtime: { ...state.runtime },
+  };
+
+  if (setup.waterSource) {
+    next.waterSource = setup.waterSource;
+    next.tankToPumpOpen = setup.waterSource === 'tank';
+    // Any other source comes in on the first intake with the rest capped
+    const intakes = createIntakes(Object.keys(state.intakes) as IntakeId[]);
+    next.intakes = setup.waterSource === 'tank'
+      ? intakes
+      : connectSupply({ ...next, intakes }, setup.waterSource).intakes;
+    // A draft scenario starts with the prime already pulled
+    if (setup.waterSource === 'draft') {
+      next.interlocks.primed = true;
+    }
+  }
+
+  if (setup.draftSite) {
+    next.draft = clampDraftSite({ ...state.draft, ...setup.draftSite });
+  }
+
+  if (setup.intakePressure !== undefined) {
+    if (setup.intakePressure < 0) {
+      next.intakeVacuumInHg = Math.abs(setup.intakePressure) * 2.036; // PSI to inHg
+      next.intakePressurePsi = 0;
+    } else {
+      // Every fitted intake is charged to the same pressure
+      next.intakePsi = { ...state.intakePsi };
+      for (const id of Object.keys(next.intakePsi) as IntakeId[]) {
+        next.intakePsi[id] = setup.intakePressure;
+      }
+      next.intakePressurePsi = setup.intakePressure;
+      next.intakeVacuumInHg = 0;
+      next.hydrant = withStaticPsi(state.hydrant, setup.intakePressure);
+    }
+  }
+
+  if (setup.throttlePercent !== undefined) {
+    next.throttle = Math.max(0, Math.min(100, setup.throttlePercent));
+    next.runtime.governor = 'RPM';
+    // The engine is already spooled up to the throttle setting
+    const { idleRpm, maxRpm } = state.pump.governor;
+    next.runtime.rpm = idleRpm + (next.throttle / 100) * (maxRpm - idleRpm);
+    next.engine = createEngineState(next.runtime.rpm);
+  }
+
+  if (setup.tankLevel !== undefined) {
+    next.tankGallons = Math.max(0, Math.min(state.tankCapacityGallons, setup.tankLevel));
+  }
+
+  if (setup.allValvesClosed) {
+    for (const id of Object.keys(next.dischargeValvePct) as DischargeId[]) {
+      next.dischargeValvePct[id] = 0;
+    }
+  }
+
+  for (const [id, pct] of Object.entries(setup.openDischarges ?? {}) as [DischargeId, number][]) {
+    // A discharge the apparatus doesn't have stays out of the run
+    if (!next.lineConfigs[id]) continue;
+    next.dischargeValvePct[id] = Math.max(0, Math.min(100, pct));
+  }
+
+  if (setup.drvEnabled !== undefined) {
+    next.drv = { ...state.drv, enabled: setup.drvEnabled };
+  }
+
+  if (setup.dischargePressure !== undefined) {
+    // Start the engine at the speed that makes this pressure at churn
+    next.dischargePsi = setup.dischargePressure;
+    next.runtime.rpm = calculateRequiredRPM(setup.dischargePressure, 0, next.intakePressurePsi, state.pump);
+    next.engine = createEngineState(next.runtime.rpm);
+  }
+
+  return next;
+}
+
+/**
+ * Begin a scenario run
+ *
+ * @param scenario - Scenario to run
+ * @param state - Pump state with the scenario setup applied
+ * @returns Run at time zero with every objective pending
+ */
+export function startScenario(scenario: TrainingScenario, state: PumpState): ScenarioRun {
+  return {
+    scenario,
+    lastState: state,
+    elapsedSec: 0,
+    heldSec: {},
+    objectives: scenario.objectives.map(objective => ({
+      id: objective.id,
+      description: objective.description,
+      status: 'pending',
+      atSec: null,
+    })),
+    faults: [],
+    events: [],
+    status: 'running',
+    endedAtSec: null,
+  };
+}
+
+/**
+ * Score a scenario run after one simulation step
+ *
+ * @param run - Run before the step
+ * @param state - Pump state after the step
+ * @param dt - Step length in seconds
+ * @returns Updated run (unchanged once the run has ended)
+ */
+export function updateScenario(run: ScenarioRun, state: PumpState, dt: number): ScenarioRun {
+  if (run.status !== 'running') return run;
+
+  const previous = run.lastState;
+  const elapsedSec = run.elapsedSec + dt;
+  const heldSec: Record<string, number> = {};
+
+  // Time a predicate over consecutive steps; true on the step it first reaches forSec
+  const track = (key: string, holds: boolean, forSec = 0): boolean => {
+    const before = run.heldSec[key] ?? 0;
+    const now = holds ? before + dt : 0;
+    heldSec[key] = now;
+    const reachedBefore = before > 0 && before + TIME_EPSILON_SEC >= forSec;
+    return holds && now + TIME_EPSILON_SEC >= forSec && !reachedBefore;
+  };
+
+  const objectives = run.objectives.map((status, i) => {
+    const objective = run.scenario.objectives[i];
+    const holds = evaluatePredicate(objective.when, state, previous);
+
+    if (objective.kind === 'maintain') {
+      // Count time broken so a dip shorter than forSec is forgiven
+      const key = `objective:${objective.id}`;
+      const brokenSec = holds ? 0 : (run.heldSec[key] ?? 0) + dt;
+      heldSec[key] = brokenSec;
+      if (status.status !== 'pending' || brokenSec <= (objective.forSec ?? 0) + TIME_EPSILON_SEC) return status;
+      return { ...status, status: 'failed' as const, atSec: elapsedSec };
+    }
+
+    const reached = track(`objective:${objective.id}`, holds, objective.forSec);
+    if (status.status !== 'pending') return status;
+    if (reached) {
+      return { ...status, status: 'met' as const, atSec: elapsedSec };
+    }
+    if (objective.deadlineSec !== undefined && elapsedSec >= objective.deadlineSec - TIME_EPSILON_SEC) {
+      return { ...status, status: 'failed' as const, atSec: elapsedSec };
+    }
+    return status;
+  });
+
+  const faults = [...run.faults];
+  for (const condition of run.scenario.faultConditions) {
+    if (track(`fault:${condition.id}`, evaluatePredicate(condition.when, state, previous), condition.forSec)) {
+      faults.push({ id: condition.id, description: condition.description, atSec: elapsedSec });
+    }
+  }
+
+  const events = [...run.events];
+  for (const event of run.scenario.events ?? []) {
+    if (run.events.some(fired => fired.id === event.id)) continue;
+    const holds = event.when ? evaluatePredicate(event.when, state, previous) : true;
+    const key = `event:${event.id}`;
+    heldSec[key] = holds ? (run.heldSec[key] ?? 0) + dt : 0;
+    const timeReached = event.atSec === undefined || elapsedSec + TIME_EPSILON_SEC >= event.atSec;
+    if (timeReached && holds && heldSec[key] + TIME_EPSILON_SEC >= (event.forSec ?? 0)) {
+      events.push({ id: event.id, description: event.description, atSec: elapsedSec });
+    }
+  }
+
+  // A scenario of only maintained objectives runs to its time limit, and
+  // a scripted drill plays out every timed event before ending early
+  const achieve = run.scenario.objectives
+    .map((objective, i) => ({ objective, status: objectives[i] }))
+    .filter(({ objective }) => objective.kind !== 'maintain');
+  const timedPending = (run.scenario.events ?? []).some(event =>
+    event.atSec !== undefined && !events.some(fired => fired.id === event.id)
+  );
+  const achieveDone = achieve.length > 0 && !timedPending
+    && achieve.every(({ status }) => status.status !== 'pending');
+  const timedOut = run.scenario.timeLimitSec !== undefined
+    && elapsedSec >= run.scenario.timeLimitSec - TIME_EPSILON_SEC;
+
+  if (!achieveDone && !timedOut) {
+    return { ...run, lastState: state, elapsedSec, heldSec, objectives, faults, events };
+  }
+
+  // At the end, maintained objectives still pending were held throughout;
+  // objectives still to be achieved have run out of time
+  const finalObjectives = objectives.map((objective, i): ObjectiveStatus => {
+    if (objective.status !== 'pending') return objective;
+    const met = run.scenario.objectives[i].kind === 'maintain';
+    return { ...objective, status: met ? 'met' : 'failed', atSec: elapsedSec };
+  });
+  const passed = faults.length === 0 && finalObjectives.every(objective => objective.status === 'met');
+
+  return {
+    ...run,
+    lastState: state,
+    elapsedSec,
+    heldSec,
+    objectives: finalObjectives,
+    faults,
+    events,
+    status: passed ? 'passed' : 'failed',
+    endedAtSec: elapsedSec,
+  };
+}
+
+/**
+ * Summarize a scenario run for the debrief
+ * A run still in progress reports as not passed.
+ */
+export function getScenarioResult(run: ScenarioRun): ScenarioResult {
+  return {
+    scenarioId: run.scenario.id,
+    passed: run.status === 'passed',
+    durationSec: run.endedAtSec ?? run.elapsedSec,
+    objectives: run.objectives,
+    faults: run.faults,
+    events: run.events,
+  };
+}
+
+/**
+ * Instructor actions for the events fired by the latest update
+ *
+ * @param before - Run before updateScenario
+ * @param after - Run returned by updateScenario
+ * @returns Actions to apply to the pump state, in timeline order
+ */
+export function getFiredActions(before: ScenarioRun, after: ScenarioRun): ScenarioEventAction[] {
+  const scripted = after.scenario.events ?? [];
+  return after.events
+    .slice(before.events.length)
+    .flatMap(fired => scripted.filter(event => event.id === fired.id).map(event => event.action));
+}
@@ -0,0 +1,57 @@
+/**
+ * Tests for scenario script validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readTrainingScenario } from './scenario-script';
+import { PIERCE_PUC_SCENARIOS } from './definitions';
+
+const drill = PIERCE_PUC_SCENARIOS.supplyFailure;
+
+function toText(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+describe('readTrainingScenario', () => {
+  it('reads back every bundled scenario', () => {
+    for (const scenario of Object.values(PIERCE_PUC_SCENARIOS)) {
+      expect(readTrainingScenario(toText(scenario))).toEqual(scenario);
+    }
+  });
+
+  it('names the bad field inside nested predicates', () => {
+    const objectives = [{ ...drill.objectives[1], when: { all: [{ metric: 'intakePsi', op: '=<', value: 20 }] } }];
+    expect(() => readTrainingScenario(toText({ ...drill, objectives })))
+      .toThrow('scenario.objectives[0].when.all[0].op must be one of "<", "<=", ">", ">=", "=="');
+  });
+
+  it('rejects predicates of no known shape', () => {
+    const faultConditions = [{ ...drill.faultConditions[0], when: { pressure: 250 } }];
+    expect(() => readTrainingScenario(toText({ ...drill, faultConditions })))
+      .toThrow('scenario.faultConditions[0].when must have one of metric, waterSource, rising, falling, previous, all, any, not');
+  });
+
+  it('validates event timing and actions', () => {
+    const untimed = [{ ...drill.events![0], atSec: undefined }];
+    expect(() => readTrainingScenario(toText({ ...drill, events: untimed })))
+      .toThrow('scenario.events[0] must have atSec, when, or both');
+
+    const badIntake = [{ ...drill.events![0], action: { type: 'SET_INTAKE_PRESSURE', intakeId: 'front', psi: 15 } }];
+    expect(() => readTrainingScenario(toText({ ...drill, events: badIntake })))
+      .toThrow('scenario.events[0].action.intakeId "front" is not a known intake');
+  });
+
+  it('validates the draft site a setup gives', () => {
+    const { cavitation } = PIERCE_PUC_SCENARIOS;
+    expect(() => readTrainingScenario(toText({ ...cavitation, setup: { ...cavitation.setup, draftSite: { liftFt: 40 } } })))
+      .toThrow('scenario.setup.draftSite.liftFt must be between 0 and 35');
+    expect(() => readTrainingScenario(toText({ ...cavitation, setup: { ...cavitation.setup, draftSite: { depthFt: 5 } } })))
+      .toThrow('scenario.setup.draftSite.depthFt is not a draft site setting');
+  });
+
+  it('rejects repeated ids', () => {
+    const events = [drill.events![0], drill.events![0]];
+    expect(() => readTrainingScenario(toText({ ...drill, events })))
+      .toThrow('scenario.events[1].id "hydrantDrop" is listed twice');
+  });
+});
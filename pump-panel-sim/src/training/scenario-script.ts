@@ -0,0 +1,255 @@
+/**
+ * Scenario script files
+ * Parses JSON training scenarios (setup, objectives, fault conditions and
+ * the timeline of instructor events) so training officers can write drills
+ * that play out identically for every crew.
+ */
+
+import type { DischargeId, DraftSite, IntakeId, WaterSource } from '../sim/model';
+import { isIntakeId, normalizeDischargeId } from '../sim/ids';
+import {
+  invalid,
+  parseJson,
+  readArray,
+  readBoolean,
+  readEnum,
+  readNonNegative,
+  readNumber,
+  readObject,
+  readOptional,
+  readPercent,
+  readPositive,
+  readString,
+} from '../sim/json-validation';
+import { DRAFT_SITE_LIMITS } from '../sim/drafting';
+import { parseFaultSpec } from '../sim/faults';
+import { SCENARIO_COMPARISONS, SCENARIO_METRICS } from './scenario-runtime';
+import type {
+  ScenarioCondition,
+  ScenarioEvent,
+  ScenarioEventAction,
+  ScenarioObjective,
+  ScenarioPredicate,
+  ScenarioSetup,
+} from './scenario-runtime';
+import type { TrainingScenario } from './definitions';
+
+const WATER_SOURCES: readonly WaterSource[] = ['tank', 'hydrant', 'draft', 'relay'];
+
+const OBJECTIVE_KINDS = ['achieve', 'maintain'] as const;
+
+const EVENT_ACTIONS: readonly ScenarioEventAction['type'][] = [
+  'SET_INTAKE_PRESSURE',
+  'SCENARIO_HOSE_BURST',
+  'SCENARIO_INTAKE_FAILURE',
+  'SCENARIO_TANK_LEAK',
+  'SCENARIO_FOAM_LEAK',
+  'SCENARIO_CLEAR_TANK_LEAK',
+  'SCENARIO_CLEAR_FOAM_LEAK',
+  'SCENARIO_GOVERNOR_FAILURE',
+  'FAULT_START',
+  'FAULT_CLEAR',
+  'FAULT_CLEAR_ALL',
+];
+
+function parseIntake(value: unknown, path: string): IntakeId {
+  const id = readString(value, path);
+  if (!isIntakeId(id)) invalid(path, `"${id}" is not a known intake`);
+  return id;
+}
+
+function parseDischarge(value: unknown, path: string): DischargeId {
+  const id = normalizeDischargeId(readString(value, path));
+  if (!id) invalid(path, `"${String(value)}" is not a known discharge`);
+  return id;
+}
+
+function parsePredicates(value: unknown, path: string): ScenarioPredicate[] {
+  const predicates = readArray(value, path);
+  if (predicates.length === 0) invalid(path, 'must list at least one predicate');
+  return predicates.map((item, i) => parsePredicate(item, `${path}[${i}]`));
+}
+
+/**
+ * Validate a predicate; the shape is chosen by the key it carries
+ */
+export function parsePredicate(value: unknown, path: string): ScenarioPredicate {
+  const predicate = readObject(value, path);
+  if ('metric' in predicate) {
+    return {
+      metric: readEnum(predicate.metric, SCENARIO_METRICS, `${path}.metric`),
+      op: readEnum(predicate.op, SCENARIO_COMPARISONS, `${path}.op`),
+      value: readNumber(predicate.value, `${path}.value`),
+    };
+  }
+  if ('waterSource' in predicate) {
+    return { waterSource: readEnum(predicate.waterSource, WATER_SOURCES, `${path}.waterSource`) };
+  }
+  if ('rising' in predicate) return { rising: readEnum(predicate.rising, SCENARIO_METRICS, `${path}.rising`) };
+  if ('falling' in predicate) return { falling: readEnum(predicate.falling, SCENARIO_METRICS, `${path}.falling`) };
+  if ('previous' in predicate) return { previous: parsePredicate(predicate.previous, `${path}.previous`) };
+  if ('all' in predicate) return { all: parsePredicates(predicate.all, `${path}.all`) };
+  if ('any' in predicate) return { any: parsePredicates(predicate.any, `${path}.any`) };
+  if ('not' in predicate) return { not: parsePredicate(predicate.not, `${path}.not`) };
+  return invalid(path, 'must have one of metric, waterSource, rising, falling, previous, all, any, not');
+}
+
+/**
+ * Validate the draft site settings a scenario gives; the rest are left as they are
+ */
+function parseDraftSite(value: unknown, path: string): Partial<DraftSite> {
+  const site = readObject(value, path);
+  const parsed: Partial<DraftSite> = {};
+  for (const [key, item] of Object.entries(site)) {
+    if (!(key in DRAFT_SITE_LIMITS)) invalid(`${path}.${key}`, 'is not a draft site setting');
+    const { min, max } = DRAFT_SITE_LIMITS[key as keyof DraftSite];
+    const number = readNumber(item, `${path}.${key}`);
+    if (number < min || number > max) invalid(`${path}.${key}`, `must be between ${min} and ${max}`);
+    parsed[key as keyof DraftSite] = number;
+  }
+  return parsed;
+}
+
+function parseSetup(value: unknown, path: string): ScenarioSetup {
+  const setup = readObject(value, path);
+  const openDischarges = readOptional(setup.openDischarges, `${path}.openDischarges`, (item, itemPath) => {
+    const valves: Partial<Record<DischargeId, number>> = {};
+    for (const [id, pct] of Object.entries(readObject(item, itemPath))) {
+      valves[parseDischarge(id, `${itemPath}.${id}`)] = readPercent(pct, `${itemPath}.${id}`);
+    }
+    return valves;
+  });
+  return {
+    waterSource: readOptional(setup.waterSource, `${path}.waterSource`, (item, itemPath) =>
+      readEnum(item, WATER_SOURCES, itemPath)),
+    intakePressure: readOptional(setup.intakePressure, `${path}.intakePressure`, readNumber),
+    draftSite: readOptional(setup.draftSite, `${path}.draftSite`, parseDraftSite),
+    throttlePercent: readOptional(setup.throttlePercent, `${path}.throttlePercent`, readPercent),
+    tankLevel: readOptional(setup.tankLevel, `${path}.tankLevel`, readNonNegative),
+    dischargePressure: readOptional(setup.dischargePressure, `${path}.dischargePressure`, readNonNegative),
+    allValvesClosed: readOptional(setup.allValvesClosed, `${path}.allValvesClosed`, readBoolean),
+    openDischarges,
+    drvEnabled: readOptional(setup.drvEnabled, `${path}.drvEnabled`, readBoolean),
+  };
+}
+
+function parseCondition(value: unknown, path: string): ScenarioCondition {
+  const condition = readObject(value, path);
+  return {
+    id: readString(condition.id, `${path}.id`),
+    description: readString(condition.description, `${path}.description`),
+    when: parsePredicate(condition.when, `${path}.when`),
+    forSec: readOptional(condition.forSec, `${path}.forSec`, readNonNegative),
+  };
+}
+
+function parseObjective(value: unknown, path: string): ScenarioObjective {
+  const objective = readObject(value, path);
+  return {
+    ...parseCondition(value, path),
+    kind: readOptional(objective.kind, `${path}.kind`, (item, itemPath) => readEnum(item, OBJECTIVE_KINDS, itemPath)),
+    deadlineSec: readOptional(objective.deadlineSec, `${path}.deadlineSec`, readNonNegative),
+  };
+}
+
+function parseEventAction(value: unknown, path: string): ScenarioEventAction {
+  const action = readObject(value, path);
+  const type = readEnum(action.type, EVENT_ACTIONS, `${path}.type`);
+  switch (type) {
+    case 'SET_INTAKE_PRESSURE':
+      return {
+        type,
+        intakeId: parseIntake(action.intakeId, `${path}.intakeId`),
+        psi: readNonNegative(action.psi, `${path}.psi`),
+      };
+    case 'SCENARIO_HOSE_BURST':
+      return { type, lineId: parseDischarge(action.lineId, `${path}.lineId`) };
+    case 'SCENARIO_INTAKE_FAILURE':
+      return {
+        type,
+        intakeId: parseIntake(action.intakeId, `${path}.intakeId`),
+        residualPsi: readNonNegative(action.residualPsi, `${path}.residualPsi`),
+      };
+    case 'SCENARIO_TANK_LEAK':
+    case 'SCENARIO_FOAM_LEAK':
+      return { type, rateGpm: readPositive(action.rateGpm, `${path}.rateGpm`) };
+    case 'FAULT_START':
+      return {
+        type,
+        fault: parseFaultSpec(action.fault, `${path}.fault`),
+        id: readOptional(action.id, `${path}.id`, readString),
+      };
+    case 'FAULT_CLEAR':
+      return { type, id: readString(action.id, `${path}.id`) };
+    case 'SCENARIO_CLEAR_TANK_LEAK':
+    case 'SCENARIO_CLEAR_FOAM_LEAK':
+    case 'SCENARIO_GOVERNOR_FAILURE':
+    case 'FAULT_CLEAR_ALL':
+      return { type };
+  }
+}
+
+function parseEvent(value: unknown, path: string): ScenarioEvent {
+  const event = readObject(value, path);
+  if (event.atSec === undefined && event.when === undefined) {
+    invalid(path, 'must have atSec, when, or both');
+  }
+  return {
+    id: readString(event.id, `${path}.id`),
+    description: readString(event.description, `${path}.description`),
+    atSec: readOptional(event.atSec, `${path}.atSec`, readNonNegative),
+    when: readOptional(event.when, `${path}.when`, parsePredicate),
+    forSec: readOptional(event.forSec, `${path}.forSec`, readNonNegative),
+    action: parseEventAction(event.action, `${path}.action`),
+  };
+}
+
+/**
+ * Validate a list whose items carry ids, rejecting repeated ids
+ */
+function parseList<T extends { id: string }>(
+  value: unknown,
+  path: string,
+  parse: (item: unknown, path: string) => T
+): T[] {
+  const items = readArray(value, path).map((item, i) => parse(item, `${path}[${i}]`));
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (seen.has(item.id)) invalid(`${path}[${i}].id`, `"${item.id}" is listed twice`);
+    seen.add(item.id);
+  });
+  return items;
+}
+
+/**
+ * Validate a JSON training scenario
+ *
+ * @param data - Parsed JSON
+ * @param path - Name of the scenario in error messages
+ * @returns Typed scenario
+ * @throws Error naming the first invalid field
+ */
+export function parseTrainingScenario(data: unknown, path: string = 'scenario'): TrainingScenario {
+  const scenario = readObject(data, path);
+  return {
+    id: readString(scenario.id, `${path}.id`),
+    title: readString(scenario.title, `${path}.title`),
+    description: readString(scenario.description, `${path}.description`),
+    setup: parseSetup(scenario.setup, `${path}.setup`),
+    objectives: parseList(scenario.objectives, `${path}.objectives`, parseObjective),
+    faultConditions: parseList(scenario.faultConditions, `${path}.faultConditions`, parseCondition),
+    events: readOptional(scenario.events, `${path}.events`, (item, itemPath) => parseList(item, itemPath, parseEvent)),
+    timeLimitSec: readOptional(scenario.timeLimitSec, `${path}.timeLimitSec`, readNonNegative),
+  };
+}
+
+/**
+ * Parse and validate scenario script file text
+ *
+ * @param text - File contents
+ * @returns Typed scenario
+ * @throws Error describing the problem
+ */
+export function readTrainingScenario(text: string): TrainingScenario {
+  return parseTrainingScenario(parseJson(text, 'scenario'));
+}
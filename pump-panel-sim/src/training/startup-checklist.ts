@@ -69,7 +69,7 @@ export const PIERCE_PUC_STARTUP: ChecklistStep[] = [
       }
       return true; // Not drafting, step not applicable
     },
-    helpText: 'If drafting: Press and hold Primer button for 15 seconds. Otherwise, skip this step.',
+    helpText: 'If drafting: Run the primer until the pump primes (about 10 seconds at a 10 ft lift). Otherwise, skip this step.',
   },
 ];
 
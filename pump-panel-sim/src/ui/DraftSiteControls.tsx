@@ -0,0 +1,61 @@
+/**
+ * Draft site
+ * Instructor sliders for the lift, hard suction, strainer, water
+ * temperature and altitude the pump drafts from, with the flow and lift
+ * they leave the pump.
+ */
+
+import { useSimulation } from '@/sim/SimulationContext';
+import { broadcast } from '@/net/ws';
+import { DRAFT_SITE_LIMITS, maxDraftFlowGpm, maxLiftFt } from '@/sim/drafting';
+import { draftSiteWithFaults } from '@/sim/faults';
+import type { DraftSite } from '@/sim/model';
+
+const SITE_FIELDS: { key: keyof DraftSite; label: string; unit: string; step: number }[] = [
+  { key: 'liftFt', label: 'Lift', unit: 'ft', step: 0.5 },
+  { key: 'hardSuctionDiameterIn', label: 'Hard Suction Size', unit: 'in', step: 0.5 },
+  { key: 'hardSuctionLengthFt', label: 'Hard Suction Length', unit: 'ft', step: 10 },
+  { key: 'strainerBlockagePct', label: 'Strainer Blockage', unit: '%', step: 5 },
+  { key: 'waterTempF', label: 'Water Temperature', unit: '°F', step: 1 },
+  { key: 'altitudeFt', label: 'Altitude', unit: 'ft', step: 500 },
+];
+
+export function DraftSiteControls({ connected }: { connected: boolean }) {
+  const { state, dispatch } = useSimulation();
+  // The limits include any clogged strainer fault on top of the site's own blockage
+  const site = draftSiteWithFaults(state);
+
+  const setSite = (site: Partial<DraftSite>) => {
+    dispatch({ type: 'DRAFT_SITE_SET', site });
+    if (connected) {
+      broadcast({ type: 'SET_PARAMETER', parameter: 'draftSite', draftSite: site });
+    }
+  };
+
+  return (
+    <div className="control-section">
+      <h4>Draft Site</h4>
+      {SITE_FIELDS.map(({ key, label, unit, step }) => (
+        <div key={key} className="slider-control">
+          <label htmlFor={`draft-${key}`}>
+            <span>{label}</span>
+            <span>{state.draft[key]} {unit}</span>
+          </label>
+          <input
+            id={`draft-${key}`}
+            type="range"
+            min={DRAFT_SITE_LIMITS[key].min}
+            max={DRAFT_SITE_LIMITS[key].max}
+            step={step}
+            value={state.draft[key]}
+            onChange={(e) => setSite({ [key]: Number(e.target.value) })}
+          />
+        </div>
+      ))}
+      <div role="status" aria-live="polite" style={{ fontSize: '12px', marginTop: '8px' }}>
+        Max draft flow {Math.round(maxDraftFlowGpm(site, state.pump))} GPM, max lift{' '}
+        {maxLiftFt(site, state.pump).toFixed(1)} ft
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * Governor tuning
+ * Instructor view for trying pressure governor PID gains against the
+ * standard step test, or searching for gains that hit target figures,
+ * before applying them to the live panel.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useSimulation } from '@/sim/SimulationContext';
+import { broadcast } from '@/net/ws';
+import { apparatusFromState } from '@/sim/apparatus';
+import { DEFAULT_GOVERNOR_TUNING, getGovernorTuning } from '@/sim/governor';
+import { runGovernorStepResponse } from '@/sim/step-response';
+import type { StepResponseMetrics, StepResponseSample, StepResponseTargets } from '@/sim/step-response';
+import type { GovernorTuning } from '@/sim/model';
+import { UI_AUTO_TUNE_RUNS, startGovernorAutoTune } from './governor-auto-tune';
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 90;
+
+const GAIN_FIELDS: { key: keyof GovernorTuning; label: string; step: number }[] = [
+  { key: 'kp', label: 'Kp', step: 0.05 },
+  { key: 'ki', label: 'Ki', step: 0.01 },
+  { key: 'kd', label: 'Kd', step: 0.01 },
+  { key: 'integralLimit', label: 'Integral limit', step: 50 },
+];
+
+const TARGET_FIELDS: { key: keyof StepResponseTargets; label: string; step: number }[] = [
+  { key: 'riseTimeSec', label: 'Rise time (s)', step: 0.1 },
+  { key: 'overshootPct', label: 'Overshoot (%)', step: 1 },
+  { key: 'settlingTimeSec', label: 'Settling time (s)', step: 0.5 },
+];
+
+/** Auto-tune targets to start from: the Pierce PUC's own step response */
+const DEFAULT_TARGETS: StepResponseTargets = { riseTimeSec: 2, overshootPct: 9, settlingTimeSec: 11 };
+
+function formatSec(value: number | null): string {
+  return value === null ? '—' : `${value.toFixed(1)} s`;
+}
+
+/**
+ * Discharge pressure after the step with the target dashed across it
+ */
+function StepChart({ samples, metrics }: { samples: StepResponseSample[]; metrics: StepResponseMetrics }) {
+  const durationSec = samples[samples.length - 1]?.timeSec ?? 1;
+  const values = [metrics.initialPsi, metrics.targetPsi, ...samples.map(sample => sample.pdpPsi)];
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const range = Math.max(high - low, 1);
+  const x = (timeSec: number) => (timeSec / durationSec) * CHART_WIDTH;
+  const y = (psi: number) => CHART_HEIGHT - ((psi - low) / range) * CHART_HEIGHT;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      style={{ width: '100%', height: `${CHART_HEIGHT}px`, background: '#111' }}
+      role="img"
+      aria-label={`Discharge pressure rising from ${Math.round(metrics.initialPsi)} to ${Math.round(metrics.targetPsi)} PSI`}
+    >
+      <line x1={0} x2={CHART_WIDTH} y1={y(metrics.targetPsi)} y2={y(metrics.targetPsi)} stroke="#888" strokeDasharray="4 3" />
+      <polyline
+        fill="none"
+        stroke="#60a5fa"
+        strokeWidth={1.5}
+        points={samples.map(sample => `${x(sample.timeSec).toFixed(1)},${y(sample.pdpPsi).toFixed(1)}`).join(' ')}
+      />
+    </svg>
+  );
+}
+
+export function GovernorTuningControls({ connected }: { connected: boolean }) {
+  const { state, dispatch } = useSimulation();
+  const [draft, setDraft] = useState<GovernorTuning>(() => getGovernorTuning(state.pump));
+  const [targets, setTargets] = useState<StepResponseTargets>(DEFAULT_TARGETS);
+  const [result, setResult] = useState<{ samples: StepResponseSample[]; metrics: StepResponseMetrics } | null>(null);
+  const [tuneRuns, setTuneRuns] = useState<number | null>(null);
+  const cancelTune = useRef<(() => void) | null>(null);
+
+  // Stop a search still running when the view closes
+  useEffect(() => () => cancelTune.current?.(), []);
+
+  // This apparatus, imported or bundled, with the draft gains
+  const draftProfile = () => {
+    const profile = apparatusFromState(state);
+    return { ...profile, pump: { ...profile.pump, governorTuning: draft } };
+  };
+
+  const runStepTest = () => setResult(runGovernorStepResponse(draftProfile()));
+
+  // Search from the draft gains toward the targets, a step test at a time; the gains found replace the draft
+  const runAutoTune = () => {
+    setTuneRuns(0);
+    cancelTune.current = startGovernorAutoTune(draftProfile(), targets, {
+      onProgress: setTuneRuns,
+      onDone: ({ tuning, samples, metrics }) => {
+        cancelTune.current = null;
+        setTuneRuns(null);
+        setDraft(tuning);
+        setResult({ samples, metrics });
+      },
+    });
+  };
+
+  const targetsValid = targets.riseTimeSec > 0 && targets.settlingTimeSec > 0 && targets.overshootPct >= 0;
+
+  const applyTuning = () => {
+    dispatch({ type: 'GOVERNOR_TUNING_SET', tuning: draft });
+    if (connected) {
+      broadcast({ type: 'SET_PARAMETER', parameter: 'governorTuning', tuning: draft });
+    }
+  };
+
+  return (
+    <div className="control-section">
+      <h4>Governor Tuning</h4>
+      {GAIN_FIELDS.map(({ key, label, step }) => (
+        <label key={key} htmlFor={`governor-${key}`} style={{ display: 'block' }}>
+          {label}:
+          <input
+            id={`governor-${key}`}
+            type="number"
+            min="0"
+            step={step}
+            value={draft[key]}
+            onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value) })}
+          />
+        </label>
+      ))}
+      <p style={{ fontSize: '12px', color: '#888', margin: '8px 0 4px' }}>Auto-tune targets</p>
+      {TARGET_FIELDS.map(({ key, label, step }) => (
+        <label key={key} htmlFor={`governor-target-${key}`} style={{ display: 'block' }}>
+          {label}:
+          <input
+            id={`governor-target-${key}`}
+            type="number"
+            min="0"
+            step={step}
+            value={targets[key]}
+            onChange={(e) => setTargets({ ...targets, [key]: Number(e.target.value) })}
+          />
+        </label>
+      ))}
+      <div className="scenario-buttons">
+        <button
+          className="scenario-button touchable with-ripple"
+          onClick={runStepTest}
+          disabled={tuneRuns !== null}
+          title="Open XLAY 1 on a pump idling on tank and measure how pressure follows"
+        >
+          📈 Step Test
+        </button>
+        <button
+          className="scenario-button touchable with-ripple"
+          onClick={runAutoTune}
+          disabled={!targetsValid || tuneRuns !== null}
+          aria-busy={tuneRuns !== null}
+          title="Search for gains whose step test comes closest to the targets"
+        >
+          {tuneRuns === null ? '🎯 Auto-Tune' : `🎯 Tuning… ${tuneRuns}/${UI_AUTO_TUNE_RUNS}`}
+        </button>
+        <button
+          className="scenario-button touchable with-ripple"
+          onClick={applyTuning}
+          title="Use these gains on the panel"
+        >
+          ✅ Apply
+        </button>
+        <button
+          className="scenario-button touchable with-ripple"
+          onClick={() => setDraft(apparatusFromState(state).pump.governorTuning ?? DEFAULT_GOVERNOR_TUNING)}
+          disabled={tuneRuns !== null}
+          title="Back to the gains the panel is running"
+        >
+          ↩️ Panel Gains
+        </button>
+      </div>
+      {result && (
+        <div role="status" aria-live="polite" style={{ fontSize: '12px', marginTop: '8px' }}>
+          <StepChart samples={result.samples} metrics={result.metrics} />
+          <div>
+            {Math.round(result.metrics.initialPsi)} → {Math.round(result.metrics.targetPsi)} PSI: rise{' '}
+            {formatSec(result.metrics.riseTimeSec)}, overshoot {result.metrics.overshootPct.toFixed(0)}%, settling{' '}
+            {formatSec(result.metrics.settlingTimeSec)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * Hydrant supply
+ * Instructor sliders for the hydrant's flow test and the supply line to
+ * the intake, with the flow the hydrant has left at 20 PSI.
+ */
+
+import { useSimulation } from '@/sim/SimulationContext';
+import { broadcast } from '@/net/ws';
+import { HYDRANT_SUPPLY_LIMITS } from '@/sim/hydrant';
+import { hydrantFlowAtResidual } from '@/hydraulics/hydrant-flow';
+import type { HydrantSupply } from '@/sim/model';
+
+const SUPPLY_FIELDS: { key: keyof HydrantSupply; label: string; unit: string; step: number }[] = [
+  { key: 'staticPsi', label: 'Static Pressure', unit: 'PSI', step: 1 },
+  { key: 'residualPsi', label: 'Test Residual', unit: 'PSI', step: 1 },
+  { key: 'testFlowGpm', label: 'Test Flow', unit: 'GPM', step: 50 },
+  { key: 'supplyDiameterIn', label: 'Supply Line Size', unit: 'in', step: 0.5 },
+  { key: 'supplyLengthFt', label: 'Supply Line Length', unit: 'ft', step: 50 },
+];
+
+export function HydrantSupplyControls({ connected }: { connected: boolean }) {
+  const { state, dispatch } = useSimulation();
+  const { staticPsi, residualPsi, testFlowGpm } = state.hydrant;
+
+  const setHydrant = (hydrant: Partial<HydrantSupply>) => {
+    dispatch({ type: 'HYDRANT_SET', hydrant });
+    if (connected) {
+      broadcast({ type: 'SET_PARAMETER', parameter: 'hydrant', hydrant });
+    }
+  };
+
+  const availableGpm = hydrantFlowAtResidual(staticPsi, residualPsi, testFlowGpm);
+
+  return (
+    <div className="control-section">
+      <h4>Hydrant Supply</h4>
+      {SUPPLY_FIELDS.map(({ key, label, unit, step }) => (
+        <div key={key} className="slider-control">
+          <label htmlFor={`hydrant-${key}`}>
+            <span>{label}</span>
+            <span>{Math.round(state.hydrant[key] * 10) / 10} {unit}</span>
+          </label>
+          <input
+            id={`hydrant-${key}`}
+            type="range"
+            min={HYDRANT_SUPPLY_LIMITS[key].min}
+            max={HYDRANT_SUPPLY_LIMITS[key].max}
+            step={step}
+            value={state.hydrant[key]}
+            onChange={(e) => setHydrant({ [key]: Number(e.target.value) })}
+          />
+        </div>
+      ))}
+      <div role="status" aria-live="polite" style={{ fontSize: '12px', marginTop: '8px' }}>
+        Available at 20 PSI: {Number.isFinite(availableGpm) ? `${Math.round(availableGpm)} GPM` : 'unlimited'}
+      </div>
+    </div>
+  );
+}
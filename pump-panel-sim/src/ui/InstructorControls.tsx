@@ -1,6 +1,15 @@
-import { useState } from 'react';
+import { useState, type ChangeEvent } from 'react';
 import { useSimulation } from '@/sim/SimulationContext';
 import { broadcast, type InstructorMessage } from '@/net/ws';
+import { PIERCE_PUC_SCENARIOS, type TrainingScenario } from '@/training/definitions';
+import { readTrainingScenario } from '@/training/scenario-script';
+import { DEFAULT_FOAM_LEAK_GPM, DEFAULT_TANK_LEAK_GPM } from '@/sim/leaks';
+import { createDefaultFault, FAULT_KINDS, FAULT_LABELS, hasFault } from '@/sim/faults';
+import { supplyFailureResidualPsi } from '@/sim/hydrant';
+import type { DischargeId, FaultKind } from '@/sim/model';
+import { DraftSiteControls } from './DraftSiteControls';
+import { HydrantSupplyControls } from './HydrantSupplyControls';
+import { GovernorTuningControls } from './GovernorTuningControls';
 import './InstructorControls.css';
 
 interface InstructorControlsProps {
@@ -9,14 +18,39 @@ interface InstructorControlsProps {
 }
 
 export function InstructorControls({ connected, room }: InstructorControlsProps) {
-  const { state, dispatch } = useSimulation();
+  const { state, scenario, dispatch, rng } = useSimulation();
   const [hydrantPressure, setHydrantPressure] = useState(50);
   const [selectedIntake, setSelectedIntake] = useState('ldh_driver');
-  const [selectedDischarge, setSelectedDischarge] = useState('xlay1');
+  const [selectedDischarge, setSelectedDischarge] = useState(() => Object.keys(state.lineConfigs)[0] ?? 'xlay1');
+  const [selectedScenario, setSelectedScenario] = useState('cavitation');
+  const [tankLeakGpm, setTankLeakGpm] = useState(DEFAULT_TANK_LEAK_GPM);
+  const [foamLeakGpm, setFoamLeakGpm] = useState(DEFAULT_FOAM_LEAK_GPM);
+  const [selectedFault, setSelectedFault] = useState<FaultKind>('stuck_valve');
+  const [importedScenarios, setImportedScenarios] = useState<Record<string, TrainingScenario>>({});
+  const [scriptError, setScriptError] = useState<string | null>(null);
+  const scenarios = { ...PIERCE_PUC_SCENARIOS, ...importedScenarios };
+  const tankLeaking = hasFault(state, 'tank_leak');
+  const foamLeaking = hasFault(state, 'foam_leak');
+
+  // Load a scenario script file and select it; validation errors are shown below the picker
+  const handleScriptImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      const script = readTrainingScenario(await file.text());
+      setImportedScenarios((current) => ({ ...current, [script.id]: script }));
+      setSelectedScenario(script.id);
+      setScriptError(null);
+    } catch (error) {
+      setScriptError(`${file.name}: ${(error as Error).message}`);
+    }
+    input.value = '';
+  };
 
   // Get list of intakes and discharges
-  const intakes = Object.keys(state.intakes);
-  const discharges = Object.keys(state.discharges);
+  const intakes = Object.keys(state.intakePsi);
+  const discharges = Object.keys(state.dischargeValvePct);
 
   const handleHydrantPressureChange = (value: number) => {
     setHydrantPressure(value);
@@ -36,7 +70,9 @@ export function InstructorControls({ connected, room }: InstructorControlsProps)
     }
   };
 
-  const triggerScenario = (scenario: 'HOSE_BURST' | 'INTAKE_FAILURE' | 'TANK_LEAK' | 'GOVERNOR_FAILURE') => {
+  const triggerScenario = (
+    scenario: 'HOSE_BURST' | 'INTAKE_FAILURE' | 'TANK_LEAK' | 'FOAM_LEAK' | 'GOVERNOR_FAILURE'
+  ) => {
     let message: InstructorMessage;
 
     switch (scenario) {
@@ -48,20 +84,36 @@ export function InstructorControls({ connected, room }: InstructorControlsProps)
           lineId: selectedDischarge,
         };
         break;
-      case 'INTAKE_FAILURE':
-        dispatch({ type: 'SCENARIO_INTAKE_FAILURE', intakeId: selectedIntake });
+      case 'INTAKE_FAILURE': {
+        // Pick the residual pressure once so every connected client sees the same failure
+        const residualPsi = supplyFailureResidualPsi(rng);
+        dispatch({ type: 'SCENARIO_INTAKE_FAILURE', intakeId: selectedIntake, residualPsi });
         message = {
           type: 'SCENARIO_EVENT',
           event: 'INTAKE_FAILURE',
           intakeId: selectedIntake,
+          value: residualPsi,
         };
         break;
+      }
       case 'TANK_LEAK':
-        dispatch({ type: 'SCENARIO_TANK_LEAK' });
-        message = {
-          type: 'SCENARIO_EVENT',
-          event: 'TANK_LEAK',
-        };
+        // The same button clears an active leak
+        if (tankLeaking) {
+          dispatch({ type: 'SCENARIO_CLEAR_TANK_LEAK' });
+          message = { type: 'SCENARIO_EVENT', event: 'CLEAR_TANK_LEAK' };
+        } else {
+          dispatch({ type: 'SCENARIO_TANK_LEAK', rateGpm: tankLeakGpm });
+          message = { type: 'SCENARIO_EVENT', event: 'TANK_LEAK', value: tankLeakGpm };
+        }
+        break;
+      case 'FOAM_LEAK':
+        if (foamLeaking) {
+          dispatch({ type: 'SCENARIO_CLEAR_FOAM_LEAK' });
+          message = { type: 'SCENARIO_EVENT', event: 'CLEAR_FOAM_LEAK' };
+        } else {
+          dispatch({ type: 'SCENARIO_FOAM_LEAK', rateGpm: foamLeakGpm });
+          message = { type: 'SCENARIO_EVENT', event: 'FOAM_LEAK', value: foamLeakGpm };
+        }
         break;
       case 'GOVERNOR_FAILURE':
         dispatch({ type: 'SCENARIO_GOVERNOR_FAILURE' });
@@ -78,6 +130,24 @@ export function InstructorControls({ connected, room }: InstructorControlsProps)
     }
   };
 
+  // Equipment faults persist until cleared; broadcast so every panel runs the same fault
+  const startFault = () => {
+    const fault = createDefaultFault(selectedFault, state, selectedDischarge as DischargeId);
+    dispatch({ type: 'FAULT_START', fault });
+    if (connected) {
+      broadcast({ type: 'SCENARIO_EVENT', event: 'FAULT_START', fault });
+    }
+  };
+
+  const clearFault = (faultId?: string) => {
+    dispatch(faultId ? { type: 'FAULT_CLEAR', id: faultId } : { type: 'FAULT_CLEAR_ALL' });
+    if (connected) {
+      broadcast(faultId
+        ? { type: 'SCENARIO_EVENT', event: 'FAULT_CLEAR', faultId }
+        : { type: 'SCENARIO_EVENT', event: 'FAULT_CLEAR_ALL' });
+    }
+  };
+
   return (
     <div className="instructor-controls">
       <h3>
@@ -129,6 +199,34 @@ export function InstructorControls({ connected, room }: InstructorControlsProps)
             </option>
           ))}
         </select>
+        <div className="slider-control">
+          <label>
+            <span>Tank Leak Rate</span>
+            <span>{tankLeakGpm} GPM</span>
+          </label>
+          <input
+            type="range"
+            min="5"
+            max="200"
+            step="5"
+            value={tankLeakGpm}
+            onChange={(e) => setTankLeakGpm(Number(e.target.value))}
+          />
+        </div>
+        <div className="slider-control">
+          <label>
+            <span>Foam Leak Rate</span>
+            <span>{foamLeakGpm} GPM</span>
+          </label>
+          <input
+            type="range"
+            min="0.5"
+            max="10"
+            step="0.5"
+            value={foamLeakGpm}
+            onChange={(e) => setFoamLeakGpm(Number(e.target.value))}
+          />
+        </div>
         <div className="scenario-buttons">
           <button
             className="scenario-button touchable with-ripple"
@@ -147,20 +245,156 @@ export function InstructorControls({ connected, room }: InstructorControlsProps)
           <button
             className="scenario-button touchable with-ripple"
             onClick={() => triggerScenario('TANK_LEAK')}
-            title="Accelerate tank water depletion"
+            title={tankLeaking ? 'Stop the booster tank leak' : 'Start a booster tank leak at the set rate'}
+            aria-pressed={tankLeaking}
+          >
+            💧 {tankLeaking ? 'Clear Tank Leak' : 'Tank Leak'}
+          </button>
+          <button
+            className="scenario-button touchable with-ripple"
+            onClick={() => triggerScenario('FOAM_LEAK')}
+            title={foamLeaking ? 'Stop the foam cell leak' : 'Start a foam cell leak at the set rate'}
+            aria-pressed={foamLeaking}
           >
-            💧 Tank Leak
+            🧴 {foamLeaking ? 'Clear Foam Leak' : 'Foam Leak'}
           </button>
           <button
             className="scenario-button touchable with-ripple"
             onClick={() => triggerScenario('GOVERNOR_FAILURE')}
-            title="Disable automatic governor control"
+            title="Freeze engine speed until the governor fault is cleared"
           >
             ⚠️ Governor Fail
           </button>
         </div>
       </div>
 
+      <div className="control-section">
+        <h4>Equipment Faults</h4>
+        <label htmlFor="fault-select">Fault:</label>
+        <select
+          id="fault-select"
+          value={selectedFault}
+          onChange={(e) => setSelectedFault(e.target.value as FaultKind)}
+        >
+          {FAULT_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {FAULT_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+        <div className="scenario-buttons">
+          <button
+            className="scenario-button touchable with-ripple"
+            onClick={startFault}
+            title="Inject the fault; a stuck valve seizes the target discharge where it is"
+          >
+            🛠️ Start Fault
+          </button>
+          <button
+            className="scenario-button touchable with-ripple"
+            onClick={() => clearFault()}
+            disabled={state.activeFaults.length === 0}
+            title="Restore all equipment to normal"
+          >
+            ✅ Clear All
+          </button>
+        </div>
+        {state.activeFaults.length > 0 && (
+          <ul style={{ fontSize: '12px', margin: '4px 0', paddingLeft: '16px' }}>
+            {state.activeFaults.map((fault) => (
+              <li key={fault.id}>
+                {FAULT_LABELS[fault.spec.kind]} ({fault.id}, {fault.activeSec.toFixed(0)} s){' '}
+                <button
+                  className="touchable"
+                  onClick={() => clearFault(fault.id)}
+                  aria-label={`Clear ${FAULT_LABELS[fault.spec.kind]}`}
+                >
+                  Clear
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <HydrantSupplyControls connected={connected} />
+
+      <DraftSiteControls connected={connected} />
+
+      <GovernorTuningControls connected={connected} />
+
+      <div className="control-section">
+        <h4>Training Scenarios</h4>
+        <label htmlFor="training-scenario-select">Scenario:</label>
+        <select
+          id="training-scenario-select"
+          value={selectedScenario}
+          onChange={(e) => setSelectedScenario(e.target.value)}
+        >
+          {Object.values(scenarios).map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.title}
+            </option>
+          ))}
+        </select>
+        <div className="scenario-buttons">
+          <button
+            className="scenario-button touchable with-ripple"
+            onClick={() => dispatch({ type: 'SCENARIO_START', scenario: scenarios[selectedScenario] })}
+            title="Apply the scenario setup and start scoring"
+          >
+            ▶️ Start
+          </button>
+          <button
+            className="scenario-button touchable with-ripple"
+            onClick={() => dispatch({ type: 'SCENARIO_STOP' })}
+            disabled={!scenario}
+            title="Stop scoring and clear the result"
+          >
+            ⏹️ Stop
+          </button>
+        </div>
+        <label htmlFor="scenario-script-import">
+          Import script:
+          <input
+            id="scenario-script-import"
+            type="file"
+            accept="application/json,.json"
+            onChange={handleScriptImport}
+          />
+        </label>
+        {scriptError && (
+          <p role="alert" style={{ color: '#ff6b6b', fontSize: '12px', margin: '4px 0' }}>
+            {scriptError}
+          </p>
+        )}
+        {scenario && (
+          <div role="status" aria-live="polite" style={{ fontSize: '12px', marginTop: '8px' }}>
+            <div>
+              {scenario.scenario.title}: {scenario.status.toUpperCase()} at {scenario.elapsedSec.toFixed(1)} s
+            </div>
+            <ul style={{ margin: '4px 0', paddingLeft: '16px' }}>
+              {scenario.objectives.map((objective) => (
+                <li key={objective.id}>
+                  {objective.status === 'met' ? '✅' : objective.status === 'failed' ? '❌' : '⏳'} {objective.description}
+                  {objective.atSec !== null && ` (${objective.atSec.toFixed(1)} s)`}
+                </li>
+              ))}
+              {scenario.events.map((event) => (
+                <li key={event.id}>
+                  📣 {event.description} ({event.atSec.toFixed(1)} s)
+                </li>
+              ))}
+              {scenario.faults.map((fault, i) => (
+                <li key={`${fault.id}-${i}`}>
+                  ⚠️ {fault.description} ({fault.atSec.toFixed(1)} s)
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
       <div className="control-section">
         <h4>Training Overlay Tests</h4>
         <p style={{ fontSize: '12px', color: '#888', marginBottom: '8px' }}>
@@ -0,0 +1,81 @@
+/**
+ * Intakes
+ * Supply, gate valve and relief setpoint for each of the apparatus's
+ * intakes, with the flow each one is passing and any its relief valve dumps.
+ */
+
+import { useSimulation } from '../sim/SimulationContext';
+import type { IntakeId, IntakeState } from '../sim/model';
+import { INTAKE_RELIEF_LIMITS, INTAKE_SUPPLIES, isIntakeSupply } from '../sim/intakes';
+import { getIntakeLabel } from '../sim/utils';
+
+export default function IntakeControls() {
+  const { state, diagnostics, dispatch } = useSimulation();
+  const ids = Object.keys(state.intakes) as IntakeId[];
+
+  const setIntake = (intakeId: IntakeId, intake: Partial<IntakeState>) =>
+    dispatch({ type: 'INTAKE_SET', intakeId, intake });
+
+  return (
+    <div className="mt-4 space-y-3">
+      {ids.map(id => {
+        const intake = state.intakes[id];
+        const dumpGpm = diagnostics.intakeDumpGpm.get(id);
+        return (
+          <div key={id} className="p-3 bg-gray-700/50 rounded">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm text-gray-300">{getIntakeLabel(id)}</span>
+              <span className="text-sm font-mono text-blue-300">{Math.round(state.intakeFlowGpm[id])} GPM</span>
+            </div>
+            {dumpGpm !== undefined && (
+              <div className="mb-2 text-xs font-mono text-yellow-400" role="status" aria-live="polite">
+                RELIEF DUMPING {Math.round(dumpGpm)} GPM
+              </div>
+            )}
+
+            <select
+              aria-label={`${getIntakeLabel(id)} supply`}
+              value={intake.supply ?? ''}
+              onChange={(e) => setIntake(id, { supply: isIntakeSupply(e.target.value) ? e.target.value : null })}
+              className="w-full mb-2 py-1 px-2 rounded bg-gray-800 text-gray-200 text-sm border border-gray-600"
+            >
+              <option value="">Capped</option>
+              {INTAKE_SUPPLIES.map(supply => (
+                <option key={supply} value={supply}>{supply.toUpperCase()}</option>
+              ))}
+            </select>
+
+            <label className="flex justify-between text-xs text-gray-400" htmlFor={`intake-valve-${id}`}>
+              <span>Valve</span>
+              <span>{Math.round(intake.valvePct)}%</span>
+            </label>
+            <input
+              id={`intake-valve-${id}`}
+              type="range"
+              min={0}
+              max={100}
+              value={intake.valvePct}
+              onChange={(e) => setIntake(id, { valvePct: Number(e.target.value) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            />
+
+            <label className="flex justify-between text-xs text-gray-400 mt-2" htmlFor={`intake-relief-${id}`}>
+              <span>Relief</span>
+              <span>{Math.round(intake.reliefPsi)} PSI</span>
+            </label>
+            <input
+              id={`intake-relief-${id}`}
+              type="range"
+              min={INTAKE_RELIEF_LIMITS.min}
+              max={INTAKE_RELIEF_LIMITS.max}
+              step={5}
+              value={intake.reliefPsi}
+              onChange={(e) => setIntake(id, { reliefPsi: Number(e.target.value) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
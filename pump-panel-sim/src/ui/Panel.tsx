@@ -1,5 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Settings, Power, Droplet, Volume2, VolumeX } from 'lucide-react';
+import { useSimulation } from '../sim/SimulationContext';
+import type { DischargeId, LineBranch } from '../sim/model';
+import type { LineHydraulicsResult } from '../sim/engine';
+import { getDischargeLabel } from '../sim/utils';
+import { getGaugeDriftPsi } from '../sim/faults';
+import { getHydrantGuidance } from '../sim/hydrant';
+import { NEEDLE_DAMPING } from '../sim/gauges';
+import type { NeedleDamping } from '../sim/gauges';
+import { useDampedNeedle } from './hooks/useDampedNeedle';
+import IntakeControls from './IntakeControls';
+import SessionReplayBar from './SessionReplayBar';
+import TrendCharts from './TrendCharts';
 
 /**
  * COMPLETE REWRITE - Fire Pump Panel Simulator
@@ -7,31 +19,25 @@ import { Settings, Power, Droplet, Volume2, VolumeX } from 'lucide-react';
  * 
  * ⚠️ WARNING: This is the ONLY active panel file. All UI changes must be made here.
  * Legacy panel files have been removed. Do not create new panel variants without updating App.tsx.
+ *
+ * Gauges and line readouts come from the simulation engine (simulateStep) via SimulationProvider.
+ * Controls dispatch engine actions; the panel keeps no hydraulic state of its own.
  */
 
-// ============ TYPES ============
-type Source = 'tank' | 'hydrant';
-type DischargeId = 'crosslay1' | 'crosslay2' | 'crosslay3' | 'frontTrashline' | 'twoPointFiveA';
-
-interface DischargeState {
-  open: boolean;
-  setPsi: number;
-  actualPsi: number;
-  flow: number;
-}
-
 // ============ CONSTANTS ============
-const DISCHARGE_LINES = [
-  { id: 'crosslay1' as DischargeId, label: 'Crosslay 1', maxPsi: 250, defaultPsi: 150 },
-  { id: 'crosslay2' as DischargeId, label: 'Crosslay 2', maxPsi: 250, defaultPsi: 150 },
-  { id: 'crosslay3' as DischargeId, label: 'Crosslay 3', maxPsi: 250, defaultPsi: 150 },
-  { id: 'frontTrashline' as DischargeId, label: 'Front Trashline', maxPsi: 200, defaultPsi: 100 },
-  { id: 'twoPointFiveA' as DischargeId, label: '2.5" Line A', maxPsi: 300, defaultPsi: 175 }
-];
-
-const ENGINE_IDLE = 650;
-const PUMP_BASE_RPM = 750;
-const MAX_RPM = 2200;
+// Full scale of each discharge gauge; the lines shown are the ones the apparatus has fitted
+const DISCHARGE_GAUGE_MAX_PSI: Record<DischargeId, number> = {
+  xlay1: 250,
+  xlay2: 250,
+  xlay3: 250,
+  trash: 200,
+  d2_5_a: 300,
+  d2_5_b: 300,
+  d2_5_c: 300,
+  d2_5_d: 300,
+  deck: 300,
+  rear_ldh: 200,
+};
 
 // ============ PHOTOREAL GAUGE COMPONENT ============
 interface PhotorealGaugeProps {
@@ -43,6 +49,7 @@ interface PhotorealGaugeProps {
   size?: 'small' | 'medium' | 'large';
   redline?: number;
   imageSrc?: string;
+  damping?: NeedleDamping;  // Needle lags the reading; the digital readout doesn't
 }
 
 const PhotorealGauge: React.FC<PhotorealGaugeProps> = ({
@@ -53,7 +60,8 @@ const PhotorealGauge: React.FC<PhotorealGaugeProps> = ({
   unit,
   size = 'medium',
   redline,
-  imageSrc
+  imageSrc,
+  damping
 }) => {
   const sizeMap = {
     small: 'w-32 h-32',
@@ -64,7 +72,8 @@ const PhotorealGauge: React.FC<PhotorealGaugeProps> = ({
   // Adjusted for real gauge image - typically 240-270 degree sweep
   const sweepAngle = 240; // degrees of sweep for real gauges
   const startAngle = -210; // starting angle (7 o'clock position)
-  const normalizedValue = Math.max(0, Math.min(1, (value - min) / (max - min)));
+  const needleValue = useDampedNeedle(value, damping);
+  const normalizedValue = Math.max(0, Math.min(1, (needleValue - min) / (max - min)));
   const needleAngle = startAngle + (normalizedValue * sweepAngle);
   
   const isOverRedline = redline !== undefined && value >= redline;
@@ -258,205 +267,171 @@ const PhotorealGauge: React.FC<PhotorealGaugeProps> = ({
 // ============ DISCHARGE LINE COMPONENT ============
 interface DischargeLineProps {
   label: string;
-  state: DischargeState;
+  valvePct: number;
+  hydraulics?: LineHydraulicsResult;
   onToggle: () => void;
-  onPressureChange: (psi: number) => void;
+  onValveChange: (pct: number) => void;
+  /** Attack lines off a wye at the end of the lay, with their gates */
+  branches?: LineBranch[];
+  onBranchGateChange: (branchId: string, pct: number) => void;
   maxPsi: number;
+  disabled: boolean;
 }
 
 const DischargeLine: React.FC<DischargeLineProps> = ({
   label,
-  state,
+  valvePct,
+  hydraulics,
   onToggle,
-  onPressureChange,
-  maxPsi
+  onValveChange,
+  branches,
+  onBranchGateChange,
+  maxPsi,
+  disabled
 }) => {
+  const open = valvePct > 0;
+  // Outlet gauge reads the pressure delivered into the line (nozzle pressure + friction loss)
+  const linePsi = hydraulics ? hydraulics.nozzlePressure + hydraulics.frictionLoss : 0;
+
   return (
     <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
       <div className="flex items-center justify-between mb-3">
         <h3 className="text-white font-medium">{label}</h3>
         <button
           onClick={onToggle}
-          className={`px-4 py-2 rounded font-medium transition-all ${
-            state.open 
-              ? 'bg-green-600 hover:bg-green-700 text-white' 
+          disabled={disabled}
+          className={`px-4 py-2 rounded font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+            open
+              ? 'bg-green-600 hover:bg-green-700 text-white'
               : 'bg-gray-600 hover:bg-gray-700 text-gray-300'
           }`}
         >
-          {state.open ? 'OPEN' : 'CLOSED'}
+          {open ? 'OPEN' : 'CLOSED'}
         </button>
       </div>
-      
-      {/* Pressure control slider */}
+
+      {/* Valve position slider */}
       <div className="mb-3">
         <div className="flex justify-between text-xs text-gray-400 mb-1">
-          <span>Set Pressure</span>
-          <span>{state.setPsi} PSI</span>
+          <span>Valve</span>
+          <span>{Math.round(valvePct)}%</span>
         </div>
         <input
           type="range"
           min="0"
-          max={maxPsi}
-          value={state.setPsi}
-          onChange={(e) => onPressureChange(Number(e.target.value))}
-          disabled={!state.open}
+          max="100"
+          value={valvePct}
+          onChange={(e) => onValveChange(Number(e.target.value))}
+          disabled={disabled}
           className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
           style={{
-            background: state.open 
-              ? `linear-gradient(to right, #10b981 0%, #10b981 ${(state.setPsi / maxPsi) * 100}%, #374151 ${(state.setPsi / maxPsi) * 100}%, #374151 100%)`
+            background: open
+              ? `linear-gradient(to right, #10b981 0%, #10b981 ${valvePct}%, #374151 ${valvePct}%, #374151 100%)`
               : '#374151'
           }}
         />
       </div>
-      
+
       {/* Line gauge with photoreal background */}
       <PhotorealGauge
-        value={state.actualPsi}
+        value={linePsi}
         min={0}
         max={maxPsi}
-        label="Actual"
+        label="Line"
         unit="PSI"
         size="small"
         redline={maxPsi * 0.9}
         imageSrc="/assets/crosslay_analog_gauge.png"
+        damping={NEEDLE_DAMPING.line}
       />
-      
-      {/* Flow indicator */}
-      {state.open && (
-        <div className="mt-2 text-xs text-blue-400">
-          Flow: {state.flow.toFixed(0)} GPM
+
+      {/* Line hydraulics from the engine */}
+      {hydraulics && (
+        <div className="mt-2 text-xs text-blue-400 space-y-0.5">
+          <div>Flow: {hydraulics.flow.toFixed(0)} GPM</div>
+          <div>Friction Loss: {hydraulics.frictionLoss.toFixed(0)} PSI</div>
+          <div>{branches ? 'Wye' : 'Nozzle'}: {hydraulics.nozzlePressure.toFixed(0)} PSI</div>
         </div>
       )}
+
+      {/* Wye gates: worked at the wye, so they stay live with the pump disengaged */}
+      {branches?.map(branch => {
+        const branchHydraulics = hydraulics?.branches?.find(result => result.id === branch.id);
+        return (
+          <div key={branch.id} className="mt-3">
+            <label className="flex justify-between text-xs text-gray-400 mb-1" htmlFor={`${label}-wye-${branch.id}`}>
+              <span>Wye {branch.id} gate</span>
+              <span>{Math.round(branch.gatePct)}%</span>
+            </label>
+            <input
+              id={`${label}-wye-${branch.id}`}
+              type="range"
+              min="0"
+              max="100"
+              value={branch.gatePct}
+              onChange={(e) => onBranchGateChange(branch.id, Number(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            />
+            {branchHydraulics && (
+              <div className="text-xs text-blue-400">
+                {branchHydraulics.flow.toFixed(0)} GPM at {branchHydraulics.nozzlePressure.toFixed(0)} PSI nozzle
+              </div>
+            )}
+          </div>
+        );
+      })}
     </div>
   );
 };
 
 // ============ MAIN PANEL COMPONENT ============
 export default function Panel() {
-  console.log('Panel component rendering');
+  const { state, diagnostics, dispatch } = useSimulation();
   const [engineRunning, setEngineRunning] = useState(false);
-  const [pumpEngaged, setPumpEngaged] = useState(false);
-  const [source, setSource] = useState<Source>('tank');
   const [audioEnabled, setAudioEnabled] = useState(false);
-  
-  // Tank levels
-  const [tankLevel, setTankLevel] = useState(720);
-  const [foamLevel] = useState(30); // TODO: Implement foam system (currently unused)
-  
-  // Discharge states
-  const [discharges, setDischarges] = useState<Record<DischargeId, DischargeState>>({
-    crosslay1: { open: false, setPsi: 150, actualPsi: 0, flow: 0 },
-    crosslay2: { open: false, setPsi: 150, actualPsi: 0, flow: 0 },
-    crosslay3: { open: false, setPsi: 150, actualPsi: 0, flow: 0 },
-    frontTrashline: { open: false, setPsi: 100, actualPsi: 0, flow: 0 },
-    twoPointFiveA: { open: false, setPsi: 175, actualPsi: 0, flow: 0 }
-  });
-  
-  // Calculate master gauge values
-  const intakePressure = source === 'tank' ? 0 : 50; // Tank = 0 PSI, Hydrant = 50 PSI default
-  
-  const dischargePressure = Math.max(
-    0,
-    ...Object.values(discharges)
-      .filter(d => d.open)
-      .map(d => d.actualPsi)
-  );
-  
-  // Calculate engine RPM based on load
-  const calculateRPM = () => {
-    if (!engineRunning) return 0;
-    if (!pumpEngaged) return ENGINE_IDLE;
-    
-    // Base RPM when pump engaged
-    let rpm = PUMP_BASE_RPM;
-    
-    // Add RPM based on discharge pressure (spec: A=0.6, B=0.15)
-    const A = 0.6;
-    const B = 0.15;
-    rpm += A * dischargePressure + B * dischargePressure * dischargePressure / 100;
-    
-    return Math.min(rpm, MAX_RPM);
-  };
-  
-  const engineRPM = calculateRPM();
-  
-  // Simulate pressure/flow dynamics
-  useEffect(() => {
-    if (!pumpEngaged) {
-      // No pressure when pump not engaged
-      setDischarges(prev => {
-        const updated = { ...prev };
-        Object.keys(updated).forEach(key => {
-          updated[key as DischargeId].actualPsi = 0;
-          updated[key as DischargeId].flow = 0;
-        });
-        return updated;
-      });
-      return;
+  const [showTrends, setShowTrends] = useState(false);
+
+  const pumpEngaged = state.interlocks.engaged;
+  const source = state.waterSource;
+
+  // Master gauge values from the engine, plus any instructor gauge drift
+  const intakeDriftPsi = getGaugeDriftPsi(state, 'intake');
+  const intakePressure = source === 'draft'
+    ? -state.intakeVacuumInHg + intakeDriftPsi * 2.036
+    : state.intakePressurePsi + intakeDriftPsi;
+  const dischargePressure = state.dischargePsi + getGaugeDriftPsi(state, 'discharge');
+  const engineRPM = engineRunning ? state.runtime.rpm : 0;
+  const warnings = Array.from(state.warnings);
+  const dischargeIds = Object.keys(state.lineConfigs) as DischargeId[];
+  // Percentage method on the live intake reading while on a hydrant
+  const hydrantGuidance = source === 'hydrant'
+    ? getHydrantGuidance(state.hydrant, state.intakePressurePsi, state.totalFlowGpm)
+    : null;
+
+  // Engine shutdown also disengages the pump
+  const toggleEngine = () => {
+    if (engineRunning && pumpEngaged) {
+      dispatch({ type: 'PUMP_ENGAGE', engaged: false });
     }
-    
-    const interval = setInterval(() => {
-      setDischarges(prev => {
-        const updated = { ...prev };
-        
-        Object.entries(updated).forEach(([, discharge]) => {
-          if (discharge.open) {
-            // Gradually approach set pressure
-            const diff = discharge.setPsi - discharge.actualPsi;
-            discharge.actualPsi += diff * 0.1;
-            
-            // Calculate flow based on pressure (simplified)
-            discharge.flow = Math.sqrt(discharge.actualPsi) * 15;
-          } else {
-            // Gradually drop to zero
-            discharge.actualPsi *= 0.9;
-            discharge.flow *= 0.9;
-            if (discharge.actualPsi < 1) {
-              discharge.actualPsi = 0;
-              discharge.flow = 0;
-            }
-          }
-        });
-        
-        return updated;
-      });
-      
-      // Consume water if pumping
-      if (source === 'tank') {
-        setDischarges(currentDischarges => {
-          const totalFlow = Object.values(currentDischarges)
-            .reduce((sum, d) => sum + d.flow, 0);
-          setTankLevel(prev => Math.max(0, prev - totalFlow / 60)); // GPM to GPS
-          return currentDischarges;
-        });
-      }
-    }, 100);
-    
-    return () => clearInterval(interval);
-  }, [pumpEngaged, source]);
-  
-  // Toggle discharge line
+    setEngineRunning(!engineRunning);
+  };
+
+  // Toggle discharge line fully open/closed
   const toggleDischarge = (id: DischargeId) => {
-    setDischarges(prev => ({
-      ...prev,
-      [id]: {
-        ...prev[id],
-        open: !prev[id].open
-      }
-    }));
+    const open = state.dischargeValvePct[id] > 0 ? 0 : 1;
+    dispatch({ type: 'DISCHARGE_OPEN', id, open });
   };
-  
-  // Update discharge pressure
-  const updateDischargePressure = (id: DischargeId, psi: number) => {
-    setDischarges(prev => ({
-      ...prev,
-      [id]: {
-        ...prev[id],
-        setPsi: psi
-      }
-    }));
+
+  // Gate discharge valve (slider reports 0-100%)
+  const updateDischargeValve = (id: DischargeId, pct: number) => {
+    dispatch({ type: 'DISCHARGE_OPEN', id, open: pct / 100 });
   };
-  
+
+  // Gate one outlet of a wye (slider reports 0-100%)
+  const updateBranchGate = (id: DischargeId, branchId: string, pct: number) => {
+    dispatch({ type: 'BRANCH_GATE', id, branchId, open: pct / 100 });
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-4">
       {/* Header */}
@@ -474,50 +449,87 @@ export default function Panel() {
               <Settings className="text-gray-400" size={24} />
             </div>
           </div>
+          <div className="mt-3">
+            <SessionReplayBar />
+          </div>
         </div>
       </div>
-      
+
       {/* Main Controls */}
       <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
         {/* Engine & Pump Controls */}
         <div className="bg-gray-800/50 rounded-lg p-6 backdrop-blur-sm border border-gray-700">
           <h2 className="text-xl font-semibold text-white mb-4">Engine & Pump</h2>
-          
+
           <div className="space-y-4">
             <button
-              onClick={() => setEngineRunning(!engineRunning)}
+              onClick={toggleEngine}
               className={`w-full py-3 px-4 rounded-lg font-medium transition-all flex items-center justify-center gap-2 ${
-                engineRunning 
-                  ? 'bg-green-600 hover:bg-green-700 text-white' 
+                engineRunning
+                  ? 'bg-green-600 hover:bg-green-700 text-white'
                   : 'bg-gray-600 hover:bg-gray-700 text-gray-300'
               }`}
             >
               <Power size={20} />
               {engineRunning ? 'ENGINE RUNNING' : 'START ENGINE'}
             </button>
-            
+
             <button
-              onClick={() => setPumpEngaged(!pumpEngaged)}
+              onClick={() => dispatch({ type: 'PUMP_ENGAGE', engaged: !pumpEngaged })}
               disabled={!engineRunning}
               className={`w-full py-3 px-4 rounded-lg font-medium transition-all flex items-center justify-center gap-2 ${
-                pumpEngaged 
-                  ? 'bg-blue-600 hover:bg-blue-700 text-white' 
+                pumpEngaged
+                  ? 'bg-blue-600 hover:bg-blue-700 text-white'
                   : 'bg-gray-600 hover:bg-gray-700 text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed'
               }`}
             >
               <Droplet size={20} />
               {pumpEngaged ? 'PUMP ENGAGED' : 'ENGAGE PUMP'}
             </button>
+
+            {/* Governor mode */}
+            <div className="grid grid-cols-2 gap-3">
+              {(['PRESSURE', 'RPM'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => dispatch({ type: 'GOVERNOR_MODE', mode })}
+                  className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${
+                    state.runtime.governor === mode
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-600 hover:bg-gray-700 text-gray-300'
+                  }`}
+                >
+                  {mode === 'PRESSURE' ? 'PSI MODE' : 'RPM MODE'}
+                </button>
+              ))}
+            </div>
+
+            {/* Throttle (drives RPM in RPM mode) */}
+            <div>
+              <div className="flex justify-between text-xs text-gray-400 mb-1">
+                <span>Throttle</span>
+                <span>{Math.round(state.throttle)}%</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={state.throttle}
+                onChange={(e) => dispatch({ type: 'SETPOINT', value: Number(e.target.value) })}
+                disabled={!pumpEngaged}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              />
+            </div>
           </div>
         </div>
-        
+
         {/* Source Selection */}
         <div className="bg-gray-800/50 rounded-lg p-6 backdrop-blur-sm border border-gray-700">
           <h2 className="text-xl font-semibold text-white mb-4">Water Source</h2>
-          
+
           <div className="grid grid-cols-2 gap-3">
             <button
-              onClick={() => setSource('tank')}
+              onClick={() => dispatch({ type: 'WATER_SOURCE', source: 'tank' })}
               className={`py-3 px-4 rounded-lg font-medium transition-all ${
                 source === 'tank'
                   ? 'bg-blue-600 text-white'
@@ -525,11 +537,11 @@ export default function Panel() {
               }`}
             >
               TANK
-              <div className="text-xs mt-1">{tankLevel.toFixed(0)} GAL</div>
+              <div className="text-xs mt-1">{state.tankGallons.toFixed(0)} GAL</div>
             </button>
-            
+
             <button
-              onClick={() => setSource('hydrant')}
+              onClick={() => dispatch({ type: 'WATER_SOURCE', source: 'hydrant' })}
               className={`py-3 px-4 rounded-lg font-medium transition-all ${
                 source === 'hydrant'
                   ? 'bg-blue-600 text-white'
@@ -537,23 +549,36 @@ export default function Panel() {
               }`}
             >
               HYDRANT
-              <div className="text-xs mt-1">∞ SUPPLY</div>
+              <div className="text-xs mt-1">{state.hydrant.staticPsi.toFixed(0)} PSI STATIC</div>
             </button>
           </div>
-          
+
+          <button
+            onClick={() => dispatch({ type: 'TANK_TO_PUMP', open: !state.tankToPumpOpen })}
+            className={`w-full mt-3 py-2 px-4 rounded-lg text-sm font-medium transition-all ${
+              state.tankToPumpOpen
+                ? 'bg-green-600 hover:bg-green-700 text-white'
+                : 'bg-gray-600 hover:bg-gray-700 text-gray-300'
+            }`}
+          >
+            TANK-TO-PUMP {state.tankToPumpOpen ? 'OPEN' : 'CLOSED'}
+          </button>
+
+          <IntakeControls />
+
           {/* Foam System */}
           <div className="mt-4 p-3 bg-gray-700/50 rounded">
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-300">Foam</span>
-              <span className="text-sm font-mono text-yellow-400">{foamLevel.toFixed(0)} GAL</span>
+              <span className="text-sm font-mono text-yellow-400">{state.foam.tankGallons.toFixed(0)} GAL</span>
             </div>
           </div>
         </div>
-        
+
         {/* System Status */}
         <div className="bg-gray-800/50 rounded-lg p-6 backdrop-blur-sm border border-gray-700">
           <h2 className="text-xl font-semibold text-white mb-4">System Status</h2>
-          
+
           <div className="space-y-2">
             <div className="flex justify-between">
               <span className="text-gray-400">Engine</span>
@@ -573,32 +598,56 @@ export default function Panel() {
                 {source.toUpperCase()}
               </span>
             </div>
+            {hydrantGuidance && (
+              <div className="flex justify-between gap-2">
+                <span className="text-gray-400">Hydrant</span>
+                <span className="font-medium text-white text-right text-sm" role="status" aria-live="polite">
+                  {hydrantGuidance.message}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-gray-400">Lines Open</span>
               <span className="font-medium text-white">
-                {Object.values(discharges).filter(d => d.open).length} / 5
+                {dischargeIds.filter(id => state.dischargeValvePct[id] > 0).length} / {dischargeIds.length}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Total Flow</span>
+              <span className="font-medium text-white">
+                {diagnostics.totalWaterGpm.toFixed(0)} GPM
               </span>
             </div>
           </div>
+
+          {/* Engine warnings */}
+          {warnings.length > 0 && (
+            <ul className="mt-4 space-y-1 text-xs text-yellow-400" role="status" aria-live="polite">
+              {warnings.map(warning => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
-      
+
       {/* Master Gauges */}
       <div className="max-w-7xl mx-auto mb-6">
         <div className="bg-gray-800/50 rounded-lg p-6 backdrop-blur-sm border border-gray-700">
           <h2 className="text-xl font-semibold text-white mb-4">Master Gauges</h2>
-          
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <PhotorealGauge
               value={intakePressure}
               min={-30}
               max={200}
               label="Intake Pressure"
-              unit="PSI"
+              unit={source === 'draft' ? 'inHg' : 'PSI'}
               size="large"
               imageSrc="/gauges/intake-gauge.png"
+              damping={NEEDLE_DAMPING.intake}
             />
-            
+
             <PhotorealGauge
               value={dischargePressure}
               min={0}
@@ -608,8 +657,9 @@ export default function Panel() {
               size="large"
               redline={350}
               imageSrc="/gauges/discharge-gauge.png"
+              damping={NEEDLE_DAMPING.discharge}
             />
-            
+
             <PhotorealGauge
               value={engineRPM}
               min={0}
@@ -619,30 +669,56 @@ export default function Panel() {
               size="large"
               redline={2200}
               imageSrc="/gauges/rpm-gauge.png"
+              damping={NEEDLE_DAMPING.rpm}
             />
           </div>
         </div>
       </div>
-      
+
       {/* Discharge Lines */}
       <div className="max-w-7xl mx-auto">
         <div className="bg-gray-800/50 rounded-lg p-6 backdrop-blur-sm border border-gray-700">
           <h2 className="text-xl font-semibold text-white mb-4">Discharge Lines</h2>
-          
+
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-            {DISCHARGE_LINES.map(line => (
+            {dischargeIds.map(id => (
               <DischargeLine
-                key={line.id}
-                label={line.label}
-                state={discharges[line.id]}
-                onToggle={() => toggleDischarge(line.id)}
-                onPressureChange={(psi) => updateDischargePressure(line.id, psi)}
-                maxPsi={line.maxPsi}
+                key={id}
+                label={getDischargeLabel(id)}
+                valvePct={state.dischargeValvePct[id]}
+                hydraulics={diagnostics.lineHydraulics.get(id)}
+                onToggle={() => toggleDischarge(id)}
+                onValveChange={(pct) => updateDischargeValve(id, pct)}
+                branches={state.lineConfigs[id].branches}
+                onBranchGateChange={(branchId, pct) => updateBranchGate(id, branchId, pct)}
+                maxPsi={DISCHARGE_GAUGE_MAX_PSI[id]}
+                disabled={!pumpEngaged}
               />
             ))}
           </div>
         </div>
       </div>
+
+      {/* Trend Charts */}
+      <div className="max-w-7xl mx-auto mt-6">
+        <div className="bg-gray-800/50 rounded-lg p-6 backdrop-blur-sm border border-gray-700">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-white">Trends</h2>
+            <button
+              onClick={() => setShowTrends(!showTrends)}
+              aria-expanded={showTrends}
+              className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-white text-sm transition-colors"
+            >
+              {showTrends ? 'Hide trends' : 'Show trends'}
+            </button>
+          </div>
+          {showTrends && (
+            <div className="mt-4">
+              <TrendCharts />
+            </div>
+          )}
+        </div>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,135 @@
+/**
+ * Session recording and replay bar
+ * Records a crew's session and replays it on the panel for debriefing, with
+ * pause, scrubbing, 2x/4x speed and a timeline of the actions taken. The
+ * recorded session's after-action report exports as JSON or printable HTML.
+ */
+
+import { useMemo } from 'react';
+import { useSimulation } from '../sim/SimulationContext';
+import { REPLAY_SPEEDS, describeAction, getActionTimeline } from '../sim/recording';
+import type { SessionRecording } from '../sim/recording';
+import { createAfterActionReport, renderAfterActionHtml } from '../training/after-action-report';
+import { downloadJson } from './download';
+
+/**
+ * Format simulated seconds as m:ss.s
+ */
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+}
+
+/**
+ * Open the after-action report in a new window and bring up the print dialog
+ */
+function printReport(recording: SessionRecording) {
+  const html = renderAfterActionHtml(createAfterActionReport(recording));
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const win = window.open(url, '_blank');
+  win?.addEventListener('load', () => {
+    win.print();
+    URL.revokeObjectURL(url);
+  });
+}
+
+const buttonClass = 'px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-white text-sm transition-colors disabled:opacity-50';
+
+export default function SessionReplayBar() {
+  const { session } = useSimulation();
+  const { replay, lastRecording } = session;
+  const timeline = useMemo(() => (lastRecording ? getActionTimeline(lastRecording) : []), [lastRecording]);
+
+  if (!replay) {
+    return (
+      <div className="flex items-center gap-2" role="group" aria-label="Session recording">
+        {session.recording ? (
+          <button className={buttonClass} onClick={session.stopRecording}>
+            <span className="text-red-500" aria-hidden="true">●</span> Stop recording
+          </button>
+        ) : (
+          <button className={buttonClass} onClick={session.startRecording}>
+            ⏺ Record session
+          </button>
+        )}
+        <button
+          className={buttonClass}
+          onClick={session.startReplay}
+          disabled={!lastRecording || session.recording}
+          title="Replay the last recorded session on the panel"
+        >
+          ⏮ Replay
+        </button>
+        {lastRecording && !session.recording && (
+          <>
+            <button
+              className={buttonClass}
+              onClick={() => downloadJson('after-action-report.json', createAfterActionReport(lastRecording))}
+              title="Download the after-action report for the last session as JSON"
+            >
+              📄 Report JSON
+            </button>
+            <button
+              className={buttonClass}
+              onClick={() => printReport(lastRecording)}
+              title="Open a printable after-action report for the last session"
+            >
+              🖨 Print report
+            </button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2" role="region" aria-label="Session replay">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-yellow-400 text-sm font-semibold">REPLAY</span>
+        <button className={buttonClass} onClick={() => session.setPlaying(!replay.playing)}>
+          {replay.playing ? '⏸ Pause' : '▶ Play'}
+        </button>
+        {REPLAY_SPEEDS.map(speed => (
+          <button
+            key={speed}
+            className={buttonClass}
+            onClick={() => session.setSpeed(speed)}
+            aria-pressed={replay.speed === speed}
+          >
+            {speed}x
+          </button>
+        ))}
+        <input
+          type="range"
+          className="flex-1 min-w-[8rem]"
+          min={0}
+          max={replay.durationSec}
+          step={0.1}
+          value={replay.timeSec}
+          onChange={(e) => session.seek(Number(e.target.value))}
+          aria-label="Replay position"
+        />
+        <span className="text-gray-300 text-sm tabular-nums">
+          {formatTime(replay.timeSec)} / {formatTime(replay.durationSec)}
+        </span>
+        <button className={buttonClass} onClick={session.stopReplay}>
+          ✕ Close replay
+        </button>
+      </div>
+      {timeline.length > 0 && (
+        <ol className="max-h-32 overflow-y-auto text-sm text-gray-300">
+          {timeline.map(({ atSec, action }, i) => (
+            <li key={i}>
+              <button
+                className={`text-left hover:text-white ${atSec <= replay.timeSec ? '' : 'opacity-50'}`}
+                onClick={() => session.seek(atSec)}
+              >
+                <span className="tabular-nums">{formatTime(atSec)}</span> {describeAction(action)}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
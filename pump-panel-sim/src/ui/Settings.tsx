@@ -1,10 +1,20 @@
 import { useAudio } from '@/audio/AudioProvider';
 import { useState, useEffect } from 'react';
+import type { ChangeEvent } from 'react';
 import { useSimulation } from '@/sim/SimulationContext';
+import {
+  APPARATUS_PROFILES,
+  APPARATUS_STORAGE_KEY,
+  apparatusFromState,
+  getApparatusProfile,
+  readApparatusProfile,
+} from '@/sim/apparatus';
+import { exportSetup, readSetupFile } from '@/sim/setup-file';
 import { useInstructor } from '@/net/useInstructor';
 import { InstructorControls } from './InstructorControls';
 import { RippleEffect } from './effects/RippleEffect';
 import { useTouchFeedback } from './hooks/useTouchFeedback';
+import { downloadJson } from './download';
 import './Settings.css';
 
 interface SettingsPanelProps {
@@ -21,11 +31,12 @@ export function SettingsPanel({
   onTouchDebugToggle
 }: SettingsPanelProps = {}) {
   const { enabled, start, stop, masterVolume, muted, setMasterVolume, setMuted } = useAudio();
-  const { dispatch } = useSimulation();
+  const { state, dispatch } = useSimulation();
   const [open, setOpen] = useState(false);
   const [instructorMode, setInstructorMode] = useState(false);
   const [room, setRoom] = useState('training-room-1');
   const [workerUrl, setWorkerUrl] = useState('wss://pump-sim-instructor.pdarleyjr.workers.dev');
+  const [importError, setImportError] = useState<string | null>(null);
 
   // Initialize instructor hook
   const { connected } = useInstructor(room, workerUrl, instructorMode, dispatch);
@@ -34,6 +45,23 @@ export function SettingsPanel({
     setInstructorMode(enabled);
   };
 
+  // Read a chosen JSON file and load it; validation errors are shown in the sheet
+  const handleImport = async (
+    e: ChangeEvent<HTMLInputElement>,
+    load: (text: string) => void
+  ) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      load(await file.text());
+      setImportError(null);
+    } catch (error) {
+      setImportError(`${file.name}: ${(error as Error).message}`);
+    }
+    input.value = '';
+  };
+
   // Keyboard shortcut for touch debug (Ctrl+Shift+T)
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -148,6 +176,76 @@ export function SettingsPanel({
             </span>
           </label>
           <hr style={{ margin: '1rem 0', border: 'none', borderTop: '1px solid #ddd' }} />
+          <label htmlFor="apparatus-profile" style={{ display: 'block' }}>
+            Apparatus:
+            <select
+              id="apparatus-profile"
+              value={state.apparatusId}
+              onChange={(e) => {
+                const profile = getApparatusProfile(e.target.value);
+                dispatch({ type: 'LOAD_APPARATUS', profile });
+                // Save to localStorage so the rig is loaded at next startup
+                localStorage.setItem(APPARATUS_STORAGE_KEY, profile.id);
+              }}
+              aria-label="Apparatus profile"
+              style={{
+                width: '100%',
+                marginTop: '0.25rem',
+                padding: '0.5rem',
+                border: '1px solid #ddd',
+                borderRadius: '4px'
+              }}
+            >
+              {APPARATUS_PROFILES.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+              {!APPARATUS_PROFILES.some(profile => profile.id === state.apparatusId) && (
+                <option value={state.apparatusId}>{state.apparatusId} (imported)</option>
+              )}
+            </select>
+          </label>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+            <button
+              type="button"
+              onClick={() => downloadJson(`${state.apparatusId}-setup.json`, exportSetup(state))}
+            >
+              Export setup
+            </button>
+            <button
+              type="button"
+              onClick={() => downloadJson(`${state.apparatusId}.json`, apparatusFromState(state))}
+            >
+              Export apparatus
+            </button>
+          </div>
+          <label htmlFor="import-setup" style={{ display: 'block' }}>
+            Import setup:
+            <input
+              id="import-setup"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleImport(e, (text) => {
+                dispatch({ type: 'LOAD_SETUP', setup: readSetupFile(text) });
+              })}
+            />
+          </label>
+          <label htmlFor="import-apparatus" style={{ display: 'block' }}>
+            Import apparatus:
+            <input
+              id="import-apparatus"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleImport(e, (text) => {
+                dispatch({ type: 'LOAD_APPARATUS', profile: readApparatusProfile(text) });
+              })}
+            />
+          </label>
+          {importError && (
+            <p role="alert" style={{ color: '#ff6b6b', fontSize: '0.85em', margin: '0 0 0.75rem' }}>
+              {importError}
+            </p>
+          )}
+          <hr style={{ margin: '1rem 0', border: 'none', borderTop: '1px solid #ddd' }} />
           <label>
             <input
               type="checkbox"
@@ -0,0 +1,191 @@
+/**
+ * Trend charts
+ * Plots the rolling gauge history so students can see PID hunting, pressure
+ * drops during a supply changeover and temperature creep over time.
+ */
+
+import { useState } from 'react';
+import { useSimulation } from '../sim/SimulationContext';
+import type { TrendSample } from '../sim/history';
+import type { DischargeId } from '../sim/model';
+import { getDischargeLabel } from '../sim/utils';
+
+/** Chart time spans offered, in minutes */
+const TREND_WINDOWS_MIN = [1, 2, 5] as const;
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 120;
+
+const LINE_COLORS = ['#60a5fa', '#f87171', '#34d399', '#fbbf24', '#c084fc', '#f472b6', '#2dd4bf', '#a3e635'];
+
+interface TrendSeries {
+  label: string;
+  color: string;
+  read: (sample: TrendSample) => number;
+}
+
+interface TrendChartProps {
+  title: string;
+  unit: string;
+  samples: TrendSample[];
+  series: TrendSeries[];
+  /** Seconds shown across the chart */
+  spanSec: number;
+  /** Smallest value range shown, so a steady reading doesn't fill the chart with noise */
+  minRange: number;
+}
+
+/**
+ * Value range covering every series, padded and at least minRange wide
+ */
+function getValueRange(samples: TrendSample[], series: TrendSeries[], minRange: number): [number, number] {
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const sample of samples) {
+    for (const { read } of series) {
+      const value = read(sample);
+      lo = Math.min(lo, value);
+      hi = Math.max(hi, value);
+    }
+  }
+  if (!Number.isFinite(lo)) return [0, minRange];
+  const pad = Math.max(minRange - (hi - lo), 0) / 2 + (hi - lo) * 0.05;
+  return [lo - pad, hi + pad];
+}
+
+function TrendChart({ title, unit, samples, series, spanSec, minRange }: TrendChartProps) {
+  const [lo, hi] = getValueRange(samples, series, minRange);
+  const endSec = samples.length > 0 ? samples[samples.length - 1].timeSec : 0;
+  const x = (timeSec: number) => CHART_WIDTH * (1 - (endSec - timeSec) / spanSec);
+  const y = (value: number) => CHART_HEIGHT * (1 - (value - lo) / (hi - lo));
+  const latest = samples[samples.length - 1];
+
+  return (
+    <figure className="bg-gray-900/60 rounded p-2">
+      <figcaption className="flex flex-wrap justify-between gap-x-3 text-xs text-gray-300 mb-1">
+        <span className="font-semibold text-white">{title}</span>
+        {series.map(({ label, color, read }) => (
+          <span key={label} style={{ color }}>
+            {label} {latest ? Math.round(read(latest)) : '—'} {unit}
+          </span>
+        ))}
+      </figcaption>
+      <div className="flex gap-1">
+        <div className="flex flex-col justify-between text-[10px] text-gray-500 tabular-nums text-right w-10">
+          <span>{Math.round(hi)}</span>
+          <span>{Math.round(lo)}</span>
+        </div>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="flex-1 h-28 bg-gray-950/50 rounded"
+          role="img"
+          aria-label={`${title} over the last ${Math.round(spanSec / 60)} minutes`}
+        >
+          {lo < 0 && hi > 0 && (
+            <line x1={0} x2={CHART_WIDTH} y1={y(0)} y2={y(0)} stroke="#4b5563" strokeDasharray="4 4" />
+          )}
+          {series.map(({ label, color, read }) => (
+            <polyline
+              key={label}
+              fill="none"
+              stroke={color}
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+              points={samples.map(sample => `${x(sample.timeSec).toFixed(1)},${y(read(sample)).toFixed(1)}`).join(' ')}
+            />
+          ))}
+        </svg>
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-500 pl-11">
+        <span>-{Math.round(spanSec)} s</span>
+        <span>now</span>
+      </div>
+    </figure>
+  );
+}
+
+export default function TrendCharts() {
+  // The context updates every step, which re-renders the charts with the latest history
+  const { history } = useSimulation();
+  const [windowMin, setWindowMin] = useState<number>(2);
+  const spanSec = windowMin * 60;
+  const samples = history.getSamples(spanSec);
+
+  // Only lines that flowed in the window get a trace
+  const latest = samples[samples.length - 1];
+  const flowingLines = latest
+    ? (Object.keys(latest.lineFlowGpm) as DischargeId[]).filter(id => samples.some(sample => sample.lineFlowGpm[id] > 0))
+    : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2" role="group" aria-label="Trend window">
+        {TREND_WINDOWS_MIN.map(minutes => (
+          <button
+            key={minutes}
+            onClick={() => setWindowMin(minutes)}
+            aria-pressed={windowMin === minutes}
+            className={`px-3 py-1 rounded text-sm transition-colors ${
+              windowMin === minutes ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+            }`}
+          >
+            {minutes} min
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <TrendChart
+          title="Pressure"
+          unit="PSI"
+          samples={samples}
+          spanSec={spanSec}
+          minRange={20}
+          series={[
+            { label: 'PDP', color: '#f87171', read: sample => sample.pdpPsi },
+            { label: 'Intake', color: '#60a5fa', read: sample => sample.intakePsi },
+          ]}
+        />
+        <TrendChart
+          title="Engine RPM"
+          unit="RPM"
+          samples={samples}
+          spanSec={spanSec}
+          minRange={100}
+          series={[{ label: 'RPM', color: '#fbbf24', read: sample => sample.rpm }]}
+        />
+        <TrendChart
+          title="Line Flow"
+          unit="GPM"
+          samples={samples}
+          spanSec={spanSec}
+          minRange={50}
+          series={flowingLines.map((id, i) => ({
+            label: getDischargeLabel(id),
+            color: LINE_COLORS[i % LINE_COLORS.length],
+            read: sample => sample.lineFlowGpm[id] ?? 0,
+          }))}
+        />
+        <TrendChart
+          title="Temperature"
+          unit="°F"
+          samples={samples}
+          spanSec={spanSec}
+          minRange={20}
+          series={[
+            { label: 'Pump', color: '#f472b6', read: sample => sample.pumpTempF },
+            { label: 'Engine', color: '#c084fc', read: sample => sample.engineTempF },
+          ]}
+        />
+        <TrendChart
+          title="Tank Level"
+          unit="GAL"
+          samples={samples}
+          spanSec={spanSec}
+          minRange={50}
+          series={[{ label: 'Tank', color: '#34d399', read: sample => sample.tankGallons }]}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * File downloads from the browser
+ */
+
+/**
+ * Save text as a file download
+ */
+export function downloadText(filename: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Save data as a pretty-printed JSON download
+ */
+export function downloadJson(filename: string, data: unknown) {
+  downloadText(filename, JSON.stringify(data, null, 2), 'application/json');
+}
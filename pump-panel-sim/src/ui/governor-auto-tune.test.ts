@@ -0,0 +1,61 @@
+/**
+ * Tests for running the governor auto-tune across UI tasks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { startGovernorAutoTune } from './governor-auto-tune';
+import type { ScheduleTask } from './governor-auto-tune';
+import { autoTuneGovernor } from '../sim/step-response';
+import type { AutoTuneResult } from '../sim/step-response';
+import { PIERCE_PUC_PROFILE } from '../sim/pierce-puc';
+
+const targets = { riseTimeSec: 1, overshootPct: 5, settlingTimeSec: 5 };
+
+/** Scheduler that holds tasks until the test runs them */
+function manualSchedule() {
+  const queue: (() => void)[] = [];
+  const schedule: ScheduleTask = task => {
+    queue.push(task);
+    return () => queue.splice(queue.indexOf(task), 1);
+  };
+  return { queue, schedule };
+}
+
+describe('startGovernorAutoTune', () => {
+  it('runs one step test per task and finishes with the same gains as a search run straight through', () => {
+    const { queue, schedule } = manualSchedule();
+    const progress: number[] = [];
+    let result: AutoTuneResult | null = null;
+
+    startGovernorAutoTune(PIERCE_PUC_PROFILE, targets, {
+      onProgress: runs => progress.push(runs),
+      onDone: done => { result = done; },
+    }, 6, schedule);
+    expect(progress).toEqual([]);
+
+    while (queue.length > 0) {
+      queue.shift()!();
+      expect(queue.length).toBeLessThanOrEqual(1);
+    }
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(result).toEqual(autoTuneGovernor(PIERCE_PUC_PROFILE, targets, 6));
+  });
+
+  it('stops when cancelled', () => {
+    const { queue, schedule } = manualSchedule();
+    const progress: number[] = [];
+    let finished = false;
+
+    const cancel = startGovernorAutoTune(PIERCE_PUC_PROFILE, targets, {
+      onProgress: runs => progress.push(runs),
+      onDone: () => { finished = true; },
+    }, 6, schedule);
+    queue.shift()!();
+    queue.shift()!();
+    cancel();
+
+    expect(queue).toEqual([]);
+    expect(progress).toEqual([1, 2]);
+    expect(finished).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Governor auto-tune on the UI thread
+ * Runs the gain search one step test per task so the panel keeps painting
+ * and taking input while the search works.
+ */
+
+import { searchGovernorTuning } from '../sim/step-response';
+import type { AutoTuneResult, StepResponseTargets } from '../sim/step-response';
+import type { ApparatusProfile } from '../sim/model';
+
+/** Step tests the tuning view lets one search run */
+export const UI_AUTO_TUNE_RUNS = 40;
+
+/**
+ * Queue a task to run later; returns a function that cancels it
+ */
+export type ScheduleTask = (task: () => void) => () => void;
+
+/** Next macrotask, after the browser has had a chance to paint */
+const nextTask: ScheduleTask = task => {
+  const timer = setTimeout(task, 0);
+  return () => clearTimeout(timer);
+};
+
+export interface AutoTuneCallbacks {
+  /** After each step test, with the count run so far */
+  onProgress: (runs: number, maxRuns: number) => void;
+  /** Once, with the gains the search settled on */
+  onDone: (result: AutoTuneResult) => void;
+}
+
+/**
+ * Start a governor gain search that runs one step test per scheduled task
+ *
+ * @param profile - Apparatus to tune, starting from its governor tuning
+ * @param targets - Rise time, overshoot and settling time to aim for
+ * @param callbacks - Progress and result
+ * @param maxRuns - Most step tests to run
+ * @param schedule - Queues each step test (the next macrotask by default)
+ * @returns Function that stops the search; onDone is then never called
+ */
+export function startGovernorAutoTune(
+  profile: ApparatusProfile,
+  targets: StepResponseTargets,
+  callbacks: AutoTuneCallbacks,
+  maxRuns: number = UI_AUTO_TUNE_RUNS,
+  schedule: ScheduleTask = nextTask
+): () => void {
+  const search = searchGovernorTuning(profile, targets, maxRuns);
+  let cancel = () => {};
+
+  const runNext = () => {
+    const next = search.next();
+    if (next.done) {
+      callbacks.onDone(next.value);
+      return;
+    }
+    callbacks.onProgress(next.value, maxRuns);
+    cancel = schedule(runNext);
+  };
+  cancel = schedule(runNext);
+
+  return () => cancel();
+}
@@ -0,0 +1,51 @@
+/**
+ * useDampedNeedle Hook
+ * Animates a gauge needle toward its reading with the gauge's damping, so
+ * the needle lags, overshoots and settles instead of jumping each tick.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { stepNeedle } from '../../sim/gauges';
+import type { NeedleDamping, NeedleState } from '../../sim/gauges';
+import { systemClock } from '../../sim/runner';
+
+/** Needle close enough to rest on the reading, in gauge units */
+const SETTLED_UNITS = 0.05;
+
+/** Longest frame gap simulated at once (a backgrounded tab shouldn't fling the needle) */
+const MAX_FRAME_SEC = 0.1;
+
+/**
+ * Needle position for a gauge reading
+ *
+ * @param target - Pressure or speed the gauge is reading
+ * @param damping - Needle dynamics, or undefined for a needle that follows the reading exactly
+ * @returns Needle position in gauge units
+ */
+export function useDampedNeedle(target: number, damping: NeedleDamping | undefined): number {
+  const needleRef = useRef<NeedleState>({ position: target, velocity: 0 });
+  const [position, setPosition] = useState(target);
+
+  useEffect(() => {
+    if (!damping) return;
+    let frame = 0;
+    let lastFrameTime = systemClock.now();
+
+    const animate = () => {
+      const now = systemClock.now();
+      const dt = Math.min(MAX_FRAME_SEC, (now - lastFrameTime) / 1000);
+      lastFrameTime = now;
+
+      const needle = stepNeedle(needleRef.current, target, damping, dt);
+      const settled = Math.abs(needle.position - target) < SETTLED_UNITS && Math.abs(needle.velocity) < SETTLED_UNITS;
+      needleRef.current = settled ? { position: target, velocity: 0 } : needle;
+      setPosition(needleRef.current.position);
+      if (!settled) frame = requestAnimationFrame(animate);
+    };
+
+    frame = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(frame);
+  }, [target, damping]);
+
+  return damping ? position : target;
+}
@@ -169,7 +169,7 @@ export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
   {
     id: 'primer-activate',
     label: 'Activate Primer',
-    description: 'Start 15-second primer sequence',
+    description: 'Run the primer until the pump primes; press again to release',
     keys: ['r', 'R'],
     category: 'primer',
     preventDefault: true,
@@ -64,55 +64,44 @@ export function useKeyboard(options: UseKeyboardOptions = {}) {
       // Handle shortcuts that need access to current state
       switch (shortcutId) {
         case 'pump-engage-toggle':
-          dispatch({ type: 'PUMP_ENGAGE', engaged: !state.pump.engaged });
+          dispatch({ type: 'PUMP_ENGAGE', engaged: !state.interlocks.engaged });
           break;
 
         case 'governor-mode-toggle': {
-          const newMode = state.pump.governor === 'RPM' ? 'PRESSURE' : 'RPM';
+          const newMode = state.runtime.governor === 'RPM' ? 'PRESSURE' : 'RPM';
           dispatch({ type: 'GOVERNOR_MODE', mode: newMode });
           break;
         }
 
-        case 'governor-setpoint-increase': {
-          const step = state.pump.governor === 'RPM' ? 100 : 10;
-          const newValue = state.pump.setpoint + step;
-          dispatch({ type: 'SETPOINT', value: newValue });
+        case 'governor-setpoint-increase':
+          // Setpoint drives the 0-100% throttle in both governor modes
+          dispatch({ type: 'SETPOINT', value: Math.min(100, state.throttle + 10) });
           break;
-        }
 
-        case 'governor-setpoint-decrease': {
-          const step = state.pump.governor === 'RPM' ? 100 : 10;
-          const newValue = state.pump.setpoint - step;
-          dispatch({ type: 'SETPOINT', value: newValue });
+        case 'governor-setpoint-decrease':
+          dispatch({ type: 'SETPOINT', value: Math.max(0, state.throttle - 10) });
           break;
-        }
 
-        case 'governor-setpoint-increase-fine': {
-          const step = state.pump.governor === 'RPM' ? 10 : 1;
-          const newValue = state.pump.setpoint + step;
-          dispatch({ type: 'SETPOINT', value: newValue });
+        case 'governor-setpoint-increase-fine':
+          dispatch({ type: 'SETPOINT', value: Math.min(100, state.throttle + 1) });
           break;
-        }
 
-        case 'governor-setpoint-decrease-fine': {
-          const step = state.pump.governor === 'RPM' ? 10 : 1;
-          const newValue = state.pump.setpoint - step;
-          dispatch({ type: 'SETPOINT', value: newValue });
+        case 'governor-setpoint-decrease-fine':
+          dispatch({ type: 'SETPOINT', value: Math.max(0, state.throttle - 1) });
           break;
-        }
 
         case 'drv-toggle':
-          dispatch({ type: 'DRV_TOGGLE', enabled: !state.pump.drv.enabled });
+          dispatch({ type: 'DRV_TOGGLE', enabled: !state.drv.enabled });
           break;
 
         case 'drv-setpoint-increase': {
-          const newPsi = state.pump.drv.setpointPsi + 10;
+          const newPsi = state.drv.setpointPsi + 10;
           dispatch({ type: 'DRV_SETPOINT_SET', psi: newPsi });
           break;
         }
 
         case 'drv-setpoint-decrease': {
-          const newPsi = state.pump.drv.setpointPsi - 10;
+          const newPsi = state.drv.setpointPsi - 10;
           dispatch({ type: 'DRV_SETPOINT_SET', psi: newPsi });
           break;
         }
@@ -122,29 +111,29 @@ export function useKeyboard(options: UseKeyboardOptions = {}) {
           break;
 
         case 'foam-system-toggle': {
-          // Toggle foam on first discharge line for now
-          const firstDischarge = Object.keys(state.discharges)[0];
+          // Toggle foam on first foam-capable discharge line for now
+          const firstDischarge = Object.values(state.lineConfigs).find(line => line.foamCapable)?.id;
           if (firstDischarge) {
-            const currentFoam = state.discharges[firstDischarge].foamPct;
-            dispatch({ type: 'FOAM_PCT', id: firstDischarge, pct: currentFoam > 0 ? 0 : 3 });
+            const foamOn = state.foam.enabledLines.has(firstDischarge);
+            dispatch({ type: 'FOAM_PCT', id: firstDischarge, pct: foamOn ? 0 : 3 });
           }
           break;
         }
 
         case 'throttle-increase':
-          dispatch({ type: 'SETPOINT', value: Math.min(100, state.pump.setpoint + 10) });
+          dispatch({ type: 'SETPOINT', value: Math.min(100, state.throttle + 10) });
           break;
 
         case 'throttle-decrease':
-          dispatch({ type: 'SETPOINT', value: Math.max(0, state.pump.setpoint - 10) });
+          dispatch({ type: 'SETPOINT', value: Math.max(0, state.throttle - 10) });
           break;
 
         case 'throttle-increase-fine':
-          dispatch({ type: 'SETPOINT', value: Math.min(100, state.pump.setpoint + 1) });
+          dispatch({ type: 'SETPOINT', value: Math.min(100, state.throttle + 1) });
           break;
 
         case 'throttle-decrease-fine':
-          dispatch({ type: 'SETPOINT', value: Math.max(0, state.pump.setpoint - 1) });
+          dispatch({ type: 'SETPOINT', value: Math.max(0, state.throttle - 1) });
           break;
 
         case 'throttle-max':
@@ -156,7 +145,7 @@ export function useKeyboard(options: UseKeyboardOptions = {}) {
           break;
 
         case 'primer-activate':
-          dispatch({ type: 'PRIMER_ACTIVATE' });
+          dispatch({ type: state.primerActive ? 'PRIMER_RELEASE' : 'PRIMER_ACTIVATE' });
           break;
       }
     },
@@ -5,12 +5,15 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { useSimulation } from '@/sim/SimulationContext';
+import { hasFault } from '@/sim/faults';
 import type { OverlayContent } from './overlayContent';
 import {
   CAVITATION_OVERLAY,
   OVERPRESSURE_OVERLAY,
   OVERHEATING_OVERLAY,
   TANK_EMPTY_OVERLAY,
+  TANK_LEAK_OVERLAY,
+  FOAM_LEAK_OVERLAY,
   HOSE_BURST_OVERLAY,
   getOverlayContent
 } from './overlayContent';
@@ -26,11 +29,13 @@ interface TrainingOverlayProps {
  * educational content when failure conditions are detected
  */
 export function TrainingOverlay({ enabled = true }: TrainingOverlayProps) {
-  const { state, result } = useSimulation();
+  const { state, diagnostics } = useSimulation();
   const [activeOverlay, setActiveOverlay] = useState<OverlayContent | null>(null);
   const [dismissedOverlays, setDismissedOverlays] = useState<Set<string>>(new Set());
   const previousWarningsRef = useRef<string[]>([]);
   const overlayContainerRef = useRef<HTMLDivElement>(null);
+  const tankLeaking = hasFault(state, 'tank_leak');
+  const foamLeaking = hasFault(state, 'foam_leak');
 
   /**
    * Check for failure conditions and trigger appropriate overlays
@@ -39,7 +44,7 @@ export function TrainingOverlay({ enabled = true }: TrainingOverlayProps) {
     if (!enabled || activeOverlay) return;
 
     // Check for cavitation (low intake pressure with pump engaged)
-    if (state.pump.engaged && result.intakePsi < 10 && result.totalGPM > 100) {
+    if (state.interlocks.engaged && state.intakePressurePsi < 10 && diagnostics.totalWaterGpm > 100) {
       if (!dismissedOverlays.has(CAVITATION_OVERLAY.id)) {
         setActiveOverlay(CAVITATION_OVERLAY);
         return;
@@ -47,16 +52,26 @@ export function TrainingOverlay({ enabled = true }: TrainingOverlayProps) {
     }
 
     // Check for overpressure (>400 PSI)
-    if (state.pump.pdp > 400) {
+    if (state.dischargePsi > 400) {
       if (!dismissedOverlays.has(OVERPRESSURE_OVERLAY.id)) {
         setActiveOverlay(OVERPRESSURE_OVERLAY);
         return;
       }
     }
 
+    // Check for instructor tank and foam cell leaks
+    if (tankLeaking && !dismissedOverlays.has(TANK_LEAK_OVERLAY.id)) {
+      setActiveOverlay(TANK_LEAK_OVERLAY);
+      return;
+    }
+    if (foamLeaking && !dismissedOverlays.has(FOAM_LEAK_OVERLAY.id)) {
+      setActiveOverlay(FOAM_LEAK_OVERLAY);
+      return;
+    }
+
     // Check for overheating (placeholder temperatures - would need actual temp monitoring)
     // For now, check if pump has been running at high RPM for extended period
-    if (state.pump.engaged && state.pump.rpm > 2500 && state.tankFillRecircPct < 20) {
+    if (state.interlocks.engaged && state.runtime.rpm > 2500 && state.tankFillRecircPct < 20) {
       // This is a simplified check - real implementation would track temperature over time
       // if (!dismissedOverlays.has(OVERHEATING_OVERLAY.id)) {
       //   setActiveOverlay(OVERHEATING_OVERLAY);
@@ -73,8 +88,8 @@ export function TrainingOverlay({ enabled = true }: TrainingOverlayProps) {
     //   }
     // }
 
-    // Check for new warnings from solver
-    const currentWarnings = result.warnings;
+    // Check for new warnings from the simulation engine
+    const currentWarnings = Array.from(state.warnings);
     const newWarnings = currentWarnings.filter(
       w => !previousWarningsRef.current.includes(w)
     );
@@ -93,7 +108,7 @@ export function TrainingOverlay({ enabled = true }: TrainingOverlayProps) {
         }
       }
     }
-  }, [enabled, activeOverlay, state, result, dismissedOverlays]);
+  }, [enabled, activeOverlay, state, diagnostics, dismissedOverlays, tankLeaking, foamLeaking]);
 
   /**
    * Dismiss the active overlay
@@ -143,10 +158,22 @@ export function TrainingOverlay({ enabled = true }: TrainingOverlayProps) {
    */
   useEffect(() => {
     // Reset dismissed overlays if pump is disengaged or conditions normalize
-    if (!state.pump.engaged) {
+    if (!state.interlocks.engaged) {
       setDismissedOverlays(new Set());
     }
-  }, [state.pump.engaged]);
+  }, [state.interlocks.engaged]);
+
+  /**
+   * Show a leak overlay again when the instructor clears that leak and starts another
+   */
+  useEffect(() => {
+    setDismissedOverlays(prev => {
+      const next = new Set(prev);
+      if (!tankLeaking) next.delete(TANK_LEAK_OVERLAY.id);
+      if (!foamLeaking) next.delete(FOAM_LEAK_OVERLAY.id);
+      return next.size === prev.size ? prev : next;
+    });
+  }, [tankLeaking, foamLeaking]);
 
   // Don't render if disabled or no active overlay
   if (!enabled || !activeOverlay) {
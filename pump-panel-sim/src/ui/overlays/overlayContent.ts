@@ -210,6 +210,66 @@ export const TANK_EMPTY_OVERLAY: OverlayContent = {
   pauseSimulation: false
 };
 
+/**
+ * Booster tank leak warning overlay
+ */
+export const TANK_LEAK_OVERLAY: OverlayContent = {
+  id: 'tank_leak',
+  type: 'warning',
+  title: 'BOOSTER TANK LEAKING',
+  icon: '💧',
+  sections: [
+    {
+      label: 'What is Happening',
+      items: [
+        'The booster tank is losing water faster than the lines are using it',
+        'Tank level will fall even with the pump disengaged',
+        'Time left on tank water is shorter than the flow suggests'
+      ]
+    },
+    {
+      label: 'Required Actions',
+      items: [
+        '⚠️ Watch the tank level gauge, not just the discharge flow',
+        '⚠️ Establish a hydrant or relay supply early',
+        '⚠️ Use tank fill from a hydrant to hold the level up',
+        '⚠️ Report the leak so the apparatus is taken out of service after the incident'
+      ]
+    }
+  ],
+  dismissable: true,
+  pauseSimulation: false
+};
+
+/**
+ * Foam cell leak warning overlay
+ */
+export const FOAM_LEAK_OVERLAY: OverlayContent = {
+  id: 'foam_leak',
+  type: 'warning',
+  title: 'FOAM CELL LEAKING',
+  icon: '🧴',
+  sections: [
+    {
+      label: 'What is Happening',
+      items: [
+        'Foam concentrate is draining from the foam cell',
+        'Foam lines will run out of concentrate sooner than expected'
+      ]
+    },
+    {
+      label: 'Required Actions',
+      items: [
+        '⚠️ Monitor the foam tank level',
+        '⚠️ Request additional concentrate (pails or a foam tender)',
+        '⚠️ Reserve foam for the lines that need it most'
+      ]
+    }
+  ],
+  dismissable: true,
+  pauseSimulation: false
+};
+
 /**
  * Hose burst emergency overlay
  */
@@ -341,6 +401,8 @@ export function getOverlayContent(id: string): OverlayContent | undefined {
     OVERPRESSURE_OVERLAY,
     OVERHEATING_OVERLAY,
     TANK_EMPTY_OVERLAY,
+    TANK_LEAK_OVERLAY,
+    FOAM_LEAK_OVERLAY,
     HOSE_BURST_OVERLAY,
     ...TRAINING_TIPS
   ];
@@ -357,6 +419,8 @@ export function getAllOverlayIds(): string[] {
     OVERPRESSURE_OVERLAY.id,
     OVERHEATING_OVERLAY.id,
     TANK_EMPTY_OVERLAY.id,
+    TANK_LEAK_OVERLAY.id,
+    FOAM_LEAK_OVERLAY.id,
     HOSE_BURST_OVERLAY.id,
     ...TRAINING_TIPS.map(tip => tip.id)
   ];